@@ -0,0 +1,60 @@
+// Service worker for ticket push notifications. The server sends a JSON payload
+// (see server/webPush.ts); "Open ticket" focuses or opens the app on the ticket,
+// "Acknowledge" marks the notification read through its signed link.
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { title: "Physique 57 Tickets", body: event.data ? event.data.text() : "" };
+  }
+
+  const actions = [{ action: "open", title: "Open ticket" }];
+  if (payload.acknowledgeUrl) actions.push({ action: "acknowledge", title: "Acknowledge" });
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "Physique 57 Tickets", {
+      body: payload.body,
+      icon: "/logo.png",
+      badge: "/favicon.png",
+      tag: payload.tag,
+      renotify: !!payload.tag,
+      requireInteraction: !!payload.requireInteraction,
+      data: payload,
+      actions,
+    })
+  );
+});
+
+async function openApp(url) {
+  const target = new URL(url || "/", self.location.origin).href;
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  for (const client of windows) {
+    if (new URL(client.url).origin === self.location.origin && "focus" in client) {
+      await client.focus();
+      if ("navigate" in client) return client.navigate(target);
+      return client;
+    }
+  }
+  return self.clients.openWindow(target);
+}
+
+self.addEventListener("notificationclick", (event) => {
+  const payload = event.notification.data || {};
+  event.notification.close();
+
+  if (event.action === "acknowledge" && payload.acknowledgeUrl) {
+    event.waitUntil(fetch(payload.acknowledgeUrl, { method: "POST" }).catch(() => undefined));
+    return;
+  }
+  event.waitUntil(openApp(payload.url));
+});
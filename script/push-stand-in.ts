@@ -0,0 +1,174 @@
+// Local stand-in for a browser push service, for trying Web Push without a
+// browser. It plays both sides a real push service and browser would: prints a
+// subscription to register for a user, checks the VAPID signature on every push,
+// decrypts the aes128gcm body (RFC 8291) and logs the payload.
+//
+//   npm run push:stand-in [-- --port 8790] [-- --gone]
+//
+// web-push only speaks HTTPS, so the stand-in serves a self-signed certificate
+// (made with openssl) and the app server must trust it: start it with
+// NODE_EXTRA_CA_CERTS pointing at the printed certificate path. With --gone every
+// push is answered 410 Gone, as for an unsubscribed browser, so the server
+// should drop the subscription. Keys persist in the temp directory, so a
+// registered subscription survives restarts.
+
+import crypto from "crypto";
+import https from "https";
+import os from "os";
+import path from "path";
+import { execFileSync } from "child_process";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+
+const args = process.argv.slice(2);
+const port = Number(args[args.indexOf("--port") + 1]) || Number(process.env.PUSH_STAND_IN_PORT) || 8790;
+const gone = args.includes("--gone");
+const stateDir = path.join(os.tmpdir(), "push-stand-in");
+
+interface StandInState {
+  privateKey: string;
+  publicKey: string;
+  auth: string;
+  id: string;
+}
+
+function b64url(buffer: Buffer): string {
+  return buffer.toString("base64url");
+}
+
+function loadState(): StandInState {
+  const file = path.join(stateDir, "keys.json");
+  if (existsSync(file)) return JSON.parse(readFileSync(file, "utf8"));
+
+  const ecdh = crypto.createECDH("prime256v1");
+  ecdh.generateKeys();
+  const state: StandInState = {
+    privateKey: b64url(ecdh.getPrivateKey()),
+    publicKey: b64url(ecdh.getPublicKey()),
+    auth: b64url(crypto.randomBytes(16)),
+    id: crypto.randomUUID(),
+  };
+  writeFileSync(file, JSON.stringify(state, null, 2));
+  return state;
+}
+
+function loadCertificate(): { key: string; cert: string; certPath: string } {
+  const keyPath = path.join(stateDir, "key.pem");
+  const certPath = path.join(stateDir, "cert.pem");
+  if (!existsSync(certPath)) {
+    execFileSync("openssl", [
+      "req", "-x509", "-newkey", "ec", "-pkeyopt", "ec_paramgen_curve:prime256v1", "-nodes",
+      "-keyout", keyPath, "-out", certPath, "-days", "365",
+      "-subj", "/CN=localhost", "-addext", "subjectAltName=DNS:localhost,IP:127.0.0.1",
+    ], { stdio: "ignore" });
+  }
+  return { key: readFileSync(keyPath, "utf8"), cert: readFileSync(certPath, "utf8"), certPath };
+}
+
+// HKDF with a single HMAC round is enough for every length RFC 8291 needs (<= 32)
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  const prk = crypto.createHmac("sha256", salt).update(ikm).digest();
+  return crypto.createHmac("sha256", prk).update(Buffer.concat([info, Buffer.from([1])])).digest().subarray(0, length);
+}
+
+function decrypt(body: Buffer, state: StandInState): string {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const senderPublicKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const ecdh = crypto.createECDH("prime256v1");
+  ecdh.setPrivateKey(Buffer.from(state.privateKey, "base64url"));
+  const receiverPublicKey = Buffer.from(state.publicKey, "base64url");
+  const sharedSecret = ecdh.computeSecret(senderPublicKey);
+
+  const ikm = hkdf(
+    Buffer.from(state.auth, "base64url"),
+    sharedSecret,
+    Buffer.concat([Buffer.from("WebPush: info\0"), receiverPublicKey, senderPublicKey]),
+    32,
+  );
+  const key = hkdf(salt, ikm, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  const decipher = crypto.createDecipheriv("aes-128-gcm", key, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  // The last record ends with a 0x02 delimiter followed by zero padding
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  return padded.subarray(0, end).toString("utf8");
+}
+
+// Checks "vapid t=<jwt>, k=<public key>" the way a push service would
+function verifyVapid(header: string | undefined, origin: string): string | null {
+  const match = header?.match(/^vapid t=([^,\s]+),\s*k=([^,\s]+)$/);
+  if (!match) return "missing VAPID authorization";
+  const [, token, publicKey] = match;
+  const [headerPart, claimsPart, signature] = token.split(".");
+  const raw = Buffer.from(publicKey, "base64url");
+  if (raw.length !== 65 || !signature) return "malformed VAPID token or key";
+
+  const verifier = crypto.createPublicKey({
+    key: { kty: "EC", crv: "P-256", x: b64url(raw.subarray(1, 33)), y: b64url(raw.subarray(33)) },
+    format: "jwk",
+  });
+  const valid = crypto.verify(
+    "sha256",
+    Buffer.from(`${headerPart}.${claimsPart}`),
+    { key: verifier, dsaEncoding: "ieee-p1363" },
+    Buffer.from(signature, "base64url"),
+  );
+  if (!valid) return "VAPID signature doesn't verify";
+
+  const claims = JSON.parse(Buffer.from(claimsPart, "base64url").toString("utf8"));
+  if (claims.aud !== origin) return `VAPID audience ${claims.aud} isn't ${origin}`;
+  if (!claims.exp || claims.exp * 1000 < Date.now()) return "VAPID token expired";
+  return null;
+}
+
+mkdirSync(stateDir, { recursive: true });
+const state = loadState();
+const { key, cert, certPath } = loadCertificate();
+const origin = `https://localhost:${port}`;
+
+const server = https.createServer({ key, cert }, (req, res) => {
+  if (req.method !== "POST" || req.url !== `/push/${state.id}`) {
+    res.writeHead(404).end();
+    return;
+  }
+  const chunks: Buffer[] = [];
+  req.on("data", chunk => chunks.push(chunk));
+  req.on("end", () => {
+    const problem = verifyVapid(req.headers.authorization, origin);
+    if (problem) {
+      console.log(`[push] rejected: ${problem}`);
+      res.writeHead(403).end(problem);
+      return;
+    }
+    if (gone) {
+      console.log("[push] answered 410 Gone");
+      res.writeHead(410).end();
+      return;
+    }
+    try {
+      const payload = decrypt(Buffer.concat(chunks), state);
+      console.log(`[push] TTL=${req.headers.ttl} urgency=${req.headers.urgency || "normal"}`);
+      console.log(JSON.stringify(JSON.parse(payload), null, 2));
+      res.writeHead(201).end();
+    } catch (error) {
+      console.log(`[push] couldn't decrypt: ${error instanceof Error ? error.message : error}`);
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(port, () => {
+  const subscription = {
+    endpoint: `${origin}/push/${state.id}`,
+    keys: { p256dh: state.publicKey, auth: state.auth },
+  };
+  console.log(`Push service stand-in listening on ${origin}${gone ? " (answering 410 Gone)" : ""}`);
+  console.log(`Start the app server with NODE_EXTRA_CA_CERTS=${certPath}`);
+  console.log("Register this subscription as the signed-in user (POST /api/push-subscriptions):");
+  console.log(JSON.stringify(subscription));
+});
@@ -0,0 +1,112 @@
+// Attachment Storage
+// Backends holding attachment file contents, keyed by SHA-256 so identical
+// uploads share one stored object. Local disk is the default; set
+// ATTACHMENT_STORAGE=supabase to use the private Supabase Storage bucket.
+// Each attachment row records its backend, so switching only affects new uploads.
+
+import fs from "fs/promises";
+import path from "path";
+import { createClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+export const ATTACHMENT_BACKENDS = ['local', 'supabase'] as const;
+export type AttachmentBackendName = typeof ATTACHMENT_BACKENDS[number];
+
+export interface AttachmentBackend {
+  name: AttachmentBackendName;
+  exists(key: string): Promise<boolean>;
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+const LOCAL_ROOT = path.resolve(process.env.ATTACHMENT_DIR || 'uploads/attachments');
+const BUCKET = process.env.ATTACHMENT_BUCKET || 'ticket-attachments';
+
+// Keys come from our own hashes, but never let one escape the storage root
+function localPath(key: string): string {
+  const resolved = path.resolve(LOCAL_ROOT, key);
+  if (!resolved.startsWith(LOCAL_ROOT + path.sep)) {
+    throw new Error(`Invalid attachment key: ${key}`);
+  }
+  return resolved;
+}
+
+const localBackend: AttachmentBackend = {
+  name: 'local',
+  async exists(key) {
+    try {
+      await fs.access(localPath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  async put(key, data) {
+    const target = localPath(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await fs.writeFile(target, data, { flag: 'wx' });
+    } catch (error: any) {
+      // Same hash, same bytes: an existing file is already correct
+      if (error.code !== 'EEXIST') throw error;
+    }
+  },
+  async get(key) {
+    return await fs.readFile(localPath(key));
+  },
+  async remove(key) {
+    await fs.rm(localPath(key), { force: true });
+  },
+};
+
+function requireSupabase() {
+  if (!supabase) throw new Error('Supabase Storage selected but Supabase is not configured');
+  return supabase;
+}
+
+const supabaseBackend: AttachmentBackend = {
+  name: 'supabase',
+  async exists(key) {
+    const { data, error } = await requireSupabase().storage.from(BUCKET).list(path.posix.dirname(key), {
+      search: path.posix.basename(key),
+    });
+    if (error) throw error;
+    return (data || []).some(object => object.name === path.posix.basename(key));
+  },
+  async put(key, data, mimeType) {
+    const { error } = await requireSupabase().storage.from(BUCKET).upload(key, data, { contentType: mimeType, upsert: false });
+    if (error && !/already exists/i.test(error.message)) throw error;
+  },
+  async get(key) {
+    const { data, error } = await requireSupabase().storage.from(BUCKET).download(key);
+    if (error) throw error;
+    return Buffer.from(await data.arrayBuffer());
+  },
+  async remove(key) {
+    const { error } = await requireSupabase().storage.from(BUCKET).remove([key]);
+    if (error) throw error;
+  },
+};
+
+const backends: Record<AttachmentBackendName, AttachmentBackend> = {
+  local: localBackend,
+  supabase: supabaseBackend,
+};
+
+export function getAttachmentBackend(name?: string | null): AttachmentBackend {
+  const selected = name || process.env.ATTACHMENT_STORAGE || 'local';
+  const backend = backends[selected as AttachmentBackendName];
+  if (!backend) throw new Error(`Unknown attachment storage backend: ${selected}`);
+  return backend;
+}
+
+// Two-character fan-out keeps directories small
+export function attachmentKey(sha256: string): string {
+  return `${sha256.slice(0, 2)}/${sha256}`;
+}
@@ -0,0 +1,215 @@
+// Attachments
+// Multipart upload handling, validation, dedupe and signed download URLs for
+// ticket and comment attachments. Contents live in an AttachmentBackend
+// (see attachmentStorage.ts); rows in ticketAttachments point at them by hash.
+
+import crypto from "crypto";
+import path from "path";
+import multer from "multer";
+import type { Request, RequestHandler } from "express";
+import type { TicketAttachment } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { storage } from "./storage";
+import { attachmentKey, getAttachmentBackend } from "./attachmentStorage";
+import { canAccessTicket, getStudioScope } from "./studioAccess";
+import { getRequestRoles } from "./supabaseAuth";
+
+export const MAX_ATTACHMENT_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES) || 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+const DOWNLOAD_URL_TTL_SECONDS = 15 * 60;
+
+// Photos, video clips, PDFs and common office documents
+const DEFAULT_ALLOWED_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'video/mp4',
+  'video/quicktime',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+const ALLOWED_TYPES = process.env.ATTACHMENT_ALLOWED_TYPES
+  ? process.env.ATTACHMENT_ALLOWED_TYPES.split(',').map(type => type.trim()).filter(Boolean)
+  : DEFAULT_ALLOWED_TYPES;
+
+// Types the browser may render in place; everything else downloads
+const INLINE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf', 'video/mp4'];
+
+export function isAllowedAttachmentType(mimeType: string): boolean {
+  return ALLOWED_TYPES.includes(mimeType);
+}
+
+class AttachmentTypeError extends Error {}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: MAX_ATTACHMENTS_PER_UPLOAD },
+  fileFilter: (_req, file, callback) => {
+    if (isAllowedAttachmentType(file.mimetype)) return callback(null, true);
+    callback(new AttachmentTypeError(`${file.originalname}: file type ${file.mimetype || 'unknown'} is not allowed`));
+  },
+});
+
+// Parses the `files` field of a multipart body into req.files, answering
+// 413/415/400 for oversized, disallowed or malformed uploads
+export const receiveAttachments: RequestHandler = (req, res, next) => {
+  upload.array('files', MAX_ATTACHMENTS_PER_UPLOAD)(req, res, (error: unknown) => {
+    if (!error) return next();
+    if (error instanceof AttachmentTypeError) {
+      return res.status(415).json({ message: error.message, allowedTypes: ALLOWED_TYPES });
+    }
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ message: `Files may be at most ${Math.round(MAX_ATTACHMENT_BYTES / (1024 * 1024))} MB` });
+      }
+      if (error.code === 'LIMIT_FILE_COUNT' || error.code === 'LIMIT_UNEXPECTED_FILE') {
+        return res.status(400).json({ message: `Upload at most ${MAX_ATTACHMENTS_PER_UPLOAD} files in the "files" field` });
+      }
+      return res.status(400).json({ message: error.message });
+    }
+    next(error);
+  });
+};
+
+// Keeps names safe for Content-Disposition and file systems
+function sanitizeFileName(name: string): string {
+  const base = path.basename(name).normalize('NFKD').replace(/[^\w.\- ]+/g, '_').trim();
+  return (base || 'attachment').slice(0, 200);
+}
+
+// What saveAttachments needs from an upload; multer files and parsed email attachments both fit
+export type IncomingFile = Pick<Express.Multer.File, 'originalname' | 'mimetype' | 'size' | 'buffer'>;
+
+interface SaveAttachmentsOptions {
+  ticketId: string;
+  commentId?: string | null;
+  uploadedByUserId: string;
+  isPublic: boolean;
+}
+
+// Stores each file once per hash. Re-uploading a file already attached to the
+// same ticket or comment returns the existing row instead of a duplicate.
+export async function saveAttachments(files: IncomingFile[], options: SaveAttachmentsOptions): Promise<TicketAttachment[]> {
+  const backend = getAttachmentBackend();
+  const saved: TicketAttachment[] = [];
+
+  for (const file of files) {
+    const sha256 = crypto.createHash('sha256').update(file.buffer).digest('hex');
+    const key = attachmentKey(sha256);
+    const existing = await storage.findAttachmentsByHash(sha256, backend.name);
+
+    const sameTarget = existing.find(attachment =>
+      attachment.ticketId === options.ticketId && (attachment.commentId || null) === (options.commentId || null)
+    );
+    if (sameTarget) {
+      saved.push(sameTarget);
+      continue;
+    }
+
+    if (existing.length === 0 || !(await backend.exists(key))) {
+      await backend.put(key, file.buffer, file.mimetype);
+    }
+
+    saved.push(await storage.createTicketAttachment({
+      ticketId: options.ticketId,
+      commentId: options.commentId || null,
+      fileName: sanitizeFileName(file.originalname),
+      originalFileName: file.originalname.slice(0, 255),
+      filePath: key,
+      fileSize: file.size,
+      mimeType: file.mimetype,
+      sha256,
+      storageBackend: backend.name,
+      uploadedByUserId: options.uploadedByUserId,
+      isPublic: options.isPublic,
+    }));
+  }
+
+  return saved;
+}
+
+async function internalCommentIds(ticketId: string): Promise<Set<string>> {
+  const comments = await storage.getTicketComments(ticketId);
+  return new Set(comments.filter(comment => comment.isInternal).map(comment => comment.id));
+}
+
+export async function isOnInternalComment(attachment: TicketAttachment): Promise<boolean> {
+  return !!attachment.commentId && (await internalCommentIds(attachment.ticketId)).has(attachment.commentId);
+}
+
+// Public attachments are visible to whoever can see their ticket. The rest,
+// and anything on an internal note, need canViewInternalNotes like the notes do.
+export async function filterVisibleAttachments(req: Request, ticketId: string, attachments: TicketAttachment[]): Promise<TicketAttachment[]> {
+  if (hasPermission(await getRequestRoles(req), 'canViewInternalNotes')) return attachments;
+  const internal = await internalCommentIds(ticketId);
+  return attachments.filter(attachment =>
+    attachment.isPublic && !(attachment.commentId && internal.has(attachment.commentId))
+  );
+}
+
+export async function getAccessibleAttachment(req: Request, id: string): Promise<TicketAttachment | undefined> {
+  const attachment = await storage.getTicketAttachment(id);
+  if (!attachment) return undefined;
+  const ticket = await storage.getTicket(attachment.ticketId);
+  if (!ticket || !canAccessTicket(await getStudioScope(req), ticket)) return undefined;
+  const [visible] = await filterVisibleAttachments(req, ticket.id, [attachment]);
+  return visible;
+}
+
+export async function readAttachment(attachment: TicketAttachment): Promise<Buffer> {
+  return await getAttachmentBackend(attachment.storageBackend).get(attachment.filePath);
+}
+
+// Deletes the row, and the stored object once nothing else references it
+export async function deleteAttachment(attachment: TicketAttachment): Promise<void> {
+  await storage.deleteTicketAttachment(attachment.id);
+  if (!attachment.sha256) return;
+  const backend = getAttachmentBackend(attachment.storageBackend);
+  const remaining = await storage.findAttachmentsByHash(attachment.sha256, backend.name);
+  if (remaining.length === 0) {
+    await backend.remove(attachment.filePath);
+  }
+}
+
+export function contentDisposition(attachment: TicketAttachment, forceDownload: boolean): string {
+  const inline = !forceDownload && INLINE_TYPES.includes(attachment.mimeType || '');
+  const fallback = attachment.fileName.replace(/"/g, '');
+  return `${inline ? 'inline' : 'attachment'}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(attachment.originalFileName)}`;
+}
+
+function signingSecret(): string {
+  const secret = process.env.ATTACHMENT_URL_SECRET || process.env.SESSION_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) throw new Error('Set ATTACHMENT_URL_SECRET to sign attachment download URLs');
+  return secret;
+}
+
+function sign(id: string, expires: number): string {
+  return crypto.createHmac('sha256', signingSecret()).update(`${id}.${expires}`).digest('base64url');
+}
+
+// Download links work without a bearer token (img tags, emails) until they expire
+export function signedDownloadUrl(id: string, ttlSeconds = DOWNLOAD_URL_TTL_SECONDS): string {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return `/api/attachments/${id}/download?expires=${expires}&signature=${sign(id, expires)}`;
+}
+
+export function verifyDownloadSignature(id: string, expires: unknown, signature: unknown): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isFinite(expiresAt) || expiresAt < Date.now() / 1000 || typeof signature !== 'string') return false;
+  const expected = Buffer.from(sign(id, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+export function withDownloadUrl(attachment: TicketAttachment) {
+  return { ...attachment, downloadUrl: signedDownloadUrl(attachment.id) };
+}
@@ -0,0 +1,205 @@
+// CSAT Surveys
+// When a ticket with a customer email is resolved or closed, the customer is
+// emailed a signed link to a public survey page (no login) where they rate the
+// help 1-5 and may leave a comment. Links expire after CSAT_SURVEY_TTL_DAYS (14)
+// and are signed with CSAT_SURVEY_SECRET, else SESSION_SECRET or the Supabase
+// service key. Each survey takes one answer, stored in customerFeedback and as the
+// ticket's satisfactionRating. A low score (CSAT_LOW_SCORE, 2, or below) sets
+// followUpRequired and reopens the ticket so someone calls the customer back;
+// with CSAT_LOW_SCORE_ACTION=flag the ticket is only flagged.
+
+import crypto from "crypto";
+import type { CsatResponse, CustomerFeedback, InsertTicket, Ticket } from "@shared/schema";
+import { storage, CSAT_LOW_SCORE } from "./storage";
+import { enqueueEmails } from "./notificationOutbox";
+import { publicUrl } from "./publicUrl";
+import { notifyWatchers } from "./watchers";
+import { publishTicketEvent } from "./liveUpdates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SURVEY_TTL_MS = (Number(process.env.CSAT_SURVEY_TTL_DAYS) || 14) * DAY_MS;
+const CLOSING_STATUSES = ['resolved', 'closed'];
+
+export class CsatSurveyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export interface SurveyToken {
+  ticketId: string;
+  sentAt: Date;
+  expiresAt: Date;
+}
+
+export interface SurveyView {
+  ticketNumber: string | null;
+  ticketTitle: string;
+  studioName: string | null;
+  customerFirstName: string | null;
+  expiresAt: string;
+  // Set once the customer has answered; followUp when the score was low enough
+  // that someone will get back to them
+  response: { rating: number; comment: string | null; followUp: boolean } | null;
+}
+
+function signingSecret(): string | undefined {
+  return process.env.CSAT_SURVEY_SECRET || process.env.SESSION_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`csat:${payload}`).digest('base64url').slice(0, 32);
+}
+
+// <ticketId>.<sent>.<expires>.<signature>, times in epoch seconds
+export function createSurveyToken(ticketId: string, sentAt = new Date()): string | null {
+  const secret = signingSecret();
+  if (!secret) return null;
+  const sent = Math.floor(sentAt.getTime() / 1000);
+  const expires = Math.floor((sentAt.getTime() + SURVEY_TTL_MS) / 1000);
+  const payload = `${ticketId}.${sent}.${expires}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+// Verifies the signature only; callers decide what an expired link shows
+export function parseSurveyToken(token: string): SurveyToken | null {
+  const secret = signingSecret();
+  const parts = token.split('.');
+  if (!secret || parts.length !== 4) return null;
+  const [ticketId, sent, expires, signature] = parts;
+  const expected = Buffer.from(sign(`${ticketId}.${sent}.${expires}`, secret));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+  return { ticketId, sentAt: new Date(Number(sent) * 1000), expiresAt: new Date(Number(expires) * 1000) };
+}
+
+// A survey goes out when a customer ticket first reaches resolved or closed,
+// not again on the step from resolved to closed
+export function shouldSendSurvey(previous: Pick<Ticket, 'status'>, ticket: Ticket): boolean {
+  return CLOSING_STATUSES.includes(ticket.status || '')
+    && !CLOSING_STATUSES.includes(previous.status || '')
+    && !!ticket.customerEmail
+    && !ticket.isInternalTicket
+    && !ticket.mergedIntoTicketId;
+}
+
+export async function queueCsatSurvey(ticket: Ticket): Promise<boolean> {
+  const token = createSurveyToken(ticket.id);
+  const surveyUrl = token ? publicUrl(`/survey/${token}`) : undefined;
+  if (!ticket.customerEmail || !surveyUrl) return false;
+
+  const studio = await storage.getStudio(ticket.studioId);
+  await enqueueEmails(storage, [{
+    eventType: 'csat_survey',
+    recipientEmail: ticket.customerEmail,
+    recipientName: ticket.customerName,
+    ticketId: ticket.id,
+    payload: {
+      ticketNumber: ticket.ticketNumber,
+      ticketTitle: ticket.title,
+      studioName: studio?.name,
+      surveyUrl,
+    },
+  }]);
+  return true;
+}
+
+async function resolveSurvey(token: string): Promise<{ survey: SurveyToken; ticket: Ticket }> {
+  const survey = parseSurveyToken(token);
+  if (!survey) throw new CsatSurveyError("This survey link isn't valid", 404);
+  const ticket = await storage.getTicket(survey.ticketId);
+  if (!ticket) throw new CsatSurveyError("This survey link isn't valid", 404);
+  return { survey, ticket };
+}
+
+function responseView(response: CustomerFeedback | undefined): SurveyView['response'] {
+  return response
+    ? { rating: response.rating!, comment: response.feedback, followUp: response.rating! <= CSAT_LOW_SCORE }
+    : null;
+}
+
+export async function getSurvey(token: string): Promise<SurveyView> {
+  const { survey, ticket } = await resolveSurvey(token);
+  const response = await storage.getCsatResponse(ticket.id, survey.sentAt);
+  if (!response && survey.expiresAt.getTime() < Date.now()) {
+    throw new CsatSurveyError('This survey has expired', 410);
+  }
+  const studio = await storage.getStudio(ticket.studioId);
+  return {
+    ticketNumber: ticket.ticketNumber,
+    ticketTitle: ticket.title,
+    studioName: studio?.name || null,
+    customerFirstName: ticket.customerName?.trim().split(/\s+/)[0] || null,
+    expiresAt: survey.expiresAt.toISOString(),
+    response: responseView(response),
+  };
+}
+
+export async function submitSurvey(token: string, answer: CsatResponse): Promise<SurveyView['response']> {
+  const { survey, ticket } = await resolveSurvey(token);
+  if (survey.expiresAt.getTime() < Date.now()) throw new CsatSurveyError('This survey has expired', 410);
+
+  const lowScore = answer.rating <= CSAT_LOW_SCORE;
+  const reopen = lowScore
+    && process.env.CSAT_LOW_SCORE_ACTION !== 'flag'
+    && CLOSING_STATUSES.includes(ticket.status || '');
+
+  const { response, updated } = await storage.transaction(async (tx) => {
+    if (await tx.getCsatResponse(ticket.id, survey.sentAt)) {
+      throw new CsatSurveyError('Thanks, we already have your answer to this survey', 409);
+    }
+    // The unique (ticketId, surveySentAt) key settles concurrent submissions
+    const response = await tx.createCsatResponse({
+      ticketId: ticket.id,
+      customerEmail: ticket.customerEmail,
+      customerName: ticket.customerName,
+      rating: answer.rating,
+      feedback: answer.comment || null,
+      followUpRequired: lowScore,
+      surveySentAt: survey.sentAt,
+    });
+    if (!response) {
+      throw new CsatSurveyError('Thanks, we already have your answer to this survey', 409);
+    }
+    await tx.createTicketHistory({
+      ticketId: ticket.id,
+      action: 'csat_received',
+      fieldChanged: 'satisfactionRating',
+      oldValue: String(ticket.satisfactionRating ?? ''),
+      newValue: String(answer.rating),
+      changeReason: answer.comment || undefined,
+      automatedChange: true,
+    });
+
+    const now = new Date();
+    const changes: Partial<InsertTicket> = { satisfactionRating: answer.rating, lastActivityAt: now };
+    if (reopen) {
+      changes.status = 'reopened';
+      changes.reopenedAt = now;
+      await tx.createTicketHistory({
+        ticketId: ticket.id,
+        action: 'updated',
+        fieldChanged: 'status',
+        oldValue: ticket.status || '',
+        newValue: 'reopened',
+        changeReason: `Customer rated ${answer.rating}/5`,
+        automatedChange: true,
+      });
+    }
+    const updated = await tx.updateTicket(ticket.id, changes);
+    return { response, updated: updated || ticket };
+  });
+
+  if (lowScore) {
+    await notifyWatchers({
+      ticket: updated,
+      event: reopen ? 'status' : 'update',
+      title: reopen
+        ? `${updated.ticketNumber} reopened after a ${answer.rating}/5 rating`
+        : `${updated.ticketNumber} needs follow-up: rated ${answer.rating}/5`,
+      message: answer.comment || updated.title,
+    });
+  }
+  publishTicketEvent({ type: 'ticket.updated', ticket: updated });
+  return responseView(response);
+}
@@ -0,0 +1,226 @@
+// Customer Portal
+// A public status page for customers: they find a ticket by its number and the
+// email it was raised with, or follow the magic link in their confirmation
+// email. Either way they get a signed access token (PORTAL_LINK_SECRET, else
+// SESSION_SECRET or the Supabase service key) bound to the ticket and that email,
+// so changing the ticket's customer email revokes old links. The portal shows the
+// status and public comments only, never internal notes, and names staff by first
+// name alone. Customer replies are added as comments by the inbound account
+// (PORTAL_USER_ID, else INBOUND_EMAIL_USER_ID) with the customer as author, and
+// reach the assignee and watchers like any other comment.
+
+import crypto from "crypto";
+import type { Ticket, TicketComment } from "@shared/schema";
+import { storage } from "./storage";
+import { getPublicBaseUrl } from "./publicUrl";
+import { dispatchNotifications } from "./notificationDispatch";
+import { notifyWatchers } from "./watchers";
+import { runWorkflows } from "./workflowEngine";
+import { publishTicketEvent } from "./liveUpdates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Emailed links stay usable for the life of a typical ticket
+const MAGIC_LINK_TTL_MS = (Number(process.env.PORTAL_LINK_TTL_DAYS) || 30) * DAY_MS;
+// Tokens from a number + email lookup last one sitting
+const LOOKUP_TTL_MS = 12 * 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const STATUS_LABELS: Record<string, string> = {
+  new: 'Received',
+  assigned: 'Assigned',
+  in_progress: 'In progress',
+  pending_customer: 'Waiting for your reply',
+  resolved: 'Resolved',
+  closed: 'Closed',
+  reopened: 'Reopened',
+};
+
+export class PortalError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export interface PortalComment {
+  id: string;
+  fromCustomer: boolean;
+  // The customer's own name, or a staff member's first name
+  authorName: string;
+  content: string;
+  createdAt: Date | null;
+}
+
+export interface PortalTicket {
+  ticketNumber: string | null;
+  title: string;
+  status: string;
+  statusLabel: string;
+  studioName: string | null;
+  assigneeFirstName: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  resolvedAt: Date | null;
+  canReply: boolean;
+  comments: PortalComment[];
+}
+
+function signingSecret(): string {
+  const secret = process.env.PORTAL_LINK_SECRET || process.env.SESSION_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) throw new PortalError('The status portal is not configured', 503);
+  return secret;
+}
+
+function sign(ticketId: string, expires: string, email: string): string {
+  return crypto.createHmac('sha256', signingSecret())
+    .update(`portal:${ticketId}.${expires}.${email.trim().toLowerCase()}`)
+    .digest('base64url')
+    .slice(0, 32);
+}
+
+function issueToken(ticket: Pick<Ticket, 'id' | 'customerEmail'>, ttlMs: number): string {
+  const expires = String(Math.floor((Date.now() + ttlMs) / 1000));
+  return `${ticket.id}.${expires}.${sign(ticket.id, expires, ticket.customerEmail || '')}`;
+}
+
+// The magic link for a ticket's confirmation email, or undefined when the
+// ticket has no customer email or no public base URL is known
+export function portalLink(ticket: Pick<Ticket, 'id' | 'customerEmail'>, baseUrl = getPublicBaseUrl()): string | undefined {
+  if (!ticket.customerEmail || !baseUrl) return undefined;
+  try {
+    return `${baseUrl}/status/${issueToken(ticket, MAGIC_LINK_TTL_MS)}`;
+  } catch {
+    return undefined;
+  }
+}
+
+async function ticketForToken(token: string): Promise<Ticket> {
+  const [ticketId, expires, signature] = token.split('.');
+  const invalid = new PortalError("This link isn't valid or has expired. Look your request up by its number instead.", 404);
+  if (!ticketId || !expires || !signature || Number(expires) * 1000 < Date.now()) throw invalid;
+  if (!UUID_PATTERN.test(ticketId)) throw invalid;
+
+  // Internal tickets stay off the portal, as in lookUpTicket
+  const ticket = await storage.getTicket(ticketId);
+  if (!ticket?.customerEmail || ticket.isInternalTicket) throw invalid;
+  const expected = Buffer.from(sign(ticket.id, expires, ticket.customerEmail));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) throw invalid;
+  return ticket;
+}
+
+// The same answer for an unknown number and a wrong email, so the form can't
+// be used to find out which ticket numbers exist
+export async function lookUpTicket(ticketNumber: string, email: string): Promise<string> {
+  const number = ticketNumber.trim();
+  const ticket = (await storage.getTicketByNumber(number)) || (await storage.getTicketByNumber(number.toUpperCase()));
+  const matches = !!ticket?.customerEmail
+    && ticket.customerEmail.trim().toLowerCase() === email.trim().toLowerCase()
+    && !ticket.isInternalTicket;
+  if (!ticket || !matches) {
+    throw new PortalError("We couldn't find a request with that number and email address", 404);
+  }
+  return issueToken(ticket, LOOKUP_TTL_MS);
+}
+
+function firstName(name: string | null | undefined): string | null {
+  return name?.trim().split(/\s+/)[0] || null;
+}
+
+async function staffFirstNames(userIds: string[]): Promise<Map<string, string | null>> {
+  const unique = Array.from(new Set(userIds));
+  const users = await Promise.all(unique.map(id => storage.getUser(id)));
+  return new Map(unique.map((id, index) => [id, firstName(users[index]?.firstName)]));
+}
+
+// Comments an outsider wrote carry authorEmail; the customer's are the ones
+// from the ticket's own email address
+function isFromCustomer(comment: TicketComment, ticket: Ticket): boolean {
+  return !!comment.authorEmail
+    && comment.authorEmail.trim().toLowerCase() === ticket.customerEmail?.trim().toLowerCase();
+}
+
+export async function getPortalTicket(token: string): Promise<PortalTicket> {
+  const ticket = await ticketForToken(token);
+  const comments = (await storage.getTicketComments(ticket.id))
+    .filter(comment => !comment.isInternal)
+    .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+  const names = await staffFirstNames([
+    ...comments.filter(comment => !comment.authorEmail).map(comment => comment.userId),
+    ...(ticket.assignedToUserId ? [ticket.assignedToUserId] : []),
+  ]);
+  const studio = await storage.getStudio(ticket.studioId);
+  const status = ticket.mergedIntoTicketId ? 'closed' : ticket.status || 'new';
+
+  return {
+    ticketNumber: ticket.ticketNumber,
+    title: ticket.title,
+    status,
+    statusLabel: STATUS_LABELS[status] || status.replace(/_/g, ' '),
+    studioName: studio?.name || null,
+    assigneeFirstName: ticket.assignedToUserId ? names.get(ticket.assignedToUserId) || null : null,
+    createdAt: ticket.createdAt,
+    updatedAt: ticket.updatedAt,
+    resolvedAt: ticket.resolvedAt,
+    canReply: status !== 'closed',
+    comments: comments.map(comment => {
+      const fromCustomer = isFromCustomer(comment, ticket);
+      return {
+        id: comment.id,
+        fromCustomer,
+        authorName: fromCustomer
+          ? firstName(comment.authorName) || 'You'
+          : comment.authorEmail
+            ? firstName(comment.authorName) || 'Guest'
+            : names.get(comment.userId) || 'Support team',
+        content: comment.content,
+        createdAt: comment.createdAt,
+      };
+    }),
+  };
+}
+
+export async function addPortalReply(token: string, content: string): Promise<PortalComment> {
+  const ticket = await ticketForToken(token);
+  if (ticket.status === 'closed' || ticket.mergedIntoTicketId) {
+    throw new PortalError('This request is closed. Please raise a new one if you still need help.', 409);
+  }
+  const authorId = process.env.PORTAL_USER_ID || process.env.INBOUND_EMAIL_USER_ID;
+  if (!authorId) throw new PortalError('Replies are not available right now', 503);
+
+  const comment = await storage.createTicketComment({
+    ticketId: ticket.id,
+    userId: authorId,
+    content,
+    commentType: 'portal',
+    isInternal: false,
+    authorName: ticket.customerName || ticket.customerEmail,
+    authorEmail: ticket.customerEmail,
+  });
+  const current = await runWorkflows({ event: 'comment_added', ticket, comment, actorId: authorId });
+
+  const customer = ticket.customerName || 'The customer';
+  const title = `${customer} replied on ${current.ticketNumber}`;
+  const message = content.length > 200 ? `${content.slice(0, 197)}...` : content;
+  const notified: string[] = [];
+  if (current.assignedToUserId) {
+    await dispatchNotifications([{
+      userId: current.assignedToUserId,
+      event: 'comment',
+      ticket: current,
+      title,
+      message,
+      actionUrl: `/tickets/${current.id}#comment-${comment.id}`,
+    }]);
+    notified.push(current.assignedToUserId);
+  }
+  await notifyWatchers({ ticket: current, event: 'comment', title, message, skipUserIds: notified });
+  publishTicketEvent({ type: 'ticket.commented', ticket: current, comment });
+
+  return {
+    id: comment.id,
+    fromCustomer: true,
+    authorName: firstName(comment.authorName) || 'You',
+    content: comment.content,
+    createdAt: comment.createdAt,
+  };
+}
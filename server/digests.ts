@@ -0,0 +1,286 @@
+// Digests
+// A daily email per user summarizing open tickets assigned to them, tickets close
+// to their SLA deadline, new tickets in their studios and team, and mentions since
+// the previous digest. Managers can also get a weekly summary with studio-level
+// stats. Each digest goes out once per local day at the user's chosen time; the
+// scheduler catches up for a few hours if the server was down at that moment.
+
+import type { Request } from "express";
+import { createClient } from "@supabase/supabase-js";
+import type { DigestKind, DigestSettings, Ticket } from "@shared/schema";
+import { DEFAULT_TIME_ZONE } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { isNearingSLA, SLA_RULES } from "@shared/ticketRules";
+import { db } from "./db";
+import { storage, OPEN_STATUSES } from "./storage";
+import { enqueueEmails } from "./notificationOutbox";
+import type { DigestContent, DigestStudioStats, DigestTicket } from "./emailTemplates";
+import { publicUrl } from "./publicUrl";
+import { localTime, minutesOfDay } from "./localTime";
+import { getRequestRoles } from "./supabaseAuth";
+import { canAccessTicket, getStudioScope } from "./studioAccess";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+// Tickets listed per section; the heading still shows the full count
+const SECTION_LIMIT = 10;
+// How long after deliveryTime a missed digest is still sent
+const CATCH_UP_MINUTES = 180;
+const PERIOD_MS: Record<DigestKind, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export class DigestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+interface DigestUser {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  displayName: string | null;
+  teamId: string | null;
+}
+
+export interface DigestRunResult {
+  sent: number;
+  empty: number;
+  failed: number;
+}
+
+export const DEFAULT_DIGEST_SETTINGS: Omit<DigestSettings, 'userId'> = {
+  dailyEnabled: false,
+  weeklyEnabled: false,
+  deliveryTime: '08:00',
+  timeZone: DEFAULT_TIME_ZONE,
+  weeklyDay: 1,
+  lastDailySentAt: null,
+  lastWeeklySentAt: null,
+  updatedAt: null,
+};
+
+export function isDigestDue(settings: DigestSettings, kind: DigestKind, now: Date = new Date()): boolean {
+  if (kind === 'daily' ? !settings.dailyEnabled : !settings.weeklyEnabled) return false;
+
+  const local = localTime(now, settings.timeZone);
+  if (kind === 'weekly' && local.weekday !== settings.weeklyDay) return false;
+
+  const start = minutesOfDay(settings.deliveryTime);
+  if (local.minutes < start || local.minutes > start + CATCH_UP_MINUTES) return false;
+
+  const lastSent = kind === 'daily' ? settings.lastDailySentAt : settings.lastWeeklySentAt;
+  return !lastSent || localTime(lastSent, settings.timeZone).date !== local.date;
+}
+
+function displayName(user: DigestUser): string {
+  return user.displayName || [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'there';
+}
+
+function periodLabel(kind: DigestKind, since: Date, now: Date, timeZone: string): string {
+  const format = (date: Date, options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat('en-GB', { timeZone, ...options }).format(date);
+  return kind === 'daily'
+    ? format(now, { weekday: 'short', day: 'numeric', month: 'short' })
+    : `${format(since, { day: 'numeric', month: 'short' })} – ${format(now, { day: 'numeric', month: 'short' })}`;
+}
+
+function toDigestTicket(ticket: Ticket): DigestTicket {
+  return {
+    ticketNumber: ticket.ticketNumber,
+    title: ticket.title,
+    priority: ticket.priority,
+    status: ticket.status,
+    slaDueAt: ticket.slaDueAt ? new Date(ticket.slaDueAt).toISOString() : null,
+    url: publicUrl(`/tickets/${ticket.id}`),
+  };
+}
+
+function isSlaAtRisk(ticket: Ticket): boolean {
+  if (!ticket.slaDueAt || !ticket.priority || !(ticket.priority in SLA_RULES)) return false;
+  return isNearingSLA(new Date(ticket.slaDueAt), ticket.priority as keyof typeof SLA_RULES);
+}
+
+async function findUsers(ids: string[]): Promise<DigestUser[]> {
+  if (!supabase || ids.length === 0) return [];
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, firstName, lastName, displayName, teamId')
+    .in('id', ids)
+    .eq('isActive', true);
+  if (error) throw error;
+  return (data || []) as DigestUser[];
+}
+
+async function studioStats(studioIds: string[] | null, created: Ticket[]): Promise<DigestStudioStats[]> {
+  const studios = (await storage.getStudios())
+    .filter(studio => studio.isActive !== false && (!studioIds || studioIds.includes(studio.id)));
+  return Promise.all(studios.map(async studio => {
+    const stats = await storage.getDashboardStats({ userId: '', allStudios: false, studioIds: [studio.id] });
+    return {
+      name: studio.name,
+      totalOpen: stats.totalOpen,
+      newThisPeriod: created.filter(ticket => ticket.studioId === studio.id).length,
+      slaBreached: stats.slaBreached,
+      avgResolutionHours: stats.avgResolutionHours,
+    };
+  }));
+}
+
+// Returns null for a weekly digest requested by someone who can't see reports
+export async function buildDigest(
+  user: DigestUser,
+  kind: DigestKind,
+  since: Date,
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE,
+): Promise<DigestContent | null> {
+  const req = { user: { claims: { sub: user.id, email: user.email } } } as unknown as Request;
+  const [roles, scope] = await Promise.all([getRequestRoles(req), getStudioScope(req)]);
+  if (kind === 'weekly' && !hasPermission(roles, 'canManageReports')) return null;
+
+  const open = OPEN_STATUSES.join(',');
+  const [assigned, visibleOpen, createdSince, notifications] = await Promise.all([
+    storage.getTickets({ assignedToUserId: user.id, status: open }),
+    storage.getTickets({ status: open, scope }),
+    storage.getTickets({ createdAfter: since.toISOString() }),
+    storage.getNotifications(user.id),
+  ]);
+
+  const slaAtRisk = visibleOpen
+    .filter(isSlaAtRisk)
+    .sort((a, b) => new Date(a.slaDueAt!).getTime() - new Date(b.slaDueAt!).getTime());
+  const created = createdSince.filter(ticket =>
+    (!!user.teamId && ticket.assignedTeamId === user.teamId) || canAccessTicket(scope, ticket));
+  const mentions = notifications.filter(notification =>
+    notification.type === 'mention' && notification.createdAt && new Date(notification.createdAt) >= since);
+
+  return {
+    periodLabel: periodLabel(kind, since, now, timeZone),
+    assigned: assigned.slice(0, SECTION_LIMIT).map(toDigestTicket),
+    assignedTotal: assigned.length,
+    slaAtRisk: slaAtRisk.slice(0, SECTION_LIMIT).map(toDigestTicket),
+    slaAtRiskTotal: slaAtRisk.length,
+    newTickets: created.slice(0, SECTION_LIMIT).map(toDigestTicket),
+    newTotal: created.length,
+    mentions: mentions.slice(0, SECTION_LIMIT).map(notification => ({
+      title: notification.title || 'You were mentioned',
+      excerpt: notification.message || '',
+      url: notification.actionUrl ? publicUrl(notification.actionUrl) : undefined,
+    })),
+    studios: kind === 'weekly'
+      ? await studioStats(scope.allStudios ? null : scope.studioIds, created)
+      : undefined,
+  };
+}
+
+function isEmpty(digest: DigestContent): boolean {
+  return digest.assignedTotal === 0
+    && digest.slaAtRiskTotal === 0
+    && digest.newTotal === 0
+    && digest.mentions.length === 0
+    && !digest.studios?.length;
+}
+
+// Builds and queues one digest, then records it as sent for today even when
+// there was nothing to report, so the scheduler doesn't rebuild it every tick
+async function sendDigest(user: DigestUser, settings: DigestSettings, kind: DigestKind, now: Date): Promise<boolean> {
+  const lastSent = kind === 'daily' ? settings.lastDailySentAt : settings.lastWeeklySentAt;
+  const since = lastSent ? new Date(lastSent) : new Date(now.getTime() - PERIOD_MS[kind]);
+  const digest = await buildDigest(user, kind, since, now, settings.timeZone);
+  const send = !!digest && !!user.email && !isEmpty(digest);
+
+  await storage.transaction(async (tx) => {
+    if (send) {
+      await enqueueEmails(tx, [{
+        eventType: `${kind}_digest`,
+        recipientEmail: user.email!,
+        recipientName: displayName(user),
+        payload: { digest },
+      }]);
+    }
+    await tx.upsertDigestSettings(user.id, kind === 'daily' ? { lastDailySentAt: now } : { lastWeeklySentAt: now });
+  });
+  return send;
+}
+
+export async function runDigests(now: Date = new Date()): Promise<DigestRunResult> {
+  const result: DigestRunResult = { sent: 0, empty: 0, failed: 0 };
+  const due = (await storage.getEnabledDigestSettings()).flatMap(settings =>
+    (['daily', 'weekly'] as const)
+      .filter(kind => {
+        try {
+          return isDigestDue(settings, kind, now);
+        } catch {
+          // A time zone the runtime no longer knows; skip until the user picks another
+          return false;
+        }
+      })
+      .map(kind => ({ settings, kind })));
+  if (due.length === 0) return result;
+
+  const users = new Map((await findUsers(Array.from(new Set(due.map(d => d.settings.userId))))).map(user => [user.id, user]));
+  for (const { settings, kind } of due) {
+    const user = users.get(settings.userId);
+    if (!user) continue;
+    try {
+      if (await sendDigest(user, settings, kind, now)) result.sent++;
+      else result.empty++;
+    } catch (error) {
+      console.error(`Digests: failed to send ${kind} digest to ${user.id}:`, error);
+      result.failed++;
+    }
+  }
+  return result;
+}
+
+// Queues a digest covering the last day or week right away, without touching
+// the schedule
+export async function sendTestDigest(userId: string, kind: DigestKind): Promise<void> {
+  const [user] = await findUsers([userId]);
+  if (!user?.email) throw new DigestError('No email address on your profile', 400);
+
+  const settings = await storage.getDigestSettings(userId);
+  const now = new Date();
+  const digest = await buildDigest(user, kind, new Date(now.getTime() - PERIOD_MS[kind]), now, settings?.timeZone);
+  if (!digest) throw new DigestError('The weekly summary is for managers', 403);
+
+  await enqueueEmails(storage, [{
+    eventType: `${kind}_digest`,
+    recipientEmail: user.email,
+    recipientName: displayName(user),
+    payload: { digest },
+  }]);
+}
+
+let running = false;
+
+async function runScheduledDigests() {
+  if (running) return;
+  running = true;
+  try {
+    const result = await runDigests();
+    if (result.sent > 0 || result.failed > 0) {
+      console.log(`Digests: queued ${result.sent}, nothing to report for ${result.empty}, failed ${result.failed}`);
+    }
+  } catch (error) {
+    console.error('Digest scheduler error:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startDigestScheduler(intervalMs: number = parseInt(process.env.DIGEST_CHECK_INTERVAL_MS || '300000', 10)) {
+  if (!db || !supabase) {
+    console.warn('Digest scheduler disabled: DATABASE_URL or Supabase credentials not set');
+    return null;
+  }
+  return setInterval(runScheduledDigests, intervalMs);
+}
@@ -0,0 +1,382 @@
+// Notification Email Templates
+// Subject and HTML for each notification email the outbox sends. Everything
+// interpolated from tickets or people is escaped; links come from the payload's
+// ticketUrl or, failing that, the public base URL.
+
+export type NotificationEmailType =
+  | "assignment"
+  | "status_change"
+  | "escalation"
+  | "closure"
+  | "comment"
+  | "mention"
+  | "notification"
+  | "csat_survey"
+  | "daily_digest"
+  | "weekly_digest";
+
+export interface DigestTicket {
+  ticketNumber: string | null;
+  title: string;
+  priority: string | null;
+  status: string | null;
+  slaDueAt?: string | null;
+  url?: string;
+}
+
+export interface DigestStudioStats {
+  name: string;
+  totalOpen: number;
+  newThisPeriod: number;
+  slaBreached: number;
+  avgResolutionHours: number;
+}
+
+export interface DigestContent {
+  periodLabel: string;
+  assigned: DigestTicket[];
+  assignedTotal: number;
+  slaAtRisk: DigestTicket[];
+  slaAtRiskTotal: number;
+  newTickets: DigestTicket[];
+  newTotal: number;
+  mentions: { title: string; excerpt: string; url?: string }[];
+  // Weekly manager digest only
+  studios?: DigestStudioStats[];
+}
+
+export interface NotificationEmailData {
+  type: NotificationEmailType | string;
+  ticketNumber?: string;
+  ticketTitle?: string;
+  recipientEmail: string;
+  recipientName?: string;
+  assigneeName?: string;
+  oldStatus?: string;
+  newStatus?: string;
+  studioName?: string;
+  priority?: string;
+  category?: string;
+  escalationReason?: string;
+  mentionedBy?: string;
+  commentExcerpt?: string;
+  ticketUrl?: string;
+  // Generic "notification" emails repeat the in-app title and message
+  title?: string;
+  message?: string;
+  // Signed link to the public CSAT survey page
+  surveyUrl?: string;
+  digest?: DigestContent;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const text = (value: string | null | undefined, fallback = "") => escapeHtml(value || fallback);
+
+interface Layout {
+  accent: string;
+  gradient: string;
+  heading: string;
+  body: string;
+  footer: string;
+  extraStyles?: string;
+}
+
+function layout({ accent, gradient, heading, body, footer, extraStyles = "" }: Layout): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f4f4f5; margin: 0; padding: 20px; }
+        .container { max-width: 600px; margin: 0 auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+        .header { background: ${gradient}; color: white; padding: 24px; text-align: center; }
+        .header h1 { margin: 0; font-size: 24px; }
+        .content { padding: 24px; }
+        .ticket-info { background: #f9fafb; border-radius: 8px; padding: 16px; margin: 16px 0; }
+        .ticket-info p { margin: 8px 0; color: #374151; }
+        .label { font-weight: 600; color: #6b7280; }
+        .btn { display: inline-block; background: ${accent}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; margin-top: 16px; }
+        .footer { padding: 16px 24px; background: #f9fafb; text-align: center; color: #6b7280; font-size: 12px; }
+        ${extraStyles}
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${heading}</h1>
+        </div>
+        <div class="content">
+          ${body}
+        </div>
+        <div class="footer">
+          <p>${footer}</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+function digestTicketList(tickets: DigestTicket[], total: number, empty: string): string {
+  if (tickets.length === 0) return `<p class="muted">${empty}</p>`;
+  const rows = tickets.map(ticket => `
+    <tr>
+      <td><a href="${escapeHtml(ticket.url || "#")}">${text(ticket.ticketNumber)}</a></td>
+      <td>${text(ticket.title)}</td>
+      <td><span class="priority-${text(ticket.priority)}">${text(ticket.priority)}</span></td>
+      <td>${ticket.slaDueAt ? text(new Date(ticket.slaDueAt).toUTCString().slice(0, 22)) : text(ticket.status?.replace(/_/g, " "))}</td>
+    </tr>`).join("");
+  const more = total > tickets.length ? `<p class="muted">…and ${total - tickets.length} more</p>` : "";
+  return `<table class="digest">${rows}</table>${more}`;
+}
+
+function renderDigest(data: NotificationEmailData, weekly: boolean, baseUrl?: string): RenderedEmail {
+  const digest = data.digest!;
+  const studios = weekly && digest.studios?.length
+    ? `
+      <h2>Studios</h2>
+      <table class="digest">
+        <tr><th>Studio</th><th>Open</th><th>New</th><th>SLA breached</th><th>Avg. resolution</th></tr>
+        ${digest.studios.map(studio => `
+          <tr>
+            <td>${text(studio.name)}</td>
+            <td>${studio.totalOpen}</td>
+            <td>${studio.newThisPeriod}</td>
+            <td>${studio.slaBreached}</td>
+            <td>${studio.avgResolutionHours ? `${studio.avgResolutionHours.toFixed(1)} h` : "—"}</td>
+          </tr>`).join("")}
+      </table>`
+    : "";
+  const mentions = digest.mentions.length > 0
+    ? digest.mentions.map(mention => `
+        <div class="quote"><a href="${escapeHtml(mention.url || "#")}">${text(mention.title)}</a><br>${text(mention.excerpt)}</div>`).join("")
+    : `<p class="muted">No new mentions.</p>`;
+
+  return {
+    subject: weekly
+      ? `📊 Weekly summary: ${digest.periodLabel}`
+      : `☀️ Your ticket digest for ${digest.periodLabel}`,
+    html: layout({
+      accent: "#6366f1",
+      gradient: "linear-gradient(135deg, #6366f1 0%, #0ea5e9 100%)",
+      heading: weekly ? "📊 Weekly Summary" : "☀️ Daily Digest",
+      extraStyles: `
+        h2 { font-size: 16px; margin: 24px 0 8px; color: #111827; }
+        .digest { width: 100%; border-collapse: collapse; font-size: 13px; }
+        .digest td, .digest th { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; color: #374151; }
+        .digest a { color: #6366f1; text-decoration: none; white-space: nowrap; }
+        .muted { color: #6b7280; font-size: 13px; }
+        .quote { background: #f9fafb; border-left: 4px solid #6366f1; border-radius: 4px; padding: 8px 12px; margin: 8px 0; color: #374151; font-size: 13px; }
+        .priority-critical { color: #dc2626; font-weight: bold; }
+        .priority-high { color: #ea580c; font-weight: bold; }
+      `,
+      body: `
+        <p>Hi ${text(data.recipientName, "there")}, here's ${weekly ? "the week" : "what's waiting for you"} (${text(digest.periodLabel)}).</p>
+        ${studios}
+        <h2>Assigned to you (${digest.assignedTotal})</h2>
+        ${digestTicketList(digest.assigned, digest.assignedTotal, "Nothing open is assigned to you.")}
+        <h2>SLA at risk (${digest.slaAtRiskTotal})</h2>
+        ${digestTicketList(digest.slaAtRisk, digest.slaAtRiskTotal, "No tickets are close to their SLA deadline.")}
+        <h2>New in your studios and team (${digest.newTotal})</h2>
+        ${digestTicketList(digest.newTickets, digest.newTotal, "No new tickets.")}
+        <h2>Mentions (${digest.mentions.length})</h2>
+        ${mentions}
+        <a href="${escapeHtml(`${baseUrl || ""}/tickets`)}" class="btn">Open Tickets</a>
+      `,
+      footer: "Physique 57 Ticket System • Change your digest schedule in Settings → Notifications",
+    }),
+  };
+}
+
+export function renderNotificationEmail(data: NotificationEmailData, baseUrl?: string): RenderedEmail {
+  const ticketUrl = escapeHtml(data.ticketUrl || `${baseUrl || ""}/tickets`);
+  const ticketNumber = text(data.ticketNumber);
+  const ticketTitle = text(data.ticketTitle);
+
+  switch (data.type) {
+    case "assignment":
+      return {
+        subject: `🎫 New Ticket Assigned: ${data.ticketNumber} - ${data.ticketTitle}`,
+        html: layout({
+          accent: "#6366f1",
+          gradient: "linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)",
+          heading: "🎫 New Ticket Assignment",
+          extraStyles: `
+            .priority-critical { color: #dc2626; font-weight: bold; }
+            .priority-high { color: #ea580c; font-weight: bold; }
+            .priority-medium { color: #ca8a04; }
+            .priority-low { color: #16a34a; }
+          `,
+          body: `
+            <p>Hi ${text(data.recipientName, "there")},</p>
+            <p>A new ticket has been assigned to you and requires your attention.</p>
+            <div class="ticket-info">
+              <p><span class="label">Ticket Number:</span> ${ticketNumber}</p>
+              <p><span class="label">Title:</span> ${ticketTitle}</p>
+              <p><span class="label">Priority:</span> <span class="priority-${text(data.priority)}">${text(data.priority?.toUpperCase())}</span></p>
+              <p><span class="label">Category:</span> ${text(data.category, "N/A")}</p>
+              <p><span class="label">Studio:</span> ${text(data.studioName, "N/A")}</p>
+            </div>
+            <a href="${ticketUrl}" class="btn">View Ticket</a>
+          `,
+          footer: "Physique 57 Ticket System • Do not reply to this email",
+        }),
+      };
+
+    case "escalation":
+      return {
+        subject: `🚨 ESCALATION: ${data.ticketNumber} - ${data.ticketTitle}`,
+        html: layout({
+          accent: "#dc2626",
+          gradient: "linear-gradient(135deg, #dc2626 0%, #ea580c 100%)",
+          heading: "🚨 Ticket Escalation Alert",
+          extraStyles: ".alert-box { background: #fef2f2; border: 1px solid #fecaca; border-radius: 8px; padding: 16px; margin: 16px 0; }",
+          body: `
+            <p>Hi ${text(data.recipientName, "Manager")},</p>
+            <div class="alert-box">
+              <strong>⚠️ This ticket has been automatically escalated and requires immediate attention.</strong>
+              <p><strong>Reason:</strong> ${text(data.escalationReason, "Priority ticket unassigned or unresolved past SLA")}</p>
+            </div>
+            <div class="ticket-info">
+              <p><span class="label">Ticket Number:</span> ${ticketNumber}</p>
+              <p><span class="label">Title:</span> ${ticketTitle}</p>
+              <p><span class="label">Priority:</span> <span style="color: #dc2626; font-weight: bold;">${text(data.priority?.toUpperCase())}</span></p>
+              <p><span class="label">Studio:</span> ${text(data.studioName, "N/A")}</p>
+            </div>
+            <a href="${ticketUrl}" class="btn">Take Action Now</a>
+          `,
+          footer: "Physique 57 Ticket System • Escalation Alert",
+        }),
+      };
+
+    case "status_change":
+      return {
+        subject: `📋 Ticket Update: ${data.ticketNumber} - Status Changed to ${data.newStatus}`,
+        html: layout({
+          accent: "#0ea5e9",
+          gradient: "linear-gradient(135deg, #0ea5e9 0%, #06b6d4 100%)",
+          heading: "📋 Ticket Status Update",
+          extraStyles: `
+            .status-change { display: flex; align-items: center; justify-content: center; gap: 16px; margin: 20px 0; }
+            .status-badge { padding: 8px 16px; border-radius: 20px; font-weight: 600; }
+            .old-status { background: #e5e7eb; color: #374151; }
+            .new-status { background: #dcfce7; color: #166534; }
+          `,
+          body: `
+            <p>The status of ticket <strong>${ticketNumber}</strong> has been updated.</p>
+            <p><strong>${ticketTitle}</strong></p>
+            <div class="status-change">
+              <span class="status-badge old-status">${text(data.oldStatus)}</span>
+              <span>→</span>
+              <span class="status-badge new-status">${text(data.newStatus)}</span>
+            </div>
+            <a href="${ticketUrl}" class="btn">View Ticket</a>
+          `,
+          footer: "Physique 57 Ticket System",
+        }),
+      };
+
+    case "closure":
+      return {
+        subject: `✅ Ticket Resolved: ${data.ticketNumber} - ${data.ticketTitle}`,
+        html: layout({
+          accent: "#22c55e",
+          gradient: "linear-gradient(135deg, #22c55e 0%, #16a34a 100%)",
+          heading: "✅ Ticket Resolved",
+          extraStyles: ".content { text-align: center; } .checkmark { font-size: 48px; margin: 20px 0; }",
+          body: `
+            <div class="checkmark">✓</div>
+            <p>Ticket <strong>${ticketNumber}</strong> has been resolved and closed.</p>
+            <p><strong>${ticketTitle}</strong></p>
+            <p style="color: #6b7280; margin-top: 20px;">Thank you for your patience.</p>
+            <a href="${ticketUrl}" class="btn">View Details</a>
+          `,
+          footer: "Physique 57 Ticket System",
+        }),
+      };
+
+    case "mention":
+      return {
+        subject: `💬 ${data.mentionedBy || "A colleague"} mentioned you on ${data.ticketNumber}`,
+        html: layout({
+          accent: "#6366f1",
+          gradient: "linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)",
+          heading: "💬 You were mentioned",
+          extraStyles: ".quote { background: #f9fafb; border-left: 4px solid #6366f1; border-radius: 4px; padding: 12px 16px; margin: 16px 0; color: #374151; white-space: pre-wrap; }",
+          body: `
+            <p>Hi ${text(data.recipientName, "there")},</p>
+            <p><strong>${text(data.mentionedBy, "A colleague")}</strong> mentioned you on ticket <strong>${ticketNumber}</strong>: ${ticketTitle}</p>
+            <div class="quote">${text(data.commentExcerpt)}</div>
+            <a href="${ticketUrl}" class="btn">View Comment</a>
+          `,
+          footer: "Physique 57 Ticket System • Do not reply to this email",
+        }),
+      };
+
+    case "notification":
+      return {
+        subject: data.title || `Ticket Update: ${data.ticketNumber}`,
+        html: layout({
+          accent: "#6366f1",
+          gradient: "linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)",
+          heading: "🔔 Ticket Notification",
+          extraStyles: ".quote { background: #f9fafb; border-left: 4px solid #6366f1; border-radius: 4px; padding: 12px 16px; margin: 16px 0; color: #374151; white-space: pre-wrap; }",
+          body: `
+            <p>Hi ${text(data.recipientName, "there")},</p>
+            <p><strong>${text(data.title)}</strong></p>
+            ${data.message ? `<div class="quote">${text(data.message)}</div>` : ""}
+            <a href="${ticketUrl}" class="btn">View Ticket</a>
+          `,
+          footer: "Physique 57 Ticket System • Change which emails you get in Settings → Notifications",
+        }),
+      };
+
+    case "csat_survey": {
+      const surveyUrl = data.surveyUrl || "";
+      const ratingLinks = [1, 2, 3, 4, 5]
+        .map(rating => `<a href="${escapeHtml(`${surveyUrl}?rating=${rating}`)}" class="rating">${rating}</a>`)
+        .join("");
+      return {
+        subject: `How did we do? ${data.ticketNumber} - ${data.ticketTitle}`,
+        html: layout({
+          accent: "#8b5cf6",
+          gradient: "linear-gradient(135deg, #8b5cf6 0%, #ec4899 100%)",
+          heading: "⭐ How did we do?",
+          extraStyles: `
+            .content { text-align: center; }
+            .ratings { margin: 24px 0 8px; }
+            .rating { display: inline-block; width: 44px; height: 44px; line-height: 44px; margin: 0 4px; border-radius: 50%; background: #f3f4f6; color: #111827; font-weight: 600; text-decoration: none; }
+            .scale { color: #6b7280; font-size: 12px; }
+          `,
+          body: `
+            <p>Hi ${text(data.recipientName, "there")},</p>
+            <p>Your request <strong>${ticketNumber}</strong> (${ticketTitle}) has been resolved. How happy are you with the help you got?</p>
+            <div class="ratings">${ratingLinks}</div>
+            <p class="scale">1 = very unhappy · 5 = very happy</p>
+            <a href="${escapeHtml(surveyUrl)}" class="btn">Leave Feedback</a>
+          `,
+          footer: "Physique 57 • This link is personal to you, please don't forward it",
+        }),
+      };
+    }
+
+    case "daily_digest":
+    case "weekly_digest":
+      if (data.digest) return renderDigest(data, data.type === "weekly_digest", baseUrl);
+      break;
+  }
+
+  return {
+    subject: `Ticket Update: ${data.ticketNumber}`,
+    html: `<p>Ticket ${ticketNumber} has been updated.</p>`,
+  };
+}
+
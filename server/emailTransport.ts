@@ -0,0 +1,171 @@
+// Email Transport
+// One interface over the ways mail can leave the server. EMAIL_TRANSPORT picks
+// the driver:
+//   smtp     - any SMTP relay (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS)
+//   mailtrap - the Mailtrap send API (MAILTRAP_API_TOKEN)
+//   file     - writes each message as an .eml file to EMAIL_FILE_DIR, for
+//              development and tests; open them in any mail client
+// Unset, it uses Mailtrap when a token is present, SMTP when a host is, and the
+// file sink outside production.
+
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import nodemailer from "nodemailer";
+
+export interface EmailAddress {
+  email: string;
+  name?: string | null;
+}
+
+export interface EmailMessage {
+  from: EmailAddress;
+  to: EmailAddress;
+  replyTo?: EmailAddress;
+  subject: string;
+  html: string;
+  text?: string;
+  // Provider-side tag for filtering (e.g. ticket-assignment)
+  category?: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailSendResult {
+  messageId?: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export const DEFAULT_FROM: EmailAddress = {
+  email: process.env.EMAIL_FROM || "info@physique57india.com",
+  name: process.env.EMAIL_FROM_NAME || "Physique 57 Support",
+};
+
+function formatAddress(address: EmailAddress) {
+  return address.name ? { name: address.name, address: address.email } : address.email;
+}
+
+function toNodemailer(message: EmailMessage): nodemailer.SendMailOptions {
+  return {
+    from: formatAddress(message.from),
+    to: formatAddress(message.to),
+    replyTo: message.replyTo ? formatAddress(message.replyTo) : undefined,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    headers: {
+      ...message.headers,
+      ...(message.category ? { "X-Category": message.category } : {}),
+    },
+  };
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const info = await this.transporter.sendMail(toNodemailer(message));
+    return { messageId: info.messageId };
+  }
+}
+
+export class MailtrapTransport implements EmailTransport {
+  readonly name = "mailtrap";
+
+  constructor(private token: string, private endpoint = "https://send.api.mailtrap.io/api/send") {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: { email: message.from.email, name: message.from.name || undefined },
+        to: [{ email: message.to.email, name: message.to.name || undefined }],
+        reply_to: message.replyTo
+          ? { email: message.replyTo.email, name: message.replyTo.name || undefined }
+          : undefined,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        category: message.category,
+        headers: message.headers,
+      }),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Mailtrap API error ${response.status}${detail ? `: ${detail}` : ""}`);
+    }
+    const result = await response.json() as { message_ids?: string[] };
+    return { messageId: result.message_ids?.[0] };
+  }
+}
+
+// Renders the full RFC 822 message and writes it to the directory
+export class FileSinkTransport implements EmailTransport {
+  readonly name = "file";
+  private composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const info = await this.composer.sendMail(toNodemailer(message));
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, fileName), info.message as Buffer);
+    return { messageId: info.messageId };
+  }
+}
+
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport | null {
+  const driver = env.EMAIL_TRANSPORT
+    || (env.MAILTRAP_API_TOKEN ? "mailtrap" : env.SMTP_HOST ? "smtp" : env.NODE_ENV !== "production" ? "file" : "");
+
+  switch (driver) {
+    case "smtp":
+      if (!env.SMTP_HOST) throw new Error("EMAIL_TRANSPORT=smtp needs SMTP_HOST");
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT || "587", 10),
+        secure: env.SMTP_SECURE === "true",
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case "mailtrap":
+      if (!env.MAILTRAP_API_TOKEN) throw new Error("EMAIL_TRANSPORT=mailtrap needs MAILTRAP_API_TOKEN");
+      return new MailtrapTransport(env.MAILTRAP_API_TOKEN);
+    case "file":
+      return new FileSinkTransport(path.resolve(env.EMAIL_FILE_DIR || "mail-outbox"));
+    case "":
+      return null;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${driver}" (expected smtp, mailtrap or file)`);
+  }
+}
+
+let transport: EmailTransport | null | undefined;
+
+export function getEmailTransport(): EmailTransport | null {
+  if (transport === undefined) transport = createEmailTransport();
+  return transport;
+}
+
+// Lets tests and scripts swap the driver, e.g. for a FileSinkTransport in a temp dir
+export function setEmailTransport(next: EmailTransport | null) {
+  transport = next;
+}
@@ -0,0 +1,214 @@
+// Escalation Runner
+// Evaluates active escalationRules in runOrder against tickets, applies their actions
+// and records every firing in escalationLog. A unique (ticketId, ruleId, conditionKey)
+// index makes each rule fire at most once per ticket and condition.
+
+import { PRIORITIES, type EscalationRule, type EscalationTrigger, type InsertTicket, type Ticket } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { renderTemplate } from "./templateRenderer";
+import { publishTicketEvent } from "./liveUpdates";
+import { dispatchNotifications } from "./notificationDispatch";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Triggers the periodic monitor can detect from ticket state alone
+const TIME_BASED_TRIGGERS: EscalationTrigger[] = ['sla_breach', 'time_elapsed', 'no_response'];
+
+export type EscalationEvent =
+  | { trigger: 'priority_change'; previousPriority: string | null }
+  | { trigger: 'customer_request'; requestedAt: Date; requestedBy?: string };
+
+export interface EscalationFiring {
+  rule: EscalationRule;
+  conditionKey: string;
+  reason: string;
+}
+
+function priorityRank(priority: string | null | undefined): number {
+  return PRIORITIES.indexOf((priority || 'medium') as typeof PRIORITIES[number]);
+}
+
+function hoursSince(date: Date | string | null | undefined, now: Date): number {
+  if (!date) return 0;
+  return (now.getTime() - new Date(date).getTime()) / HOUR_MS;
+}
+
+function ruleMatchesTicket(rule: EscalationRule, ticket: Ticket): boolean {
+  return (!rule.categoryId || rule.categoryId === ticket.categoryId) &&
+    (!rule.subcategoryId || rule.subcategoryId === ticket.subcategoryId) &&
+    (!rule.studioId || rule.studioId === ticket.studioId) &&
+    (!rule.priority || rule.priority === ticket.priority);
+}
+
+// Returns the condition key and reason when the rule's trigger is satisfied, or null
+export function evaluateRule(
+  rule: EscalationRule,
+  ticket: Ticket,
+  now: Date,
+  event?: EscalationEvent,
+): Omit<EscalationFiring, 'rule'> | null {
+  if (!ruleMatchesTicket(rule, ticket)) return null;
+  const threshold = rule.triggerValue ?? 0;
+
+  switch (rule.triggerType) {
+    case 'sla_breach': {
+      const breached = ticket.slaBreached || (!!ticket.slaDueAt && new Date(ticket.slaDueAt) < now);
+      if (!breached || hoursSince(ticket.slaDueAt, now) < threshold) return null;
+      return { conditionKey: 'sla_breach', reason: `SLA breached${threshold ? ` by more than ${threshold}h` : ''}` };
+    }
+    case 'time_elapsed': {
+      if (hoursSince(ticket.createdAt, now) < threshold) return null;
+      return { conditionKey: `time_elapsed:${threshold}`, reason: `Unresolved for more than ${threshold}h` };
+    }
+    case 'no_response': {
+      if (ticket.firstResponseAt || hoursSince(ticket.createdAt, now) < threshold) return null;
+      return { conditionKey: `no_response:${threshold}`, reason: `No first response within ${threshold}h` };
+    }
+    case 'priority_change': {
+      if (event?.trigger !== 'priority_change') return null;
+      if (priorityRank(ticket.priority) <= priorityRank(event.previousPriority)) return null;
+      return {
+        conditionKey: `priority_change:${ticket.priority}`,
+        reason: `Priority raised from ${event.previousPriority || 'none'} to ${ticket.priority}`,
+      };
+    }
+    case 'customer_request': {
+      if (event?.trigger !== 'customer_request') return null;
+      return { conditionKey: `customer_request:${event.requestedAt.toISOString()}`, reason: 'Customer requested escalation' };
+    }
+    default:
+      return null;
+  }
+}
+
+async function fireEscalation(ticket: Ticket, firing: EscalationFiring, actorId?: string): Promise<Ticket> {
+  const { rule, conditionKey, reason } = firing;
+  const newPriority = rule.changePriority && rule.changePriority !== ticket.priority ? rule.changePriority : null;
+
+  // Claim the firing first so concurrent runners cannot apply the same escalation twice
+  const logEntry = await storage.createEscalationLog({
+    ticketId: ticket.id,
+    ruleId: rule.id,
+    escalationType: 'automatic',
+    conditionKey,
+    escalatedFrom: ticket.assignedToUserId,
+    escalatedTo: rule.escalateTo || ticket.assignedToUserId,
+    escalatedToTeamId: rule.escalateToTeamId,
+    escalatedToDepartmentId: rule.escalateToDepartmentId,
+    previousPriority: ticket.priority,
+    newPriority: newPriority || ticket.priority,
+    reason: `${rule.name}: ${reason}`,
+    createdBy: actorId,
+  });
+  if (!logEntry) return ticket;
+
+  const updates: Partial<InsertTicket> = { escalatedAt: new Date() };
+  if (newPriority) updates.priority = newPriority;
+  if (rule.escalateToTeamId) updates.assignedTeamId = rule.escalateToTeamId;
+  if (rule.escalateToDepartmentId) updates.assignedDepartmentId = rule.escalateToDepartmentId;
+  if (rule.escalateTo) updates.assignedToUserId = rule.escalateTo;
+
+  const updated = (await storage.updateTicket(ticket.id, updates)) || ticket;
+
+  for (const field of ['priority', 'assignedTeamId', 'assignedDepartmentId', 'assignedToUserId'] as const) {
+    if (!(field in updates) || updates[field] === ticket[field]) continue;
+    await storage.createTicketHistory({
+      ticketId: ticket.id,
+      changedByUserId: actorId,
+      action: 'escalated',
+      fieldChanged: field,
+      oldValue: String(ticket[field] ?? ''),
+      newValue: String(updates[field] ?? ''),
+      changeReason: logEntry.reason || undefined,
+      automatedChange: true,
+    });
+  }
+
+  if (rule.sendNotification !== false) {
+    const recipients = new Set(await storage.getUserIdsByRoles(rule.notifyRoles || []));
+    if (rule.escalateTo) recipients.add(rule.escalateTo);
+
+    const message = rule.notificationTemplate
+      ? renderTemplate(rule.notificationTemplate, { ...updated, reason })
+      : `${updated.ticketNumber} "${updated.title}" was escalated: ${reason}`;
+
+    // SLA-triggered rules count as SLA warnings in notification preferences
+    await dispatchNotifications(Array.from(recipients).map(userId => ({
+      userId,
+      event: rule.triggerType === 'sla_breach' ? 'sla' as const : 'escalation' as const,
+      type: 'escalation',
+      ticket: updated,
+      title: `Ticket escalated: ${updated.ticketNumber}`,
+      message,
+    })));
+  }
+
+  publishTicketEvent({ type: 'ticket.updated', ticket: updated });
+  return updated;
+}
+
+// Evaluates rules in runOrder; later rules see changes made by earlier ones
+async function runRulesForTicket(
+  ticket: Ticket,
+  rules: EscalationRule[],
+  now: Date,
+  event?: EscalationEvent,
+  actorId?: string,
+): Promise<{ ticket: Ticket; fired: number }> {
+  let current = ticket;
+  let fired = 0;
+  for (const rule of rules) {
+    const match = evaluateRule(rule, current, now, event);
+    if (!match) continue;
+    const before = current;
+    current = await fireEscalation(current, { rule, ...match }, actorId);
+    if (current !== before) fired++;
+  }
+  return { ticket: current, fired };
+}
+
+export async function runEscalationsForEvent(ticket: Ticket, event: EscalationEvent, actorId?: string): Promise<Ticket> {
+  const rules = (await storage.getActiveEscalationRules()).filter(r => r.triggerType === event.trigger);
+  if (rules.length === 0) return ticket;
+  const { ticket: updated } = await runRulesForTicket(ticket, rules, new Date(), event, actorId);
+  return updated;
+}
+
+export async function runTimeBasedEscalations(now: Date = new Date()): Promise<number> {
+  const rules = (await storage.getActiveEscalationRules())
+    .filter(r => TIME_BASED_TRIGGERS.includes(r.triggerType as EscalationTrigger));
+  if (rules.length === 0) return 0;
+
+  let fired = 0;
+  for (const ticket of await storage.getOpenTickets()) {
+    const result = await runRulesForTicket(ticket, rules, now);
+    fired += result.fired;
+  }
+  return fired;
+}
+
+export function startEscalationMonitor(intervalMs: number = parseInt(process.env.ESCALATION_CHECK_INTERVAL_MS || '60000', 10)) {
+  if (!db) {
+    console.warn('Escalation monitor disabled: DATABASE_URL not set');
+    return null;
+  }
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const fired = await runTimeBasedEscalations();
+      if (fired > 0) {
+        console.log(`Escalation monitor: fired ${fired} escalation(s)`);
+      }
+    } catch (error) {
+      console.error('Escalation monitor error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return setInterval(run, intervalMs);
+}
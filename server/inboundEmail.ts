@@ -0,0 +1,438 @@
+// Inbound Email
+// Raw MIME messages posted by a mail relay become tickets (source 'email') or
+// comments on the ticket they answer. A message threads onto a ticket through a
+// signed reply address (see replyAddress.ts) or a ticket number in the subject;
+// subject matches only count for the ticket's customer or staff who can open it.
+// New tickets land in the studio or team whose inbox received them. Senders with
+// an app account act as themselves; anyone else is recorded by name and address
+// under the INBOUND_EMAIL_USER_ID account. Both the account match and subject
+// threading need a sender the relay authenticated (see senderAuthentication.ts);
+// unauthenticated mail is recorded as a guest and threads only by reply address.
+// Auto-replies, bounces and our own mail coming back are logged and ignored,
+// which breaks reply loops.
+
+import crypto from "crypto";
+import type { Request } from "express";
+import { simpleParser, type AddressObject, type ParsedMail } from "mailparser";
+import { createClient } from "@supabase/supabase-js";
+import { hasPermission } from "@shared/permissions";
+import type { InboundEmailStatus, InsertTicket, Studio, Team, Ticket } from "@shared/schema";
+import { storage } from "./storage";
+import { createTicketWithRouting } from "./ticketPipeline";
+import { runWorkflows } from "./workflowEngine";
+import { autoWatch, notifyWatchers } from "./watchers";
+import { publishTicketEvent } from "./liveUpdates";
+import { isAllowedAttachmentType, MAX_ATTACHMENT_BYTES, saveAttachments, type IncomingFile } from "./attachments";
+import { DEFAULT_FROM } from "./emailTransport";
+import { getPublicBaseUrl } from "./publicUrl";
+import { ticketIdFromReplyAddresses } from "./replyAddress";
+import { isSenderAuthenticated, type SenderVerdict } from "./senderAuthentication";
+import { getRequestRoles } from "./supabaseAuth";
+import { canAccessTicket, getStudioScope } from "./studioAccess";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+export const MAX_INBOUND_EMAIL_BYTES = Number(process.env.INBOUND_EMAIL_MAX_BYTES) || 25 * 1024 * 1024;
+const MAX_INBOUND_ATTACHMENTS = 10;
+
+export class InboundEmailError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export interface InboundEmailResult {
+  status: InboundEmailStatus;
+  reason?: string | null;
+  ticketId?: string | null;
+  commentId?: string | null;
+  // The relay delivered this message before
+  duplicate?: boolean;
+  skippedAttachments?: string[];
+}
+
+interface Sender {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  displayName: string | null;
+  studioId: string | null;
+}
+
+// Constant-time check of the relay's shared secret
+export function verifyInboundSecret(given: unknown): boolean {
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  if (!secret || typeof given !== 'string') return false;
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(given);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function addresses(field: AddressObject | AddressObject[] | undefined): string[] {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  return objects.flatMap(object => object.value.map(entry => entry.address?.toLowerCase()).filter((a): a is string => !!a));
+}
+
+function headerText(parsed: ParsedMail, name: string): string {
+  const value = parsed.headers.get(name);
+  if (value == null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && 'value' in value && typeof value.value === 'string') return value.value;
+  if (typeof value === 'object' && 'text' in value && typeof value.text === 'string') return value.text;
+  return String(value);
+}
+
+// support+anything@studio.com is delivered to support@studio.com
+function withoutSubaddress(address: string): string {
+  return address.replace(/\+[^@]*@/, '@');
+}
+
+const AUTOMATED_SUBJECT = new RegExp(`^(${[
+  'auto(matic)?[ -]?reply',
+  'out of (the )?office',
+  'undeliverable',
+  'undelivered mail',
+  'delivery status notification',
+  'mail delivery (failed|subsystem)',
+  'returned mail',
+  'failure notice',
+].join('|')})`, 'i');
+const BOUNCE_SENDER = /^(mailer-daemon|postmaster)@/i;
+
+// Why a message was sent by a machine rather than a person, or null
+export function detectAutomated(parsed: ParsedMail, fromEmail: string | undefined): string | null {
+  const autoSubmitted = headerText(parsed, 'auto-submitted').toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') return `Auto-Submitted: ${autoSubmitted}`;
+  if (parsed.headers.has('x-autoreply') || parsed.headers.has('x-autorespond')) return 'Auto-reply header';
+  const precedence = headerText(parsed, 'precedence').toLowerCase();
+  if (['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) return `Precedence: ${precedence}`;
+  if (parsed.headers.has('x-outbox-message-id')) return 'Our own notification email came back';
+  if (fromEmail && BOUNCE_SENDER.test(fromEmail)) return `Bounce from ${fromEmail}`;
+  if (headerText(parsed, 'content-type').toLowerCase() === 'multipart/report') return 'Delivery status report';
+  if (headerText(parsed, 'return-path').trim() === '<>') return 'Empty return path (bounce)';
+  if (AUTOMATED_SUBJECT.test((parsed.subject || '').trim())) return `Automated subject: ${parsed.subject}`;
+  return null;
+}
+
+const QUOTE_HEADER = /^(On\b.*\bwrote:|-{2,}\s*Original Message\s*-{2,}|_{5,}|From:\s.+)$/i;
+
+// Keeps what the sender wrote above the quoted message they replied to
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let cut = lines.length;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    // Clients wrap long "On <date>, <name> wrote:" lines
+    const joined = i + 1 < lines.length ? `${line} ${lines[i + 1].trim()}` : line;
+    if (QUOTE_HEADER.test(line) || (/^On\b/.test(line) && /\bwrote:$/.test(joined))) {
+      cut = i;
+      break;
+    }
+  }
+  return lines.slice(0, cut).filter(line => !line.startsWith('>')).join('\n').trim();
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function bodyText(parsed: ParsedMail): string {
+  if (parsed.text?.trim()) return parsed.text.trim();
+  return parsed.html ? htmlToText(parsed.html) : '';
+}
+
+function senderName(sender: Sender | null, fallback: string | undefined, email: string): string {
+  if (sender) return sender.displayName || [sender.firstName, sender.lastName].filter(Boolean).join(' ') || sender.email;
+  return fallback || email;
+}
+
+async function findSender(email: string): Promise<Sender | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, firstName, lastName, displayName, studioId')
+    .ilike('email', email.replace(/[\\%_]/g, '\\$&'))
+    .eq('isActive', true)
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data || data.id === process.env.INBOUND_EMAIL_USER_ID) return null;
+  return data as Sender;
+}
+
+async function canOpenTicket(sender: Sender, ticket: Ticket): Promise<boolean> {
+  const req = { user: { claims: { sub: sender.id, email: sender.email } } } as unknown as Request;
+  const [roles, scope] = await Promise.all([getRequestRoles(req), getStudioScope(req)]);
+  return hasPermission(roles, 'canManageTickets') && canAccessTicket(scope, ticket);
+}
+
+// Ticket numbers look like TKT-2610-KH-0042; the exact pattern is configurable
+function ticketNumberCandidates(subject: string): string[] {
+  return Array.from(new Set((subject.match(/\b[A-Z][A-Z0-9]*(?:-[A-Z0-9]+)+\b/gi) || []).filter(token => /\d/.test(token))));
+}
+
+async function followMerges(ticket: Ticket | undefined): Promise<Ticket | undefined> {
+  let current = ticket;
+  for (let hops = 0; current?.mergedIntoTicketId && hops < 5; hops++) {
+    current = (await storage.getTicket(current.mergedIntoTicketId)) || current;
+  }
+  return current;
+}
+
+async function findThread(
+  parsed: ParsedMail,
+  recipients: string[],
+  fromEmail: string,
+  sender: Sender | null,
+  authenticated: boolean,
+): Promise<Ticket | undefined> {
+  const tokenTicketId = ticketIdFromReplyAddresses(recipients);
+  if (tokenTicketId) {
+    const ticket = await followMerges(await storage.getTicket(tokenTicketId));
+    if (ticket) return ticket;
+  }
+  // A subject line is only a claim; it counts for a sender whose From: is proven
+  if (!authenticated) return undefined;
+  for (const number of ticketNumberCandidates(parsed.subject || '')) {
+    const ticket = await followMerges(await storage.getTicketByNumber(number));
+    if (!ticket) continue;
+    const isCustomer = !!ticket.customerEmail && ticket.customerEmail.toLowerCase() === fromEmail;
+    if (isCustomer || (sender && await canOpenTicket(sender, ticket))) return ticket;
+  }
+  return undefined;
+}
+
+async function ourAddresses(): Promise<Set<string>> {
+  const [studios, teams] = await Promise.all([storage.getStudios(), storage.getTeams()]);
+  return new Set([
+    DEFAULT_FROM.email,
+    process.env.INBOUND_REPLY_ADDRESS,
+    ...studios.map(studio => studio.email),
+    ...teams.map(team => team.email),
+  ].filter((address): address is string => !!address).map(address => address.toLowerCase()));
+}
+
+function collectAttachments(parsed: ParsedMail): { files: IncomingFile[]; skipped: string[] } {
+  const files: IncomingFile[] = [];
+  const skipped: string[] = [];
+  for (const attachment of parsed.attachments) {
+    // Images embedded in the HTML (signature logos and the like) aren't attachments
+    if (attachment.related) continue;
+    const name = attachment.filename || 'attachment';
+    if (!isAllowedAttachmentType(attachment.contentType)) {
+      skipped.push(`${name} (type ${attachment.contentType} not allowed)`);
+    } else if (attachment.size > MAX_ATTACHMENT_BYTES) {
+      skipped.push(`${name} (too large)`);
+    } else if (files.length >= MAX_INBOUND_ATTACHMENTS) {
+      skipped.push(`${name} (too many attachments)`);
+    } else {
+      files.push({ originalname: name, mimetype: attachment.contentType, size: attachment.size, buffer: attachment.content });
+    }
+  }
+  return { files, skipped };
+}
+
+async function addReply(
+  ticket: Ticket,
+  parsed: ParsedMail,
+  from: { email: string; name: string; sender: Sender | null },
+  authorId: string,
+  files: IncomingFile[],
+) {
+  const text = bodyText(parsed);
+  const comment = await storage.createTicketComment({
+    ticketId: ticket.id,
+    userId: authorId,
+    content: stripQuotedReply(text) || text || '(empty message)',
+    commentType: 'email',
+    isInternal: false,
+    authorName: from.sender ? null : from.name,
+    authorEmail: from.sender ? null : from.email,
+  });
+  if (files.length > 0) {
+    await saveAttachments(files, { ticketId: ticket.id, commentId: comment.id, uploadedByUserId: authorId, isPublic: true });
+  }
+
+  let current = ticket;
+  // A staff reply by email is a first response like one typed in the app
+  if (from.sender && !current.firstResponseAt) {
+    current = (await storage.updateTicket(current.id, { firstResponseAt: comment.createdAt || new Date() })) || current;
+  }
+  current = await runWorkflows({ event: 'comment_added', ticket: current, comment, actorId: authorId });
+  if (from.sender) await autoWatch(current.id, [from.sender.id]);
+  await notifyWatchers({
+    ticket: current,
+    event: 'comment',
+    title: `New email reply on ${current.ticketNumber} from ${from.name}`,
+    message: comment.content.length > 200 ? `${comment.content.slice(0, 197)}...` : comment.content,
+    actorId: from.sender?.id,
+  });
+  publishTicketEvent({ type: 'ticket.commented', ticket: current, comment });
+  return comment;
+}
+
+async function createFromEmail(
+  parsed: ParsedMail,
+  from: { email: string; name: string; sender: Sender | null },
+  authorId: string,
+  route: { studio?: Studio; team?: Team },
+  files: IncomingFile[],
+): Promise<Ticket | null> {
+  const studioId = route.studio?.id || from.sender?.studioId || process.env.INBOUND_EMAIL_DEFAULT_STUDIO_ID;
+  if (!studioId) return null;
+
+  const input: InsertTicket = {
+    studioId,
+    title: (parsed.subject || '').trim().slice(0, 500) || `Email from ${from.name}`,
+    description: bodyText(parsed),
+    source: 'email',
+    assignedTeamId: route.team?.id || null,
+    customerName: from.sender ? null : from.name,
+    customerEmail: from.sender ? null : from.email,
+  };
+  const { ticket: created } = await createTicketWithRouting(
+    input,
+    from.sender ? { id: from.sender.id, email: from.sender.email, name: from.name } : { id: authorId },
+    { baseUrl: getPublicBaseUrl() },
+  );
+  const ticket = await runWorkflows({ event: 'ticket_created', ticket: created, actorId: authorId });
+
+  if (files.length > 0) {
+    const attachments = await saveAttachments(files, { ticketId: ticket.id, uploadedByUserId: authorId, isPublic: true });
+    await storage.createTicketHistory({
+      ticketId: ticket.id,
+      changedByUserId: authorId,
+      action: 'attachment_added',
+      newValue: attachments.map(attachment => attachment.originalFileName).join(', '),
+    });
+  }
+  return ticket;
+}
+
+// The first team, else studio, whose inbox is among the recipients
+async function routeRecipients(recipients: string[]): Promise<{ studio?: Studio; team?: Team }> {
+  const inboxes = Array.from(new Set(recipients.map(withoutSubaddress)));
+  const route: { studio?: Studio; team?: Team } = {};
+  for (const inbox of inboxes) {
+    route.team = route.team || await storage.getTeamByEmail(inbox);
+    route.studio = route.studio || await storage.getStudioByEmail(inbox);
+  }
+  return route;
+}
+
+export async function processInboundEmail(
+  raw: Buffer,
+  envelope: { recipients?: string[]; senderVerdict?: SenderVerdict } = {},
+): Promise<InboundEmailResult> {
+  const parsed = await simpleParser(raw);
+  const messageId = parsed.messageId || `<sha256-${crypto.createHash('sha256').update(raw).digest('hex')}@inbound>`;
+  const fromEntry = parsed.from?.value[0];
+  const fromEmail = fromEntry?.address?.toLowerCase();
+  const recipients = Array.from(new Set([
+    ...(envelope.recipients || []).map(address => address.toLowerCase()),
+    ...addresses(parsed.to),
+    ...addresses(parsed.cc),
+    ...['delivered-to', 'x-original-to'].map(name => headerText(parsed, name).toLowerCase()).filter(Boolean),
+  ]));
+
+  // Claiming the Message-ID before doing anything means a relay retry that races
+  // the first delivery finds it taken instead of creating a second ticket
+  const claimed = await storage.claimInboundEmail({
+    messageId,
+    fromEmail: fromEmail || null,
+    fromName: fromEntry?.name || null,
+    recipients,
+    subject: parsed.subject || null,
+    status: 'processing',
+  });
+  if (!claimed) {
+    const previous = await storage.getInboundEmail(messageId);
+    if (!previous || previous.status === 'processing') {
+      throw new InboundEmailError('This message is still being processed; retry later', 503);
+    }
+    return {
+      status: previous.status as InboundEmailStatus,
+      reason: previous.reason,
+      ticketId: previous.ticketId,
+      commentId: previous.commentId,
+      duplicate: true,
+    };
+  }
+
+  try {
+    return await handleClaimedEmail(parsed, messageId, fromEmail, fromEntry?.name, recipients, envelope.senderVerdict);
+  } catch (error) {
+    // Released, so the relay's retry starts over (e.g. once INBOUND_EMAIL_USER_ID is set)
+    await storage.releaseInboundEmail(messageId)
+      .catch(releaseError => console.error(`Error releasing inbound email ${messageId}:`, releaseError));
+    throw error;
+  }
+}
+
+async function handleClaimedEmail(
+  parsed: ParsedMail,
+  messageId: string,
+  fromEmail: string | undefined,
+  fromName: string | undefined,
+  recipients: string[],
+  senderVerdict: SenderVerdict | undefined,
+): Promise<InboundEmailResult> {
+  const record = async (status: InboundEmailStatus, result: Omit<InboundEmailResult, 'status'> = {}): Promise<InboundEmailResult> => {
+    await storage.finishInboundEmail(messageId, {
+      status,
+      reason: result.reason || null,
+      ticketId: result.ticketId || null,
+      commentId: result.commentId || null,
+    });
+    if (status === 'ignored' || status === 'rejected') {
+      console.log(`Inbound email ${messageId} ${status}: ${result.reason}`);
+    }
+    return { status, ...result };
+  };
+
+  const automated = detectAutomated(parsed, fromEmail);
+  if (automated) return record('ignored', { reason: automated });
+  if (!fromEmail) return record('rejected', { reason: 'No sender address' });
+  if ((await ourAddresses()).has(fromEmail)) {
+    return record('ignored', { reason: `Sent from our own address ${fromEmail}` });
+  }
+
+  const authenticated = isSenderAuthenticated(parsed, fromEmail, senderVerdict);
+  const sender = authenticated ? await findSender(fromEmail) : null;
+  const authorId = sender?.id || process.env.INBOUND_EMAIL_USER_ID;
+  if (!authorId) {
+    throw new InboundEmailError('Inbound email is not configured (set INBOUND_EMAIL_USER_ID)', 503);
+  }
+  const from = { email: fromEmail, name: senderName(sender, fromName, fromEmail), sender };
+  const { files, skipped } = collectAttachments(parsed);
+  const skippedAttachments = skipped.length > 0 ? skipped : undefined;
+
+  const thread = await findThread(parsed, recipients, fromEmail, sender, authenticated);
+  if (thread) {
+    const comment = await addReply(thread, parsed, from, authorId, files);
+    return record('replied', { ticketId: thread.id, commentId: comment.id, skippedAttachments });
+  }
+
+  const ticket = await createFromEmail(parsed, from, authorId, await routeRecipients(recipients), files);
+  if (!ticket) {
+    return record('rejected', { reason: `No studio receives mail for ${recipients.join(', ') || 'these recipients'}` });
+  }
+  return record('created', { ticketId: ticket.id, skippedAttachments });
+}
@@ -2,9 +2,21 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startSlaMonitor } from "./slaEngine";
+import { startEscalationMonitor } from "./escalationRunner";
+import { attachLiveUpdates } from "./liveUpdates";
+import { startOutboxWorker } from "./notificationOutbox";
+import { startDigestScheduler } from "./digests";
 
 const app = express();
 
+// Client addresses (for rate limits) come from X-Forwarded-* only when the app
+// runs behind that many trusted proxies. Links never use request headers; they
+// come from PUBLIC_BASE_URL.
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+}
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -96,6 +108,9 @@ process.on("uncaughtException", (err) => {
   // It is the only port that is not firewalled.
   const port = parseInt(process.env.PORT || "5000", 10);
 
+  // Live ticket and notification events for open tabs
+  attachLiveUpdates(server);
+
   server.on("error", (err) => {
     console.error("Server listen error:", err);
   });
@@ -103,4 +118,10 @@ process.on("uncaughtException", (err) => {
   server.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
   });
+
+  // Background jobs
+  startSlaMonitor();
+  startEscalationMonitor();
+  startOutboxWorker();
+  startDigestScheduler();
 })();
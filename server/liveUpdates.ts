@@ -0,0 +1,146 @@
+// Live Updates
+// A WebSocket channel pushing ticket and notification events to open tabs.
+// Each connection authenticates with the user's Supabase access token and keeps
+// their roles and studio scope, loaded with the same helpers as the HTTP API, so
+// a ticket event only reaches people who could open that ticket and internal
+// notes only reach staff. Scope is loaded once per connection; reconnecting
+// picks up changes.
+
+import type { Server } from "http";
+import type { Request } from "express";
+import { WebSocket, WebSocketServer } from "ws";
+import { createClient } from "@supabase/supabase-js";
+import { hasPermission, type AppRole } from "@shared/permissions";
+import {
+  LIVE_AUTH_FAILED,
+  LIVE_UPDATES_PATH,
+  type LiveClientMessage,
+  type LiveEvent,
+  type TicketLiveEvent,
+} from "@shared/liveEvents";
+import type { Notification } from "@shared/schema";
+import type { StudioScope } from "./storage";
+import { getRequestRoles } from "./supabaseAuth";
+import { canAccessTicket, getStudioScope } from "./studioAccess";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+const AUTH_TIMEOUT_MS = 10_000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+interface LiveClient {
+  socket: WebSocket;
+  userId: string;
+  roles: AppRole[];
+  scope: StudioScope;
+  alive: boolean;
+}
+
+const clients = new Set<LiveClient>();
+
+// Resolves the token to the same roles and scope an API request would get
+async function authenticate(token: string): Promise<Omit<LiveClient, 'socket' | 'alive'> | null> {
+  if (!supabase || !token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  const req = { user: { claims: { sub: data.user.id, email: data.user.email } } } as unknown as Request;
+  const [roles, scope] = await Promise.all([getRequestRoles(req), getStudioScope(req)]);
+  return { userId: data.user.id, roles, scope };
+}
+
+function send(client: LiveClient, event: LiveEvent) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(event));
+  }
+}
+
+function handleConnection(socket: WebSocket) {
+  let client: LiveClient | null = null;
+  // Only the first frame authenticates; anything sent while it's checked is ignored
+  let authenticating = false;
+  const authTimer = setTimeout(() => socket.close(LIVE_AUTH_FAILED, 'Authentication timed out'), AUTH_TIMEOUT_MS);
+
+  socket.on('message', async (raw) => {
+    if (client || authenticating) return;
+    authenticating = true;
+    try {
+      const message = JSON.parse(raw.toString()) as LiveClientMessage;
+      const identity = message.type === 'auth' ? await authenticate(message.token) : null;
+      clearTimeout(authTimer);
+      // Closed while we were checking the token
+      if (socket.readyState !== WebSocket.OPEN) return;
+      if (!identity) {
+        socket.close(LIVE_AUTH_FAILED, 'Unauthorized');
+        return;
+      }
+      client = { ...identity, socket, alive: true };
+      clients.add(client);
+      send(client, { type: 'ready' });
+    } catch (error) {
+      console.error('Error authenticating live updates connection:', error);
+      clearTimeout(authTimer);
+      socket.close(1011, 'Authentication failed');
+    }
+  });
+
+  socket.on('pong', () => {
+    if (client) client.alive = true;
+  });
+
+  socket.on('close', () => {
+    clearTimeout(authTimer);
+    if (client) clients.delete(client);
+  });
+
+  socket.on('error', (error) => {
+    console.warn('Live updates socket error:', error);
+  });
+}
+
+export function attachLiveUpdates(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  wss.on('connection', handleConnection);
+
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== LIVE_UPDATES_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
+
+  // Drop connections that stopped answering pings (sleeping laptops, dead proxies)
+  const heartbeat = setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!client.alive) {
+        clients.delete(client);
+        client.socket.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+}
+
+// Ticket events reach users who can access the ticket; internal notes only staff
+export function publishTicketEvent(event: TicketLiveEvent) {
+  const internal = event.type === 'ticket.commented' && !!event.comment.isInternal;
+  for (const client of Array.from(clients)) {
+    if (!canAccessTicket(client.scope, event.ticket)) continue;
+    if (internal && !hasPermission(client.roles, 'canViewInternalNotes')) continue;
+    send(client, event);
+  }
+}
+
+export function publishNotification(notification: Notification) {
+  for (const client of Array.from(clients)) {
+    if (client.userId === notification.userId) {
+      send(client, { type: 'notification.created', notification });
+    }
+  }
+}
@@ -0,0 +1,270 @@
+// Macros
+// Runs an agent's macro against one or more tickets. The steps run in order in
+// one transaction per ticket, each recorded in ticketHistory under the macro's
+// name, so a failing step leaves that ticket untouched. Comment templates are
+// filled from the ticket, its studio and the agent running the macro
+// ({{customerName}}, {{ticketNumber}}, {{studio.name}}, {{agent.firstName}}, ...).
+// Afterwards the ticket goes through the same follow-up as a manual edit.
+
+import type { Request } from "express";
+import { hasPermission } from "@shared/permissions";
+import { MAX_MACRO_TICKETS, normalizeMacroActions, type MacroAction } from "@shared/macros";
+import type { InsertTicket, Macro, Ticket, TicketComment } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { renderTemplate } from "./templateRenderer";
+import { afterTicketUpdate } from "./ticketUpdates";
+import { runWorkflows } from "./workflowEngine";
+import { autoWatch, notifyWatchers } from "./watchers";
+import { publishTicketEvent } from "./liveUpdates";
+import { canAccessTicket, getStudioScope } from "./studioAccess";
+import { getRequestRoles } from "./supabaseAuth";
+import { subTicketRuleMessage } from "./subTickets";
+
+export class MacroError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export interface MacroRunResult {
+  ticketId: string;
+  ticketNumber: string | null;
+  applied: boolean;
+  // Why the macro didn't apply to this ticket
+  message?: string;
+}
+
+interface StepContext {
+  tx: IStorage;
+  macro: Macro;
+  actorId: string;
+  values: Record<string, unknown>;
+}
+
+function userId(req: Request): string {
+  return (req as any).user.claims.sub;
+}
+
+// Anyone may use their own and shared macros; only the creator or a settings
+// manager may change or delete one
+export async function getUsableMacro(req: Request, macroId: string): Promise<Macro> {
+  const macro = await storage.getMacro(macroId);
+  if (!macro || (!macro.isShared && macro.createdByUserId !== userId(req))) {
+    throw new MacroError('Macro not found', 404);
+  }
+  return macro;
+}
+
+export async function getEditableMacro(req: Request, macroId: string): Promise<Macro> {
+  const macro = await getUsableMacro(req, macroId);
+  if (macro.createdByUserId !== userId(req) && !hasPermission(await getRequestRoles(req), 'canManageSettings')) {
+    throw new MacroError('Only the creator or an administrator can change this macro', 403);
+  }
+  return macro;
+}
+
+async function recordStep(context: StepContext, ticket: Ticket, fieldChanged: string, oldValue: unknown, newValue: unknown) {
+  await context.tx.createTicketHistory({
+    ticketId: ticket.id,
+    changedByUserId: context.actorId,
+    action: 'macro',
+    fieldChanged,
+    oldValue: oldValue === undefined ? undefined : String(oldValue ?? ''),
+    newValue: String(newValue ?? ''),
+    changeReason: `Macro: ${context.macro.name}`,
+  });
+}
+
+async function updateFields(context: StepContext, ticket: Ticket, updates: Partial<InsertTicket>, changed: Set<string>): Promise<Ticket> {
+  const keys = (Object.keys(updates) as (keyof InsertTicket)[])
+    .filter(key => updates[key] !== (ticket as Record<string, unknown>)[key]);
+  if (keys.length === 0) return ticket;
+
+  const now = new Date();
+  if (updates.status === 'resolved' && !ticket.resolvedAt) updates.resolvedAt = now;
+  if (updates.status === 'closed' && !ticket.closedAt) updates.closedAt = now;
+
+  const updated = (await context.tx.updateTicket(ticket.id, updates)) || ticket;
+  for (const key of keys) {
+    await recordStep(context, ticket, key, (ticket as Record<string, unknown>)[key], updates[key]);
+    changed.add(key);
+  }
+  return updated;
+}
+
+// Ids a macro refers to must still exist when it runs; a deleted category or a
+// deactivated agent makes the whole run fail rather than half-apply
+async function checkReferences(actions: MacroAction[]): Promise<void> {
+  for (const action of actions) {
+    if (action.type === 'set_field' && action.value) {
+      if (action.field === 'categoryId') {
+        const category = await storage.getCategory(action.value);
+        if (!category || category.isActive === false) throw new MacroError('A category this macro sets no longer exists', 400);
+      }
+      if (action.field === 'subcategoryId') {
+        const subcategory = await storage.getSubcategory(action.value);
+        if (!subcategory) throw new MacroError('A subcategory this macro sets no longer exists', 400);
+        const category = actions.find(a => a.type === 'set_field' && a.field === 'categoryId');
+        if (category?.type === 'set_field' && category.value && subcategory.categoryId !== category.value) {
+          throw new MacroError("The subcategory this macro sets isn't in the category it sets", 400);
+        }
+      }
+    }
+    if (action.type === 'assign') {
+      if (action.userId) {
+        const user = await storage.getUser(action.userId);
+        if (!user || user.isActive === false) throw new MacroError('The agent this macro assigns to is no longer active', 400);
+      }
+      if (action.teamId && !(await storage.getTeam(action.teamId))) {
+        throw new MacroError('The team this macro assigns to no longer exists', 400);
+      }
+    }
+  }
+}
+
+async function runStep(
+  context: StepContext,
+  action: MacroAction,
+  ticket: Ticket,
+  changed: Set<string>,
+  comments: TicketComment[],
+): Promise<Ticket> {
+  switch (action.type) {
+    case 'set_field': {
+      // A subcategory on its own has to fit the category the ticket already has
+      if (action.field === 'subcategoryId' && action.value) {
+        const subcategory = await context.tx.getSubcategory(action.value);
+        if (subcategory && subcategory.categoryId !== ticket.categoryId) {
+          throw new MacroError("The subcategory doesn't belong to this ticket's category", 400);
+        }
+      }
+      return updateFields(context, ticket, { [action.field]: action.value } as Partial<InsertTicket>, changed);
+    }
+
+    case 'add_tag': {
+      const tags = ticket.tags || [];
+      if (tags.some(tag => tag.toLowerCase() === action.tag.toLowerCase())) return ticket;
+      const updated = (await context.tx.updateTicket(ticket.id, { tags: [...tags, action.tag] })) || ticket;
+      await recordStep(context, ticket, 'tags', undefined, `+${action.tag}`);
+      changed.add('tags');
+      return updated;
+    }
+
+    case 'remove_tag': {
+      const tags = ticket.tags || [];
+      const remaining = tags.filter(tag => tag.toLowerCase() !== action.tag.toLowerCase());
+      if (remaining.length === tags.length) return ticket;
+      const updated = (await context.tx.updateTicket(ticket.id, { tags: remaining })) || ticket;
+      await recordStep(context, ticket, 'tags', undefined, `-${action.tag}`);
+      changed.add('tags');
+      return updated;
+    }
+
+    case 'assign': {
+      const updates: Partial<InsertTicket> = {};
+      if (action.userId) updates.assignedToUserId = action.userId;
+      if (action.teamId) updates.assignedTeamId = action.teamId;
+      if (action.departmentId) updates.assignedDepartmentId = action.departmentId;
+      if (action.userId && (!ticket.status || ticket.status === 'new')) updates.status = 'assigned';
+      return updateFields(context, ticket, updates, changed);
+    }
+
+    case 'add_comment': {
+      const content = renderTemplate(action.content, { ...context.values, ...ticket, ticket });
+      const comment = await context.tx.createTicketComment({
+        ticketId: ticket.id,
+        userId: context.actorId,
+        content,
+        isInternal: action.isInternal,
+      });
+      comments.push(comment);
+      await recordStep(context, ticket, 'comment', undefined, content);
+      // The first customer-visible comment counts as the SLA first response
+      if (!action.isInternal && !ticket.firstResponseAt) {
+        return (await context.tx.updateTicket(ticket.id, { firstResponseAt: comment.createdAt || new Date() })) || ticket;
+      }
+      return ticket;
+    }
+
+    default:
+      return ticket;
+  }
+}
+
+async function runOnTicket(req: Request, macro: Macro, actions: MacroAction[], ticket: Ticket): Promise<Ticket> {
+  const actorId = userId(req);
+  const [studio, agent] = await Promise.all([storage.getStudio(ticket.studioId), storage.getUser(actorId)]);
+  const values = {
+    customerFirstName: ticket.customerName?.trim().split(/\s+/)[0] || null,
+    studio: { name: studio?.name || null, code: studio?.code || null },
+    agent: { firstName: agent?.firstName || null, lastName: agent?.lastName || null },
+  };
+
+  const changed = new Set<string>();
+  const comments: TicketComment[] = [];
+  const updated = await storage.transaction(async (tx) => {
+    const context: StepContext = { tx, macro, actorId, values };
+    let current = ticket;
+    for (const action of actions) {
+      current = await runStep(context, action, current, changed, comments);
+    }
+    return current;
+  });
+
+  let current = await afterTicketUpdate(ticket, updated, { actorId, changedFields: Array.from(changed) });
+  for (const comment of comments) {
+    current = await runWorkflows({ event: 'comment_added', ticket: current, comment, actorId });
+    await notifyWatchers({
+      ticket: current,
+      event: 'comment',
+      title: `New ${comment.isInternal ? 'internal note' : 'comment'} on ${current.ticketNumber}`,
+      message: comment.content.length > 200 ? `${comment.content.slice(0, 197)}...` : comment.content,
+      actorId,
+      internal: !!comment.isInternal,
+    });
+    publishTicketEvent({ type: 'ticket.commented', ticket: current, comment });
+  }
+  if (comments.length > 0) await autoWatch(current.id, [actorId]);
+  return current;
+}
+
+// Tickets the agent can't see, or that were merged away, are reported back
+// rather than failing the whole run
+export async function runMacro(req: Request, macroId: string, ticketIds: string[]): Promise<MacroRunResult[]> {
+  const macro = await getUsableMacro(req, macroId);
+  const actions = normalizeMacroActions(macro.actions);
+  if (actions.length === 0) throw new MacroError('This macro has no steps', 400);
+  await checkReferences(actions);
+
+  const ids = Array.from(new Set(ticketIds));
+  if (ids.length === 0) throw new MacroError('Choose at least one ticket', 400);
+  if (ids.length > MAX_MACRO_TICKETS) {
+    throw new MacroError(`Run a macro on at most ${MAX_MACRO_TICKETS} tickets at a time`, 400);
+  }
+
+  const scope = await getStudioScope(req);
+  const results: MacroRunResult[] = [];
+  for (const id of ids) {
+    const ticket = await storage.getTicket(id);
+    if (!ticket || !canAccessTicket(scope, ticket)) {
+      results.push({ ticketId: id, ticketNumber: null, applied: false, message: 'Ticket not found' });
+      continue;
+    }
+    if (ticket.mergedIntoTicketId) {
+      results.push({ ticketId: id, ticketNumber: ticket.ticketNumber, applied: false, message: 'Ticket has been merged' });
+      continue;
+    }
+    try {
+      await runOnTicket(req, macro, actions, ticket);
+      results.push({ ticketId: id, ticketNumber: ticket.ticketNumber, applied: true });
+    } catch (error) {
+      // Sub-ticket rules (e.g. closing a parent with open children) are enforced by triggers
+      const message = error instanceof MacroError ? error.message : subTicketRuleMessage(error);
+      if (!message) console.error(`Macro "${macro.name}" failed on ${id}:`, error);
+      results.push({ ticketId: id, ticketNumber: ticket.ticketNumber, applied: false, message: message || 'Failed to apply macro' });
+    }
+  }
+
+  if (results.some(result => result.applied)) await storage.recordMacroUse(macro.id);
+  return results;
+}
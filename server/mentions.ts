@@ -0,0 +1,126 @@
+// Comment Mentions
+// The comment box records who was @mentioned; each mentioned colleague gets a
+// notification pointing at the exact comment (by email too when the author asks
+// and their preferences allow), and starts watching the ticket. Only colleagues who
+// can see the ticket's studio can be mentioned, and internal notes only reach staff
+// who can read them.
+
+import { createClient } from "@supabase/supabase-js";
+import type { Ticket, TicketComment } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+import { storage, type IStorage } from "./storage";
+import { dispatchNotifications } from "./notificationDispatch";
+import { autoWatch } from "./watchers";
+import { filterUsersWithTicketAccess } from "./studioAccess";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+export const MAX_MENTIONS_PER_COMMENT = 20;
+
+interface MentionedUser {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  displayName: string | null;
+  email: string | null;
+}
+
+function displayName(user: MentionedUser | null | undefined): string {
+  if (!user) return 'Someone';
+  return user.displayName || [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'Someone';
+}
+
+function excerpt(content: string): string {
+  return content.length > 200 ? `${content.slice(0, 197)}...` : content;
+}
+
+export function commentPath(ticketId: string, commentId: string): string {
+  return `/tickets/${ticketId}#comment-${commentId}`;
+}
+
+async function findActiveUsers(ids: string[]): Promise<MentionedUser[]> {
+  if (!supabase || ids.length === 0) return [];
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, firstName, lastName, displayName, email')
+    .in('id', ids)
+    .eq('isActive', true);
+  if (error) throw error;
+  return (data || []) as MentionedUser[];
+}
+
+// Keeps the mentions that name an active user who can see the ticket, in the order given
+export async function resolveMentionedUserIds(
+  ids: unknown,
+  ticket: Pick<Ticket, 'studioId' | 'assignedToUserId' | 'reportedByUserId'>,
+): Promise<string[]> {
+  if (!Array.isArray(ids)) return [];
+  const requested = Array.from(new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0)))
+    .slice(0, MAX_MENTIONS_PER_COMMENT);
+  const active = (await findActiveUsers(requested)).map(user => user.id);
+  const allowed = new Set(await filterUsersWithTicketAccess(ticket, active));
+  return requested.filter(id => allowed.has(id));
+}
+
+interface MentionNotification {
+  ticket: Pick<Ticket, 'id' | 'ticketNumber' | 'title' | 'priority'>;
+  comment: Pick<TicketComment, 'id' | 'content' | 'isInternal' | 'mentionedUserIds'>;
+  authorId: string;
+  // Also email the mentioned users who take mentions by email, linking back to the comment
+  email?: boolean;
+  baseUrl?: string;
+}
+
+// Returns the ids of the users notified. Pass the storage the comment was
+// written with so notifications and emails commit with it.
+export async function notifyMentions(notification: MentionNotification, store: IStorage = storage): Promise<string[]> {
+  const { ticket, comment, authorId, baseUrl } = notification;
+  let mentioned = (comment.mentionedUserIds || []).filter(id => id !== authorId);
+  if (mentioned.length === 0) return [];
+
+  if (comment.isInternal) {
+    const staff = new Set(await store.getUserIdsByRoles([...PERMISSIONS.canViewInternalNotes]));
+    mentioned = mentioned.filter(id => staff.has(id));
+  }
+  if (mentioned.length === 0) return [];
+
+  const users = await findActiveUsers([authorId, ...mentioned]);
+  const byId = new Map(users.map(user => [user.id, user]));
+  const authorName = displayName(byId.get(authorId));
+  const path = commentPath(ticket.id, comment.id);
+
+  await autoWatch(ticket.id, mentioned, store);
+
+  await dispatchNotifications(mentioned.map(userId => {
+    const recipient = byId.get(userId);
+    return {
+      userId,
+      event: 'mention' as const,
+      ticket,
+      title: `${authorName} mentioned you on ${ticket.ticketNumber}`,
+      message: excerpt(comment.content),
+      actionUrl: path,
+      // Mention emails go out only when the author asks for them
+      email: !notification.email ? null : recipient?.email
+        ? {
+            eventType: 'mention',
+            recipientEmail: recipient.email,
+            recipientName: displayName(recipient),
+            payload: {
+              ticketNumber: ticket.ticketNumber,
+              ticketTitle: ticket.title,
+              mentionedBy: authorName,
+              commentExcerpt: excerpt(comment.content),
+              ticketUrl: baseUrl ? `${baseUrl}${path}` : undefined,
+            },
+          }
+        : undefined,
+    };
+  }), store);
+
+  return mentioned;
+}
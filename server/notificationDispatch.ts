@@ -0,0 +1,193 @@
+// Notification Dispatch
+// Every notification to a colleague goes through here, so their preferences
+// decide how it reaches them: the event x channel matrix picks in-app, email and
+// push; during quiet hours email waits in the outbox until they end and push
+// stays silent; tickets whose priority the user lists in overridePriorities
+// (critical by default) ignore quiet hours and always reach them in-app and by
+// push. Pushes go out once the change commits. Events raised without an email of
+// their own get a generic one repeating the in-app title and message. Mail to
+// customers isn't covered: they have no preferences.
+
+import type { Notification, NotificationPreferences, Ticket, User } from "@shared/schema";
+import { DEFAULT_TIME_ZONE } from "@shared/schema";
+import { resolveChannelMatrix, supportsChannel, type ChannelMatrix, type NotificationEvent } from "@shared/notificationPreferences";
+import { storage, type IStorage } from "./storage";
+import { enqueueEmails, type OutboxEmail } from "./notificationOutbox";
+import { localTime, minutesOfDay } from "./localTime";
+import { notificationPushPayload, sendPushToUsers } from "./webPush";
+import { publicUrl } from "./publicUrl";
+
+const MINUTE_MS = 60 * 1000;
+
+export interface ResolvedNotificationPreferences extends Omit<NotificationPreferences, 'channels'> {
+  channels: ChannelMatrix;
+}
+
+export interface DeliveryPlan {
+  inApp: boolean;
+  email: boolean;
+  push: boolean;
+  // Set during quiet hours: hold the email until then
+  emailNotBefore?: Date;
+}
+
+export interface NotificationRequest {
+  userId: string;
+  event: NotificationEvent;
+  ticket?: Pick<Ticket, 'id' | 'priority'> | null;
+  // Stored notification type; defaults to the event
+  type?: string;
+  title: string;
+  message?: string | null;
+  actionUrl?: string | null;
+  // Sent alongside when the user takes this event by email; defaults to
+  // genericEmail, null sends none
+  email?: Omit<OutboxEmail, 'ticketId' | 'notificationId' | 'notBefore'> | null;
+}
+
+function genericEmail(request: NotificationRequest, recipient: User | undefined): OutboxEmail | undefined {
+  if (!recipient?.email) return undefined;
+  return {
+    eventType: 'notification',
+    recipientEmail: recipient.email,
+    recipientName: [recipient.firstName, recipient.lastName].filter(Boolean).join(' ') || null,
+    payload: {
+      title: request.title,
+      message: request.message ?? undefined,
+      ticketUrl: request.actionUrl ? publicUrl(request.actionUrl) : undefined,
+    },
+  };
+}
+
+export function resolveNotificationPreferences(userId: string, stored?: NotificationPreferences): ResolvedNotificationPreferences {
+  return {
+    userId,
+    quietHoursEnabled: stored?.quietHoursEnabled ?? false,
+    quietHoursStart: stored?.quietHoursStart ?? '22:00',
+    quietHoursEnd: stored?.quietHoursEnd ?? '07:00',
+    timeZone: stored?.timeZone ?? DEFAULT_TIME_ZONE,
+    overridePriorities: stored?.overridePriorities ?? ['critical'],
+    updatedAt: stored?.updatedAt ?? null,
+    channels: resolveChannelMatrix(stored?.channels),
+  };
+}
+
+// Minutes until quiet hours end, or 0 outside them. Start and end are local
+// wall-clock times; a window past midnight (22:00-07:00) wraps.
+export function minutesUntilQuietHoursEnd(preferences: ResolvedNotificationPreferences, now: Date): number {
+  if (!preferences.quietHoursEnabled) return 0;
+  const start = minutesOfDay(preferences.quietHoursStart);
+  const end = minutesOfDay(preferences.quietHoursEnd);
+  if (start === end) return 0;
+
+  const local = localTime(now, preferences.timeZone).minutes;
+  const quiet = start < end ? local >= start && local < end : local >= start || local < end;
+  return quiet ? (end - local + 24 * 60) % (24 * 60) : 0;
+}
+
+export function planDelivery(
+  preferences: ResolvedNotificationPreferences,
+  event: NotificationEvent,
+  priority: string | null | undefined,
+  now: Date = new Date(),
+): DeliveryPlan {
+  const wanted = preferences.channels[event];
+  if (priority && preferences.overridePriorities.includes(priority)) {
+    return { inApp: true, email: wanted.email, push: supportsChannel(event, 'push') };
+  }
+
+  let quietMinutes = 0;
+  try {
+    quietMinutes = minutesUntilQuietHoursEnd(preferences, now);
+  } catch {
+    // A time zone the runtime no longer knows; deliver as if outside quiet hours
+  }
+  return {
+    inApp: wanted.in_app,
+    email: wanted.email,
+    push: wanted.push && quietMinutes === 0,
+    emailNotBefore: wanted.email && quietMinutes > 0 ? new Date(now.getTime() + quietMinutes * MINUTE_MS) : undefined,
+  };
+}
+
+export async function getDeliveryPlans(
+  userIds: string[],
+  event: NotificationEvent,
+  priority: string | null | undefined,
+  store: IStorage = storage,
+  now: Date = new Date(),
+): Promise<Map<string, DeliveryPlan>> {
+  const unique = Array.from(new Set(userIds));
+  const stored = new Map((await store.getNotificationPreferences(unique)).map(row => [row.userId, row]));
+  return new Map(unique.map(userId => [
+    userId,
+    planDelivery(resolveNotificationPreferences(userId, stored.get(userId)), event, priority, now),
+  ]));
+}
+
+// Creates the in-app notifications, queues the emails and sends the pushes each
+// recipient's preferences allow. Returns the in-app notifications in request order
+// (undefined where the user has that event turned off in-app). Pass the storage
+// the change was written with so everything commits with it.
+export async function dispatchNotifications(
+  requests: NotificationRequest[],
+  store: IStorage = storage,
+): Promise<(Notification | undefined)[]> {
+  if (requests.length === 0) return [];
+  const now = new Date();
+  const stored = new Map((await store.getNotificationPreferences(Array.from(new Set(requests.map(r => r.userId)))))
+    .map(row => [row.userId, row]));
+
+  const plans = requests.map(request =>
+    planDelivery(resolveNotificationPreferences(request.userId, stored.get(request.userId)), request.event, request.ticket?.priority, now)
+  );
+  const needGenericEmail = requests.filter((request, index) => plans[index].email && request.email === undefined);
+  const recipients = new Map((await store.getUsersByIds(Array.from(new Set(needGenericEmail.map(r => r.userId)))))
+    .map(user => [user.id, user]));
+
+  const created: (Notification | undefined)[] = [];
+  const emails: OutboxEmail[] = [];
+  for (let index = 0; index < requests.length; index++) {
+    const request = requests[index];
+    const plan = plans[index];
+
+    const notification = plan.inApp
+      ? await store.createNotification({
+          userId: request.userId,
+          ticketId: request.ticket?.id ?? null,
+          type: request.type || request.event,
+          title: request.title,
+          message: request.message ?? null,
+          actionUrl: request.actionUrl ?? null,
+        })
+      : undefined;
+    created.push(notification);
+
+    const email = plan.email && request.email !== null
+      ? request.email || genericEmail(request, recipients.get(request.userId))
+      : undefined;
+    if (email) {
+      emails.push({
+        ...email,
+        ticketId: request.ticket?.id ?? null,
+        notificationId: notification?.id ?? null,
+        notBefore: plan.emailNotBefore ?? null,
+      });
+    }
+
+    if (plan.push) {
+      const payload = notificationPushPayload(notification || {
+        userId: request.userId,
+        ticketId: request.ticket?.id ?? null,
+        title: request.title,
+        message: request.message ?? null,
+        actionUrl: request.actionUrl ?? null,
+      }, request.ticket?.priority);
+      store.onCommit(() => {
+        sendPushToUsers([request.userId], payload).catch(error => console.error('Error sending push notification:', error));
+      });
+    }
+  }
+  await enqueueEmails(store, emails);
+  return created;
+}
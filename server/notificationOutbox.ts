@@ -0,0 +1,197 @@
+// Notification Outbox
+// Outgoing email is never sent inline. Callers enqueue messages through the
+// storage they wrote the ticket change with, so a message commits or rolls back
+// with the change that caused it. The worker renders due messages and hands
+// them to the configured email transport, retrying with exponential backoff and
+// dead-lettering after maxAttempts; admins can resend dead messages. A delivered
+// message linked to an in-app notification marks it sentViaEmail.
+// Mail about a ticket is sent from its assigned team's address, else its
+// studio's, else the default sender, with a Reply-To that threads replies back
+// onto the ticket when inbound email is configured.
+
+import type { NotificationOutboxMessage } from "@shared/schema";
+import { db } from "./db";
+import { storage, type IStorage } from "./storage";
+import { DEFAULT_FROM, getEmailTransport, type EmailAddress } from "./emailTransport";
+import { renderNotificationEmail, type NotificationEmailData } from "./emailTemplates";
+import { getPublicBaseUrl, publicUrl } from "./publicUrl";
+import { ticketReplyAddress } from "./replyAddress";
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const BATCH_SIZE = 20;
+// Enqueued messages are picked up this soon, once their transaction has committed
+const KICK_DELAY_MS = 1000;
+
+export interface OutboxEmail {
+  eventType: string;
+  recipientEmail: string;
+  recipientName?: string | null;
+  ticketId?: string | null;
+  // The in-app notification this email accompanies
+  notificationId?: string | null;
+  // Template fields for the email function (ticketNumber, ticketUrl, ...)
+  payload: Record<string, unknown>;
+  // Hold delivery until then, e.g. the end of the recipient's quiet hours
+  notBefore?: Date | null;
+}
+
+export interface OutboxRunResult {
+  claimed: number;
+  sent: number;
+  retried: number;
+  dead: number;
+}
+
+export class OutboxError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// 1 min, 2 min, 4 min, ... capped at 6 hours
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+export async function enqueueEmails(store: IStorage, emails: OutboxEmail[]): Promise<NotificationOutboxMessage[]> {
+  const queued = await store.enqueueOutboxMessages(emails.map(email => ({
+    channel: 'email',
+    eventType: email.eventType,
+    recipientEmail: email.recipientEmail,
+    recipientName: email.recipientName || null,
+    ticketId: email.ticketId || null,
+    notificationId: email.notificationId || null,
+    ...(email.notBefore ? { nextAttemptAt: email.notBefore } : {}),
+    payload: {
+      ...email.payload,
+      type: email.eventType,
+      recipientEmail: email.recipientEmail,
+      recipientName: email.recipientName || email.recipientEmail,
+    },
+  })));
+  if (queued.length > 0) scheduleOutboxRun();
+  return queued;
+}
+
+export async function resolveSender(ticketId: string | null): Promise<EmailAddress> {
+  const ticket = ticketId ? await storage.getTicket(ticketId) : undefined;
+  if (!ticket) return DEFAULT_FROM;
+  const team = ticket.assignedTeamId ? await storage.getTeam(ticket.assignedTeamId) : undefined;
+  if (team?.email) return { email: team.email, name: `${DEFAULT_FROM.name} · ${team.name}` };
+  const studio = await storage.getStudio(ticket.studioId);
+  if (studio?.email) return { email: studio.email, name: `${DEFAULT_FROM.name} · ${studio.name}` };
+  return DEFAULT_FROM;
+}
+
+async function deliver(message: NotificationOutboxMessage): Promise<void> {
+  const transport = getEmailTransport();
+  if (!transport) throw new Error('Email delivery is not configured (set EMAIL_TRANSPORT)');
+
+  const data = message.payload as NotificationEmailData;
+  const ticketUrl = data.ticketUrl || (message.ticketId ? publicUrl(`/tickets/${message.ticketId}`) : undefined);
+  const { subject, html } = renderNotificationEmail({ ...data, ticketUrl }, getPublicBaseUrl());
+  const replyTo = ticketReplyAddress(message.ticketId);
+  await transport.send({
+    from: await resolveSender(message.ticketId),
+    replyTo: replyTo ? { email: replyTo } : undefined,
+    to: { email: message.recipientEmail, name: message.recipientName },
+    subject,
+    html,
+    category: `ticket-${message.eventType}`,
+    headers: { 'X-Outbox-Message-Id': message.id },
+  });
+}
+
+export async function deliverDueMessages(now: Date = new Date()): Promise<OutboxRunResult> {
+  const claimed = await storage.claimDueOutboxMessages(now, BATCH_SIZE);
+  const result: OutboxRunResult = { claimed: claimed.length, sent: 0, retried: 0, dead: 0 };
+
+  for (const message of claimed) {
+    const attempts = message.attempts + 1;
+    try {
+      await deliver(message);
+      await storage.updateOutboxMessage(message.id, {
+        status: 'sent',
+        attempts,
+        sentAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+      });
+      if (message.notificationId) await storage.markNotificationEmailed(message.notificationId);
+      result.sent++;
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const dead = attempts >= message.maxAttempts;
+      await storage.updateOutboxMessage(message.id, {
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        lockedAt: null,
+        lastError,
+        nextAttemptAt: dead ? message.nextAttemptAt : new Date(now.getTime() + retryDelayMs(attempts)),
+      });
+      if (dead) {
+        console.error(`Outbox: giving up on ${message.eventType} email to ${message.recipientEmail} after ${attempts} attempts: ${lastError}`);
+        result.dead++;
+      } else {
+        result.retried++;
+      }
+    }
+  }
+  return result;
+}
+
+// Puts a message back in the queue with a fresh set of attempts
+export async function resendOutboxMessage(id: string): Promise<NotificationOutboxMessage> {
+  const message = await storage.getOutboxMessage(id);
+  if (!message) throw new OutboxError('Message not found', 404);
+  if (message.status === 'sending') throw new OutboxError('Message is being delivered right now', 409);
+
+  const requeued = await storage.updateOutboxMessage(id, {
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    lockedAt: null,
+    lastError: null,
+  });
+  scheduleOutboxRun();
+  return requeued!;
+}
+
+let running = false;
+let kickTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function runOutbox() {
+  if (running || !db) return;
+  running = true;
+  try {
+    // Keep going while full batches come back so a backlog drains in one run
+    let result: OutboxRunResult;
+    do {
+      result = await deliverDueMessages();
+      if (result.retried > 0 || result.dead > 0) {
+        console.log(`Outbox: sent ${result.sent}, retrying ${result.retried}, dead-lettered ${result.dead}`);
+      }
+    } while (result.claimed === BATCH_SIZE);
+  } catch (error) {
+    console.error('Outbox worker error:', error);
+  } finally {
+    running = false;
+  }
+}
+
+function scheduleOutboxRun() {
+  if (kickTimer) return;
+  kickTimer = setTimeout(() => {
+    kickTimer = null;
+    void runOutbox();
+  }, KICK_DELAY_MS);
+}
+
+export function startOutboxWorker(intervalMs: number = parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '30000', 10)) {
+  if (!db) {
+    console.warn('Notification outbox worker disabled: DATABASE_URL not set');
+    return null;
+  }
+  return setInterval(runOutbox, intervalMs);
+}
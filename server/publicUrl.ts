@@ -0,0 +1,15 @@
+// Public URL
+// Links that leave the app (emails, push notifications) are built from
+// PUBLIC_BASE_URL, so they're right when sent from a background worker or from
+// behind a proxy. They are never taken from a request's Origin or Host headers,
+// which the caller controls: without PUBLIC_BASE_URL, messages go out without links.
+
+export function getPublicBaseUrl(): string | undefined {
+  const configured = process.env.PUBLIC_BASE_URL?.trim();
+  return configured ? configured.replace(/\/+$/, "") : undefined;
+}
+
+export function publicUrl(path: string): string | undefined {
+  const base = getPublicBaseUrl();
+  return base ? `${base}${path.startsWith('/') ? path : `/${path}`}` : undefined;
+}
@@ -0,0 +1,113 @@
+// QR Feedback
+// Printed QR codes at a studio's reception or changing rooms open a public form
+// (/feedback/<studioId>, optionally ?location=<tag> for a spot or piece of
+// equipment) that raises a ticket with source 'qr' through the normal creation
+// pipeline. Submissions are made by the QR_FORM_USER_ID account, else
+// INBOUND_EMAIL_USER_ID, with the customer's details, if given, on the ticket.
+// Bots are turned away by a honeypot field and per-IP rate limits.
+
+import type { InsertTicket, QrSubmission } from "@shared/schema";
+import { storage } from "./storage";
+import { createTicketWithRouting } from "./ticketPipeline";
+import { runWorkflows } from "./workflowEngine";
+import { getPublicBaseUrl } from "./publicUrl";
+import { portalLink } from "./customerPortal";
+
+const TITLE_LENGTH = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class QrFeedbackError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export interface QrForm {
+  studioName: string;
+  categories: {
+    id: string;
+    name: string;
+    description: string | null;
+    subcategories: { id: string; name: string }[];
+  }[];
+}
+
+export interface QrSubmissionResult {
+  ticketNumber: string | null;
+  // The customer's status page, when they left an email address
+  statusUrl: string | null;
+}
+
+async function activeStudio(studioId: string) {
+  const studio = UUID_PATTERN.test(studioId) ? await storage.getStudio(studioId) : undefined;
+  if (!studio || studio.isActive === false) {
+    throw new QrFeedbackError("This feedback form isn't available", 404);
+  }
+  return studio;
+}
+
+export async function getQrForm(studioId: string): Promise<QrForm> {
+  const studio = await activeStudio(studioId);
+  const [categories, subcategories] = await Promise.all([storage.getCategories(), storage.getSubcategories()]);
+  return {
+    studioName: studio.name,
+    categories: categories.map(category => ({
+      id: category.id,
+      name: category.name,
+      description: category.description,
+      subcategories: subcategories
+        .filter(subcategory => subcategory.categoryId === category.id)
+        .map(subcategory => ({ id: subcategory.id, name: subcategory.name })),
+    })),
+  };
+}
+
+// The first line of what they wrote, cut at a word boundary
+function titleFrom(description: string): string {
+  const line = description.split('\n')[0].trim();
+  if (line.length <= TITLE_LENGTH) return line;
+  const cut = line.slice(0, TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}...`;
+}
+
+// Returns null for honeypot hits: the bot is told it worked and nothing is saved
+export async function submitQrFeedback(studioId: string, submission: QrSubmission): Promise<QrSubmissionResult | null> {
+  if (submission.website) return null;
+
+  const studio = await activeStudio(studioId);
+  const category = await storage.getCategory(submission.categoryId);
+  if (!category || category.isActive === false) throw new QrFeedbackError("Choose what it's about", 400);
+  const subcategory = submission.subcategoryId ? await storage.getSubcategory(submission.subcategoryId) : undefined;
+  if (submission.subcategoryId && (!subcategory || subcategory.categoryId !== category.id)) {
+    throw new QrFeedbackError("Choose what it's about", 400);
+  }
+
+  const actorId = process.env.QR_FORM_USER_ID || process.env.INBOUND_EMAIL_USER_ID;
+  if (!actorId) throw new QrFeedbackError('Feedback is not available right now', 503);
+
+  const location = submission.location || null;
+  const input: InsertTicket = {
+    studioId: studio.id,
+    categoryId: category.id,
+    subcategoryId: subcategory?.id || null,
+    title: titleFrom(submission.description),
+    description: location ? `${submission.description}\n\nLocation: ${location}` : submission.description,
+    source: 'qr',
+    customerName: submission.customerName || null,
+    customerEmail: submission.customerEmail || null,
+    customerPhone: submission.customerPhone || null,
+    tags: location ? [`location:${location.toLowerCase()}`] : [],
+    dynamicFieldData: location ? { qrLocation: location } : null,
+  };
+  // Only the configured address: the confirmation mail goes to whatever email an
+  // anonymous visitor typed, so its links must never come from their headers
+  const baseUrl = getPublicBaseUrl();
+  const { ticket: created } = await createTicketWithRouting(input, { id: actorId }, { baseUrl });
+  const ticket = await runWorkflows({ event: 'ticket_created', ticket: created, actorId });
+
+  return {
+    ticketNumber: ticket.ticketNumber,
+    statusUrl: portalLink(ticket, baseUrl) || null,
+  };
+}
@@ -0,0 +1,33 @@
+// Rate Limits
+// Per-IP limits for the public endpoints customers reach without an account.
+// Counts live in memory, per server process. Behind a reverse proxy set
+// TRUST_PROXY (e.g. 1, the number of proxies in front) so each client is
+// counted by its own address rather than the proxy's.
+
+import rateLimit from "express-rate-limit";
+
+const MINUTE_MS = 60 * 1000;
+
+function limiter(windowMinutes: number, limit: number, message: string) {
+  return rateLimit({
+    windowMs: windowMinutes * MINUTE_MS,
+    limit,
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    message: { message },
+  });
+}
+
+// Guessing ticket number and email pairs
+export const portalLookupLimiter = limiter(15, 10, "Too many attempts. Please wait a few minutes and try again.");
+export const portalReadLimiter = limiter(15, 300, "Too many requests. Please wait a few minutes and try again.");
+export const portalReplyLimiter = limiter(60, 20, "You've sent a lot of replies. Please wait a while before sending another.");
+
+// CSAT survey links, opened from the email and answered once
+export const surveyReadLimiter = limiter(15, 120, "Too many requests. Please wait a few minutes and try again.");
+export const surveySubmitLimiter = limiter(15, 10, "Too many attempts. Please wait a few minutes and try again.");
+
+// Shared guest wifi puts a whole studio behind one address, so the QR form allows
+// a few customers in a row before pushing back
+export const qrFormLimiter = limiter(15, 60, "Too many requests. Please wait a few minutes and try again.");
+export const qrSubmitLimiter = limiter(30, 10, "Thanks, we've had a lot of feedback from here. Please try again a little later.");
@@ -0,0 +1,47 @@
+// Reply Addresses
+// Outgoing ticket email carries a Reply-To such as support+t<ticket>.<signature>@…
+// built from INBOUND_REPLY_ADDRESS, so a reply threads onto its ticket without
+// trusting the subject line. The signature uses INBOUND_EMAIL_SECRET; tokens are
+// lowercase hex because some relays fold the case of local parts.
+
+import crypto from "crypto";
+
+const TOKEN_PATTERN = /\+t([0-9a-f]{32})\.([0-9a-f]{12})@/i;
+
+function sign(compactId: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`reply:${compactId}`).digest('hex').slice(0, 12);
+}
+
+function compact(ticketId: string): string | null {
+  const hex = ticketId.replace(/-/g, '').toLowerCase();
+  return /^[0-9a-f]{32}$/.test(hex) ? hex : null;
+}
+
+function expand(hex: string): string {
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function ticketReplyAddress(ticketId: string | null | undefined): string | undefined {
+  const address = process.env.INBOUND_REPLY_ADDRESS;
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  const id = ticketId ? compact(ticketId) : null;
+  if (!address || !secret || !id) return undefined;
+  const [local, domain] = address.split('@');
+  if (!local || !domain) return undefined;
+  return `${local}+t${id}.${sign(id, secret)}@${domain}`;
+}
+
+// The ticket id named by a validly signed reply address among the recipients
+export function ticketIdFromReplyAddresses(addresses: string[]): string | null {
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  if (!secret) return null;
+  for (const address of addresses) {
+    const match = TOKEN_PATTERN.exec(address);
+    if (!match) continue;
+    const id = match[1].toLowerCase();
+    const expected = Buffer.from(sign(id, secret));
+    const given = Buffer.from(match[2].toLowerCase());
+    if (expected.length === given.length && crypto.timingSafeEqual(expected, given)) return expand(id);
+  }
+  return null;
+}
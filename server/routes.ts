@@ -1,11 +1,67 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import fs from "fs/promises";
 import path from "path";
-import { setupAuth, isAuthenticated } from "./supabaseAuth";
+import { setupAuth, isAuthenticated, requirePermission, requireRole, getRequestRoles } from "./supabaseAuth";
 import { createClient } from "@supabase/supabase-js";
-import { insertTicketSchema, insertTicketCommentSchema, insertTeamSchema, insertStudioSchema, insertCategorySchema, insertNotificationSchema, updateTicketSchema, updateTeamSchema, updateStudioSchema } from "@shared/schema";
+import { type DigestKind, type OutboxStatus, type TicketAttachment, DIGEST_KINDS, OUTBOX_STATUSES, csatResponseSchema, insertPushSubscriptionSchema, portalLookupSchema, portalReplySchema, qrSubmissionSchema, updateDigestSettingsSchema, updateNotificationPreferencesSchema, createSubTicketSchema, insertTicketSchema, insertTicketCommentSchema, insertTeamSchema, insertStudioSchema, insertCategorySchema, insertNotificationSchema, insertStudioAccessSchema, insertTicketWatcherSchema, insertWorkflowRuleSchema, insertMacroSchema, updateTicketSchema, updateTeamSchema, updateStudioSchema, updateCategorySchema, updateWorkflowRuleSchema, updateMacroSchema } from "@shared/schema";
 import { storage } from "./storage";
+import { createTicketWithRouting } from "./ticketPipeline";
+import { runEscalationsForEvent } from "./escalationRunner";
+import { previewWorkflowRule, runWorkflows } from "./workflowEngine";
+import {
+  canAccessStudio,
+  filterUsersWithTicketAccess,
+  getStudioAccessGrants,
+  getStudioScope,
+  grantStudioAccess,
+  requireTicketAccess,
+  revokeStudioAccess,
+  scopeFilter,
+} from "./studioAccess";
+import { ticketsToCsv } from "./ticketExport";
+import { searchTicketHits, searchTickets } from "./ticketSearch";
+import { compileTicketQuery } from "./ticketQuery";
+import { mergeTickets, TicketMergeError } from "./ticketMerge";
+import { autoWatch, getWatchersWithUsers, notifyWatchers } from "./watchers";
+import { notifyMentions, resolveMentionedUserIds } from "./mentions";
+import { publishTicketEvent } from "./liveUpdates";
+import { OutboxError, resendOutboxMessage } from "./notificationOutbox";
+import { getPublicBaseUrl } from "./publicUrl";
+import { resolveNotificationPreferences } from "./notificationDispatch";
+import { DEFAULT_DIGEST_SETTINGS, DigestError, sendTestDigest } from "./digests";
+import { getVapidPublicKey, sendPushToUsers, verifyAcknowledgeToken } from "./webPush";
+import { CsatSurveyError, getSurvey, submitSurvey } from "./csatSurveys";
+import { addPortalReply, getPortalTicket, lookUpTicket, PortalError } from "./customerPortal";
+import { getQrForm, QrFeedbackError, submitQrFeedback } from "./qrFeedback";
+import {
+  portalLookupLimiter,
+  portalReadLimiter,
+  portalReplyLimiter,
+  qrFormLimiter,
+  qrSubmitLimiter,
+  surveyReadLimiter,
+  surveySubmitLimiter,
+} from "./rateLimits";
+import { InboundEmailError, MAX_INBOUND_EMAIL_BYTES, processInboundEmail, verifyInboundSecret } from "./inboundEmail";
+import { relayVerdict } from "./senderAuthentication";
+import { createSubTicket, getSubTickets, SubTicketError, subTicketRuleMessage, validateParentTicket } from "./subTickets";
+import { afterTicketUpdate } from "./ticketUpdates";
+import { getEditableMacro, MacroError, runMacro } from "./macros";
+import { applyTicketFilters } from "@shared/ticketQuery";
+import { hasPermission, ROLE_HIERARCHY } from "@shared/permissions";
+import {
+  contentDisposition,
+  deleteAttachment,
+  filterVisibleAttachments,
+  getAccessibleAttachment,
+  isOnInternalComment,
+  readAttachment,
+  receiveAttachments,
+  saveAttachments,
+  verifyDownloadSignature,
+  withDownloadUrl,
+} from "./attachments";
 
 // Initialize Supabase client
 const supabaseUrl = process.env.SUPABASE_URL;
@@ -14,6 +70,21 @@ const supabase = supabaseUrl && supabaseServiceRoleKey
   ? createClient(supabaseUrl, supabaseServiceRoleKey)
   : null;
 
+async function sendAttachment(res: Response, attachment: TicketAttachment, forceDownload: boolean) {
+  const contents = await readAttachment(attachment);
+  res.setHeader('Content-Type', attachment.mimeType || 'application/octet-stream');
+  res.setHeader('Content-Length', contents.length);
+  res.setHeader('Content-Disposition', contentDisposition(attachment, forceDownload));
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.send(contents);
+}
+
+async function canChangeAttachment(req: Request, uploadedByUserId: string | null): Promise<boolean> {
+  if (uploadedByUserId && uploadedByUserId === (req as any).user.claims.sub) return true;
+  return hasPermission(await getRequestRoles(req), 'canManageTickets');
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   await setupAuth(app);
 
@@ -57,7 +128,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/teams', isAuthenticated, async (req, res) => {
+  app.post('/api/teams', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
     try {
       const teamData = insertTeamSchema.parse(req.body);
       // For now, just return a mock team object
@@ -75,7 +146,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/teams/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/teams/:id', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
     try {
       const updates = updateTeamSchema.parse(req.body);
       // For now, just return a mock updated team
@@ -111,7 +182,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/studios', isAuthenticated, async (req, res) => {
+  app.post('/api/studios', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
     try {
       const studioData = insertStudioSchema.parse(req.body);
       // For now, just return a mock studio object
@@ -129,7 +200,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/studios/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/studios/:id', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
     try {
       const updates = updateStudioSchema.parse(req.body);
       // For now, just return a mock updated studio
@@ -145,6 +216,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Per-user studio grants; a user always sees their home studio (users.studioId)
+  app.get('/api/studio-access', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const grants = await getStudioAccessGrants();
+      res.json(grants);
+    } catch (error) {
+      console.error("Error fetching studio access:", error);
+      res.status(500).json({ message: "Failed to fetch studio access" });
+    }
+  });
+
+  app.post('/api/studio-access', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const grantData = insertStudioAccessSchema.parse(req.body);
+      const grant = await grantStudioAccess(grantData);
+      res.status(201).json(grant);
+    } catch (error) {
+      console.error("Error granting studio access:", error);
+      res.status(400).json({ message: "Failed to grant studio access" });
+    }
+  });
+
+  app.delete('/api/studio-access/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const success = await revokeStudioAccess(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Studio access not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking studio access:", error);
+      res.status(500).json({ message: "Failed to revoke studio access" });
+    }
+  });
+
   app.get('/api/categories', isAuthenticated, async (req, res) => {
     try {
       if (!supabase) return res.status(500).json({ message: 'Supabase not configured' });
@@ -163,7 +269,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/categories', isAuthenticated, async (req, res) => {
+  app.post('/api/categories', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
     try {
       if (!supabase) return res.status(500).json({ message: 'Supabase not configured' });
       
@@ -182,6 +288,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Includes the per-category ticket number prefix/pattern used by next_ticket_number()
+  app.patch('/api/categories/:id', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
+    try {
+      if (!supabase) return res.status(500).json({ message: 'Supabase not configured' });
+
+      const updates = updateCategorySchema.parse(req.body);
+      const { data, error } = await supabase
+        .from('categories')
+        .update(updates)
+        .eq('id', req.params.id)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return res.status(404).json({ message: "Category not found" });
+      res.json(data);
+    } catch (error) {
+      console.error("Error updating category:", error);
+      res.status(400).json({ message: "Failed to update category" });
+    }
+  });
+
   app.get('/api/subcategories', isAuthenticated, async (req, res) => {
     try {
       if (!supabase) return res.status(500).json({ message: 'Supabase not configured' });
@@ -207,38 +335,100 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       if (!supabase) return res.status(500).json({ message: 'Supabase not configured' });
       
+      // `q` is the query language; its free text joins any plain search
+      const { filters: compiled } = await compileTicketQuery(req, String(req.query.q || ''));
       const filters = {
         status: req.query.status as string | undefined,
         priority: req.query.priority as string | undefined,
         category: req.query.category as string | undefined,
         studioId: (req.query.studioId || req.query.studio) as string | undefined,
         assignedToUserId: req.query.assignedToUserId as string | undefined,
-        search: req.query.search as string | undefined,
+        search: [req.query.search, compiled.search].filter(Boolean).join(' ') || undefined,
         limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
         offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
       };
       
-      let query = supabase.from('tickets').select('*');
+      let query = applyTicketFilters(supabase.from('tickets').select('*'), compiled);
+      const visible = scopeFilter(await getStudioScope(req));
+      if (visible) query = query.or(visible);
       if (filters.status) query = query.eq('status', filters.status);
       if (filters.priority) query = query.eq('priority', filters.priority);
       if (filters.category) query = query.eq('category', filters.category);
       if (filters.studioId) query = query.eq('studioId', filters.studioId);
       if (filters.assignedToUserId) query = query.eq('assignedToUserId', filters.assignedToUserId);
-      if (filters.search) query = query.ilike('title', `%${filters.search}%`);
+
+      // Search narrows to ranked matches and returns them by relevance
+      let ranking: Map<string, number> | null = null;
+      if (filters.search) {
+        const hits = await searchTicketHits(req, filters.search, { limit: 200 });
+        ranking = new Map(hits.map((hit, index) => [hit.id, index]));
+        if (hits.length === 0) return res.json([]);
+        query = query.in('id', hits.map(hit => hit.id));
+      }
       
       if (filters.limit) query = query.limit(filters.limit);
       if (filters.offset) query = query.range(filters.offset, (filters.offset + (filters.limit || 10)) - 1);
       
       const { data, error } = await query.order('createdAt', { ascending: false });
       if (error) throw error;
-      res.json(data || []);
+      const tickets = data || [];
+      if (ranking) tickets.sort((a, b) => ranking!.get(a.id)! - ranking!.get(b.id)!);
+      res.json(tickets);
     } catch (error) {
       console.error("Error fetching tickets:", error);
       res.status(500).json({ message: "Failed to fetch tickets" });
     }
   });
 
-  app.get('/api/tickets/:id', isAuthenticated, async (req, res) => {
+  // Registered before /:id so "search" is not taken as an id
+  app.get('/api/tickets/search', isAuthenticated, async (req, res) => {
+    try {
+      const results = await searchTickets(req, String(req.query.q || ''), {
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      });
+      res.json(results);
+    } catch (error) {
+      console.error("Error searching tickets:", error);
+      res.status(500).json({ message: "Failed to search tickets" });
+    }
+  });
+
+  // Registered before /:id so "query" is not taken as an id
+  app.get('/api/tickets/query', isAuthenticated, async (req, res) => {
+    try {
+      res.json(await compileTicketQuery(req, String(req.query.q || '')));
+    } catch (error) {
+      console.error("Error compiling ticket query:", error);
+      res.status(500).json({ message: "Failed to compile ticket query" });
+    }
+  });
+
+  // Registered before /:id so "export" is not taken as an id
+  app.get('/api/tickets/export', isAuthenticated, async (req, res) => {
+    try {
+      const { filters: compiled } = await compileTicketQuery(req, String(req.query.q || ''));
+      const tickets = await storage.getTickets({
+        ...compiled,
+        status: req.query.status as string | undefined,
+        priority: req.query.priority as string | undefined,
+        category: req.query.category as string | undefined,
+        studioId: (req.query.studioId || req.query.studio) as string | undefined,
+        assignedToUserId: req.query.assignedToUserId as string | undefined,
+        search: [req.query.search, compiled.search].filter(Boolean).join(' ') || undefined,
+        scope: await getStudioScope(req),
+      });
+      const filename = `tickets-${new Date().toISOString().split('T')[0]}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(ticketsToCsv(tickets));
+    } catch (error) {
+      console.error("Error exporting tickets:", error);
+      res.status(500).json({ message: "Failed to export tickets" });
+    }
+  });
+
+  app.get('/api/tickets/:id', isAuthenticated, requireTicketAccess, async (req, res) => {
     try {
       // Prefer Supabase (consistent with list endpoint), fall back to storage if needed
       if (supabase) {
@@ -290,7 +480,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/tickets', isAuthenticated, async (req: any, res) => {
+  app.post('/api/tickets', isAuthenticated, requirePermission('canManageTickets'), async (req: any, res) => {
     try {
       // Transform incidentDateTime string to Date object if present
       if (req.body.incidentDateTime && typeof req.body.incidentDateTime === 'string') {
@@ -298,28 +488,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const ticketData = insertTicketSchema.parse(req.body);
+      if (!canAccessStudio(await getStudioScope(req), ticketData.studioId)) {
+        return res.status(403).json({ message: "You can't create tickets for this studio", code: 'forbidden' });
+      }
+      if (ticketData.parentTicketId) {
+        await validateParentTicket(req, ticketData.parentTicketId);
+      }
       const userId = req.user.claims.sub;
-      const ticket = await storage.createTicket({
-        ...ticketData,
-        reportedByUserId: userId,
-      });
-      
-      await storage.createTicketHistory({
-        ticketId: ticket.id,
-        changedByUserId: userId,
-        action: 'created',
-        fieldChanged: 'status',
-        newValue: 'Ticket created',
-      });
+      const profile = req.user.profile;
+      const { ticket: created, routing } = await createTicketWithRouting(
+        ticketData,
+        {
+          id: userId,
+          email: req.user.claims.email,
+          name: profile?.firstName || undefined,
+        },
+        { baseUrl: getPublicBaseUrl() },
+      );
 
-      res.status(201).json(ticket);
+      const ticket = await runWorkflows({ event: 'ticket_created', ticket: created, actorId: userId });
+
+      res.status(201).json({ ...ticket, routing });
     } catch (error) {
+      if (error instanceof SubTicketError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error creating ticket:", error);
       res.status(400).json({ message: "Failed to create ticket" });
     }
   });
 
-  app.patch('/api/tickets/:id', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/tickets/:id', isAuthenticated, requirePermission('canManageTickets'), requireTicketAccess, async (req: any, res) => {
     try {
       const existingTicket = await storage.getTicket(req.params.id);
       if (!existingTicket) {
@@ -328,10 +527,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const userId = req.user.claims.sub;
       const updates = updateTicketSchema.parse(req.body);
+      if (updates.studioId !== undefined && !canAccessStudio(await getStudioScope(req), updates.studioId)) {
+        return res.status(403).json({ message: "You can't move tickets to this studio", code: 'forbidden' });
+      }
+      if (updates.parentTicketId &&updates.parentTicketId !== existingTicket.parentTicketId) {
+        await validateParentTicket(req, updates.parentTicketId, existingTicket.id);
+      }
 
+      const changedFields: string[] = [];
       for (const [key, value] of Object.entries(updates)) {
         const oldValue = (existingTicket as any)[key];
         if (oldValue !== value) {
+          changedFields.push(key);
           await storage.createTicketHistory({
             ticketId: req.params.id,
             changedByUserId: userId,
@@ -350,9 +557,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         (updates as any).closedAt = new Date();
       }
 
-      const ticket = await storage.updateTicket(req.params.id, updates);
+      let ticket = await storage.updateTicket(req.params.id, updates);
+      if (ticket) {
+        ticket = await afterTicketUpdate(existingTicket, ticket, { actorId: userId, changedFields });
+      }
+
       res.json(ticket);
     } catch (error) {
+      if (error instanceof SubTicketError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      // Sub-ticket rules (e.g. closing a parent with open children) are enforced by triggers
+      const ruleMessage = subTicketRuleMessage(error);
+      if (ruleMessage) {
+        return res.status(409).json({ message: ruleMessage });
+      }
       console.error("Error updating ticket:", error);
       res.status(400).json({ message: "Failed to update ticket" });
     }
@@ -385,7 +604,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }
 
-  app.delete('/api/tickets/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/tickets/:id', isAuthenticated, requirePermission('canDeleteTickets'), requireTicketAccess, async (req, res) => {
     try {
       const success = await storage.deleteTicket(req.params.id);
       if (!success) {
@@ -398,25 +617,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/tickets/:id/comments', isAuthenticated, async (req, res) => {
+  app.get('/api/tickets/:id/comments', isAuthenticated, requireTicketAccess, async (req, res) => {
     try {
       const comments = await storage.getTicketComments(req.params.id);
-      res.json(comments);
+      // Internal notes need canViewInternalNotes, as in the RLS policy and the live channel
+      const canSeeInternal = hasPermission(await getRequestRoles(req), 'canViewInternalNotes');
+      res.json(canSeeInternal ? comments : comments.filter((comment) => !comment.isInternal));
     } catch (error) {
       console.error("Error fetching comments:", error);
       res.status(500).json({ message: "Failed to fetch comments" });
     }
   });
 
-  app.post('/api/tickets/:id/comments', isAuthenticated, async (req: any, res) => {
+  app.get('/api/tickets/:id/feedback', isAuthenticated, requireTicketAccess, async (req, res) => {
+    try {
+      res.json(await storage.getTicketFeedback(req.params.id));
+    } catch (error) {
+      console.error("Error fetching feedback:", error);
+      res.status(500).json({ message: "Failed to fetch feedback" });
+    }
+  });
+
+  // Clears (or sets) the follow-up flag a low CSAT score raises
+  app.patch('/api/tickets/:id/feedback/:feedbackId', isAuthenticated, requirePermission('canManageTickets'), requireTicketAccess, async (req: any, res) => {
+    try {
+      if (typeof req.body?.followUpRequired !== 'boolean') {
+        return res.status(400).json({ message: "followUpRequired must be true or false" });
+      }
+      const feedback = (await storage.getTicketFeedback(req.params.id)).find((entry) => entry.id === req.params.feedbackId);
+      if (!feedback) {
+        return res.status(404).json({ message: "Feedback not found" });
+      }
+      const updated = await storage.updateCustomerFeedback(feedback.id, { followUpRequired: req.body.followUpRequired });
+      await storage.createTicketHistory({
+        ticketId: req.params.id,
+        changedByUserId: req.user.claims.sub,
+        action: req.body.followUpRequired ? 'csat_follow_up_flagged' : 'csat_followed_up',
+        fieldChanged: 'followUpRequired',
+        oldValue: String(feedback.followUpRequired ?? false),
+        newValue: String(req.body.followUpRequired),
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating feedback:", error);
+      res.status(500).json({ message: "Failed to update feedback" });
+    }
+  });
+
+  app.post('/api/tickets/:id/comments', isAuthenticated, requirePermission('canManageTickets'), requireTicketAccess, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const target = await storage.getTicket(req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
       const commentData = insertTicketCommentSchema.parse({
         ...req.body,
-        ticketId: req.params.id,
+        ticketId: target.id,
         userId,
+        authorName: null,
+        authorEmail: null,
+        mentionedUserIds: await resolveMentionedUserIds(req.body?.mentionedUserIds, target),
       });
-      const comment = await storage.createTicketComment(commentData);
+      // Mention notifications and emails commit with the comment
+      const { comment, mentioned } = await storage.transaction(async (tx) => {
+        const comment = await tx.createTicketComment(commentData);
+        const current = await tx.getTicket(req.params.id);
+        const mentioned = current
+          ? await notifyMentions({
+              ticket: current,
+              comment,
+              authorId: userId,
+              email: req.body?.emailMentions === true,
+              baseUrl: getPublicBaseUrl(),
+            }, tx)
+          : [];
+        return { comment, mentioned };
+      });
+
+      let ticket = await storage.getTicket(req.params.id);
+
+      // The first customer-visible comment counts as the SLA first response
+      if (ticket && !comment.isInternal && !ticket.firstResponseAt) {
+        ticket = (await storage.updateTicket(ticket.id, { firstResponseAt: comment.createdAt || new Date() })) || ticket;
+      }
+
+      if (ticket) {
+        await runWorkflows({ event: 'comment_added', ticket, comment, actorId: userId });
+        await autoWatch(ticket.id, [userId]);
+        await notifyWatchers({
+          ticket,
+          event: 'comment',
+          title: `New ${comment.isInternal ? 'internal note' : 'comment'} on ${ticket.ticketNumber}`,
+          message: comment.content.length > 200 ? `${comment.content.slice(0, 197)}...` : comment.content,
+          actorId: userId,
+          internal: !!comment.isInternal,
+          skipUserIds: mentioned,
+        });
+        publishTicketEvent({ type: 'ticket.commented', ticket, comment });
+      }
+
       res.status(201).json(comment);
     } catch (error) {
       console.error("Error creating comment:", error);
@@ -424,17 +724,772 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/tickets/:id/attachments', isAuthenticated, async (req, res) => {
+  app.post('/api/tickets/:id/escalation-request', isAuthenticated, requirePermission('canEscalate'), requireTicketAccess, async (req: any, res) => {
+    try {
+      const ticket = await storage.getTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+
+      const userId = req.user.claims.sub;
+      await storage.createTicketHistory({
+        ticketId: ticket.id,
+        changedByUserId: userId,
+        action: 'escalation_requested',
+        changeReason: req.body?.reason ? String(req.body.reason) : 'Customer requested escalation',
+      });
+
+      const updated = await runEscalationsForEvent(ticket, { trigger: 'customer_request', requestedAt: new Date(), requestedBy: userId }, userId);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error requesting escalation:", error);
+      res.status(500).json({ message: "Failed to request escalation" });
+    }
+  });
+
+  app.get('/api/tickets/:id/escalations', isAuthenticated, requireTicketAccess, async (req, res) => {
+    try {
+      const entries = await storage.getEscalationLog(req.params.id);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching escalation log:", error);
+      res.status(500).json({ message: "Failed to fetch escalation log" });
+    }
+  });
+
+  app.get('/api/tickets/:id/watchers', isAuthenticated, requireTicketAccess, async (req, res) => {
+    try {
+      res.json(await getWatchersWithUsers(req.params.id));
+    } catch (error) {
+      console.error("Error fetching watchers:", error);
+      res.status(500).json({ message: "Failed to fetch watchers" });
+    }
+  });
+
+  // Watches the ticket, or changes the watch type. Adding someone else needs canManageWatchers.
+  app.post('/api/tickets/:id/watchers', isAuthenticated, requireTicketAccess, async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
+      const watcher = insertTicketWatcherSchema.parse({
+        ticketId: req.params.id,
+        userId: req.body.userId || currentUserId,
+        watchType: req.body.watchType,
+        addedByUserId: currentUserId,
+      });
+      if (watcher.userId !== currentUserId && !hasPermission(await getRequestRoles(req), 'canManageWatchers')) {
+        return res.status(403).json({ message: "Only managers can add other people as watchers", code: 'forbidden', permission: 'canManageWatchers' });
+      }
+      if (watcher.userId !== currentUserId) {
+        const ticket = await storage.getTicket(req.params.id);
+        if (!ticket) {
+          return res.status(404).json({ message: "Ticket not found" });
+        }
+        const [allowed] = await filterUsersWithTicketAccess(ticket, [watcher.userId]);
+        if (!allowed) {
+          return res.status(400).json({ message: "That person can't see tickets for this studio" });
+        }
+      }
+      res.status(201).json(await storage.upsertTicketWatcher(watcher));
+    } catch (error) {
+      console.error("Error adding watcher:", error);
+      res.status(400).json({ message: "Failed to add watcher" });
+    }
+  });
+
+  app.delete('/api/tickets/:id/watchers/:userId', isAuthenticated, requireTicketAccess, async (req: any, res) => {
+    try {
+      if (req.params.userId !== req.user.claims.sub && !hasPermission(await getRequestRoles(req), 'canManageWatchers')) {
+        return res.status(403).json({ message: "Only managers can remove other watchers", code: 'forbidden', permission: 'canManageWatchers' });
+      }
+      const removed = await storage.removeTicketWatcher(req.params.id, req.params.userId);
+      if (!removed) {
+        return res.status(404).json({ message: "Watcher not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing watcher:", error);
+      res.status(500).json({ message: "Failed to remove watcher" });
+    }
+  });
+
+  app.get('/api/tickets/:id/children', isAuthenticated, requireTicketAccess, async (req, res) => {
+    try {
+      res.json(await getSubTickets(req, req.params.id));
+    } catch (error) {
+      console.error("Error fetching sub-tickets:", error);
+      res.status(500).json({ message: "Failed to fetch sub-tickets" });
+    }
+  });
+
+  app.post('/api/tickets/:id/children', isAuthenticated, requirePermission('canManageTickets'), requireTicketAccess, async (req: any, res) => {
+    try {
+      const input = createSubTicketSchema.parse(req.body);
+      const userId = req.user.claims.sub;
+      const { ticket: created, routing } = await createSubTicket(
+        req,
+        req.params.id,
+        input,
+        { id: userId, email: req.user.claims.email, name: req.user.profile?.firstName || undefined },
+        { baseUrl: getPublicBaseUrl() },
+      );
+      const ticket = await runWorkflows({ event: 'ticket_created', ticket: created, actorId: userId });
+      res.status(201).json({ ...ticket, routing });
+    } catch (error) {
+      if (error instanceof SubTicketError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      const ruleMessage = subTicketRuleMessage(error);
+      if (ruleMessage) {
+        return res.status(409).json({ message: ruleMessage });
+      }
+      console.error("Error creating sub-ticket:", error);
+      res.status(400).json({ message: "Failed to create sub-ticket" });
+    }
+  });
+
+  app.post('/api/tickets/:id/merge', isAuthenticated, requirePermission('canManageTickets'), requireTicketAccess, async (req, res) => {
+    try {
+      const { secondaryTicketIds, reason } = req.body || {};
+      if (!Array.isArray(secondaryTicketIds) || !secondaryTicketIds.every(id => typeof id === 'string')) {
+        return res.status(400).json({ message: "secondaryTicketIds must be a list of ticket ids" });
+      }
+      const merged = await mergeTickets(req, req.params.id, secondaryTicketIds, typeof reason === 'string' ? reason.trim() : undefined);
+      res.json({ primaryId: req.params.id, merged });
+    } catch (error) {
+      if (error instanceof TicketMergeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error merging tickets:", error);
+      res.status(500).json({ message: "Failed to merge tickets" });
+    }
+  });
+
+  // Macros: each agent's own plus the shared ones, run on one ticket or many
+  app.get('/api/macros', isAuthenticated, requirePermission('canManageTickets'), async (req: any, res) => {
+    try {
+      res.json(await storage.getMacros(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching macros:", error);
+      res.status(500).json({ message: "Failed to fetch macros" });
+    }
+  });
+
+  app.post('/api/macros', isAuthenticated, requirePermission('canManageTickets'), async (req: any, res) => {
+    try {
+      const parsed = insertMacroSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid macro" });
+      }
+      res.status(201).json(await storage.createMacro({ ...parsed.data, createdByUserId: req.user.claims.sub }));
+    } catch (error) {
+      console.error("Error creating macro:", error);
+      res.status(500).json({ message: "Failed to create macro" });
+    }
+  });
+
+  app.patch('/api/macros/:id', isAuthenticated, requirePermission('canManageTickets'), async (req, res) => {
+    try {
+      const parsed = updateMacroSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid macro" });
+      }
+      const macro = await getEditableMacro(req, req.params.id);
+      res.json(await storage.updateMacro(macro.id, parsed.data));
+    } catch (error) {
+      if (error instanceof MacroError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating macro:", error);
+      res.status(500).json({ message: "Failed to update macro" });
+    }
+  });
+
+  app.delete('/api/macros/:id', isAuthenticated, requirePermission('canManageTickets'), async (req, res) => {
+    try {
+      const macro = await getEditableMacro(req, req.params.id);
+      await storage.deleteMacro(macro.id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof MacroError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error deleting macro:", error);
+      res.status(500).json({ message: "Failed to delete macro" });
+    }
+  });
+
+  app.post('/api/macros/:id/run', isAuthenticated, requirePermission('canManageTickets'), async (req, res) => {
+    try {
+      const { ticketIds } = req.body || {};
+      if (!Array.isArray(ticketIds) || !ticketIds.every(id => typeof id === 'string')) {
+        return res.status(400).json({ message: "ticketIds must be a list of ticket ids" });
+      }
+      res.json({ results: await runMacro(req, req.params.id, ticketIds) });
+    } catch (error) {
+      if (error instanceof MacroError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error running macro:", error);
+      res.status(500).json({ message: "Failed to run macro" });
+    }
+  });
+
+  // Workflow rules
+  app.get('/api/workflow-rules', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
+    try {
+      const rules = await storage.getWorkflowRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching workflow rules:", error);
+      res.status(500).json({ message: "Failed to fetch workflow rules" });
+    }
+  });
+
+  app.post('/api/workflow-rules', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
+    try {
+      const ruleData = insertWorkflowRuleSchema.parse(req.body);
+      const rule = await storage.createWorkflowRule(ruleData);
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating workflow rule:", error);
+      res.status(400).json({ message: "Failed to create workflow rule" });
+    }
+  });
+
+  // Dry run against recent tickets; registered before /:id so "preview" is not taken as an id
+  app.post('/api/workflow-rules/preview', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
+    try {
+      const { conditions } = insertWorkflowRuleSchema.pick({ conditions: true }).parse(req.body);
+      const result = await previewWorkflowRule({ conditions });
+      res.json(result);
+    } catch (error) {
+      console.error("Error previewing workflow rule:", error);
+      res.status(400).json({ message: "Failed to preview workflow rule" });
+    }
+  });
+
+  app.patch('/api/workflow-rules/:id', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
+    try {
+      const updates = updateWorkflowRuleSchema.parse(req.body);
+      const rule = await storage.updateWorkflowRule(req.params.id, updates);
+      if (!rule) {
+        return res.status(404).json({ message: "Workflow rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating workflow rule:", error);
+      res.status(400).json({ message: "Failed to update workflow rule" });
+    }
+  });
+
+  app.delete('/api/workflow-rules/:id', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
+    try {
+      const success = await storage.deleteWorkflowRule(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Workflow rule not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting workflow rule:", error);
+      res.status(500).json({ message: "Failed to delete workflow rule" });
+    }
+  });
+
+  // Inbound email: the mail relay posts each raw message (message/rfc822) with the
+  // shared secret in X-Inbound-Secret, and may pass envelope recipients in X-Envelope-To
+  // and its SPF/DKIM/DMARC verdict on the sender in X-Sender-Authentication
+  app.post('/api/inbound-email', express.raw({ type: () => true, limit: MAX_INBOUND_EMAIL_BYTES }), async (req, res) => {
+    if (!verifyInboundSecret(req.get('x-inbound-secret'))) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ message: "Expected a raw MIME message" });
+    }
+    try {
+      const envelopeTo = req.get('x-envelope-to');
+      const result = await processInboundEmail(req.body, {
+        recipients: envelopeTo ? envelopeTo.split(',').map(address => address.trim()).filter(Boolean) : [],
+        senderVerdict: relayVerdict(req.get('x-sender-authentication')),
+      });
+      res.status(result.status === 'created' && !result.duplicate ? 201 : 200).json(result);
+    } catch (error) {
+      if (error instanceof InboundEmailError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error processing inbound email:", error);
+      res.status(500).json({ message: "Failed to process inbound email" });
+    }
+  });
+
+  // Notification outbox: queued, failed and dead-lettered emails
+  app.get('/api/notification-outbox', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
+    try {
+      const status = (OUTBOX_STATUSES as readonly string[]).includes(String(req.query.status))
+        ? req.query.status as OutboxStatus
+        : undefined;
+      const [messages, counts] = await Promise.all([
+        storage.getOutboxMessages({ status }),
+        storage.getOutboxCounts(),
+      ]);
+      res.json({ messages, counts });
+    } catch (error) {
+      console.error("Error fetching notification outbox:", error);
+      res.status(500).json({ message: "Failed to fetch notification outbox" });
+    }
+  });
+
+  app.post('/api/notification-outbox/:id/resend', isAuthenticated, requirePermission('canManageSettings'), async (req, res) => {
+    try {
+      const message = await resendOutboxMessage(req.params.id);
+      res.json(message);
+    } catch (error) {
+      if (error instanceof OutboxError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error resending outbox message:", error);
+      res.status(500).json({ message: "Failed to resend message" });
+    }
+  });
+
+  // Notification preferences: the current user's event x channel matrix, quiet
+  // hours and priority overrides, with defaults filled in
+  app.get('/api/notification-preferences', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [stored] = await storage.getNotificationPreferences([userId]);
+      res.json(resolveNotificationPreferences(userId, stored));
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put('/api/notification-preferences', isAuthenticated, async (req: any, res) => {
+    const parsed = updateNotificationPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid notification preferences" });
+    }
+    try {
+      const userId = req.user.claims.sub;
+      const { channels, ...updates } = parsed.data;
+      const saved = await storage.transaction(async (tx) => {
+        const [stored] = await tx.getNotificationPreferences([userId]);
+        const current = resolveNotificationPreferences(userId, stored).channels;
+        const merged = channels
+          ? Object.fromEntries(Object.entries(current).map(([event, cells]) => [
+              event,
+              { ...cells, ...channels[event as keyof typeof channels] },
+            ])) as typeof current
+          : undefined;
+        return tx.upsertNotificationPreferences(userId, { ...updates, ...(merged ? { channels: merged } : {}) });
+      });
+      res.json(resolveNotificationPreferences(userId, saved));
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  // Web push: the current user's devices. Each browser subscribes with the VAPID
+  // public key and registers its subscription here.
+  app.get('/api/push/config', isAuthenticated, (_req, res) => {
+    res.json({ publicKey: getVapidPublicKey() });
+  });
+
+  app.get('/api/push-subscriptions', isAuthenticated, async (req: any, res) => {
+    try {
+      const subscriptions = await storage.getPushSubscriptions([req.user.claims.sub]);
+      res.json(subscriptions.map(({ id, endpoint, userAgent, createdAt, lastSuccessAt }) => ({
+        id,
+        endpoint,
+        userAgent,
+        createdAt,
+        lastSuccessAt,
+      })));
+    } catch (error) {
+      console.error("Error fetching push subscriptions:", error);
+      res.status(500).json({ message: "Failed to fetch push subscriptions" });
+    }
+  });
+
+  app.post('/api/push-subscriptions', isAuthenticated, async (req: any, res) => {
+    const parsed = insertPushSubscriptionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid push subscription" });
+    }
+    try {
+      const subscription = await storage.savePushSubscription({
+        userId: req.user.claims.sub,
+        endpoint: parsed.data.endpoint,
+        p256dh: parsed.data.keys.p256dh,
+        auth: parsed.data.keys.auth,
+        userAgent: req.get('user-agent')?.slice(0, 500) || null,
+      });
+      res.status(201).json({ id: subscription.id });
+    } catch (error) {
+      console.error("Error saving push subscription:", error);
+      res.status(500).json({ message: "Failed to save push subscription" });
+    }
+  });
+
+  app.delete('/api/push-subscriptions/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const deleted = await storage.deletePushSubscription(req.params.id, req.user.claims.sub);
+      if (!deleted) {
+        return res.status(404).json({ message: "Push subscription not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting push subscription:", error);
+      res.status(500).json({ message: "Failed to delete push subscription" });
+    }
+  });
+
+  app.post('/api/push-subscriptions/test', isAuthenticated, async (req: any, res) => {
+    if (!getVapidPublicKey()) {
+      return res.status(503).json({ message: "Push notifications are not configured on this server" });
+    }
+    try {
+      const result = await sendPushToUsers([req.user.claims.sub], {
+        title: "Test notification",
+        body: "Push notifications work on this device",
+        url: "/settings",
+        tag: "test",
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error sending test push:", error);
+      res.status(500).json({ message: "Failed to send test push" });
+    }
+  });
+
+  // The service worker's "Acknowledge" action. It has no session, so the push
+  // carries a link signed for this notification and user.
+  app.post('/api/notifications/:id/acknowledge', async (req, res) => {
+    try {
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification || !verifyAcknowledgeToken(notification, req.query.token)) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      if (!notification.isRead) {
+        await storage.markNotificationRead(notification.id);
+        if (notification.ticketId) {
+          await storage.createTicketHistory({
+            ticketId: notification.ticketId,
+            changedByUserId: notification.userId,
+            action: 'acknowledged',
+            newValue: notification.title || '',
+            changeReason: 'Acknowledged from a push notification',
+          });
+        }
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error acknowledging notification:", error);
+      res.status(500).json({ message: "Failed to acknowledge notification" });
+    }
+  });
+
+  // CSAT surveys: public, the signed token in the emailed link is the only credential
+  app.get('/api/surveys/:token', surveyReadLimiter, async (req, res) => {
+    try {
+      res.json(await getSurvey(req.params.token));
+    } catch (error) {
+      if (error instanceof CsatSurveyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error fetching survey:", error);
+      res.status(500).json({ message: "Failed to fetch survey" });
+    }
+  });
+
+  app.post('/api/surveys/:token', surveySubmitLimiter, async (req, res) => {
+    try {
+      const parsed = csatResponseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid survey response" });
+      }
+      res.status(201).json({ response: await submitSurvey(req.params.token, parsed.data) });
+    } catch (error) {
+      if (error instanceof CsatSurveyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error saving survey response:", error);
+      res.status(500).json({ message: "Failed to save survey response" });
+    }
+  });
+
+  // Customer status portal: public and rate limited. A lookup by ticket number and
+  // email, or the emailed magic link, yields the token the other calls take.
+  app.post('/api/portal/lookup', portalLookupLimiter, async (req, res) => {
+    try {
+      const parsed = portalLookupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid lookup" });
+      }
+      res.json({ token: await lookUpTicket(parsed.data.ticketNumber, parsed.data.email) });
+    } catch (error) {
+      if (error instanceof PortalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error looking up portal ticket:", error);
+      res.status(500).json({ message: "Failed to look up ticket" });
+    }
+  });
+
+  app.get('/api/portal/tickets/:token', portalReadLimiter, async (req, res) => {
+    try {
+      res.json(await getPortalTicket(req.params.token));
+    } catch (error) {
+      if (error instanceof PortalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error fetching portal ticket:", error);
+      res.status(500).json({ message: "Failed to fetch ticket" });
+    }
+  });
+
+  app.post('/api/portal/tickets/:token/replies', portalReplyLimiter, async (req, res) => {
+    try {
+      const parsed = portalReplySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid reply" });
+      }
+      res.status(201).json(await addPortalReply(req.params.token, parsed.data.content));
+    } catch (error) {
+      if (error instanceof PortalError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error adding portal reply:", error);
+      res.status(500).json({ message: "Failed to send reply" });
+    }
+  });
+
+  // Public QR feedback form for a studio: its categories, then the submission
+  app.get('/api/qr/studios/:studioId', qrFormLimiter, async (req, res) => {
+    try {
+      res.json(await getQrForm(req.params.studioId));
+    } catch (error) {
+      if (error instanceof QrFeedbackError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error fetching QR form:", error);
+      res.status(500).json({ message: "Failed to load form" });
+    }
+  });
+
+  app.post('/api/qr/studios/:studioId/tickets', qrSubmitLimiter, async (req, res) => {
+    try {
+      const parsed = qrSubmissionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid submission" });
+      }
+      const result = await submitQrFeedback(req.params.studioId, parsed.data);
+      res.status(201).json(result || { ticketNumber: null, statusUrl: null });
+    } catch (error) {
+      if (error instanceof QrFeedbackError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error submitting QR feedback:", error);
+      res.status(500).json({ message: "Failed to send feedback" });
+    }
+  });
+
+  // Digest emails: each user's own schedule. The weekly summary is for managers.
+  app.get('/api/digest-settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const settings = await storage.getDigestSettings(userId);
+      res.json(settings || { ...DEFAULT_DIGEST_SETTINGS, userId });
+    } catch (error) {
+      console.error("Error fetching digest settings:", error);
+      res.status(500).json({ message: "Failed to fetch digest settings" });
+    }
+  });
+
+  app.put('/api/digest-settings', isAuthenticated, async (req: any, res) => {
+    const parsed = updateDigestSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid digest settings" });
+    }
+    try {
+      if (parsed.data.weeklyEnabled && !hasPermission(await getRequestRoles(req), 'canManageReports')) {
+        return res.status(403).json({ message: "The weekly summary is for managers" });
+      }
+      const settings = await storage.upsertDigestSettings(req.user.claims.sub, parsed.data);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating digest settings:", error);
+      res.status(500).json({ message: "Failed to update digest settings" });
+    }
+  });
+
+  app.post('/api/digest-settings/test', isAuthenticated, async (req: any, res) => {
+    const kind = req.body?.kind ?? 'daily';
+    if (!(DIGEST_KINDS as readonly string[]).includes(kind)) {
+      return res.status(400).json({ message: "kind must be daily or weekly" });
+    }
+    try {
+      await sendTestDigest(req.user.claims.sub, kind as DigestKind);
+      res.status(202).json({ queued: true });
+    } catch (error) {
+      if (error instanceof DigestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error sending test digest:", error);
+      res.status(500).json({ message: "Failed to send test digest" });
+    }
+  });
+
+  app.get('/api/tickets/:id/attachments', isAuthenticated, requireTicketAccess, async (req, res) => {
     try {
       const attachments = await storage.getTicketAttachments(req.params.id);
-      res.json(attachments);
+      const visible = await filterVisibleAttachments(req, req.params.id, attachments);
+      res.json(visible.map(withDownloadUrl));
     } catch (error) {
       console.error("Error fetching attachments:", error);
       res.status(500).json({ message: "Failed to fetch attachments" });
     }
   });
 
-  app.get('/api/tickets/:id/history', isAuthenticated, async (req, res) => {
+  // Multipart upload: up to 5 files in `files`, plus an optional `isPublic` field
+  app.post('/api/tickets/:id/attachments', isAuthenticated, requirePermission('canManageTickets'), requireTicketAccess, receiveAttachments, async (req: any, res) => {
+    try {
+      const ticket = await storage.getTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      const files: Express.Multer.File[] = req.files || [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+
+      const userId = req.user.claims.sub;
+      const attachments = await saveAttachments(files, {
+        ticketId: ticket.id,
+        uploadedByUserId: userId,
+        isPublic: req.body.isPublic === 'true',
+      });
+      await storage.createTicketHistory({
+        ticketId: ticket.id,
+        changedByUserId: userId,
+        action: 'attachment_added',
+        newValue: attachments.map(attachment => attachment.originalFileName).join(', '),
+      });
+      res.status(201).json(attachments.map(withDownloadUrl));
+    } catch (error) {
+      console.error("Error uploading attachments:", error);
+      res.status(500).json({ message: "Failed to upload attachments" });
+    }
+  });
+
+  // Only the comment's author or a manager may attach to it. Attachments on
+  // internal comments are never public.
+  app.post('/api/tickets/:id/comments/:commentId/attachments', isAuthenticated, requirePermission('canManageTickets'), requireTicketAccess, receiveAttachments, async (req: any, res) => {
+    try {
+      const comments = await storage.getTicketComments(req.params.id);
+      const comment = comments.find(c => c.id === req.params.commentId);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      const roles = await getRequestRoles(req);
+      if (comment.userId !== req.user.claims.sub && !roles.some(role => ROLE_HIERARCHY[role] >= ROLE_HIERARCHY.manager)) {
+        return res.status(403).json({ message: "Only the comment's author or a manager can attach files to it", code: 'forbidden' });
+      }
+      const files: Express.Multer.File[] = req.files || [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+
+      const attachments = await saveAttachments(files, {
+        ticketId: comment.ticketId,
+        commentId: comment.id,
+        uploadedByUserId: req.user.claims.sub,
+        isPublic: !comment.isInternal && req.body.isPublic !== 'false',
+      });
+      res.status(201).json(attachments.map(withDownloadUrl));
+    } catch (error) {
+      console.error("Error uploading comment attachments:", error);
+      res.status(500).json({ message: "Failed to upload attachments" });
+    }
+  });
+
+  // Signed links are served without a bearer token; anything else falls
+  // through to the authenticated route below
+  app.get('/api/attachments/:id/download', async (req, res, next) => {
+    if (!verifyDownloadSignature(req.params.id, req.query.expires, req.query.signature)) return next();
+    try {
+      const attachment = await storage.getTicketAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      await sendAttachment(res, attachment, req.query.download === '1');
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      res.status(500).json({ message: "Failed to download attachment" });
+    }
+  });
+
+  app.get('/api/attachments/:id/download', isAuthenticated, async (req, res) => {
+    try {
+      const attachment = await getAccessibleAttachment(req, req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      await sendAttachment(res, attachment, req.query.download === '1');
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      res.status(500).json({ message: "Failed to download attachment" });
+    }
+  });
+
+  app.patch('/api/attachments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const attachment = await getAccessibleAttachment(req, req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      if (!(await canChangeAttachment(req, attachment.uploadedByUserId))) {
+        return res.status(403).json({ message: "Only the uploader or a ticket manager can change this attachment", code: 'forbidden' });
+      }
+      if (typeof req.body.isPublic !== 'boolean') {
+        return res.status(400).json({ message: "isPublic must be a boolean" });
+      }
+      if (req.body.isPublic && await isOnInternalComment(attachment)) {
+        return res.status(409).json({ message: "Attachments on internal notes cannot be made public" });
+      }
+      const updated = await storage.updateTicketAttachment(attachment.id, { isPublic: req.body.isPublic });
+      res.json(updated && withDownloadUrl(updated));
+    } catch (error) {
+      console.error("Error updating attachment:", error);
+      res.status(500).json({ message: "Failed to update attachment" });
+    }
+  });
+
+  app.delete('/api/attachments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const attachment = await getAccessibleAttachment(req, req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      if (!(await canChangeAttachment(req, attachment.uploadedByUserId))) {
+        return res.status(403).json({ message: "Only the uploader or a ticket manager can delete this attachment", code: 'forbidden' });
+      }
+      await deleteAttachment(attachment);
+      await storage.createTicketHistory({
+        ticketId: attachment.ticketId,
+        changedByUserId: req.user.claims.sub,
+        action: 'attachment_removed',
+        oldValue: attachment.originalFileName,
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  app.get('/api/tickets/:id/history', isAuthenticated, requireTicketAccess, async (req, res) => {
     try {
       const history = await storage.getTicketHistory(req.params.id);
       res.json(history);
@@ -456,12 +1511,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/notifications/:id/read', isAuthenticated, async (req, res) => {
+  app.patch('/api/notifications/:id/read', isAuthenticated, async (req: any, res) => {
     try {
-      const notification = await storage.markNotificationRead(req.params.id);
-      if (!notification) {
+      // Someone else's notification is reported as missing
+      const existing = await storage.getNotification(req.params.id);
+      if (!existing || existing.userId !== req.user.claims.sub) {
         return res.status(404).json({ message: "Notification not found" });
       }
+      const notification = await storage.markNotificationRead(existing.id);
       res.json(notification);
     } catch (error) {
       console.error("Error marking notification read:", error);
@@ -469,9 +1526,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/notifications/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/notifications/:id', isAuthenticated, async (req: any, res) => {
     try {
-      await storage.deleteNotification(req.params.id);
+      const existing = await storage.getNotification(req.params.id);
+      if (!existing || existing.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      await storage.deleteNotification(existing.id);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting notification:", error);
@@ -481,7 +1542,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/dashboard/stats', isAuthenticated, async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
+      const stats = await storage.getDashboardStats(await getStudioScope(req));
       res.json(stats);
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
@@ -499,9 +1560,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/analytics', isAuthenticated, async (req, res) => {
+  app.get('/api/analytics', isAuthenticated, requirePermission('canViewAnalytics'), async (req, res) => {
     try {
-      const analytics = await storage.getAnalyticsData();
+      const analytics = await storage.getAnalyticsData(await getStudioScope(req));
       res.json(analytics);
     } catch (error) {
       console.error("Error fetching analytics:", error);
@@ -517,6 +1578,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/analytics/csat', isAuthenticated, requirePermission('canViewAnalytics'), async (req, res) => {
+    try {
+      const days = Number(req.query.days);
+      const since = Number.isFinite(days) && days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+      res.json(await storage.getCsatSummary(await getStudioScope(req), since));
+    } catch (error) {
+      console.error("Error fetching CSAT analytics:", error);
+      res.status(500).json({ message: "Failed to fetch CSAT analytics" });
+    }
+  });
+
   // Proxy endpoints for Momence to avoid exposing API token in the browser and bypass CORS
   app.get('/api/momence/search', isAuthenticated, async (req, res) => {
     try {
@@ -889,7 +1961,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add sample fields for testing (temporary endpoint)
-  app.post('/api/admin/add-sample-fields', isAuthenticated, async (req, res) => {
+  app.post('/api/admin/add-sample-fields', isAuthenticated, requireRole('admin'), async (req, res) => {
     try {
       if (!supabase) return res.status(500).json({ message: 'Supabase not configured' });
 
@@ -958,7 +2030,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Migrate CSV fields to database (Run once)
-  app.post('/api/admin/migrate-fields', isAuthenticated, async (req, res) => {
+  app.post('/api/admin/migrate-fields', isAuthenticated, requireRole('admin'), async (req, res) => {
     try {
       // Ensure field types exist
       const fieldTypes = [
@@ -0,0 +1,74 @@
+// Sender Authentication
+// Anyone can put any address in From:, so inbound mail only speaks for an app
+// user or a ticket's customer when the receiving relay vouches for it. The relay
+// either posts its verdict in X-Sender-Authentication (pass / fail), or we read
+// the Authentication-Results header it added, recognised by its authserv-id in
+// INBOUND_EMAIL_AUTHSERV_ID (the relay must strip incoming headers carrying that
+// id). A sender counts as authenticated when DMARC passed, or when SPF or DKIM
+// passed for a domain aligned with the From: address.
+
+import type { ParsedMail } from "mailparser";
+
+export type SenderVerdict = 'pass' | 'fail';
+
+interface AuthResult {
+  method: string;
+  result: string;
+  properties: Record<string, string>;
+}
+
+export function relayVerdict(header: string | undefined): SenderVerdict | undefined {
+  const value = header?.trim().toLowerCase();
+  return value === 'pass' || value === 'fail' ? value : undefined;
+}
+
+function domainOf(address: string): string {
+  return address.slice(address.lastIndexOf('@') + 1).toLowerCase();
+}
+
+// Relaxed alignment: the same domain, or one a subdomain of the other
+function aligned(domain: string | undefined, fromDomain: string): boolean {
+  if (!domain) return false;
+  const candidate = domainOf(domain);
+  return candidate === fromDomain || candidate.endsWith(`.${fromDomain}`) || fromDomain.endsWith(`.${candidate}`);
+}
+
+// "mx.example.com; spf=pass smtp.mailfrom=a.com; dkim=pass (good) header.d=a.com"
+function parseAuthenticationResults(value: string): { authservId: string; results: AuthResult[] } {
+  const [head, ...methods] = value.replace(/\s+/g, ' ').replace(/\([^)]*\)/g, '').split(';');
+  const authservId = head.trim().split(' ')[0].toLowerCase();
+  const results = methods.flatMap((part): AuthResult[] => {
+    const [first, ...rest] = part.trim().split(' ').filter(Boolean);
+    const match = first?.match(/^([a-z-]+)=([a-z]+)$/i);
+    if (!match) return [];
+    const properties: Record<string, string> = {};
+    for (const token of rest) {
+      const eq = token.indexOf('=');
+      if (eq > 0) properties[token.slice(0, eq).toLowerCase()] = token.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+    return [{ method: match[1].toLowerCase(), result: match[2].toLowerCase(), properties }];
+  });
+  return { authservId, results };
+}
+
+function trustedResults(parsed: ParsedMail): AuthResult[] {
+  const authservId = process.env.INBOUND_EMAIL_AUTHSERV_ID?.trim().toLowerCase();
+  if (!authservId) return [];
+  return parsed.headerLines
+    .filter(header => header.key === 'authentication-results')
+    .map(header => parseAuthenticationResults(header.line.slice(header.line.indexOf(':') + 1)))
+    .filter(header => header.authservId === authservId)
+    .flatMap(header => header.results);
+}
+
+export function isSenderAuthenticated(parsed: ParsedMail, fromEmail: string, verdict?: SenderVerdict): boolean {
+  if (verdict) return verdict === 'pass';
+  const fromDomain = domainOf(fromEmail);
+  return trustedResults(parsed).some(({ method, result, properties }) => {
+    if (result !== 'pass') return false;
+    if (method === 'dmarc') return !properties['header.from'] || aligned(properties['header.from'], fromDomain);
+    if (method === 'dkim') return aligned(properties['header.d'] || properties['header.i'], fromDomain);
+    if (method === 'spf') return aligned(properties['smtp.mailfrom'], fromDomain);
+    return false;
+  });
+}
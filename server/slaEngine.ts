@@ -0,0 +1,263 @@
+// SLA Engine
+// Picks the matching slaRules row for a ticket, computes first-response and
+// resolution deadlines in business hours, and periodically flags breaches.
+
+import type { Ticket, SlaRule, BusinessHours } from "@shared/schema";
+import { SLA_RULES } from "@shared/ticketRules";
+import { db } from "./db";
+import { storage, type IStorage } from "./storage";
+import { publishTicketEvent } from "./liveUpdates";
+
+const DEFAULT_TIME_ZONE = 'Asia/Kolkata';
+const MINUTE_MS = 60 * 1000;
+
+type SlaTicketFields = Pick<Ticket, 'categoryId' | 'subcategoryId' | 'priority' | 'studioId'>;
+
+export interface SlaDeadlines {
+  slaRuleId: string | null;
+  firstResponseDueAt: Date;
+  slaDueAt: Date;
+  businessHoursOnly: boolean;
+}
+
+export interface SlaCheckResult {
+  checked: number;
+  backfilled: number;
+  breached: number;
+}
+
+function ruleSpecificity(rule: SlaRule): number {
+  return [rule.categoryId, rule.subcategoryId, rule.priority, rule.studioId].filter(Boolean).length;
+}
+
+// A rule matches when every criterion it sets equals the ticket's value; unset criteria are wildcards.
+// Higher sortOrder wins, then the more specific rule.
+export function findMatchingSlaRule(ticket: SlaTicketFields, rules: SlaRule[]): SlaRule | null {
+  const candidates = rules.filter(rule =>
+    rule.isActive !== false &&
+    (!rule.categoryId || rule.categoryId === ticket.categoryId) &&
+    (!rule.subcategoryId || rule.subcategoryId === ticket.subcategoryId) &&
+    (!rule.priority || rule.priority === ticket.priority) &&
+    (!rule.studioId || rule.studioId === ticket.studioId)
+  );
+
+  candidates.sort((a, b) =>
+    (b.sortOrder ?? 0) - (a.sortOrder ?? 0) || ruleSpecificity(b) - ruleSpecificity(a)
+  );
+
+  return candidates[0] || null;
+}
+
+// Studio-specific hours take precedence over the global (studioId NULL) schedule
+export function getScheduleForStudio(studioId: string | null | undefined, hours: BusinessHours[]): BusinessHours[] {
+  const studioHours = studioId ? hours.filter(h => h.studioId === studioId) : [];
+  return studioHours.length > 0 ? studioHours : hours.filter(h => !h.studioId);
+}
+
+function parseTimeToMinutes(value: string): number {
+  const [h, m] = value.split(':').map(part => parseInt(part, 10));
+  return (h || 0) * 60 + (m || 0);
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  dayOfWeek: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts & { minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '0';
+
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    dayOfWeek: WEEKDAYS.indexOf(get('weekday')),
+    minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10),
+  };
+}
+
+// Converts a wall-clock time on a given local date into a UTC instant
+function zonedTimeToUtc(date: ZonedParts, minutes: number, timeZone: string): Date {
+  const asUtc = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  const local = getZonedParts(new Date(asUtc), timeZone);
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes);
+  return new Date(asUtc - (localAsUtc - asUtc));
+}
+
+function nextLocalDay(date: ZonedParts): ZonedParts {
+  const next = new Date(Date.UTC(date.year, date.month - 1, date.day + 1));
+  return {
+    year: next.getUTCFullYear(),
+    month: next.getUTCMonth() + 1,
+    day: next.getUTCDate(),
+    dayOfWeek: next.getUTCDay(),
+  };
+}
+
+// Adds working time to a start instant, only counting minutes inside the schedule's open windows.
+// Falls back to wall-clock time when no working days are configured.
+export function addBusinessHours(start: Date, hours: number, schedule: BusinessHours[]): Date {
+  const workingDays = new Map<number, { open: number; close: number }>();
+  for (const row of schedule) {
+    if (row.isWorkingDay === false || workingDays.has(row.dayOfWeek)) continue;
+    const open = parseTimeToMinutes(row.openTime);
+    const close = parseTimeToMinutes(row.closeTime);
+    if (close > open) workingDays.set(row.dayOfWeek, { open, close });
+  }
+
+  if (workingDays.size === 0) {
+    return new Date(start.getTime() + hours * 60 * MINUTE_MS);
+  }
+
+  const timeZone = schedule[0]?.timeZone || DEFAULT_TIME_ZONE;
+  let remaining = hours * 60;
+  let cursor = start;
+  let day: ZonedParts = getZonedParts(start, timeZone);
+
+  // One year of days is far beyond any realistic SLA; guard against bad schedules
+  for (let i = 0; i < 366; i++) {
+    const window = workingDays.get(day.dayOfWeek);
+    if (window) {
+      const windowStart = zonedTimeToUtc(day, window.open, timeZone);
+      const windowEnd = zonedTimeToUtc(day, window.close, timeZone);
+      if (cursor < windowStart) cursor = windowStart;
+      if (cursor < windowEnd) {
+        const available = (windowEnd.getTime() - cursor.getTime()) / MINUTE_MS;
+        if (remaining <= available) {
+          return new Date(cursor.getTime() + remaining * MINUTE_MS);
+        }
+        remaining -= available;
+      }
+    }
+    day = nextLocalDay(day);
+    cursor = zonedTimeToUtc(day, 0, timeZone);
+  }
+
+  return new Date(start.getTime() + hours * 60 * MINUTE_MS);
+}
+
+export function computeSlaDeadlines(
+  ticket: SlaTicketFields & Pick<Ticket, 'createdAt'>,
+  rules: SlaRule[],
+  hours: BusinessHours[],
+): SlaDeadlines {
+  const start = ticket.createdAt ? new Date(ticket.createdAt) : new Date();
+  const rule = findMatchingSlaRule(ticket, rules);
+
+  if (!rule) {
+    // No configured rule: use the priority defaults on wall-clock time
+    const fallback = SLA_RULES[(ticket.priority || 'medium') as keyof typeof SLA_RULES] || SLA_RULES.medium;
+    return {
+      slaRuleId: null,
+      firstResponseDueAt: new Date(start.getTime() + fallback.responseMinutes * MINUTE_MS),
+      slaDueAt: new Date(start.getTime() + fallback.resolutionHours * 60 * MINUTE_MS),
+      businessHoursOnly: false,
+    };
+  }
+
+  const businessHoursOnly = rule.businessHoursOnly !== false;
+  const schedule = businessHoursOnly ? getScheduleForStudio(ticket.studioId, hours) : [];
+
+  return {
+    slaRuleId: rule.id,
+    firstResponseDueAt: addBusinessHours(start, rule.firstResponseHours ?? 4, schedule),
+    slaDueAt: addBusinessHours(start, rule.resolutionHours ?? 24, schedule),
+    businessHoursOnly,
+  };
+}
+
+// Pass a transaction-bound storage to set deadlines as part of a larger write
+export async function applySlaToTicket(ticket: Ticket, store: IStorage = storage): Promise<Ticket> {
+  const [rules, hours] = await Promise.all([store.getActiveSlaRules(), store.getBusinessHours()]);
+  const deadlines = computeSlaDeadlines(ticket, rules, hours);
+  const updated = await store.updateTicket(ticket.id, {
+    slaRuleId: deadlines.slaRuleId,
+    firstResponseDueAt: deadlines.firstResponseDueAt,
+    slaDueAt: deadlines.slaDueAt,
+  });
+  return updated || ticket;
+}
+
+export async function checkSlaBreaches(now: Date = new Date()): Promise<SlaCheckResult> {
+  const [openTickets, rules, hours] = await Promise.all([
+    storage.getOpenTickets(),
+    storage.getActiveSlaRules(),
+    storage.getBusinessHours(),
+  ]);
+  const result: SlaCheckResult = { checked: openTickets.length, backfilled: 0, breached: 0 };
+
+  for (let ticket of openTickets) {
+    // Tickets inserted outside the API have no deadlines yet
+    if (!ticket.firstResponseDueAt) {
+      const deadlines = computeSlaDeadlines(ticket, rules, hours);
+      ticket = (await storage.updateTicket(ticket.id, {
+        slaRuleId: deadlines.slaRuleId,
+        firstResponseDueAt: deadlines.firstResponseDueAt,
+        slaDueAt: deadlines.slaDueAt,
+      })) || ticket;
+      result.backfilled++;
+    }
+
+    if (ticket.slaBreached) continue;
+
+    const responseMissed = !ticket.firstResponseAt && !!ticket.firstResponseDueAt && new Date(ticket.firstResponseDueAt) < now;
+    const resolutionMissed = !!ticket.slaDueAt && new Date(ticket.slaDueAt) < now;
+    if (!responseMissed && !resolutionMissed) continue;
+
+    const breached = await storage.updateTicket(ticket.id, { slaBreached: true });
+    if (breached) publishTicketEvent({ type: 'ticket.updated', ticket: breached });
+    await storage.createTicketHistory({
+      ticketId: ticket.id,
+      action: 'sla_breached',
+      fieldChanged: 'slaBreached',
+      oldValue: 'false',
+      newValue: 'true',
+      changeReason: resolutionMissed
+        ? `Resolution SLA missed (due ${new Date(ticket.slaDueAt!).toISOString()})`
+        : `First response SLA missed (due ${new Date(ticket.firstResponseDueAt!).toISOString()})`,
+      automatedChange: true,
+    });
+    result.breached++;
+  }
+
+  return result;
+}
+
+export function startSlaMonitor(intervalMs: number = parseInt(process.env.SLA_CHECK_INTERVAL_MS || '60000', 10)) {
+  if (!db) {
+    console.warn('SLA monitor disabled: DATABASE_URL not set');
+    return null;
+  }
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await checkSlaBreaches();
+      if (result.backfilled > 0 || result.breached > 0) {
+        console.log(`SLA monitor: checked ${result.checked}, backfilled ${result.backfilled}, breached ${result.breached}`);
+      }
+    } catch (error) {
+      console.error('SLA monitor error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return setInterval(run, intervalMs);
+}
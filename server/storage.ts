@@ -8,7 +8,21 @@ import {
   ticketComments,
   ticketAttachments,
   ticketHistory,
+  ticketWatchers,
   notifications,
+  notificationOutbox,
+  inboundEmails,
+  digestSettings,
+  notificationPreferences,
+  pushSubscriptions,
+  customerFeedback,
+  slaRules,
+  businessHours,
+  escalationRules,
+  escalationLog,
+  userRoles,
+  workflowRules,
+  macros,
   type User,
   type UpsertUser,
   type Team,
@@ -25,16 +39,46 @@ import {
   type TicketAttachment,
   type InsertTicketAttachment,
   type TicketHistory,
+  type TicketWatcher,
+  type InsertTicketWatcher,
   type Notification,
   type InsertNotification,
+  type NotificationOutboxMessage,
+  type InboundEmail,
+  type InsertInboundEmail,
+  type DigestSettings,
+  type NotificationPreferences,
+  type WebPushSubscription,
+  type CustomerFeedback,
+  type InsertCustomerFeedback,
+  type InsertNotificationOutboxMessage,
+  type OutboxStatus,
+  type SlaRule,
+  type BusinessHours,
+  type EscalationRule,
+  type EscalationLogEntry,
+  type InsertEscalationLogEntry,
+  type WorkflowRule,
+  type InsertWorkflowRule,
+  type Macro,
+  type InsertMacro,
 } from "@shared/schema";
+import type { CompiledTicketFilters } from "@shared/ticketQuery";
 import { db } from "./db";
-import { eq, desc, and, or, ilike, sql, count, inArray } from "drizzle-orm";
+import { publishNotification } from "./liveUpdates";
+import { eq, desc, and, or, not, ilike, sql, count, inArray, notInArray, isNull, isNotNull, gte, lt, lte, arrayContains, arrayOverlaps } from "drizzle-orm";
 
 export interface IStorage {
+  // Runs work against storage bound to one database transaction
+  transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T>;
+  // Runs a side effect outside the database once the transaction commits (right away outside one)
+  onCommit(effect: () => void): void;
+
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   getUsers(): Promise<User[]>;
+  // Active users among the given ids
+  getUsersByIds(ids: string[]): Promise<User[]>;
   
   getTeams(): Promise<Team[]>;
   getTeam(id: string): Promise<Team | undefined>;
@@ -64,27 +108,128 @@ export interface IStorage {
   createTicketComment(comment: InsertTicketComment): Promise<TicketComment>;
   
   getTicketAttachments(ticketId: string): Promise<TicketAttachment[]>;
+  getTicketAttachment(id: string): Promise<TicketAttachment | undefined>;
+  findAttachmentsByHash(sha256: string, storageBackend: string): Promise<TicketAttachment[]>;
   createTicketAttachment(attachment: InsertTicketAttachment): Promise<TicketAttachment>;
+  updateTicketAttachment(id: string, attachment: Partial<InsertTicketAttachment>): Promise<TicketAttachment | undefined>;
+  deleteTicketAttachment(id: string): Promise<boolean>;
   
   getTicketHistory(ticketId: string): Promise<TicketHistory[]>;
-  createTicketHistory(history: { ticketId: string; changedByUserId?: string; action: string; fieldChanged?: string; oldValue?: string; newValue?: string }): Promise<TicketHistory>;
+  createTicketHistory(history: TicketHistoryEntry): Promise<TicketHistory>;
+
+  getTicketWatchers(ticketId: string): Promise<TicketWatcher[]>;
+  upsertTicketWatcher(watcher: InsertTicketWatcher): Promise<TicketWatcher>;
+  addTicketWatchers(watchers: InsertTicketWatcher[]): Promise<void>;
+  removeTicketWatcher(ticketId: string, userId: string): Promise<boolean>;
   
   getNotifications(userId: string): Promise<Notification[]>;
+  getNotification(id: string): Promise<Notification | undefined>;
   createNotification(notification: InsertNotification): Promise<Notification>;
   markNotificationRead(id: string): Promise<Notification | undefined>;
+  markNotificationEmailed(id: string): Promise<void>;
   deleteNotification(id: string): Promise<boolean>;
+
+  enqueueOutboxMessages(messages: InsertNotificationOutboxMessage[]): Promise<NotificationOutboxMessage[]>;
+  claimDueOutboxMessages(now: Date, limit: number): Promise<NotificationOutboxMessage[]>;
+  updateOutboxMessage(id: string, updates: Partial<NotificationOutboxMessage>): Promise<NotificationOutboxMessage | undefined>;
+  getOutboxMessage(id: string): Promise<NotificationOutboxMessage | undefined>;
+  getOutboxMessages(filter?: { status?: OutboxStatus; limit?: number }): Promise<NotificationOutboxMessage[]>;
+  getOutboxCounts(): Promise<Record<OutboxStatus, number>>;
+
+  getInboundEmail(messageId: string): Promise<InboundEmail | undefined>;
+  // Logs the message as 'processing'; undefined when another delivery already claimed it
+  claimInboundEmail(entry: InsertInboundEmail): Promise<InboundEmail | undefined>;
+  finishInboundEmail(messageId: string, outcome: Pick<InsertInboundEmail, 'status' | 'reason' | 'ticketId' | 'commentId'>): Promise<void>;
+  // Drops a claim whose processing failed, so the relay's retry can take it
+  releaseInboundEmail(messageId: string): Promise<void>;
+  getStudioByEmail(email: string): Promise<Studio | undefined>;
+  getTeamByEmail(email: string): Promise<Team | undefined>;
+
+  getDigestSettings(userId: string): Promise<DigestSettings | undefined>;
+  getEnabledDigestSettings(): Promise<DigestSettings[]>;
+  upsertDigestSettings(userId: string, updates: Partial<Omit<DigestSettings, 'userId'>>): Promise<DigestSettings>;
+
+  getNotificationPreferences(userIds: string[]): Promise<NotificationPreferences[]>;
+  upsertNotificationPreferences(userId: string, updates: Partial<Omit<NotificationPreferences, 'userId'>>): Promise<NotificationPreferences>;
+
+  getPushSubscriptions(userIds: string[]): Promise<WebPushSubscription[]>;
+  // Re-subscribing the same endpoint moves it to the current user
+  savePushSubscription(subscription: Pick<WebPushSubscription, 'userId' | 'endpoint' | 'p256dh' | 'auth' | 'userAgent'>): Promise<WebPushSubscription>;
+  markPushSubscriptionsUsed(ids: string[]): Promise<void>;
+  deletePushSubscription(id: string, userId?: string): Promise<boolean>;
+
+  getTicketFeedback(ticketId: string): Promise<CustomerFeedback[]>;
+  // The CSAT response to a survey sent at surveySentAt, if the customer answered it
+  getCsatResponse(ticketId: string, surveySentAt: Date): Promise<CustomerFeedback | undefined>;
+  createCustomerFeedback(feedback: InsertCustomerFeedback): Promise<CustomerFeedback>;
+  // Returns undefined when the survey was already answered
+  createCsatResponse(feedback: InsertCustomerFeedback & { surveySentAt: Date }): Promise<CustomerFeedback | undefined>;
+  updateCustomerFeedback(id: string, updates: Partial<InsertCustomerFeedback>): Promise<CustomerFeedback | undefined>;
+  getCsatSummary(scope?: StudioScope, since?: Date): Promise<CsatSummary>;
   
-  getDashboardStats(): Promise<DashboardStats>;
-  getAnalyticsData(): Promise<AnalyticsData>;
+  getDashboardStats(scope?: StudioScope): Promise<DashboardStats>;
+  getAnalyticsData(scope?: StudioScope): Promise<AnalyticsData>;
+
+  getActiveSlaRules(): Promise<SlaRule[]>;
+  getBusinessHours(): Promise<BusinessHours[]>;
+  getOpenTickets(): Promise<Ticket[]>;
+
+  getActiveEscalationRules(): Promise<EscalationRule[]>;
+  getEscalationLog(ticketId: string): Promise<EscalationLogEntry[]>;
+  createEscalationLog(entry: InsertEscalationLogEntry): Promise<EscalationLogEntry | undefined>;
+  getUserIdsByRoles(roles: string[]): Promise<string[]>;
+
+  getWorkflowRules(): Promise<WorkflowRule[]>;
+  getActiveWorkflowRules(triggerEvent: string): Promise<WorkflowRule[]>;
+  createWorkflowRule(rule: InsertWorkflowRule): Promise<WorkflowRule>;
+  updateWorkflowRule(id: string, rule: Partial<InsertWorkflowRule>): Promise<WorkflowRule | undefined>;
+  deleteWorkflowRule(id: string): Promise<boolean>;
+
+  // A user's own macros plus everyone's shared ones
+  getMacros(userId: string): Promise<Macro[]>;
+  getMacro(id: string): Promise<Macro | undefined>;
+  createMacro(macro: InsertMacro & { createdByUserId: string }): Promise<Macro>;
+  updateMacro(id: string, macro: Partial<InsertMacro>): Promise<Macro | undefined>;
+  deleteMacro(id: string): Promise<boolean>;
+  recordMacroUse(id: string): Promise<void>;
 }
 
-export interface TicketFilters {
+export interface TicketHistoryEntry {
+  ticketId: string;
+  changedByUserId?: string;
+  action: string;
+  fieldChanged?: string;
+  oldValue?: string;
+  newValue?: string;
+  changeReason?: string;
+  automatedChange?: boolean;
+}
+
+// A message stuck in 'sending' this long was claimed by a worker that died
+export const OUTBOX_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+// An inbound message still 'processing' this long was claimed by a server that died
+export const INBOUND_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+export const OPEN_STATUSES = ['new', 'assigned', 'in_progress', 'pending_customer', 'reopened'];
+
+// Studios a user may see; tickets they reported or are assigned are always visible
+export interface StudioScope {
+  userId: string;
+  allStudios: boolean;
+  studioIds: string[];
+}
+
+// Compiled query-language filters (server/ticketQuery.ts) may be combined
+// with the single-value filters below
+export interface TicketFilters extends CompiledTicketFilters {
   status?: string;
   priority?: string;
   category?: string;
   studioId?: string;
   assignedToUserId?: string;
   search?: string;
+  scope?: StudioScope;
   limit?: number;
   offset?: number;
 }
@@ -109,12 +254,35 @@ export interface AnalyticsData {
   topCategories: { category: string; count: number }[];
 }
 
-function generateTicketNumber(): string {
-  const now = new Date();
-  const year = now.getFullYear().toString().slice(-2);
-  const month = (now.getMonth() + 1).toString().padStart(2, '0');
-  const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-  return `TKT-${year}${month}-${random}`;
+export interface CsatGroup {
+  name: string;
+  responses: number;
+  average: number;
+  // Share of 4 and 5 ratings, the usual CSAT score
+  satisfiedPercent: number;
+  lowScores: number;
+}
+
+export interface CsatSummary {
+  overall: Omit<CsatGroup, 'name'>;
+  byStudio: CsatGroup[];
+  byTeam: CsatGroup[];
+  distribution: { rating: number; count: number }[];
+  // Low scores nobody has followed up on yet, newest first
+  followUps: { feedbackId: string; ticketId: string; ticketNumber: string | null; rating: number; feedback: string | null; createdAt: Date | null }[];
+}
+
+// Ratings at or below this count as low scores
+export const CSAT_LOW_SCORE = Number(process.env.CSAT_LOW_SCORE) || 2;
+
+function csatGroup(ratings: number[]): Omit<CsatGroup, 'name'> {
+  const responses = ratings.length;
+  return {
+    responses,
+    average: responses > 0 ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / responses) * 100) / 100 : 0,
+    satisfiedPercent: responses > 0 ? Math.round((ratings.filter(rating => rating >= 4).length / responses) * 100) : 0,
+    lowScores: ratings.filter(rating => rating <= CSAT_LOW_SCORE).length,
+  };
 }
 
 function requireDb() {
@@ -124,15 +292,88 @@ function requireDb() {
   return db;
 }
 
+type Database = NonNullable<typeof db>;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+function studioScopeCondition(scope?: StudioScope) {
+  if (!scope || scope.allStudios) return undefined;
+  const visible = [eq(tickets.assignedToUserId, scope.userId), eq(tickets.reportedByUserId, scope.userId)];
+  if (scope.studioIds.length > 0) visible.push(inArray(tickets.studioId, scope.studioIds));
+  return or(...visible);
+}
+
+const QUERY_FILTER_COLUMNS = {
+  statuses: tickets.status,
+  priorities: tickets.priority,
+  studioIds: tickets.studioId,
+  categoryIds: tickets.categoryId,
+  assigneeIds: tickets.assignedToUserId,
+  sources: tickets.source,
+  parentTicketIds: tickets.parentTicketId,
+} as const;
+
+// Drizzle counterpart of applyTicketFilters in shared/ticketQuery.ts
+function compiledFilterConditions(filters: CompiledTicketFilters) {
+  const conditions = [];
+  for (const key of Object.keys(QUERY_FILTER_COLUMNS) as (keyof typeof QUERY_FILTER_COLUMNS)[]) {
+    const column = QUERY_FILTER_COLUMNS[key];
+    const included = filters[key];
+    const excluded = filters.exclude?.[key];
+    if (included) conditions.push(included.length ? inArray(column, included) : sql`false`);
+    if (excluded?.length) conditions.push(notInArray(column, excluded));
+  }
+  if (filters.tags) conditions.push(arrayContains(tickets.tags, filters.tags));
+  if (filters.exclude?.tags?.length) conditions.push(not(arrayOverlaps(tickets.tags, filters.exclude.tags)));
+  if (filters.unassigned === true) conditions.push(isNull(tickets.assignedToUserId));
+  if (filters.unassigned === false) conditions.push(isNotNull(tickets.assignedToUserId));
+  if (filters.isSubTicket === true) conditions.push(isNotNull(tickets.parentTicketId));
+  if (filters.isSubTicket === false) conditions.push(isNull(tickets.parentTicketId));
+  if (filters.createdAfter) conditions.push(gte(tickets.createdAt, new Date(filters.createdAfter)));
+  if (filters.createdBefore) conditions.push(lt(tickets.createdAt, new Date(filters.createdBefore)));
+  if (filters.sla === "breached") conditions.push(eq(tickets.slaBreached, true));
+  if (filters.sla === "at-risk") conditions.push(eq(tickets.slaBreached, false), isNotNull(tickets.slaDueAt));
+  return conditions;
+}
+
 export class DatabaseStorage implements IStorage {
+  // Set when this instance is bound to a transaction by transaction()
+  private readonly tx?: Transaction;
+  private readonly afterCommit: (() => void)[] = [];
+
+  constructor(tx?: Transaction) {
+    this.tx = tx;
+  }
+
+  private database(): Database | Transaction {
+    return this.tx || requireDb();
+  }
+
+  // Side effects outside the database (live updates, web push) wait for the commit
+  onCommit(effect: () => void) {
+    if (this.tx) this.afterCommit.push(effect);
+    else effect();
+  }
+
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    if (this.tx) return work(this);
+    const bound: DatabaseStorage[] = [];
+    const result = await requireDb().transaction(async (tx) => {
+      const txStorage = new DatabaseStorage(tx);
+      bound.push(txStorage);
+      return work(txStorage);
+    });
+    for (const effect of bound.flatMap(txStorage => txStorage.afterCommit)) effect();
+    return result;
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [user] = await database.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const database = requireDb();
+    const database = this.database();
     const [user] = await database
       .insert(users)
       .values(userData)
@@ -148,75 +389,81 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUsers(): Promise<User[]> {
-    const database = requireDb();
+    const database = this.database();
     return await database.select().from(users).where(eq(users.isActive, true));
   }
 
+  async getUsersByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    const database = this.database();
+    return await database.select().from(users).where(and(inArray(users.id, ids), eq(users.isActive, true)));
+  }
+
   async getTeams(): Promise<Team[]> {
-    const database = requireDb();
+    const database = this.database();
     return await database.select().from(teams).where(eq(teams.isActive, true));
   }
 
   async getTeam(id: string): Promise<Team | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [team] = await database.select().from(teams).where(eq(teams.id, id));
     return team;
   }
 
   async createTeam(team: InsertTeam): Promise<Team> {
-    const database = requireDb();
+    const database = this.database();
     const [newTeam] = await database.insert(teams).values(team).returning();
     return newTeam;
   }
 
   async updateTeam(id: string, team: Partial<InsertTeam>): Promise<Team | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [updated] = await database.update(teams).set(team).where(eq(teams.id, id)).returning();
     return updated;
   }
 
   async getStudios(): Promise<Studio[]> {
-    const database = requireDb();
+    const database = this.database();
     return await database.select().from(studios).where(eq(studios.isActive, true));
   }
 
   async getStudio(id: string): Promise<Studio | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [studio] = await database.select().from(studios).where(eq(studios.id, id));
     return studio;
   }
 
   async createStudio(studio: InsertStudio): Promise<Studio> {
-    const database = requireDb();
+    const database = this.database();
     const [newStudio] = await database.insert(studios).values(studio).returning();
     return newStudio;
   }
 
   async updateStudio(id: string, studio: Partial<InsertStudio>): Promise<Studio | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [updated] = await database.update(studios).set(studio).where(eq(studios.id, id)).returning();
     return updated;
   }
 
   async getCategories(): Promise<Category[]> {
-    const database = requireDb();
+    const database = this.database();
     return await database.select().from(categories).where(eq(categories.isActive, true)).orderBy(categories.sortOrder);
   }
 
   async getCategory(id: string): Promise<Category | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [category] = await database.select().from(categories).where(eq(categories.id, id));
     return category;
   }
 
   async createCategory(category: InsertCategory): Promise<Category> {
-    const database = requireDb();
+    const database = this.database();
     const [newCategory] = await database.insert(categories).values(category).returning();
     return newCategory;
   }
 
   async getSubcategories(categoryId?: string): Promise<Subcategory[]> {
-    const database = requireDb();
+    const database = this.database();
     if (categoryId) {
       return await database.select().from(subcategories).where(and(eq(subcategories.categoryId, categoryId), eq(subcategories.isActive, true))).orderBy(subcategories.sortOrder);
     }
@@ -224,13 +471,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getSubcategory(id: string): Promise<Subcategory | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [subcategory] = await database.select().from(subcategories).where(eq(subcategories.id, id));
     return subcategory;
   }
 
   async getTickets(filters?: TicketFilters): Promise<Ticket[]> {
-    const database = requireDb();
+    const database = this.database();
     const conditions: any[] = [];
 
     if (filters?.status) {
@@ -258,12 +505,21 @@ export class DatabaseStorage implements IStorage {
     if (filters?.assignedToUserId) {
       conditions.push(eq(tickets.assignedToUserId, filters.assignedToUserId));
     }
+    if (filters) {
+      conditions.push(...compiledFilterConditions(filters));
+    }
+    const scoped = studioScopeCondition(filters?.scope);
+    if (scoped) {
+      conditions.push(scoped);
+    }
     if (filters?.search) {
+      // searchVector is maintained by a trigger (see search_tickets); trigram catches typos
       conditions.push(
         or(
-          ilike(tickets.title, `%${filters.search}%`),
+          sql`"tickets"."searchVector" @@ websearch_to_tsquery('english', ${filters.search})`,
+          sql`${filters.search} <% ${tickets.title}`,
           ilike(tickets.ticketNumber, `%${filters.search}%`),
-          ilike(tickets.customerName, `%${filters.search}%`)
+          sql`${filters.search} % ${tickets.customerName}`
         )
       );
     }
@@ -287,100 +543,458 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getTicket(id: string): Promise<Ticket | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [ticket] = await database.select().from(tickets).where(eq(tickets.id, id));
     return ticket;
   }
 
   async getTicketByNumber(ticketNumber: string): Promise<Ticket | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [ticket] = await database.select().from(tickets).where(eq(tickets.ticketNumber, ticketNumber));
     return ticket;
   }
 
   async createTicket(ticket: InsertTicket): Promise<Ticket> {
-    const database = requireDb();
-    const ticketNumber = generateTicketNumber();
-    const [newTicket] = await database.insert(tickets).values({ ...ticket, ticketNumber }).returning();
+    const database = this.database();
+    // ticketNumber is assigned by the assign_ticket_number trigger from the per-studio sequence
+    const [newTicket] = await database.insert(tickets).values(ticket).returning();
     return newTicket;
   }
 
   async updateTicket(id: string, ticket: Partial<InsertTicket>): Promise<Ticket | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [updated] = await database.update(tickets).set({ ...ticket, updatedAt: new Date() }).where(eq(tickets.id, id)).returning();
     return updated;
   }
 
   async deleteTicket(id: string): Promise<boolean> {
-    const database = requireDb();
+    const database = this.database();
     await database.delete(tickets).where(eq(tickets.id, id));
     return true;
   }
 
   async getTicketComments(ticketId: string): Promise<TicketComment[]> {
-    const database = requireDb();
+    const database = this.database();
     return await database.select().from(ticketComments).where(eq(ticketComments.ticketId, ticketId)).orderBy(desc(ticketComments.createdAt));
   }
 
   async createTicketComment(comment: InsertTicketComment): Promise<TicketComment> {
-    const database = requireDb();
+    const database = this.database();
     const [newComment] = await database.insert(ticketComments).values(comment).returning();
     return newComment;
   }
 
   async getTicketAttachments(ticketId: string): Promise<TicketAttachment[]> {
-    const database = requireDb();
+    const database = this.database();
     return await database.select().from(ticketAttachments).where(eq(ticketAttachments.ticketId, ticketId));
   }
 
+  async getTicketAttachment(id: string): Promise<TicketAttachment | undefined> {
+    const database = this.database();
+    const [attachment] = await database.select().from(ticketAttachments).where(eq(ticketAttachments.id, id));
+    return attachment;
+  }
+
+  async findAttachmentsByHash(sha256: string, storageBackend: string): Promise<TicketAttachment[]> {
+    const database = this.database();
+    return await database
+      .select()
+      .from(ticketAttachments)
+      .where(and(eq(ticketAttachments.sha256, sha256), eq(ticketAttachments.storageBackend, storageBackend)));
+  }
+
   async createTicketAttachment(attachment: InsertTicketAttachment): Promise<TicketAttachment> {
-    const database = requireDb();
+    const database = this.database();
     const [newAttachment] = await database.insert(ticketAttachments).values(attachment).returning();
     return newAttachment;
   }
 
+  async updateTicketAttachment(id: string, attachment: Partial<InsertTicketAttachment>): Promise<TicketAttachment | undefined> {
+    const database = this.database();
+    const [updated] = await database
+      .update(ticketAttachments)
+      .set(attachment)
+      .where(eq(ticketAttachments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTicketAttachment(id: string): Promise<boolean> {
+    const database = this.database();
+    const deleted = await database.delete(ticketAttachments).where(eq(ticketAttachments.id, id)).returning({ id: ticketAttachments.id });
+    return deleted.length > 0;
+  }
+
   async getTicketHistory(ticketId: string): Promise<TicketHistory[]> {
-    const database = requireDb();
+    const database = this.database();
     return await database.select().from(ticketHistory).where(eq(ticketHistory.ticketId, ticketId)).orderBy(desc(ticketHistory.createdAt));
   }
 
-  async createTicketHistory(history: { ticketId: string; changedByUserId?: string; action: string; fieldChanged?: string; oldValue?: string; newValue?: string }): Promise<TicketHistory> {
-    const database = requireDb();
+  async createTicketHistory(history: TicketHistoryEntry): Promise<TicketHistory> {
+    const database = this.database();
     const [newHistory] = await database.insert(ticketHistory).values(history).returning();
     return newHistory;
   }
 
+  async getTicketWatchers(ticketId: string): Promise<TicketWatcher[]> {
+    const database = this.database();
+    return await database.select().from(ticketWatchers).where(eq(ticketWatchers.ticketId, ticketId)).orderBy(ticketWatchers.createdAt);
+  }
+
+  // Explicit watches replace the watch type of an existing row
+  async upsertTicketWatcher(watcher: InsertTicketWatcher): Promise<TicketWatcher> {
+    const database = this.database();
+    const [saved] = await database
+      .insert(ticketWatchers)
+      .values(watcher)
+      .onConflictDoUpdate({
+        target: [ticketWatchers.ticketId, ticketWatchers.userId],
+        set: { watchType: watcher.watchType },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Automatic watches never override a choice the user already made
+  async addTicketWatchers(watchers: InsertTicketWatcher[]): Promise<void> {
+    if (watchers.length === 0) return;
+    const database = this.database();
+    await database.insert(ticketWatchers).values(watchers).onConflictDoNothing();
+  }
+
+  async removeTicketWatcher(ticketId: string, userId: string): Promise<boolean> {
+    const database = this.database();
+    const removed = await database
+      .delete(ticketWatchers)
+      .where(and(eq(ticketWatchers.ticketId, ticketId), eq(ticketWatchers.userId, userId)))
+      .returning();
+    return removed.length > 0;
+  }
+
   async getNotifications(userId: string): Promise<Notification[]> {
-    const database = requireDb();
+    const database = this.database();
     return await database.select().from(notifications).where(eq(notifications.userId, userId)).orderBy(desc(notifications.createdAt));
   }
 
+  async getNotification(id: string): Promise<Notification | undefined> {
+    const database = this.database();
+    const [notification] = await database.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
   async createNotification(notification: InsertNotification): Promise<Notification> {
-    const database = requireDb();
+    const database = this.database();
     const [newNotification] = await database.insert(notifications).values(notification).returning();
+    this.onCommit(() => publishNotification(newNotification));
     return newNotification;
   }
 
   async markNotificationRead(id: string): Promise<Notification | undefined> {
-    const database = requireDb();
+    const database = this.database();
     const [updated] = await database.update(notifications).set({ isRead: true }).where(eq(notifications.id, id)).returning();
     return updated;
   }
 
+  async markNotificationEmailed(id: string): Promise<void> {
+    const database = this.database();
+    await database.update(notifications).set({ sentViaEmail: true }).where(eq(notifications.id, id));
+  }
+
   async deleteNotification(id: string): Promise<boolean> {
-    const database = requireDb();
+    const database = this.database();
     await database.delete(notifications).where(eq(notifications.id, id));
     return true;
   }
 
-  async getDashboardStats(): Promise<DashboardStats> {
-    const database = requireDb();
-    const allTickets = await database.select().from(tickets);
+  async enqueueOutboxMessages(messages: InsertNotificationOutboxMessage[]): Promise<NotificationOutboxMessage[]> {
+    if (messages.length === 0) return [];
+    const database = this.database();
+    return await database.insert(notificationOutbox).values(messages).returning();
+  }
+
+  // Claims due messages for one worker; SKIP LOCKED keeps concurrent workers apart
+  async claimDueOutboxMessages(now: Date, limit: number): Promise<NotificationOutboxMessage[]> {
+    const database = this.database();
+    const staleClaim = new Date(now.getTime() - OUTBOX_CLAIM_TIMEOUT_MS);
+    const due = database
+      .select({ id: notificationOutbox.id })
+      .from(notificationOutbox)
+      .where(or(
+        and(eq(notificationOutbox.status, 'pending'), lte(notificationOutbox.nextAttemptAt, now)),
+        and(eq(notificationOutbox.status, 'sending'), lt(notificationOutbox.lockedAt, staleClaim)),
+      ))
+      .orderBy(notificationOutbox.nextAttemptAt)
+      .limit(limit)
+      .for('update', { skipLocked: true });
+    return await database
+      .update(notificationOutbox)
+      .set({ status: 'sending', lockedAt: now, updatedAt: now })
+      .where(inArray(notificationOutbox.id, due))
+      .returning();
+  }
+
+  async updateOutboxMessage(id: string, updates: Partial<NotificationOutboxMessage>): Promise<NotificationOutboxMessage | undefined> {
+    const database = this.database();
+    const [updated] = await database
+      .update(notificationOutbox)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(notificationOutbox.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getOutboxMessage(id: string): Promise<NotificationOutboxMessage | undefined> {
+    const database = this.database();
+    const [message] = await database.select().from(notificationOutbox).where(eq(notificationOutbox.id, id));
+    return message;
+  }
+
+  async getOutboxMessages(filter: { status?: OutboxStatus; limit?: number } = {}): Promise<NotificationOutboxMessage[]> {
+    const database = this.database();
+    return await database
+      .select()
+      .from(notificationOutbox)
+      .where(filter.status ? eq(notificationOutbox.status, filter.status) : undefined)
+      .orderBy(desc(notificationOutbox.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getOutboxCounts(): Promise<Record<OutboxStatus, number>> {
+    const database = this.database();
+    const rows = await database
+      .select({ status: notificationOutbox.status, count: count() })
+      .from(notificationOutbox)
+      .groupBy(notificationOutbox.status);
+    const counts: Record<OutboxStatus, number> = { pending: 0, sending: 0, sent: 0, dead: 0 };
+    for (const row of rows) counts[row.status as OutboxStatus] = Number(row.count);
+    return counts;
+  }
+
+  async getInboundEmail(messageId: string): Promise<InboundEmail | undefined> {
+    const database = this.database();
+    const [entry] = await database.select().from(inboundEmails).where(eq(inboundEmails.messageId, messageId));
+    return entry;
+  }
+
+  async claimInboundEmail(entry: InsertInboundEmail): Promise<InboundEmail | undefined> {
+    const database = this.database();
+    const staleClaim = new Date(Date.now() - INBOUND_CLAIM_TIMEOUT_MS);
+    const [claimed] = await database
+      .insert(inboundEmails)
+      .values({ ...entry, status: 'processing' })
+      .onConflictDoUpdate({
+        target: inboundEmails.messageId,
+        set: { ...entry, status: 'processing', receivedAt: new Date() },
+        setWhere: and(
+          eq(inboundEmails.status, 'processing'),
+          lt(inboundEmails.receivedAt, staleClaim),
+        ),
+      })
+      .returning();
+    return claimed;
+  }
+
+  async finishInboundEmail(messageId: string, outcome: Pick<InsertInboundEmail, 'status' | 'reason' | 'ticketId' | 'commentId'>): Promise<void> {
+    const database = this.database();
+    await database.update(inboundEmails).set(outcome).where(eq(inboundEmails.messageId, messageId));
+  }
+
+  async releaseInboundEmail(messageId: string): Promise<void> {
+    const database = this.database();
+    await database.delete(inboundEmails)
+      .where(and(eq(inboundEmails.messageId, messageId), eq(inboundEmails.status, 'processing')));
+  }
+
+  async getStudioByEmail(email: string): Promise<Studio | undefined> {
+    const database = this.database();
+    const [studio] = await database.select().from(studios).where(sql`lower(${studios.email}) = ${email.toLowerCase()}`);
+    return studio;
+  }
+
+  async getTeamByEmail(email: string): Promise<Team | undefined> {
+    const database = this.database();
+    const [team] = await database.select().from(teams).where(sql`lower(${teams.email}) = ${email.toLowerCase()}`);
+    return team;
+  }
+
+  async getDigestSettings(userId: string): Promise<DigestSettings | undefined> {
+    const database = this.database();
+    const [settings] = await database.select().from(digestSettings).where(eq(digestSettings.userId, userId));
+    return settings;
+  }
+
+  async getEnabledDigestSettings(): Promise<DigestSettings[]> {
+    const database = this.database();
+    return await database
+      .select()
+      .from(digestSettings)
+      .where(or(eq(digestSettings.dailyEnabled, true), eq(digestSettings.weeklyEnabled, true)));
+  }
+
+  async upsertDigestSettings(userId: string, updates: Partial<Omit<DigestSettings, 'userId'>>): Promise<DigestSettings> {
+    const database = this.database();
+    const [settings] = await database
+      .insert(digestSettings)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({ target: digestSettings.userId, set: { ...updates, updatedAt: new Date() } })
+      .returning();
+    return settings;
+  }
+
+  async getNotificationPreferences(userIds: string[]): Promise<NotificationPreferences[]> {
+    if (userIds.length === 0) return [];
+    const database = this.database();
+    return await database.select().from(notificationPreferences).where(inArray(notificationPreferences.userId, userIds));
+  }
+
+  async upsertNotificationPreferences(userId: string, updates: Partial<Omit<NotificationPreferences, 'userId'>>): Promise<NotificationPreferences> {
+    const database = this.database();
+    const [preferences] = await database
+      .insert(notificationPreferences)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: { ...updates, updatedAt: new Date() } })
+      .returning();
+    return preferences;
+  }
+
+  async getPushSubscriptions(userIds: string[]): Promise<WebPushSubscription[]> {
+    if (userIds.length === 0) return [];
+    const database = this.database();
+    return await database
+      .select()
+      .from(pushSubscriptions)
+      .where(inArray(pushSubscriptions.userId, userIds))
+      .orderBy(desc(pushSubscriptions.createdAt));
+  }
+
+  async savePushSubscription(subscription: Pick<WebPushSubscription, 'userId' | 'endpoint' | 'p256dh' | 'auth' | 'userAgent'>): Promise<WebPushSubscription> {
+    const database = this.database();
+    const [saved] = await database
+      .insert(pushSubscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: { userId: subscription.userId, p256dh: subscription.p256dh, auth: subscription.auth, userAgent: subscription.userAgent },
+      })
+      .returning();
+    return saved;
+  }
+
+  async markPushSubscriptionsUsed(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const database = this.database();
+    await database.update(pushSubscriptions).set({ lastSuccessAt: new Date() }).where(inArray(pushSubscriptions.id, ids));
+  }
+
+  async deletePushSubscription(id: string, userId?: string): Promise<boolean> {
+    const database = this.database();
+    const deleted = await database
+      .delete(pushSubscriptions)
+      .where(userId ? and(eq(pushSubscriptions.id, id), eq(pushSubscriptions.userId, userId)) : eq(pushSubscriptions.id, id))
+      .returning({ id: pushSubscriptions.id });
+    return deleted.length > 0;
+  }
+
+  async getTicketFeedback(ticketId: string): Promise<CustomerFeedback[]> {
+    const database = this.database();
+    return await database.select().from(customerFeedback)
+      .where(eq(customerFeedback.ticketId, ticketId))
+      .orderBy(desc(customerFeedback.createdAt));
+  }
+
+  async getCsatResponse(ticketId: string, surveySentAt: Date): Promise<CustomerFeedback | undefined> {
+    const database = this.database();
+    const [response] = await database.select().from(customerFeedback)
+      .where(and(
+        eq(customerFeedback.ticketId, ticketId),
+        eq(customerFeedback.feedbackType, 'csat'),
+        gte(customerFeedback.createdAt, surveySentAt),
+      ))
+      .orderBy(desc(customerFeedback.createdAt))
+      .limit(1);
+    return response;
+  }
+
+  async createCustomerFeedback(feedback: InsertCustomerFeedback): Promise<CustomerFeedback> {
+    const database = this.database();
+    const [created] = await database.insert(customerFeedback).values(feedback).returning();
+    return created;
+  }
+
+  async createCsatResponse(feedback: InsertCustomerFeedback & { surveySentAt: Date }): Promise<CustomerFeedback | undefined> {
+    const database = this.database();
+    const [created] = await database
+      .insert(customerFeedback)
+      .values({ ...feedback, feedbackType: 'csat' })
+      .onConflictDoNothing({ target: [customerFeedback.ticketId, customerFeedback.surveySentAt] })
+      .returning();
+    return created;
+  }
+
+  async updateCustomerFeedback(id: string, updates: Partial<InsertCustomerFeedback>): Promise<CustomerFeedback | undefined> {
+    const database = this.database();
+    const [updated] = await database.update(customerFeedback).set(updates).where(eq(customerFeedback.id, id)).returning();
+    return updated;
+  }
+
+  async getCsatSummary(scope?: StudioScope, since?: Date): Promise<CsatSummary> {
+    const database = this.database();
+    const rows = await database
+      .select({
+        feedbackId: customerFeedback.id,
+        rating: customerFeedback.rating,
+        feedback: customerFeedback.feedback,
+        followUpRequired: customerFeedback.followUpRequired,
+        createdAt: customerFeedback.createdAt,
+        ticketId: tickets.id,
+        ticketNumber: tickets.ticketNumber,
+        studioId: tickets.studioId,
+        teamId: tickets.assignedTeamId,
+      })
+      .from(customerFeedback)
+      .innerJoin(tickets, eq(customerFeedback.ticketId, tickets.id))
+      .where(and(
+        eq(customerFeedback.feedbackType, 'csat'),
+        isNotNull(customerFeedback.rating),
+        since ? gte(customerFeedback.createdAt, since) : undefined,
+        studioScopeCondition(scope),
+      ))
+      .orderBy(desc(customerFeedback.createdAt));
+    const studioNames = new Map((await this.getStudios()).map(studio => [studio.id, studio.name]));
+    const teamNames = new Map((await this.getTeams()).map(team => [team.id, team.name]));
+
+    const groupBy = (key: (row: typeof rows[number]) => string | null) => {
+      const ratings = new Map<string, number[]>();
+      for (const row of rows) {
+        const name = key(row);
+        if (!name) continue;
+        ratings.set(name, [...(ratings.get(name) || []), row.rating!]);
+      }
+      return Array.from(ratings, ([name, values]) => ({ name, ...csatGroup(values) }))
+        .sort((a, b) => b.responses - a.responses);
+    };
+
+    return {
+      overall: csatGroup(rows.map(row => row.rating!)),
+      byStudio: groupBy(row => studioNames.get(row.studioId) || 'Unknown'),
+      byTeam: groupBy(row => row.teamId ? teamNames.get(row.teamId) || 'Unknown' : 'Unassigned'),
+      distribution: [1, 2, 3, 4, 5].map(rating => ({ rating, count: rows.filter(row => row.rating === rating).length })),
+      followUps: rows
+        .filter(row => row.followUpRequired)
+        .slice(0, 20)
+        .map(({ feedbackId, ticketId, ticketNumber, rating, feedback, createdAt }) => ({
+          feedbackId, ticketId, ticketNumber, rating: rating!, feedback, createdAt,
+        })),
+    };
+  }
+
+  async getDashboardStats(scope?: StudioScope): Promise<DashboardStats> {
+    const database = this.database();
+    const allTickets = await database.select().from(tickets).where(studioScopeCondition(scope));
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
-    const openStatuses = ['new', 'assigned', 'in_progress', 'pending_customer', 'reopened'];
-    const openTickets = allTickets.filter(t => openStatuses.includes(t.status || ''));
+    const openTickets = allTickets.filter(t => OPEN_STATUSES.includes(t.status || ''));
     const newTickets = allTickets.filter(t => t.status === 'new');
     const resolvedToday = allTickets.filter(t => t.resolvedAt && new Date(t.resolvedAt) >= today);
     const slaBreached = allTickets.filter(t => t.slaBreached);
@@ -449,9 +1063,9 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getAnalyticsData(): Promise<AnalyticsData> {
-    const database = requireDb();
-    const allTickets = await database.select().from(tickets);
+  async getAnalyticsData(scope?: StudioScope): Promise<AnalyticsData> {
+    const database = this.database();
+    const allTickets = await database.select().from(tickets).where(studioScopeCondition(scope));
     const allStudios = await this.getStudios();
     const allTeams = await this.getTeams();
 
@@ -524,6 +1138,111 @@ export class DatabaseStorage implements IStorage {
       topCategories
     };
   }
+
+  async getActiveSlaRules(): Promise<SlaRule[]> {
+    const database = this.database();
+    return await database.select().from(slaRules).where(eq(slaRules.isActive, true)).orderBy(desc(slaRules.sortOrder));
+  }
+
+  async getBusinessHours(): Promise<BusinessHours[]> {
+    const database = this.database();
+    return await database.select().from(businessHours).orderBy(businessHours.dayOfWeek);
+  }
+
+  async getOpenTickets(): Promise<Ticket[]> {
+    const database = this.database();
+    return await database.select().from(tickets).where(inArray(tickets.status, OPEN_STATUSES));
+  }
+
+  async getActiveEscalationRules(): Promise<EscalationRule[]> {
+    const database = this.database();
+    return await database.select().from(escalationRules).where(eq(escalationRules.isActive, true)).orderBy(escalationRules.runOrder);
+  }
+
+  async getEscalationLog(ticketId: string): Promise<EscalationLogEntry[]> {
+    const database = this.database();
+    return await database.select().from(escalationLog).where(eq(escalationLog.ticketId, ticketId)).orderBy(desc(escalationLog.createdAt));
+  }
+
+  // Returns undefined when an entry with the same ticket, rule and condition already exists
+  async createEscalationLog(entry: InsertEscalationLogEntry): Promise<EscalationLogEntry | undefined> {
+    const database = this.database();
+    const [newEntry] = await database.insert(escalationLog).values(entry).onConflictDoNothing().returning();
+    return newEntry;
+  }
+
+  async getUserIdsByRoles(roles: string[]): Promise<string[]> {
+    if (roles.length === 0) return [];
+    const database = this.database();
+    const rows = await database.select({ userId: userRoles.userId }).from(userRoles).where(inArray(userRoles.role, roles));
+    return Array.from(new Set(rows.map(r => r.userId)));
+  }
+
+  async getWorkflowRules(): Promise<WorkflowRule[]> {
+    const database = this.database();
+    return await database.select().from(workflowRules).orderBy(workflowRules.runOrder, workflowRules.createdAt);
+  }
+
+  async getActiveWorkflowRules(triggerEvent: string): Promise<WorkflowRule[]> {
+    const database = this.database();
+    return await database.select().from(workflowRules)
+      .where(and(eq(workflowRules.isActive, true), eq(workflowRules.triggerEvent, triggerEvent)))
+      .orderBy(workflowRules.runOrder, workflowRules.createdAt);
+  }
+
+  async createWorkflowRule(rule: InsertWorkflowRule): Promise<WorkflowRule> {
+    const database = this.database();
+    const [newRule] = await database.insert(workflowRules).values(rule).returning();
+    return newRule;
+  }
+
+  async updateWorkflowRule(id: string, rule: Partial<InsertWorkflowRule>): Promise<WorkflowRule | undefined> {
+    const database = this.database();
+    const [updated] = await database.update(workflowRules).set({ ...rule, updatedAt: new Date() }).where(eq(workflowRules.id, id)).returning();
+    return updated;
+  }
+
+  async deleteWorkflowRule(id: string): Promise<boolean> {
+    const database = this.database();
+    const deleted = await database.delete(workflowRules).where(eq(workflowRules.id, id)).returning({ id: workflowRules.id });
+    return deleted.length > 0;
+  }
+
+  async getMacros(userId: string): Promise<Macro[]> {
+    const database = this.database();
+    return await database.select().from(macros)
+      .where(or(eq(macros.createdByUserId, userId), eq(macros.isShared, true)))
+      .orderBy(desc(macros.usageCount), macros.name);
+  }
+
+  async getMacro(id: string): Promise<Macro | undefined> {
+    const database = this.database();
+    const [macro] = await database.select().from(macros).where(eq(macros.id, id));
+    return macro;
+  }
+
+  async createMacro(macro: InsertMacro & { createdByUserId: string }): Promise<Macro> {
+    const database = this.database();
+    const [newMacro] = await database.insert(macros).values(macro).returning();
+    return newMacro;
+  }
+
+  async updateMacro(id: string, macro: Partial<InsertMacro>): Promise<Macro | undefined> {
+    const database = this.database();
+    const [updated] = await database.update(macros).set({ ...macro, updatedAt: new Date() }).where(eq(macros.id, id)).returning();
+    return updated;
+  }
+
+  async deleteMacro(id: string): Promise<boolean> {
+    const database = this.database();
+    const deleted = await database.delete(macros).where(eq(macros.id, id)).returning({ id: macros.id });
+    return deleted.length > 0;
+  }
+
+  async recordMacroUse(id: string): Promise<void> {
+    const database = this.database();
+    await database.update(macros).set({ usageCount: sql`${macros.usageCount} + 1` }).where(eq(macros.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
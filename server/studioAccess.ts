@@ -0,0 +1,156 @@
+// Studio Access
+// Resolves which studios a user may see, mirroring the can_access_studio policy:
+// admins see everything; everyone else sees their home studio plus any studio
+// granted in userStudioAccess; managers with neither keep all-studio access.
+// Tickets a user reported or is assigned are always visible.
+
+import { createClient } from "@supabase/supabase-js";
+import type { Request, RequestHandler } from "express";
+import type { InsertStudioAccess } from "@shared/schema";
+import type { StudioScope } from "./storage";
+import { getRequestRoles } from "./supabaseAuth";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface ScopedTicket {
+  studioId: string | null;
+  assignedToUserId: string | null;
+  reportedByUserId: string | null;
+}
+
+function buildScope(userId: string, roles: readonly string[], homeStudioId: string | null, grantedStudioIds: string[]): StudioScope {
+  const studioIds = Array.from(new Set([...(homeStudioId ? [homeStudioId] : []), ...grantedStudioIds]));
+  const allStudios = roles.includes('admin') || (roles.includes('manager') && studioIds.length === 0);
+  return { userId, allStudios, studioIds };
+}
+
+// Loaded once per request and cached on req.user, like roles
+export async function getStudioScope(req: Request): Promise<StudioScope> {
+  const user = (req as any).user;
+  if (user.studioScope) return user.studioScope;
+
+  const userId: string = user.claims.sub;
+  const roles = await getRequestRoles(req);
+
+  const [{ data: profile }, { data: grants, error }] = await Promise.all([
+    supabase!.from('users').select('studioId').eq('id', userId).maybeSingle(),
+    supabase!.from('userStudioAccess').select('studioId').eq('userId', userId),
+  ]);
+  if (error) throw error;
+
+  user.studioScope = buildScope(userId, roles, profile?.studioId ?? null, (grants || []).map(g => g.studioId as string));
+  return user.studioScope;
+}
+
+// Which of these users may see the ticket. Used before adding someone to a ticket
+// or sending them its contents, since they aren't the one making the request.
+export async function filterUsersWithTicketAccess(ticket: ScopedTicket, userIds: Iterable<string>): Promise<string[]> {
+  const ids = Array.from(new Set(userIds));
+  if (!supabase || ids.length === 0) return ids;
+
+  const [roles, profiles, grants] = await Promise.all([
+    supabase.from('user_roles').select('user_id, role').in('user_id', ids),
+    supabase.from('users').select('id, studioId').in('id', ids),
+    supabase.from('userStudioAccess').select('userId, studioId').in('userId', ids),
+  ]);
+  if (roles.error) throw roles.error;
+  if (profiles.error) throw profiles.error;
+  if (grants.error) throw grants.error;
+
+  return ids.filter(userId => {
+    const scope = buildScope(
+      userId,
+      (roles.data || []).filter(r => r.user_id === userId).map(r => r.role as string),
+      (profiles.data || []).find(p => p.id === userId)?.studioId ?? null,
+      (grants.data || []).filter(g => g.userId === userId).map(g => g.studioId as string),
+    );
+    return canAccessTicket(scope, ticket);
+  });
+}
+
+export function canAccessTicket(scope: StudioScope, ticket: ScopedTicket): boolean {
+  return scope.allStudios
+    || ticket.assignedToUserId === scope.userId
+    || ticket.reportedByUserId === scope.userId
+    || (!!ticket.studioId && scope.studioIds.includes(ticket.studioId));
+}
+
+// Whether the user may file tickets for a studio: tickets they report or are
+// assigned don't widen this
+export function canAccessStudio(scope: StudioScope, studioId: string): boolean {
+  return scope.allStudios || scope.studioIds.includes(studioId);
+}
+
+// PostgREST `or` filter restricting a tickets query to the scope, or null when unrestricted
+export function scopeFilter(scope: StudioScope): string | null {
+  if (scope.allStudios) return null;
+  const visible = [`assignedToUserId.eq.${scope.userId}`, `reportedByUserId.eq.${scope.userId}`];
+  if (scope.studioIds.length > 0) visible.push(`studioId.in.(${scope.studioIds.join(',')})`);
+  return visible.join(',');
+}
+
+// Answers 404 (not 403) for tickets outside the user's studios so their existence
+// isn't leaked. Accepts an id or ticket number in :id; unknown tickets fall through
+// to the handler's own 404.
+export const requireTicketAccess: RequestHandler = async (req, res, next) => {
+  if (!supabase) return next();
+  try {
+    const id = req.params.id;
+    const { data: ticket, error } = await supabase
+      .from('tickets')
+      .select('studioId, assignedToUserId, reportedByUserId')
+      .eq(UUID_PATTERN.test(id) ? 'id' : 'ticketNumber', id)
+      .maybeSingle();
+    if (error) throw error;
+    if (ticket && !canAccessTicket(await getStudioScope(req), ticket)) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+    return next();
+  } catch (error) {
+    console.error('Error checking ticket access:', error);
+    return res.status(500).json({ message: 'Failed to verify ticket access' });
+  }
+};
+
+export async function getStudioAccessGrants() {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('userStudioAccess')
+    .select(`
+      *,
+      user:users(id, email, firstName, lastName, displayName, studioId),
+      studio:studios(id, name, code)
+    `)
+    .order('createdAt', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+// Re-granting an existing user/studio pair updates its access level
+export async function grantStudioAccess(grant: InsertStudioAccess) {
+  if (!supabase) throw new Error('Supabase not configured');
+  const { data, error } = await supabase
+    .from('userStudioAccess')
+    .upsert(grant, { onConflict: 'userId,studioId' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function revokeStudioAccess(id: string): Promise<boolean> {
+  if (!supabase) throw new Error('Supabase not configured');
+  const { data, error } = await supabase
+    .from('userStudioAccess')
+    .delete()
+    .eq('id', id)
+    .select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
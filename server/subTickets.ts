@@ -0,0 +1,118 @@
+// Sub-tickets
+// A parent ticket split into child tickets through parentTicketId, one level
+// deep. Children inherit the parent's studio, customer and category unless
+// given their own. Close blocking and status roll-up live in database triggers
+// (enforce_sub_ticket_rules, roll_up_sub_ticket_status) so every writer obeys them.
+
+import { createClient } from "@supabase/supabase-js";
+import type { Request } from "express";
+import type { InsertTicket, Ticket } from "@shared/schema";
+import { storage } from "./storage";
+import { canAccessTicket, getStudioScope } from "./studioAccess";
+import { createTicketWithRouting, type TicketActor } from "./ticketPipeline";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+const DONE_STATUSES = ['resolved', 'closed'];
+
+// Error codes raised by the sub-ticket triggers
+const RULE_VIOLATION_CODES = ['22023', '23514'];
+
+export interface SubTicketProgress {
+  total: number;
+  done: number;
+  open: number;
+  percent: number;
+}
+
+export class SubTicketError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export function subTicketProgress(children: { status: string | null }[]): SubTicketProgress {
+  const done = children.filter(child => DONE_STATUSES.includes(child.status || '')).length;
+  const total = children.length;
+  return { total, done, open: total - done, percent: total ? Math.round((done / total) * 100) : 0 };
+}
+
+// Trigger rejections carry a message meant for the user; anything else is a real failure
+export function subTicketRuleMessage(error: unknown): string | null {
+  const code = (error as { code?: string } | null)?.code;
+  return code && RULE_VIOLATION_CODES.includes(code) ? (error as Error).message : null;
+}
+
+export async function getSubTickets(req: Request, parentId: string) {
+  if (!supabase) throw new Error('Supabase is not configured');
+  const { data, error } = await supabase
+    .from('tickets')
+    .select(`
+      id, ticketNumber, title, status, priority, studioId, assignedToUserId, reportedByUserId, createdAt, resolvedAt,
+      department:departments!tickets_assignedDepartmentId_fkey(id, name),
+      assignedTo:users!tickets_assignedToUserId_fkey(id, firstName, lastName, displayName)
+    `)
+    .eq('parentTicketId', parentId)
+    .order('createdAt', { ascending: true });
+  if (error) throw error;
+
+  // Progress counts every child; the list shows the ones the requester may open
+  const scope = await getStudioScope(req);
+  const children = data || [];
+  return {
+    children: children.filter(child => canAccessTicket(scope, child)),
+    progress: subTicketProgress(children),
+  };
+}
+
+// Checks a proposed parent before linking, so the user gets a clear 4xx
+// instead of a trigger error for the common mistakes
+export async function validateParentTicket(req: Request, parentId: string, childId?: string): Promise<Ticket> {
+  const parent = await storage.getTicket(parentId);
+  if (!parent || !canAccessTicket(await getStudioScope(req), parent)) {
+    throw new SubTicketError('Parent ticket not found', 404);
+  }
+  if (childId && parent.id === childId) throw new SubTicketError('A ticket cannot be its own sub-ticket', 400);
+  if (parent.parentTicketId) {
+    throw new SubTicketError(`${parent.ticketNumber} is itself a sub-ticket; sub-tickets are one level deep`, 400);
+  }
+  if (parent.mergedIntoTicketId) {
+    throw new SubTicketError(`${parent.ticketNumber} has been merged and cannot take sub-tickets`, 400);
+  }
+  return parent;
+}
+
+export type SubTicketInput = Pick<InsertTicket, 'title'> & Partial<Pick<InsertTicket,
+  'description' | 'priority' | 'categoryId' | 'subcategoryId' | 'assignedDepartmentId' | 'assignedTeamId' | 'assignedToUserId'
+>>;
+
+export async function createSubTicket(
+  req: Request,
+  parentId: string,
+  input: SubTicketInput,
+  actor: TicketActor,
+  options: { baseUrl?: string } = {},
+) {
+  const parent = await validateParentTicket(req, parentId);
+  return await createTicketWithRouting({
+    title: input.title,
+    description: input.description || `Sub-ticket of ${parent.ticketNumber}: ${parent.title}`,
+    priority: input.priority || parent.priority,
+    categoryId: input.categoryId || parent.categoryId,
+    subcategoryId: input.subcategoryId || null,
+    assignedDepartmentId: input.assignedDepartmentId || null,
+    assignedTeamId: input.assignedTeamId || null,
+    assignedToUserId: input.assignedToUserId || null,
+    studioId: parent.studioId,
+    customerName: parent.customerName,
+    customerEmail: parent.customerEmail,
+    customerPhone: parent.customerPhone,
+    customerMembershipId: parent.customerMembershipId,
+    source: parent.source,
+    parentTicketId: parent.id,
+  }, actor, options);
+}
@@ -1,5 +1,14 @@
 import { createClient } from '@supabase/supabase-js';
-import type { Express, RequestHandler } from 'express';
+import type { Express, Request, RequestHandler } from 'express';
+import {
+  PERMISSIONS,
+  PERMISSION_LABELS,
+  hasPermission,
+  isAppRole,
+  type AppRole,
+  type ForbiddenResponse,
+  type Permission,
+} from '@shared/permissions';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -75,3 +84,57 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     return res.status(401).json({ message: 'Unauthorized' });
   }
 };
+
+// Roles are loaded once per request and cached on req.user
+export async function getRequestRoles(req: Request): Promise<AppRole[]> {
+  const user = (req as any).user;
+  if (user.roles) return user.roles;
+
+  const { data, error } = await supabase!
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.claims.sub);
+  if (error) throw error;
+
+  user.roles = (data || []).map(r => r.role).filter(isAppRole);
+  return user.roles;
+}
+
+function authorize(check: (roles: AppRole[]) => boolean, forbidden: ForbiddenResponse): RequestHandler {
+  return async (req, res, next) => {
+    if (!(req as any).user) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    try {
+      const roles = await getRequestRoles(req);
+      if (!check(roles)) {
+        return res.status(403).json(forbidden);
+      }
+      return next();
+    } catch (err) {
+      console.error('❌ Error loading user roles', err);
+      return res.status(500).json({ message: 'Failed to verify permissions' });
+    }
+  };
+}
+
+// Must run after isAuthenticated
+export function requireRole(...roles: AppRole[]): RequestHandler {
+  return authorize(
+    userRoles => roles.some(role => userRoles.includes(role)),
+    { message: `Requires role: ${roles.join(' or ')}`, code: 'forbidden', roles },
+  );
+}
+
+// Must run after isAuthenticated
+export function requirePermission(permission: Permission): RequestHandler {
+  return authorize(
+    userRoles => hasPermission(userRoles, permission),
+    {
+      message: `You do not have permission to ${PERMISSION_LABELS[permission]}`,
+      code: 'forbidden',
+      permission,
+      roles: [...PERMISSIONS[permission]],
+    },
+  );
+}
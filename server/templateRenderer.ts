@@ -0,0 +1,24 @@
+// Template Renderer
+// Fills {{placeholder}} and {{dotted.path}} tokens from a context object.
+// Unknown placeholders are left as-is so typos stay visible in the output.
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function resolvePath(context: Record<string, unknown>, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split('.')) {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+  return template.replace(PLACEHOLDER, (match, path: string) => {
+    const value = resolvePath(context, path);
+    if (value === undefined) return match;
+    if (value === null) return '';
+    if (value instanceof Date) return value.toISOString();
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
@@ -0,0 +1,33 @@
+// Ticket Export
+// Serializes tickets to CSV for the Export buttons. Callers pass tickets already
+// filtered to the requester's studio scope.
+
+import type { Ticket } from "@shared/schema";
+
+const EXPORT_COLUMNS: (keyof Ticket)[] = [
+  'ticketNumber',
+  'title',
+  'status',
+  'priority',
+  'studioId',
+  'categoryId',
+  'assignedToUserId',
+  'customerName',
+  'customerEmail',
+  'source',
+  'createdAt',
+  'resolvedAt',
+  'slaDueAt',
+  'slaBreached',
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : Array.isArray(value) ? value.join('; ') : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function ticketsToCsv(tickets: Ticket[]): string {
+  const rows = tickets.map(ticket => EXPORT_COLUMNS.map(column => csvCell(ticket[column])).join(','));
+  return [EXPORT_COLUMNS.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,95 @@
+// Ticket Merge
+// Folds duplicate tickets into a primary via the merge_tickets database
+// function, one transaction per duplicate. Comments, attachments, history and
+// watchers move to the primary; each duplicate is closed and points at it.
+
+import { createClient } from "@supabase/supabase-js";
+import type { Request } from "express";
+import { storage } from "./storage";
+import { publishTicketEvent } from "./liveUpdates";
+import { canAccessTicket, getStudioScope } from "./studioAccess";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+export const MAX_MERGE_TICKETS = 20;
+
+export interface TicketMergeResult {
+  primaryId: string;
+  primaryTicketNumber: string;
+  secondaryId: string;
+  secondaryTicketNumber: string;
+  movedComments: number;
+  movedAttachments: number;
+  movedHistory: number;
+  movedWatchers: number;
+}
+
+// Carries the HTTP status a rejected merge should answer with
+export class TicketMergeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Checks every duplicate before anything moves, so a bad id in the list
+// doesn't leave the merge half done
+async function validateSecondaries(req: Request, primaryId: string, secondaryIds: string[]) {
+  const scope = await getStudioScope(req);
+  for (const id of secondaryIds) {
+    if (id === primaryId) throw new TicketMergeError('A ticket cannot be merged into itself', 400);
+    const ticket = await storage.getTicket(id);
+    if (!ticket || !canAccessTicket(scope, ticket)) throw new TicketMergeError(`Ticket ${id} not found`, 404);
+    if (ticket.mergedIntoTicketId) {
+      throw new TicketMergeError(`Ticket ${ticket.ticketNumber} has already been merged`, 409);
+    }
+  }
+}
+
+export async function mergeTickets(
+  req: Request,
+  primaryId: string,
+  secondaryIds: string[],
+  reason?: string,
+): Promise<TicketMergeResult[]> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  const ids = Array.from(new Set(secondaryIds));
+  if (ids.length === 0) throw new TicketMergeError('Choose at least one ticket to merge', 400);
+  if (ids.length > MAX_MERGE_TICKETS) {
+    throw new TicketMergeError(`Merge at most ${MAX_MERGE_TICKETS} tickets at a time`, 400);
+  }
+
+  const primary = await storage.getTicket(primaryId);
+  if (!primary) throw new TicketMergeError('Ticket not found', 404);
+  if (primary.mergedIntoTicketId) {
+    throw new TicketMergeError(`Ticket ${primary.ticketNumber} has been merged and cannot take more tickets`, 409);
+  }
+  await validateSecondaries(req, primaryId, ids);
+
+  const userId: string = (req as any).user.claims.sub;
+  const results: TicketMergeResult[] = [];
+  for (const secondaryId of ids) {
+    const { data, error } = await supabase.rpc('merge_tickets', {
+      p_primary_id: primaryId,
+      p_secondary_id: secondaryId,
+      p_user_id: userId,
+      p_reason: reason || undefined,
+    });
+    if (error) {
+      // Validation failures raised inside merge_tickets (concurrent merges)
+      if (error.code === '22023') throw new TicketMergeError(error.message, 409);
+      if (error.code === 'P0002') throw new TicketMergeError(error.message, 404);
+      throw error;
+    }
+    results.push(data as unknown as TicketMergeResult);
+  }
+
+  for (const id of [primaryId, ...ids]) {
+    const ticket = await storage.getTicket(id);
+    if (ticket) publishTicketEvent({ type: 'ticket.updated', ticket });
+  }
+  return results;
+}
@@ -0,0 +1,314 @@
+// Ticket Creation Pipeline
+// The single path for new tickets: detects category and priority, routes to a
+// department, applies escalation rules and SLA deadlines, writes history, sends
+// notifications and explains every routing decision back to the caller.
+
+import { createClient } from "@supabase/supabase-js";
+import { PRIORITIES, type InsertTicket, type Priority, type Ticket } from "@shared/schema";
+import {
+  detectCategory,
+  findPriorityKeyword,
+  getDepartmentRouting,
+  getEscalationRule,
+  type RoutingExplanation,
+} from "@shared/ticketRules";
+import { storage } from "./storage";
+import { autoWatch } from "./watchers";
+import { applySlaToTicket } from "./slaEngine";
+import { publishTicketEvent } from "./liveUpdates";
+import { enqueueEmails, type OutboxEmail } from "./notificationOutbox";
+import { dispatchNotifications, getDeliveryPlans, type NotificationRequest } from "./notificationDispatch";
+import { portalLink } from "./customerPortal";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+// Roles notified when a ticket matches an escalation rule, by the rule's notifyLevel
+const ESCALATION_NOTIFY_ROLES: Record<string, string[]> = {
+  all: ['admin', 'manager', 'staff'],
+  management: ['admin', 'manager'],
+  department: [],
+};
+
+export interface TicketActor {
+  id: string;
+  email?: string;
+  name?: string;
+}
+
+interface AiRouting {
+  priority?: string;
+  department?: string;
+  suggestedTags?: string[];
+  needsEscalation?: boolean;
+  routingConfidence?: number;
+  analysis?: string;
+}
+
+interface NamedRow {
+  id: string;
+  name: string;
+}
+
+function priorityRank(priority: string | null | undefined): number {
+  return PRIORITIES.indexOf(priority as Priority);
+}
+
+function isPriority(value: unknown): value is Priority {
+  return PRIORITIES.includes(value as Priority);
+}
+
+async function findCategory(categoryId: string | null | undefined, name?: string) {
+  if (!supabase) return null;
+  let query = supabase.from('categories').select('id, name, defaultPriority');
+  query = categoryId ? query.eq('id', categoryId) : query.eq('name', name || '');
+  const { data } = await query.maybeSingle();
+  return data as (NamedRow & { defaultPriority: string | null }) | null;
+}
+
+async function findNamed(table: 'subcategories' | 'departments' | 'studios', column: 'id' | 'name', value: string) {
+  if (!supabase) return null;
+  const { data } = await supabase.from(table).select('id, name').eq(column, value).maybeSingle();
+  return data as NamedRow | null;
+}
+
+async function analyzeWithAi(input: InsertTicket, category: string | null, subcategory: string | null): Promise<AiRouting | null> {
+  if (!supabase) return null;
+  try {
+    const { data, error } = await supabase.functions.invoke('analyze-ticket', {
+      body: {
+        title: input.title,
+        description: input.description,
+        category,
+        subcategory,
+        studioId: input.studioId,
+      },
+    });
+    return error ? null : (data as AiRouting);
+  } catch (error) {
+    console.warn('AI routing failed:', error);
+    return null;
+  }
+}
+
+export async function createTicketWithRouting(
+  input: InsertTicket,
+  actor: TicketActor,
+  options: { baseUrl?: string } = {},
+): Promise<{ ticket: Ticket; routing: RoutingExplanation }> {
+  const text = `${input.title} ${input.description || ''}`;
+  const steps: string[] = [];
+
+  // Category: keep the caller's choice, otherwise detect from the text
+  let category = await findCategory(input.categoryId);
+  let categoryDetected = false;
+  if (!category) {
+    const detected = detectCategory(text);
+    category = await findCategory(null, detected);
+    categoryDetected = true;
+    steps.push(`Category detected from text: ${detected}`);
+  }
+  const subcategory = input.subcategoryId ? await findNamed('subcategories', 'id', input.subcategoryId) : null;
+
+  // Priority: requested or category default, raised by keywords, escalation rules and AI analysis
+  const requestedPriority = isPriority(input.priority) ? input.priority : null;
+  let priority: Priority = requestedPriority || (isPriority(category?.defaultPriority) ? category!.defaultPriority as Priority : 'medium');
+  const raisePriority = (candidate: string | undefined, reason: string) => {
+    if (isPriority(candidate) && priorityRank(candidate) > priorityRank(priority)) {
+      steps.push(`Priority raised from ${priority} to ${candidate}: ${reason}`);
+      priority = candidate;
+    }
+  };
+
+  const keyword = findPriorityKeyword(text);
+  if (keyword) raisePriority(keyword.priority, `keyword "${keyword.keyword}"`);
+
+  const escalationRule = subcategory ? getEscalationRule(subcategory.name) : null;
+  if (escalationRule && subcategory) raisePriority(escalationRule.priority, `escalation rule "${subcategory.name}"`);
+
+  const ai = await analyzeWithAi(input, category?.name || null, subcategory?.name || null);
+  if (ai) raisePriority(ai.priority, 'AI analysis');
+
+  // Department: explicit choice, then escalation target, then category routing
+  let departmentName: string | null = null;
+  let departmentReason: string;
+  let assignedDepartmentId = input.assignedDepartmentId || null;
+  if (assignedDepartmentId) {
+    departmentName = (await findNamed('departments', 'id', assignedDepartmentId))?.name || null;
+    departmentReason = 'Selected by reporter';
+  } else {
+    const routing = getDepartmentRouting(category?.name || 'Miscellaneous');
+    departmentName = escalationRule?.escalateTo || routing.primary;
+    departmentReason = escalationRule
+      ? `Escalation rule for ${subcategory!.name}`
+      : `Default routing for ${category?.name || 'Miscellaneous'}`;
+    assignedDepartmentId = (await findNamed('departments', 'name', departmentName))?.id || null;
+  }
+  steps.push(`Routed to ${departmentName || 'unassigned department'} (${departmentReason})`);
+
+  const escalateNow = !!escalationRule?.immediate || !!ai?.needsEscalation;
+  const tags = Array.from(new Set([...(input.tags || []), ...(ai?.suggestedTags || [])]));
+
+  // Recipients and names are looked up before the write so the transaction stays short
+  const studioName = (await findNamed('studios', 'id', input.studioId))?.name || '';
+  let assignee: { email: string | null; displayName: string | null } | null = null;
+  if (input.assignedToUserId && supabase) {
+    const { data } = await supabase
+      .from('users')
+      .select('email, displayName')
+      .eq('id', input.assignedToUserId)
+      .maybeSingle();
+    assignee = data;
+  }
+
+  // The ticket, its history, notifications and outgoing emails commit together
+  const { ticket, notified } = await storage.transaction(async (tx) => {
+    const created = await tx.createTicket({
+      ...input,
+      categoryId: category?.id || input.categoryId,
+      priority,
+      status: input.assignedToUserId ? 'assigned' : 'new',
+      assignedDepartmentId,
+      tags,
+      escalatedAt: escalateNow ? new Date() : null,
+      reportedByUserId: actor.id,
+      dynamicFieldData: {
+        ...(input.dynamicFieldData as Record<string, unknown> | null),
+        ...(ai ? {
+          aiRouting: {
+            department: ai.department,
+            suggestedTags: ai.suggestedTags,
+            needsEscalation: ai.needsEscalation,
+            routingConfidence: ai.routingConfidence,
+            analysis: ai.analysis,
+          },
+        } : {}),
+      },
+    });
+    const ticket = await applySlaToTicket(created, tx);
+    steps.push(`SLA resolution due ${ticket.slaDueAt ? new Date(ticket.slaDueAt).toISOString() : 'not set'}`);
+
+    await tx.createTicketHistory({
+      ticketId: ticket.id,
+      changedByUserId: actor.id,
+      action: 'created',
+      fieldChanged: 'status',
+      newValue: 'Ticket created',
+      changeReason: steps.join('; '),
+    });
+
+    if (escalateNow) {
+      await tx.createTicketHistory({
+        ticketId: ticket.id,
+        changedByUserId: actor.id,
+        action: 'escalated',
+        fieldChanged: 'assignedDepartmentId',
+        newValue: departmentName || '',
+        changeReason: escalationRule ? `Immediate escalation: ${subcategory!.name}` : 'AI analysis flagged for escalation',
+        automatedChange: true,
+      });
+    }
+
+    await autoWatch(ticket.id, [actor.id, ticket.assignedToUserId], tx);
+
+    // Notifications reach colleagues as their preferences allow. Emails are queued
+    // in the outbox and delivered by its worker, so slow or failing delivery never
+    // blocks or loses anything.
+    const ticketUrl = options.baseUrl ? `${options.baseUrl}/tickets/${ticket.id}` : undefined;
+    const payload = {
+      ticketNumber: ticket.ticketNumber,
+      ticketTitle: ticket.title,
+      studioName,
+      priority: ticket.priority,
+      category: category?.name,
+      ticketUrl,
+    };
+    const notified = new Set<string>();
+    const requests: NotificationRequest[] = [];
+    if (ticket.assignedToUserId && ticket.assignedToUserId !== actor.id) {
+      requests.push({
+        userId: ticket.assignedToUserId,
+        event: 'assignment',
+        ticket,
+        title: `New ticket assigned: ${ticket.ticketNumber}`,
+        message: ticket.title,
+        email: assignee?.email
+          ? { eventType: 'assignment', recipientEmail: assignee.email, recipientName: assignee.displayName, payload }
+          : undefined,
+      });
+      notified.add(ticket.assignedToUserId);
+    }
+    if (escalationRule) {
+      const roles = ESCALATION_NOTIFY_ROLES[escalationRule.notifyLevel] || [];
+      for (const userId of await tx.getUserIdsByRoles(roles)) {
+        if (notified.has(userId) || userId === actor.id) continue;
+        requests.push({
+          userId,
+          event: 'escalation',
+          ticket,
+          title: `Ticket escalated: ${ticket.ticketNumber}`,
+          message: `${subcategory!.name}: ${ticket.title}`,
+        });
+        notified.add(userId);
+      }
+    }
+    await dispatchNotifications(requests, tx);
+
+    const emails: OutboxEmail[] = [];
+    const actorPlan = actor.email
+      ? (await getDeliveryPlans([actor.id], 'status_change', ticket.priority, tx)).get(actor.id)
+      : undefined;
+    if (actor.email && actorPlan?.email) {
+      emails.push({
+        eventType: 'status_change',
+        recipientEmail: actor.email,
+        recipientName: actor.name,
+        ticketId: ticket.id,
+        notBefore: actorPlan.emailNotBefore,
+        payload: { ...payload, oldStatus: 'Draft', newStatus: 'New' },
+      });
+    }
+    if (ticket.customerEmail) {
+      emails.push({
+        eventType: 'status_change',
+        recipientEmail: ticket.customerEmail,
+        recipientName: ticket.customerName,
+        ticketId: ticket.id,
+        // Customers follow their request on the public status page, not the staff app
+        payload: {
+          ...payload,
+          ticketUrl: portalLink(ticket, options.baseUrl),
+          oldStatus: 'Submitted',
+          newStatus: 'Received',
+        },
+      });
+    }
+    await enqueueEmails(tx, emails);
+
+    return { ticket, notified };
+  });
+
+  publishTicketEvent({ type: 'ticket.created', ticket });
+
+  return {
+    ticket,
+    routing: {
+      priority,
+      requestedPriority,
+      category: category?.name || null,
+      categoryDetected,
+      department: departmentName,
+      departmentReason,
+      escalation: escalationRule && subcategory
+        ? { rule: subcategory.name, escalateTo: escalationRule.escalateTo, immediate: escalationRule.immediate }
+        : null,
+      firstResponseDueAt: ticket.firstResponseDueAt ? new Date(ticket.firstResponseDueAt).toISOString() : null,
+      slaDueAt: ticket.slaDueAt ? new Date(ticket.slaDueAt).toISOString() : null,
+      notifiedUserIds: Array.from(notified),
+      steps,
+    },
+  };
+}
@@ -0,0 +1,282 @@
+// Ticket Query Compiler
+// Turns the tickets-page query language (see shared/ticketQuery.ts) into
+// CompiledTicketFilters: studio, category and assignee names become ids, `me`
+// becomes the requester and relative dates become timestamps. Terms that can't
+// be resolved are reported back and left out of the filters.
+
+import { createClient } from "@supabase/supabase-js";
+import type { Request } from "express";
+import { STATUSES } from "@shared/schema";
+import {
+  PARENT_KEYWORDS,
+  STATUS_GROUPS,
+  SLA_QUERY_VALUES,
+  TICKET_QUERY_FIELD_INFO,
+  comparePriorities,
+  parseTicketQuery,
+  type CompiledTicketFilters,
+  type CompiledTicketQuery,
+  type QueryClause,
+  type QueryComparator,
+  type TicketFieldFilters,
+  type TicketQueryError,
+} from "@shared/ticketQuery";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TICKET_NUMBER_PATTERN = /^[A-Za-z0-9_-]+$/;
+const HOUR_MS = 60 * 60 * 1000;
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: HOUR_MS,
+  d: 24 * HOUR_MS,
+  w: 7 * 24 * HOUR_MS,
+  m: 30 * 24 * HOUR_MS,
+};
+
+interface NamedRecord {
+  id: string;
+  names: string[];
+}
+
+interface DateRange {
+  after?: Date;
+  before?: Date;
+}
+
+// Parent tickets are given by number; ids pass through
+async function resolveTicketNumbers(values: string[]): Promise<Map<string, string>> {
+  // Anything that can't be a ticket number (quotes, backslashes, parentheses) is left unresolved
+  const numbers = values.filter(value => TICKET_NUMBER_PATTERN.test(value));
+  const ids = values.filter(value => UUID_PATTERN.test(value));
+  if (!supabase || (numbers.length === 0 && ids.length === 0)) return new Map();
+  // Separate lookups so the client escapes the values; user input never ends up in a filter string
+  const [byNumber, byId] = await Promise.all([
+    numbers.length ? supabase.from('tickets').select('id, ticketNumber').in('ticketNumber', numbers) : Promise.resolve({ data: [], error: null }),
+    ids.length ? supabase.from('tickets').select('id, ticketNumber').in('id', ids) : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (byNumber.error) throw byNumber.error;
+  if (byId.error) throw byId.error;
+  const byKey = new Map<string, string>();
+  for (const ticket of [...(byNumber.data || []), ...(byId.data || [])]) {
+    byKey.set(ticket.ticketNumber.toLowerCase(), ticket.id);
+    byKey.set(ticket.id.toLowerCase(), ticket.id);
+  }
+  return byKey;
+}
+
+// Only the lookups the query needs are loaded
+async function loadNamedRecords(table: 'studios' | 'categories' | 'users'): Promise<NamedRecord[]> {
+  if (!supabase) return [];
+  if (table === 'users') {
+    const { data, error } = await supabase.from('users').select('id, email, displayName, firstName, lastName');
+    if (error) throw error;
+    return (data || []).map(user => ({
+      id: user.id,
+      names: [user.email, user.displayName, [user.firstName, user.lastName].filter(Boolean).join(' '), user.firstName],
+    }));
+  }
+  const { data, error } = await supabase.from(table).select('id, name, code');
+  if (error) throw error;
+  return (data || []).map(record => ({ id: record.id, names: [record.name, record.code] }));
+}
+
+function resolveNamed(records: NamedRecord[], value: string): string | null {
+  const wanted = value.toLowerCase();
+  const match = records.find(record =>
+    record.id === value || record.names.some(name => typeof name === 'string' && name.toLowerCase() === wanted)
+  );
+  return match?.id || null;
+}
+
+function resolveStatus(value: string): string[] {
+  const key = value.toLowerCase().replace(/[\s-]+/g, '_');
+  if (STATUS_GROUPS[key]) return STATUS_GROUPS[key];
+  if (key === 'pending') return ['pending_customer'];
+  return (STATUSES as readonly string[]).includes(key) ? [key] : [];
+}
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// `<7d` means newer than seven days; `>7d` older. Dates compare by whole day.
+function resolveCreated(comparator: QueryComparator, value: string, now: Date): DateRange | null {
+  const lowered = value.toLowerCase();
+  if (lowered === 'today') return { after: startOfDay(now) };
+  if (lowered === 'yesterday') return { after: addDays(startOfDay(now), -1), before: startOfDay(now) };
+
+  const duration = lowered.match(/^(\d+)([hdwm])$/);
+  if (duration) {
+    const instant = new Date(now.getTime() - Number(duration[1]) * DURATION_UNITS_MS[duration[2]]);
+    return comparator === '>' || comparator === '>=' ? { before: instant } : { after: instant };
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const day = new Date(`${value}T00:00:00`);
+  if (isNaN(day.getTime())) return null;
+  const nextDay = addDays(day, 1);
+  switch (comparator) {
+    case '<': return { before: day };
+    case '<=': return { before: nextDay };
+    case '>': return { after: nextDay };
+    case '>=': return { after: day };
+    default: return { after: day, before: nextDay };
+  }
+}
+
+function include(filters: CompiledTicketFilters, key: keyof TicketFieldFilters, values: string[]) {
+  const current = filters[key];
+  // Repeating a field narrows it, except tags which accumulate
+  filters[key] = !current
+    ? values
+    : key === 'tags'
+      ? Array.from(new Set([...current, ...values]))
+      : current.filter(value => values.includes(value));
+}
+
+function exclude(filters: CompiledTicketFilters, key: keyof TicketFieldFilters, values: string[]) {
+  filters.exclude = filters.exclude || {};
+  filters.exclude[key] = Array.from(new Set([...(filters.exclude[key] || []), ...values]));
+}
+
+export async function compileTicketQuery(req: Request, input: string, now = new Date()): Promise<CompiledTicketQuery> {
+  const { clauses, text } = parseTicketQuery(input);
+  const filters: CompiledTicketFilters = {};
+  const errors: TicketQueryError[] = [];
+  if (text) filters.search = text;
+
+  const needs = new Set(clauses.map(clause => clause.field));
+  const parentNumbers = clauses
+    .filter(clause => clause.field === 'parent')
+    .flatMap(clause => clause.values)
+    .filter(value => !(PARENT_KEYWORDS as readonly string[]).includes(value.toLowerCase()));
+  const [studios, categories, users, parents] = await Promise.all([
+    needs.has('studio') ? loadNamedRecords('studios') : [],
+    needs.has('category') ? loadNamedRecords('categories') : [],
+    needs.has('assignee') ? loadNamedRecords('users') : [],
+    resolveTicketNumbers(parentNumbers),
+  ]);
+  const userId: string = (req as any).user.claims.sub;
+
+  const fail = (clause: QueryClause, message: string) => errors.push({ term: clause.raw, message });
+
+  for (const clause of clauses) {
+    const { field, comparator, values, negated } = clause;
+    if (values.length === 0) {
+      fail(clause, `${field} needs a value, e.g. ${TICKET_QUERY_FIELD_INFO[field].example}`);
+      continue;
+    }
+    if (comparator !== ':' && !TICKET_QUERY_FIELD_INFO[field].ordered) {
+      fail(clause, `${field} can't be compared with ${comparator}`);
+      continue;
+    }
+
+    // Resolves each value, reporting the ones that don't match anything
+    const resolveAll = (resolve: (value: string) => string[] | string | null, label: string): string[] => {
+      const resolved: string[] = [];
+      for (const value of values) {
+        const result = resolve(value);
+        const ids = Array.isArray(result) ? result : result ? [result] : [];
+        if (ids.length === 0) fail(clause, `Unknown ${label} "${value}"`);
+        resolved.push(...ids);
+      }
+      return Array.from(new Set(resolved));
+    };
+    const apply = (key: keyof TicketFieldFilters, resolved: string[]) => {
+      if (resolved.length === 0) return;
+      if (negated) exclude(filters, key, resolved);
+      else include(filters, key, resolved);
+    };
+
+    switch (field) {
+      case 'status':
+        apply('statuses', resolveAll(resolveStatus, 'status'));
+        break;
+      case 'priority':
+        apply('priorities', resolveAll(value => comparePriorities(comparator, value.toLowerCase()), 'priority'));
+        break;
+      case 'studio':
+        apply('studioIds', resolveAll(value => resolveNamed(studios, value), 'studio'));
+        break;
+      case 'category':
+        apply('categoryIds', resolveAll(value => resolveNamed(categories, value), 'category'));
+        break;
+      case 'source':
+        apply('sources', values.map(value => value.toLowerCase()));
+        break;
+      case 'tag':
+        apply('tags', values);
+        break;
+      case 'assignee': {
+        const named = values.filter(value => !['none', 'unassigned'].includes(value.toLowerCase()));
+        if (named.length === values.length) {
+          apply('assigneeIds', resolveAll(value => value.toLowerCase() === 'me' ? userId : resolveNamed(users, value), 'assignee'));
+        } else if (named.length === 0) {
+          filters.unassigned = !negated;
+        } else {
+          fail(clause, `assignee:none can't be combined with other assignees`);
+        }
+        break;
+      }
+      case 'created':
+        for (const value of values) {
+          const range = resolveCreated(comparator, value, now);
+          if (!range) {
+            fail(clause, `Unknown date "${value}"; use 7d, 12h, 2w, 3m, today or YYYY-MM-DD`);
+            continue;
+          }
+          if (negated && range.after && range.before) {
+            fail(clause, `A single day can't be negated; use created:< or created:> instead`);
+            continue;
+          }
+          // -created:<7d is the same as created:>7d
+          const { after, before } = negated ? { after: range.before, before: range.after } : range;
+          if (after && (!filters.createdAfter || after > new Date(filters.createdAfter))) {
+            filters.createdAfter = after.toISOString();
+          }
+          if (before && (!filters.createdBefore || before < new Date(filters.createdBefore))) {
+            filters.createdBefore = before.toISOString();
+          }
+        }
+        break;
+      case 'parent': {
+        const keyword = values[0].toLowerCase();
+        if ((PARENT_KEYWORDS as readonly string[]).includes(keyword)) {
+          if (values.length > 1) {
+            fail(clause, `parent:${keyword} can't be combined with other values`);
+            break;
+          }
+          // -parent:none is the same as parent:any
+          filters.isSubTicket = (keyword === 'any') !== negated;
+          break;
+        }
+        apply('parentTicketIds', resolveAll(value => parents.get(value.toLowerCase()) || null, 'ticket'));
+        break;
+      }
+      case 'sla': {
+        const value = values[0].toLowerCase() as typeof SLA_QUERY_VALUES[number];
+        if (negated || values.length > 1 || !SLA_QUERY_VALUES.includes(value)) {
+          fail(clause, `sla takes one of ${SLA_QUERY_VALUES.join(', ')}`);
+          break;
+        }
+        filters.sla = value;
+        break;
+      }
+    }
+  }
+
+  return { filters, errors };
+}
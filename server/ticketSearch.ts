@@ -0,0 +1,68 @@
+// Ticket Search
+// Ranked full-text + trigram search via the search_tickets database function.
+// Results are limited to the requester's studios and hide internal comments
+// from anyone who can't read them.
+
+import { createClient } from "@supabase/supabase-js";
+import type { Request } from "express";
+import { hasPermission } from "@shared/permissions";
+import { getRequestRoles } from "./supabaseAuth";
+import { getStudioScope } from "./studioAccess";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 200;
+
+export interface TicketSearchHit {
+  id: string;
+  rank: number;
+  // Matched terms are wrapped in <mark></mark>
+  snippet: string;
+  matchedIn: 'ticket' | 'comment' | 'similar';
+}
+
+export async function searchTicketHits(
+  req: Request,
+  query: string,
+  options: { limit?: number; offset?: number } = {},
+): Promise<TicketSearchHit[]> {
+  const trimmed = query.trim();
+  if (!supabase || !trimmed) return [];
+
+  const [scope, roles] = await Promise.all([getStudioScope(req), getRequestRoles(req)]);
+  const { data, error } = await supabase.rpc('search_tickets', {
+    p_query: trimmed,
+    p_limit: Math.min(options.limit || DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT),
+    p_offset: options.offset || 0,
+    // Unrestricted users skip the per-row access check
+    p_user_id: scope.allStudios ? undefined : scope.userId,
+    p_include_internal: hasPermission(roles, 'canViewInternalNotes'),
+  });
+  if (error) throw error;
+  return (data || []) as TicketSearchHit[];
+}
+
+// Hits joined with the ticket summary the results list and command palette show
+export async function searchTickets(req: Request, query: string, options: { limit?: number; offset?: number } = {}) {
+  const hits = await searchTicketHits(req, query, options);
+  if (!supabase || hits.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('tickets')
+    .select(`
+      id, ticketNumber, title, status, priority, customerName, createdAt,
+      studio:studios(id, name)
+    `)
+    .in('id', hits.map(hit => hit.id));
+  if (error) throw error;
+
+  const byId = new Map((data || []).map(ticket => [ticket.id as string, ticket]));
+  return hits
+    .filter(hit => byId.has(hit.id))
+    .map(hit => ({ ...byId.get(hit.id)!, search: { rank: hit.rank, snippet: hit.snippet, matchedIn: hit.matchedIn } }));
+}
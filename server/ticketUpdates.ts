@@ -0,0 +1,81 @@
+// Ticket Updates
+// What follows a change to a ticket's fields, whether an agent edited it, ran a
+// macro or a workflow rule changed it: SLA deadlines are re-evaluated, escalation and workflow rules run, a new
+// assignee and the watchers are notified, a CSAT survey goes out on resolution
+// and open views refresh.
+
+import type { Ticket } from "@shared/schema";
+import { applySlaToTicket } from "./slaEngine";
+import { runEscalationsForEvent } from "./escalationRunner";
+import { runWorkflows } from "./workflowEngine";
+import { autoWatch, notifyWatchers } from "./watchers";
+import { dispatchNotifications } from "./notificationDispatch";
+import { queueCsatSurvey, shouldSendSurvey } from "./csatSurveys";
+import { publishTicketEvent } from "./liveUpdates";
+
+// Deadlines depend on the matched SLA rule, so they're re-evaluated when its criteria change
+const SLA_FIELDS = ['priority', 'categoryId', 'subcategoryId', 'studioId'] as const;
+
+export interface TicketUpdateContext {
+  // Unset for automated changes
+  actorId?: string;
+  // Fields the actor changed; nobody is notified when this is empty
+  changedFields: string[];
+  // Set for changes made by workflow actions, so rules never re-trigger themselves
+  skipWorkflows?: boolean;
+}
+
+export async function afterTicketUpdate(previous: Ticket, updated: Ticket, context: TicketUpdateContext): Promise<Ticket> {
+  const { actorId, changedFields } = context;
+  let ticket = updated;
+
+  if (SLA_FIELDS.some((field) => ticket[field] !== previous[field])) {
+    ticket = await applySlaToTicket(ticket);
+  }
+
+  if (ticket.priority !== previous.priority) {
+    ticket = await runEscalationsForEvent(ticket, { trigger: 'priority_change', previousPriority: previous.priority }, actorId);
+  }
+
+  // Workflow actions get their own follow-up, so what's below only covers this change
+  let afterWorkflows = ticket;
+  if (!context.skipWorkflows) {
+    afterWorkflows = await runWorkflows({ event: 'ticket_updated', ticket, previous, actorId });
+    if (afterWorkflows.status !== previous.status) {
+      afterWorkflows = await runWorkflows({ event: 'status_changed', ticket: afterWorkflows, previous, actorId });
+    }
+  }
+
+  if (changedFields.length > 0) {
+    const notified: string[] = [];
+    if (ticket.assignedToUserId && ticket.assignedToUserId !== previous.assignedToUserId) {
+      await autoWatch(ticket.id, [ticket.assignedToUserId]);
+      if (ticket.assignedToUserId !== actorId) {
+        await dispatchNotifications([{
+          userId: ticket.assignedToUserId,
+          event: 'assignment',
+          ticket,
+          title: `Ticket assigned to you: ${ticket.ticketNumber}`,
+          message: ticket.title,
+        }]);
+        notified.push(ticket.assignedToUserId);
+      }
+    }
+    const statusChanged = ticket.status !== previous.status;
+    await notifyWatchers({
+      ticket,
+      event: statusChanged ? 'status' : 'update',
+      title: statusChanged
+        ? `${ticket.ticketNumber} is now ${(ticket.status || 'new').replace(/_/g, ' ')}`
+        : `${ticket.ticketNumber} updated`,
+      message: statusChanged ? ticket.title : `Changed: ${changedFields.join(', ')}`,
+      actorId,
+      skipUserIds: notified,
+    });
+  }
+  if (shouldSendSurvey(previous, ticket)) {
+    await queueCsatSurvey(ticket).catch((error) => console.error("Error queueing CSAT survey:", error));
+  }
+  publishTicketEvent({ type: 'ticket.updated', ticket: afterWorkflows });
+  return afterWorkflows;
+}
@@ -0,0 +1,109 @@
+// Ticket Watchers
+// Who follows a ticket and which events reach them. Reporters, assignees and
+// commenters start watching automatically; anyone can watch a ticket they can
+// see, and managers can add colleagues who can see it too. Each watcher's watchType filters events:
+//   all       everything
+//   updates   field changes and status changes
+//   comments  new comments
+//   status    status changes only
+
+import { createClient } from "@supabase/supabase-js";
+import type { Ticket, WatchType } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+import type { NotificationEvent } from "@shared/notificationPreferences";
+import { storage, type IStorage } from "./storage";
+import { dispatchNotifications } from "./notificationDispatch";
+import { filterUsersWithTicketAccess } from "./studioAccess";
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey)
+  : null;
+
+export type WatchEvent = 'comment' | 'status' | 'update';
+
+const WATCH_TYPE_EVENTS: Record<WatchType, WatchEvent[]> = {
+  all: ['comment', 'status', 'update'],
+  updates: ['status', 'update'],
+  comments: ['comment'],
+  status: ['status'],
+};
+
+const NOTIFICATION_TYPES: Record<WatchEvent, string> = {
+  comment: 'comment_added',
+  status: 'status_changed',
+  update: 'ticket_updated',
+};
+
+const PREFERENCE_EVENTS: Record<WatchEvent, NotificationEvent> = {
+  comment: 'comment',
+  status: 'status_change',
+  update: 'ticket_update',
+};
+
+export function watchTypeCovers(watchType: string | null, event: WatchEvent): boolean {
+  return (WATCH_TYPE_EVENTS[(watchType || 'all') as WatchType] || WATCH_TYPE_EVENTS.all).includes(event);
+}
+
+// Watchers with the name and email the watchers panel shows
+export async function getWatchersWithUsers(ticketId: string) {
+  const watchers = await storage.getTicketWatchers(ticketId);
+  if (!supabase || watchers.length === 0) return watchers.map(watcher => ({ ...watcher, user: null }));
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, firstName, lastName, displayName, email')
+    .in('id', watchers.map(watcher => watcher.userId));
+  if (error) throw error;
+  const byId = new Map((data || []).map(user => [user.id as string, user]));
+  return watchers.map(watcher => ({ ...watcher, user: byId.get(watcher.userId) || null }));
+}
+
+// Adds automatic watches; existing watches keep the type their owner chose
+export async function autoWatch(ticketId: string, userIds: (string | null | undefined)[], store: IStorage = storage): Promise<void> {
+  const unique = Array.from(new Set(userIds.filter((id): id is string => !!id)));
+  await store.addTicketWatchers(unique.map(userId => ({ ticketId, userId, watchType: 'all' as const, addedByUserId: null })));
+}
+
+interface WatcherNotification {
+  ticket: Pick<Ticket, 'id' | 'ticketNumber' | 'priority' | 'studioId' | 'assignedToUserId' | 'reportedByUserId'>;
+  event: WatchEvent;
+  title: string;
+  message: string;
+  // The person who caused the event is never notified about it
+  actorId?: string | null;
+  // Internal notes only reach watchers who can read them
+  internal?: boolean;
+  // Users already notified about this event through another path
+  skipUserIds?: Iterable<string>;
+}
+
+// Returns the ids of the watchers notified
+export async function notifyWatchers(notification: WatcherNotification): Promise<string[]> {
+  const { ticket, event, title, message, actorId, internal } = notification;
+  const skip = new Set(notification.skipUserIds || []);
+  if (actorId) skip.add(actorId);
+
+  let watchers = (await storage.getTicketWatchers(ticket.id))
+    .filter(watcher => !skip.has(watcher.userId) && watchTypeCovers(watcher.watchType, event));
+  if (internal && watchers.length > 0) {
+    const staff = new Set(await storage.getUserIdsByRoles([...PERMISSIONS.canViewInternalNotes]));
+    watchers = watchers.filter(watcher => staff.has(watcher.userId));
+  }
+  // Watchers who have since lost access to the ticket's studio hear nothing more
+  if (watchers.length > 0) {
+    const allowed = new Set(await filterUsersWithTicketAccess(ticket, watchers.map(watcher => watcher.userId)));
+    watchers = watchers.filter(watcher => allowed.has(watcher.userId));
+  }
+
+  await dispatchNotifications(watchers.map(watcher => ({
+    userId: watcher.userId,
+    event: PREFERENCE_EVENTS[event],
+    type: NOTIFICATION_TYPES[event],
+    ticket,
+    title,
+    message,
+  })));
+  return watchers.map(watcher => watcher.userId);
+}
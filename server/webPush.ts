@@ -0,0 +1,127 @@
+// Web Push
+// Browser push notifications over the Web Push protocol, signed with VAPID
+// (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT; create a key pair with
+// `npx web-push generate-vapid-keys`). Every device a user turns push on for
+// stores a subscription; a push is encrypted for each of the recipients' devices,
+// and subscriptions the push service reports gone are dropped. Endpoints are
+// plain URLs chosen by the browser's push service, so the local stand-in
+// (script/push-stand-in.ts) receives exactly what a real one would.
+// The service worker (public/sw.js) shows the notification with "Open ticket"
+// and "Acknowledge" actions; acknowledging posts back a signed link, since a
+// service worker has no session.
+
+import crypto from "crypto";
+import webpush from "web-push";
+import type { Notification } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+
+// Pushes not delivered within this long are dropped by the push service
+const PUSH_TTL_SECONDS = 4 * 60 * 60;
+
+export interface PushPayload {
+  title: string;
+  body?: string;
+  // Opened by "Open ticket" and by clicking the notification
+  url: string;
+  ticketId?: string | null;
+  notificationId?: string | null;
+  // Signed link the "Acknowledge" action posts to
+  acknowledgeUrl?: string;
+  // A newer push with the same tag replaces the one on screen
+  tag?: string;
+  // Critical tickets stay on screen until the user acts
+  requireInteraction?: boolean;
+}
+
+export interface PushResult {
+  sent: number;
+  failed: number;
+  removed: number;
+}
+
+let vapidConfigured: boolean | undefined;
+
+function configureVapid(): boolean {
+  if (vapidConfigured === undefined) {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+    vapidConfigured = !!(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+    if (vapidConfigured) {
+      webpush.setVapidDetails(VAPID_SUBJECT || 'mailto:info@physique57india.com', VAPID_PUBLIC_KEY!, VAPID_PRIVATE_KEY!);
+    }
+  }
+  return vapidConfigured;
+}
+
+export function getVapidPublicKey(): string | null {
+  return configureVapid() ? process.env.VAPID_PUBLIC_KEY! : null;
+}
+
+function acknowledgeSignature(notificationId: string, userId: string): string {
+  const secret = process.env.PUSH_ACK_SECRET || process.env.VAPID_PRIVATE_KEY || '';
+  return crypto.createHmac('sha256', secret).update(`ack:${notificationId}:${userId}`).digest('hex').slice(0, 32);
+}
+
+export function acknowledgeUrl(notification: Pick<Notification, 'id' | 'userId'>): string {
+  return `/api/notifications/${notification.id}/acknowledge?token=${acknowledgeSignature(notification.id, notification.userId)}`;
+}
+
+export function verifyAcknowledgeToken(notification: Pick<Notification, 'id' | 'userId'>, token: unknown): boolean {
+  if (typeof token !== 'string' || !configureVapid()) return false;
+  const expected = Buffer.from(acknowledgeSignature(notification.id, notification.userId));
+  const given = Buffer.from(token);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+// Without an id (the user gets this event by push only) there's nothing to acknowledge
+export function notificationPushPayload(
+  notification: Pick<Notification, 'userId' | 'ticketId' | 'title' | 'message' | 'actionUrl'> & { id?: string },
+  priority?: string | null,
+): PushPayload {
+  const { id, userId, ticketId } = notification;
+  return {
+    title: notification.title || 'Physique 57 Tickets',
+    body: notification.message || undefined,
+    url: notification.actionUrl || (ticketId ? `/tickets/${ticketId}` : '/notifications'),
+    ticketId,
+    notificationId: id,
+    acknowledgeUrl: id ? acknowledgeUrl({ id, userId }) : undefined,
+    tag: ticketId ? `ticket-${ticketId}` : id,
+    requireInteraction: priority === 'critical',
+  };
+}
+
+// Sends to every device of the users. A device that can't be reached is logged
+// and skipped: push is best effort on top of the in-app notification.
+export async function sendPushToUsers(
+  userIds: string[],
+  payload: PushPayload,
+  store: IStorage = storage,
+): Promise<PushResult> {
+  const result: PushResult = { sent: 0, failed: 0, removed: 0 };
+  if (!configureVapid() || userIds.length === 0) return result;
+
+  const subscriptions = await store.getPushSubscriptions(Array.from(new Set(userIds)));
+  const delivered: string[] = [];
+  await Promise.all(subscriptions.map(async subscription => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(payload),
+        { TTL: PUSH_TTL_SECONDS, urgency: payload.requireInteraction ? 'high' : 'normal' },
+      );
+      delivered.push(subscription.id);
+      result.sent++;
+    } catch (error) {
+      const status = (error as { statusCode?: number }).statusCode;
+      if (status === 404 || status === 410) {
+        await store.deletePushSubscription(subscription.id);
+        result.removed++;
+      } else {
+        console.error(`Web push to ${subscription.userId} failed:`, error instanceof Error ? error.message : error);
+        result.failed++;
+      }
+    }
+  }));
+  await store.markPushSubscriptionsUsed(delivered);
+  return result;
+}
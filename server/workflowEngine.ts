@@ -0,0 +1,316 @@
+// Workflow Engine
+// Runs active workflowRules for a trigger event in runOrder. Each rule's condition
+// group is evaluated against the ticket (and comment, for comment_added); matching
+// rules apply their actions and record every step in ticketHistory.
+// Field changes get the usual follow-up (SLA, escalations, notifications) except
+// workflows, so rules never re-trigger themselves.
+
+import type { InsertTicket, Ticket, TicketComment, WorkflowRule } from "@shared/schema";
+import {
+  WORKFLOW_DATE_FIELDS,
+  normalizeActions,
+  normalizeConditionGroup,
+  type WorkflowAction,
+  type WorkflowCondition,
+  type WorkflowConditionGroup,
+  type WorkflowTrigger,
+} from "@shared/workflowRules";
+import { storage } from "./storage";
+import { renderTemplate } from "./templateRenderer";
+import { publishTicketEvent } from "./liveUpdates";
+import { dispatchNotifications } from "./notificationDispatch";
+import { afterTicketUpdate } from "./ticketUpdates";
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10000;
+const PREVIEW_TICKET_LIMIT = 200;
+
+export interface WorkflowContext {
+  event: WorkflowTrigger;
+  ticket: Ticket;
+  // Ticket state before the change, for ticket_updated / status_changed
+  previous?: Ticket;
+  comment?: TicketComment;
+  actorId?: string;
+}
+
+interface EvaluateOptions {
+  now?: Date;
+  // Dry runs have no change context, so "changed" conditions are assumed to hold
+  assumeChanged?: boolean;
+}
+
+export interface WorkflowPreviewMatch {
+  id: string;
+  ticketNumber: string | null;
+  title: string;
+  status: string | null;
+  priority: string | null;
+  createdAt: Date | null;
+}
+
+export interface WorkflowPreviewResult {
+  scanned: number;
+  matches: WorkflowPreviewMatch[];
+}
+
+function getFieldValue(context: Pick<WorkflowContext, 'ticket' | 'comment'>, field: string): unknown {
+  if (field.startsWith('comment.')) {
+    return context.comment ? (context.comment as Record<string, unknown>)[field.slice('comment.'.length)] : undefined;
+  }
+  return (context.ticket as Record<string, unknown>)[field];
+}
+
+function toList(value: WorkflowCondition['value']): string[] {
+  if (Array.isArray(value)) return value.map(v => v.toLowerCase());
+  if (value === undefined || value === null) return [];
+  return String(value).split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+}
+
+function asComparable(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).toLowerCase();
+}
+
+function ticketHasTag(ticket: Ticket, tag: unknown): boolean {
+  const wanted = asComparable(tag);
+  return (ticket.tags || []).some(t => t.toLowerCase() === wanted);
+}
+
+export function evaluateCondition(
+  condition: WorkflowCondition,
+  context: Pick<WorkflowContext, 'ticket' | 'comment' | 'previous'>,
+  options: EvaluateOptions = {},
+): boolean {
+  const now = options.now || new Date();
+  const field = condition.field || '';
+  const actual = field ? getFieldValue(context, field) : undefined;
+
+  switch (condition.operator) {
+    case 'equals':
+      return asComparable(actual) === asComparable(condition.value);
+    case 'not_equals':
+      return asComparable(actual) !== asComparable(condition.value);
+    case 'in':
+      return toList(condition.value).includes(asComparable(actual));
+    case 'not_in':
+      return !toList(condition.value).includes(asComparable(actual));
+    case 'contains': {
+      const needle = asComparable(condition.value);
+      if (Array.isArray(actual)) return actual.some(item => asComparable(item) === needle);
+      return !!needle && asComparable(actual).includes(needle);
+    }
+    case 'older_than':
+    case 'newer_than': {
+      if (!(WORKFLOW_DATE_FIELDS as readonly string[]).includes(field) || !actual) return false;
+      const ageHours = (now.getTime() - new Date(actual as string | Date).getTime()) / HOUR_MS;
+      const threshold = Number(condition.value) || 0;
+      return condition.operator === 'older_than' ? ageHours >= threshold : ageHours < threshold;
+    }
+    case 'tag_present':
+      return ticketHasTag(context.ticket, condition.value);
+    case 'tag_absent':
+      return !ticketHasTag(context.ticket, condition.value);
+    case 'changed': {
+      if (!context.previous) return !!options.assumeChanged;
+      const before = getFieldValue({ ticket: context.previous }, field);
+      if (asComparable(before) === asComparable(actual)) return false;
+      // With a value, only a change *to* that value counts
+      return condition.value === undefined || asComparable(actual) === asComparable(condition.value);
+    }
+    default:
+      return false;
+  }
+}
+
+export function evaluateConditionGroup(
+  group: WorkflowConditionGroup,
+  context: Pick<WorkflowContext, 'ticket' | 'comment' | 'previous'>,
+  options: EvaluateOptions = {},
+): boolean {
+  // Rules without conditions never match; see normalizeConditionGroup
+  if (group.conditions.length === 0) return false;
+  return group.match === 'any'
+    ? group.conditions.some(c => evaluateCondition(c, context, options))
+    : group.conditions.every(c => evaluateCondition(c, context, options));
+}
+
+function templateContext(context: WorkflowContext, ticket: Ticket): Record<string, unknown> {
+  return { ...ticket, ticket, comment: context.comment, event: context.event };
+}
+
+async function recordStep(
+  ticket: Ticket,
+  rule: WorkflowRule,
+  fieldChanged: string,
+  oldValue: unknown,
+  newValue: unknown,
+): Promise<void> {
+  await storage.createTicketHistory({
+    ticketId: ticket.id,
+    action: 'workflow',
+    fieldChanged,
+    oldValue: oldValue === undefined ? undefined : String(oldValue ?? ''),
+    newValue: String(newValue ?? ''),
+    changeReason: `Workflow: ${rule.name}`,
+    automatedChange: true,
+  });
+}
+
+async function updateField(
+  ticket: Ticket,
+  rule: WorkflowRule,
+  updates: Partial<InsertTicket>,
+  context: WorkflowContext,
+): Promise<Ticket> {
+  const changed = (Object.keys(updates) as (keyof InsertTicket)[])
+    .filter(key => updates[key] !== (ticket as Record<string, unknown>)[key]);
+  if (changed.length === 0) return ticket;
+
+  if (updates.status === 'resolved' && !ticket.resolvedAt) updates.resolvedAt = new Date();
+  if (updates.status === 'closed' && !ticket.closedAt) updates.closedAt = new Date();
+
+  const updated = await storage.updateTicket(ticket.id, updates);
+  if (!updated) return ticket;
+  for (const key of changed) {
+    await recordStep(ticket, rule, key, (ticket as Record<string, unknown>)[key], updates[key]);
+  }
+  return await afterTicketUpdate(ticket, updated, { actorId: context.actorId, changedFields: changed, skipWorkflows: true });
+}
+
+async function executeAction(
+  action: WorkflowAction,
+  ticket: Ticket,
+  rule: WorkflowRule,
+  context: WorkflowContext,
+): Promise<Ticket> {
+  switch (action.type) {
+    case 'set_field':
+      return updateField(ticket, rule, { [action.field]: action.value } as Partial<InsertTicket>, context);
+
+    case 'add_tag': {
+      if (ticketHasTag(ticket, action.tag)) return ticket;
+      const tags = [...(ticket.tags || []), action.tag];
+      const updated = (await storage.updateTicket(ticket.id, { tags })) || ticket;
+      await recordStep(ticket, rule, 'tags', undefined, action.tag);
+      return updated;
+    }
+
+    case 'assign': {
+      const updates: Partial<InsertTicket> = {};
+      if (action.userId) updates.assignedToUserId = action.userId;
+      if (action.teamId) updates.assignedTeamId = action.teamId;
+      if (action.departmentId) updates.assignedDepartmentId = action.departmentId;
+      if (action.userId && (!ticket.status || ticket.status === 'new')) updates.status = 'assigned';
+      return updateField(ticket, rule, updates, context);
+    }
+
+    case 'add_comment': {
+      // Comments need an author; use whoever triggered the event, else the reporter
+      const authorId = context.actorId || ticket.reportedByUserId;
+      if (!authorId) {
+        console.warn(`Workflow "${rule.name}": no author available for comment on ${ticket.id}`);
+        return ticket;
+      }
+      const content = renderTemplate(action.content, templateContext(context, ticket));
+      const comment = await storage.createTicketComment({
+        ticketId: ticket.id,
+        userId: authorId,
+        content,
+        commentType: 'update',
+        isInternal: action.isInternal,
+      });
+      publishTicketEvent({ type: 'ticket.commented', ticket, comment });
+      await recordStep(ticket, rule, 'comment', undefined, content);
+      return ticket;
+    }
+
+    case 'notify': {
+      const recipients = new Set<string>(action.userIds);
+      for (const userId of await storage.getUserIdsByRoles(action.roles)) recipients.add(userId);
+      if (action.assignee && ticket.assignedToUserId) recipients.add(ticket.assignedToUserId);
+      if (action.reporter && ticket.reportedByUserId) recipients.add(ticket.reportedByUserId);
+      if (recipients.size === 0) return ticket;
+
+      const values = templateContext(context, ticket);
+      const title = renderTemplate(action.title || 'Workflow: {{ticketNumber}}', values);
+      const message = renderTemplate(action.message || `${rule.name} matched "{{title}}"`, values);
+      await dispatchNotifications(Array.from(recipients).map(userId => ({ userId, event: 'workflow' as const, ticket, title, message })));
+      await recordStep(ticket, rule, 'notification', undefined, `${recipients.size} recipient(s)`);
+      return ticket;
+    }
+
+    case 'webhook': {
+      const response = await fetch(action.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...action.headers },
+        body: JSON.stringify({
+          event: context.event,
+          rule: { id: rule.id, name: rule.name },
+          ticket,
+          comment: context.comment ?? null,
+        }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      await recordStep(ticket, rule, 'webhook', undefined, `POST ${action.url} -> ${response.status}`);
+      return ticket;
+    }
+
+    default:
+      return ticket;
+  }
+}
+
+// Runs every active rule for the event. Failures are logged per action and never
+// propagate, so a broken rule cannot fail the request that triggered it.
+export async function runWorkflows(context: WorkflowContext): Promise<Ticket> {
+  let rules: WorkflowRule[];
+  try {
+    rules = await storage.getActiveWorkflowRules(context.event);
+  } catch (error) {
+    console.error('Workflow engine: failed to load rules:', error);
+    return context.ticket;
+  }
+
+  let ticket = context.ticket;
+  for (const rule of rules) {
+    const group = normalizeConditionGroup(rule.conditions);
+    if (!group) {
+      console.warn(`Workflow "${rule.name}" skipped: its conditions are missing or invalid`);
+      continue;
+    }
+    if (!evaluateConditionGroup(group, { ticket, comment: context.comment, previous: context.previous })) continue;
+
+    for (const action of normalizeActions(rule.actions)) {
+      try {
+        ticket = await executeAction(action, ticket, rule, context);
+      } catch (error) {
+        console.error(`Workflow "${rule.name}" action ${action.type} failed:`, error);
+      }
+    }
+  }
+  return ticket;
+}
+
+// Dry run: which recent tickets would the conditions match right now?
+export async function previewWorkflowRule(
+  rule: { conditions: unknown },
+  limit: number = PREVIEW_TICKET_LIMIT,
+): Promise<WorkflowPreviewResult> {
+  const group = normalizeConditionGroup(rule.conditions);
+  const recent = await storage.getTickets({ limit });
+  const now = new Date();
+
+  const matches = recent
+    .filter(ticket => !!group && evaluateConditionGroup(group, { ticket }, { now, assumeChanged: true }))
+    .map(ticket => ({
+      id: ticket.id,
+      ticketNumber: ticket.ticketNumber,
+      title: ticket.title,
+      status: ticket.status,
+      priority: ticket.priority,
+      createdAt: ticket.createdAt,
+    }));
+
+  return { scanned: recent.length, matches };
+}
@@ -0,0 +1,22 @@
+// Live update events pushed over the /ws WebSocket channel.
+// The client sends one `auth` message with its Supabase access token; the server
+// answers `ready` (or closes with LIVE_AUTH_FAILED) and then streams events the
+// user is allowed to see. Dates arrive as ISO strings, as with the REST API.
+
+import type { Notification, Ticket, TicketComment } from "./schema";
+
+export const LIVE_UPDATES_PATH = "/ws";
+
+// Close code for a missing or rejected token; the client should not retry with it
+export const LIVE_AUTH_FAILED = 4401;
+
+export type LiveClientMessage = { type: "auth"; token: string };
+
+export type LiveEvent =
+  | { type: "ready" }
+  | { type: "ticket.created"; ticket: Ticket }
+  | { type: "ticket.updated"; ticket: Ticket }
+  | { type: "ticket.commented"; ticket: Ticket; comment: TicketComment }
+  | { type: "notification.created"; notification: Notification };
+
+export type TicketLiveEvent = Extract<LiveEvent, { ticket: Ticket }>;
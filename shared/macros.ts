@@ -0,0 +1,86 @@
+// Macro DSL shared by the server runner and the macro editor.
+// A macro is a named, ordered list of steps an agent applies to tickets in one click.
+
+import { z } from "zod";
+import { CLIENT_MOODS, CLIENT_STATUSES, PRIORITIES, STATUSES } from "./ticketValues";
+
+export const MACRO_ACTION_TYPES = ["set_field", "add_tag", "remove_tag", "assign", "add_comment"] as const;
+
+// Ticket fields a set_field step may write
+export const MACRO_SETTABLE_FIELDS = [
+  "status",
+  "priority",
+  "severity",
+  "categoryId",
+  "subcategoryId",
+  "clientMood",
+  "customerStatus",
+] as const;
+
+// Placeholders a comment template may use; any ticket field also works as {{field}}
+export const MACRO_PLACEHOLDERS = [
+  "customerName",
+  "customerFirstName",
+  "ticketNumber",
+  "title",
+  "studio.name",
+  "agent.firstName",
+] as const;
+
+// Values a set_field step may write, for the fields that take one from a list
+const FIELD_VALUES: Partial<Record<(typeof MACRO_SETTABLE_FIELDS)[number], readonly string[]>> = {
+  status: STATUSES,
+  priority: PRIORITIES,
+  clientMood: CLIENT_MOODS,
+  customerStatus: CLIENT_STATUSES,
+};
+
+// Fields a macro may not clear
+const REQUIRED_FIELDS: readonly string[] = ["status", "priority"];
+
+export const MAX_MACRO_TICKETS = 100;
+
+export const macroActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("set_field"),
+    field: z.enum(MACRO_SETTABLE_FIELDS),
+    value: z.string().nullable(),
+  }),
+  z.object({ type: z.literal("add_tag"), tag: z.string().trim().min(1) }),
+  z.object({ type: z.literal("remove_tag"), tag: z.string().trim().min(1) }),
+  z.object({
+    type: z.literal("assign"),
+    userId: z.string().optional(),
+    teamId: z.string().optional(),
+    departmentId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("add_comment"),
+    content: z.string().trim().min(1),
+    // Macros mostly answer the customer, so comments are public unless marked internal
+    isInternal: z.boolean().default(false),
+  }),
+]).superRefine((action, ctx) => {
+  if (action.type !== "set_field") return;
+  // null clears an optional field; a blank string never means anything
+  if (action.value === null ? REQUIRED_FIELDS.includes(action.field) : !action.value.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `Choose a value for ${action.field}` });
+    return;
+  }
+  if (action.value === null) return;
+  const allowed = FIELD_VALUES[action.field];
+  if (allowed && !allowed.includes(action.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `"${action.value}" isn't a valid ${action.field}` });
+  }
+});
+
+export type MacroActionType = typeof MACRO_ACTION_TYPES[number];
+export type MacroAction = z.infer<typeof macroActionSchema>;
+
+export function normalizeMacroActions(actions: unknown): MacroAction[] {
+  if (!Array.isArray(actions)) return [];
+  return actions.flatMap((action) => {
+    const parsed = macroActionSchema.safeParse(action);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
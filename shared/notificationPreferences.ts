@@ -0,0 +1,75 @@
+// Notification preferences shared by the server dispatcher and the settings UI.
+// Each user picks, per event, which channels reach them; events they never
+// touched fall back to DEFAULT_CHANNELS.
+
+import { z } from "zod";
+
+export const NOTIFICATION_EVENTS = [
+  "assignment",
+  "status_change",
+  "ticket_update",
+  "comment",
+  "mention",
+  "escalation",
+  "sla",
+  "workflow",
+] as const;
+
+export const NOTIFICATION_CHANNELS = ["in_app", "email", "push"] as const;
+
+// Browser push is reserved for events someone should act on right away
+export const PUSH_EVENTS: readonly NotificationEvent[] = ["assignment", "escalation", "sla"];
+
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+export type ChannelMatrix = Record<NotificationEvent, Record<NotificationChannel, boolean>>;
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, { label: string; description: string }> = {
+  assignment: { label: "Assigned to me", description: "A ticket is assigned to you" },
+  status_change: { label: "Status changes", description: "A ticket you created or watch changes status" },
+  ticket_update: { label: "Ticket updates", description: "Other field changes on tickets you watch" },
+  comment: { label: "Comments", description: "New comments on tickets you watch" },
+  mention: { label: "Mentions", description: "Someone @mentions you in a comment" },
+  escalation: { label: "Escalations", description: "A ticket is escalated to you or your role" },
+  sla: { label: "SLA warnings", description: "An SLA rule fires on a ticket you're responsible for" },
+  workflow: { label: "Workflow rules", description: "A workflow rule sends you a notification" },
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  email: "Email",
+  push: "Push",
+};
+
+const channels = (in_app: boolean, email: boolean, push: boolean) => ({ in_app, email, push });
+
+export const DEFAULT_CHANNELS: ChannelMatrix = {
+  assignment: channels(true, true, true),
+  status_change: channels(true, true, false),
+  ticket_update: channels(true, false, false),
+  comment: channels(true, false, false),
+  mention: channels(true, true, false),
+  escalation: channels(true, true, true),
+  sla: channels(true, true, true),
+  workflow: channels(true, false, false),
+};
+
+export function supportsChannel(event: NotificationEvent, channel: NotificationChannel): boolean {
+  return channel !== "push" || PUSH_EVENTS.includes(event);
+}
+
+// Fills the events and channels a stored matrix leaves out with the defaults
+export function resolveChannelMatrix(stored: Partial<Record<string, Partial<Record<string, boolean>>>> | null | undefined): ChannelMatrix {
+  return Object.fromEntries(NOTIFICATION_EVENTS.map(event => [
+    event,
+    Object.fromEntries(NOTIFICATION_CHANNELS.map(channel => [
+      channel,
+      supportsChannel(event, channel) && (stored?.[event]?.[channel] ?? DEFAULT_CHANNELS[event][channel]),
+    ])),
+  ])) as ChannelMatrix;
+}
+
+export const channelMatrixSchema = z.record(
+  z.enum(NOTIFICATION_EVENTS),
+  z.record(z.enum(NOTIFICATION_CHANNELS), z.boolean()),
+);
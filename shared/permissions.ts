@@ -0,0 +1,71 @@
+// Role Permissions
+// One map of capabilities to the user_roles that grant them. The API enforces it
+// with requirePermission and the client reads it through useUserRole, so the two
+// cannot drift apart.
+
+export const APP_ROLES = ["admin", "manager", "staff", "viewer"] as const;
+export type AppRole = typeof APP_ROLES[number];
+
+export const ROLE_HIERARCHY: Record<AppRole, number> = {
+  admin: 4,
+  manager: 3,
+  staff: 2,
+  viewer: 1,
+};
+
+export const PERMISSIONS = {
+  canManageTickets: ["admin", "manager", "staff"],
+  canManageUsers: ["admin"],
+  canManageSettings: ["admin", "manager"],
+  canManageReports: ["admin", "manager"],
+  canViewAnalytics: ["admin", "manager", "staff"],
+  canEscalate: ["admin", "manager"],
+  canDeleteTickets: ["admin", "manager"],
+  canManageWatchers: ["admin", "manager"],
+  // Mirrored by can_view_internal_notes() in the database
+  canViewInternalNotes: ["admin", "manager", "staff"],
+} as const satisfies Record<string, readonly AppRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  canManageTickets: "manage tickets",
+  canManageUsers: "manage users",
+  canManageSettings: "manage settings",
+  canManageReports: "manage reports",
+  canViewAnalytics: "view analytics",
+  canEscalate: "escalate tickets",
+  canDeleteTickets: "delete tickets",
+  canManageWatchers: "manage other users' watches",
+  canViewInternalNotes: "read internal notes",
+};
+
+// Body of every 403 returned by the API
+export interface ForbiddenResponse {
+  message: string;
+  code: "forbidden";
+  permission?: Permission;
+  roles?: AppRole[];
+}
+
+export function isAppRole(value: unknown): value is AppRole {
+  return APP_ROLES.includes(value as AppRole);
+}
+
+export function hasPermission(roles: readonly string[], permission: Permission): boolean {
+  return (PERMISSIONS[permission] as readonly string[]).some(role => roles.includes(role));
+}
+
+export function getPermissions(roles: readonly string[]): Record<Permission, boolean> {
+  return Object.fromEntries(
+    (Object.keys(PERMISSIONS) as Permission[]).map(permission => [permission, hasPermission(roles, permission)]),
+  ) as Record<Permission, boolean>;
+}
+
+// The highest role a user holds, or null when they have none
+export function getPrimaryRole(roles: readonly AppRole[]): AppRole | null {
+  return roles.reduce<AppRole | null>(
+    (highest, current) => (!highest || ROLE_HIERARCHY[current] > ROLE_HIERARCHY[highest] ? current : highest),
+    null,
+  );
+}
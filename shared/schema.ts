@@ -9,10 +9,16 @@ import {
   jsonb,
   index,
   real,
+  time,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { WORKFLOW_TRIGGERS, workflowActionSchema, workflowConditionGroupSchema } from "./workflowRules";
+import { macroActionSchema } from "./macros";
+import { CLIENT_MOODS, CLIENT_STATUSES, PRIORITIES, STATUSES } from "./ticketValues";
+import { channelMatrixSchema, type ChannelMatrix } from "./notificationPreferences";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -75,6 +81,8 @@ export const categories = pgTable("categories", {
   defaultTeamId: varchar("default_team_id"),
   defaultPriority: varchar("default_priority").default("medium"),
   defaultSlaHours: integer("default_sla_hours").default(24),
+  ticketNumberPrefix: varchar("ticketNumberPrefix", { length: 20 }),
+  ticketNumberPattern: varchar("ticketNumberPattern", { length: 100 }),
   isActive: boolean("is_active").default(true),
   sortOrder: integer("sort_order").default(0),
 });
@@ -122,6 +130,8 @@ export const tickets = pgTable("tickets", {
   actualResolutionTime: timestamp("actualResolutionTime"),
   slaBreached: boolean("slaBreached").default(false),
   slaDueAt: timestamp("slaDueAt"),
+  firstResponseDueAt: timestamp("firstResponseDueAt"),
+  slaRuleId: varchar("slaRuleId"),
   incidentDateTime: timestamp("incidentDateTime"),
   firstResponseAt: timestamp("firstResponseAt"),
   escalatedAt: timestamp("escalatedAt"),
@@ -135,6 +145,9 @@ export const tickets = pgTable("tickets", {
   internalNotes: text("internalNotes"),
   isInternalTicket: boolean("isInternalTicket").default(false),
   parentTicketId: varchar("parentTicketId"),
+  // A parent can't resolve or close while any sub-ticket is open (enforced by a trigger)
+  blockCloseWithOpenChildren: boolean("blockCloseWithOpenChildren").notNull().default(true),
+  mergedIntoTicketId: varchar("mergedIntoTicketId"),
   createdAt: timestamp("createdAt").defaultNow(),
   updatedAt: timestamp("updatedAt").defaultNow(),
 }, (table) => [
@@ -144,6 +157,13 @@ export const tickets = pgTable("tickets", {
   index("idx_tickets_studio").on(table.studioId),
 ]);
 
+// Ticket number counters - one row per rendered number prefix, advanced by next_ticket_number()
+export const ticketNumberSequences = pgTable("ticketNumberSequences", {
+  scope: text("scope").primaryKey(),
+  lastValue: integer("lastValue").notNull().default(0),
+  updatedAt: timestamp("updatedAt", { withTimezone: true }).defaultNow(),
+});
+
 // Ticket comments
 export const ticketComments = pgTable("ticketComments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -156,6 +176,10 @@ export const ticketComments = pgTable("ticketComments", {
   timeSpentMinutes: integer("timeSpentMinutes"),
   attachments: jsonb("attachments"),
   mentionedUserIds: text("mentionedUserIds").array(),
+  // Who wrote it when it came from outside the app (e.g. an emailed reply);
+  // userId is then the inbound email account
+  authorName: varchar("authorName"),
+  authorEmail: varchar("authorEmail"),
   createdAt: timestamp("createdAt").defaultNow(),
   updatedAt: timestamp("updatedAt").defaultNow(),
 });
@@ -170,6 +194,9 @@ export const ticketAttachments = pgTable("ticketAttachments", {
   filePath: text("filePath").notNull(),
   fileSize: integer("fileSize"),
   mimeType: varchar("mimeType"),
+  // Content hash; identical files share one stored object
+  sha256: varchar("sha256", { length: 64 }),
+  storageBackend: varchar("storageBackend", { length: 20 }).default("local"),
   uploadedByUserId: varchar("uploadedByUserId"),
   isPublic: boolean("isPublic").default(false),
   createdAt: timestamp("createdAt").defaultNow(),
@@ -191,6 +218,43 @@ export const ticketHistory = pgTable("ticketHistory", {
   createdAt: timestamp("createdAt").defaultNow(),
 });
 
+// Ticket watchers - who hears about a ticket, and which events they hear about
+export const WATCH_TYPES = ["all", "updates", "comments", "status"] as const;
+
+export const ticketWatchers = pgTable("ticketWatchers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketId: varchar("ticketId").notNull(),
+  userId: varchar("userId").notNull(),
+  watchType: varchar("watchType", { length: 20 }).default("all"),
+  // Null when the watch was added automatically (reporter, assignee, commenter)
+  addedByUserId: varchar("addedByUserId"),
+  createdAt: timestamp("createdAt").defaultNow(),
+}, (table) => [
+  unique("ticketWatchers_ticketId_userId_key").on(table.ticketId, table.userId),
+]);
+
+// Customer feedback - CSAT survey responses (feedbackType 'csat') and other
+// feedback customers leave about a ticket
+export const customerFeedback = pgTable("customerFeedback", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketId: varchar("ticketId").notNull(),
+  customerEmail: varchar("customerEmail"),
+  customerName: varchar("customerName"),
+  rating: integer("rating"),
+  feedback: text("feedback"),
+  feedbackType: varchar("feedbackType"),
+  // Set on low scores until someone has followed up with the customer
+  followUpRequired: boolean("followUpRequired").default(false),
+  isPublic: boolean("isPublic").default(false),
+  tags: text("tags").array(),
+  // The CSAT survey this answers; unique per ticket so each survey is answered once
+  surveySentAt: timestamp("surveySentAt"),
+  createdAt: timestamp("createdAt").defaultNow(),
+}, (table) => [
+  index("idx_customer_feedback_ticket").on(table.ticketId, table.feedbackType),
+  unique("customerFeedback_ticketId_surveySentAt_key").on(table.ticketId, table.surveySentAt),
+]);
+
 // Notifications
 export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -199,11 +263,227 @@ export const notifications = pgTable("notifications", {
   type: varchar("type", { length: 50 }),
   title: varchar("title", { length: 255 }),
   message: text("message"),
+  // Where the notification leads, e.g. a single comment on a ticket
+  actionUrl: text("action_url"),
   isRead: boolean("is_read").default(false),
   sentViaEmail: boolean("sent_via_email").default(false),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Notification outbox - outgoing emails written with the change that caused them
+// and delivered by the outbox worker with retries
+export const OUTBOX_STATUSES = ["pending", "sending", "sent", "dead"] as const;
+export const notificationOutbox = pgTable("notificationOutbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: varchar("channel", { length: 20 }).notNull().default("email"),
+  eventType: varchar("eventType", { length: 50 }).notNull(),
+  recipientEmail: varchar("recipientEmail").notNull(),
+  recipientName: varchar("recipientName"),
+  payload: jsonb("payload").notNull(),
+  ticketId: varchar("ticketId"),
+  notificationId: varchar("notificationId"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("maxAttempts").notNull().default(8),
+  nextAttemptAt: timestamp("nextAttemptAt").notNull().defaultNow(),
+  lockedAt: timestamp("lockedAt"),
+  lastError: text("lastError"),
+  sentAt: timestamp("sentAt"),
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+// Inbound emails - every message posted by the mail relay and what became of it.
+// The unique messageId makes relay retries harmless.
+// 'processing' claims the Message-ID while the message is handled
+export const INBOUND_EMAIL_STATUSES = ["processing", "created", "replied", "ignored", "rejected"] as const;
+export const inboundEmails = pgTable("inboundEmails", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("messageId", { length: 998 }).notNull().unique(),
+  fromEmail: varchar("fromEmail"),
+  fromName: varchar("fromName"),
+  recipients: text("recipients").array(),
+  subject: text("subject"),
+  status: varchar("status", { length: 20 }).notNull(),
+  reason: text("reason"),
+  ticketId: varchar("ticketId"),
+  commentId: varchar("commentId"),
+  receivedAt: timestamp("receivedAt").defaultNow(),
+});
+
+// Time zone for user schedules (digests, quiet hours) until they pick their own
+export const DEFAULT_TIME_ZONE = "Asia/Kolkata";
+
+// Digest settings - when each user gets their daily digest and, for managers,
+// the weekly studio summary. deliveryTime is local to timeZone.
+export const DIGEST_KINDS = ["daily", "weekly"] as const;
+export const digestSettings = pgTable("digestSettings", {
+  userId: varchar("userId").primaryKey(),
+  dailyEnabled: boolean("dailyEnabled").notNull().default(false),
+  weeklyEnabled: boolean("weeklyEnabled").notNull().default(false),
+  deliveryTime: varchar("deliveryTime", { length: 5 }).notNull().default("08:00"),
+  timeZone: varchar("timeZone", { length: 64 }).notNull().default(DEFAULT_TIME_ZONE),
+  // 0 = Sunday ... 6 = Saturday
+  weeklyDay: integer("weeklyDay").notNull().default(1),
+  lastDailySentAt: timestamp("lastDailySentAt"),
+  lastWeeklySentAt: timestamp("lastWeeklySentAt"),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+// Notification preferences - which channels each event reaches the user on
+// (missing entries use DEFAULT_CHANNELS), quiet hours during which email waits
+// and push stays silent, and the ticket priorities that cut through both
+export const notificationPreferences = pgTable("notificationPreferences", {
+  userId: varchar("userId").primaryKey(),
+  channels: jsonb("channels").$type<Partial<ChannelMatrix>>().notNull().default({}),
+  quietHoursEnabled: boolean("quietHoursEnabled").notNull().default(false),
+  quietHoursStart: varchar("quietHoursStart", { length: 5 }).notNull().default("22:00"),
+  quietHoursEnd: varchar("quietHoursEnd", { length: 5 }).notNull().default("07:00"),
+  timeZone: varchar("timeZone", { length: 64 }).notNull().default(DEFAULT_TIME_ZONE),
+  overridePriorities: text("overridePriorities").array().notNull().default(sql`ARRAY['critical']::text[]`),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+// Push subscriptions - one per browser/device a user enabled Web Push on. The
+// endpoint belongs to the browser's push service; p256dh and auth encrypt payloads.
+export const pushSubscriptions = pgTable("pushSubscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("userId").notNull(),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  userAgent: text("userAgent"),
+  createdAt: timestamp("createdAt").defaultNow(),
+  lastSuccessAt: timestamp("lastSuccessAt"),
+}, (table) => [
+  index("idx_push_subscriptions_user").on(table.userId),
+]);
+
+// SLA rules - matched against a ticket's category, subcategory, priority and studio
+export const slaRules = pgTable("slaRules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  categoryId: varchar("categoryId"),
+  subcategoryId: varchar("subcategoryId"),
+  priority: varchar("priority", { length: 50 }),
+  studioId: varchar("studioId"),
+  firstResponseHours: integer("firstResponseHours").default(4),
+  resolutionHours: integer("resolutionHours").default(24),
+  escalationHours: integer("escalationHours").default(12),
+  businessHoursOnly: boolean("businessHoursOnly").default(true),
+  isActive: boolean("isActive").default(true),
+  sortOrder: integer("sortOrder").default(0),
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+// Business hours per studio (studioId NULL = global default)
+export const businessHours = pgTable("businessHours", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studioId: varchar("studioId"),
+  dayOfWeek: integer("dayOfWeek").notNull(),
+  openTime: time("openTime").notNull(),
+  closeTime: time("closeTime").notNull(),
+  isWorkingDay: boolean("isWorkingDay").default(true),
+  timeZone: varchar("timeZone").default("Asia/Kolkata"),
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+// Escalation rules - evaluated by the server escalation runner in runOrder
+export const escalationRules = pgTable("escalationRules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  triggerType: varchar("triggerType", { length: 50 }).notNull().default("sla_breach"),
+  triggerValue: integer("triggerValue"),
+  categoryId: varchar("categoryId"),
+  subcategoryId: varchar("subcategoryId"),
+  studioId: varchar("studioId"),
+  priority: varchar("priority", { length: 50 }),
+  escalateTo: varchar("escalateTo"),
+  escalateToTeamId: varchar("escalateToTeamId"),
+  escalateToDepartmentId: varchar("escalateToDepartmentId"),
+  notifyRoles: text("notifyRoles").array(),
+  changePriority: varchar("changePriority", { length: 50 }),
+  sendNotification: boolean("sendNotification").default(true),
+  notificationTemplate: text("notificationTemplate"),
+  runOrder: integer("runOrder").default(0),
+  isActive: boolean("isActive").default(true),
+  createdAt: timestamp("createdAt", { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp("updatedAt", { withTimezone: true }).defaultNow(),
+});
+
+// Escalation log - one row per escalation; conditionKey keeps automatic firings idempotent
+export const escalationLog = pgTable("escalationLog", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketId: varchar("ticketId").notNull(),
+  ruleId: varchar("ruleId"),
+  escalationType: varchar("escalationType", { length: 50 }).notNull(),
+  conditionKey: varchar("conditionKey", { length: 255 }),
+  escalatedFrom: varchar("escalatedFrom"),
+  escalatedTo: varchar("escalatedTo"),
+  escalatedToTeamId: varchar("escalatedToTeamId"),
+  escalatedToDepartmentId: varchar("escalatedToDepartmentId"),
+  previousPriority: varchar("previousPriority", { length: 50 }),
+  newPriority: varchar("newPriority", { length: 50 }),
+  reason: text("reason"),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt", { withTimezone: true }).defaultNow(),
+  createdBy: varchar("createdBy"),
+});
+
+// Workflow rules - trigger event, condition group and actions (see shared/workflowRules.ts)
+export const workflowRules = pgTable("workflowRules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  triggerEvent: varchar("triggerEvent", { length: 50 }).notNull(),
+  conditions: jsonb("conditions").notNull(),
+  actions: jsonb("actions").notNull(),
+  isActive: boolean("isActive").default(true),
+  runOrder: integer("runOrder").default(0),
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+// Macros - an agent's named bundle of ticket changes (see shared/macros.ts);
+// private to its creator unless shared with everyone
+export const macros = pgTable("macros", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  actions: jsonb("actions").notNull(),
+  isShared: boolean("isShared").notNull().default(false),
+  createdByUserId: varchar("createdByUserId").notNull(),
+  usageCount: integer("usageCount").notNull().default(0),
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+}, (table) => [
+  index("idx_macros_creator").on(table.createdByUserId),
+]);
+
+// Application roles (separate from users.role; source of truth for permissions)
+export const userRoles = pgTable("user_roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  role: varchar("role", { length: 50 }).notNull().default("staff"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+});
+
+// Studios a user may see beyond their home studio (users.studioId)
+export const STUDIO_ACCESS_LEVELS = ["read", "write", "admin"] as const;
+
+export const userStudioAccess = pgTable("userStudioAccess", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("userId").notNull(),
+  studioId: varchar("studioId").notNull(),
+  accessLevel: varchar("accessLevel", { length: 20 }).default("read"),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ one }) => ({
   team: one(teams, {
@@ -258,23 +538,143 @@ export const subcategoriesRelations = relations(subcategories, ({ one }) => ({
   }),
 }));
 
+// Tokens understood by next_ticket_number(); see the ticket numbering migration
+export const DEFAULT_TICKET_NUMBER_PATTERN = "{prefix}-{yy}{mm}-{studio}-{seq:4}";
+const TICKET_NUMBER_TOKEN_PATTERN = /\{(prefix|yyyy|yy|mm|dd|studio|category|seq(:\d+)?)\}/g;
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertTeamSchema = createInsertSchema(teams).omit({ id: true, createdAt: true });
 export const insertStudioSchema = createInsertSchema(studios).omit({ id: true, createdAt: true });
-export const insertCategorySchema = createInsertSchema(categories).omit({ id: true });
+export const insertCategorySchema = createInsertSchema(categories).omit({ id: true }).extend({
+  ticketNumberPrefix: z.string().regex(/^[A-Za-z0-9]{1,20}$/, "Prefix must be letters or digits").nullish(),
+  ticketNumberPattern: z.string().max(100)
+    .refine((pattern) => !pattern.replace(TICKET_NUMBER_TOKEN_PATTERN, '').includes('{'), "Unknown ticket number token")
+    .nullish(),
+});
 export const insertSubcategorySchema = createInsertSchema(subcategories).omit({ id: true });
-export const insertTicketSchema = createInsertSchema(tickets).omit({ id: true, ticketNumber: true, createdAt: true, updatedAt: true });
+// mergedIntoTicketId is only ever set by mergeTickets
+export const insertTicketSchema = createInsertSchema(tickets).omit({
+  id: true,
+  ticketNumber: true,
+  mergedIntoTicketId: true,
+  createdAt: true,
+  updatedAt: true,
+});
 export const insertTicketCommentSchema = createInsertSchema(ticketComments).omit({ id: true, createdAt: true });
 export const insertTicketAttachmentSchema = createInsertSchema(ticketAttachments).omit({ id: true, createdAt: true });
+export const insertTicketWatcherSchema = createInsertSchema(ticketWatchers)
+  .omit({ id: true, createdAt: true })
+  .extend({ watchType: z.enum(WATCH_TYPES).default("all") });
 export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true, createdAt: true });
+export const insertNotificationOutboxSchema = createInsertSchema(notificationOutbox).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lockedAt: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const insertStudioAccessSchema = createInsertSchema(userStudioAccess)
+  .omit({ id: true, createdAt: true })
+  .extend({ accessLevel: z.enum(STUDIO_ACCESS_LEVELS).default("read") });
+export const insertWorkflowRuleSchema = createInsertSchema(workflowRules)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    triggerEvent: z.enum(WORKFLOW_TRIGGERS),
+    conditions: workflowConditionGroupSchema.refine((group) => group.conditions.length > 0, "Add at least one condition"),
+    actions: z.array(workflowActionSchema),
+  });
+export const insertMacroSchema = createInsertSchema(macros)
+  .omit({ id: true, createdByUserId: true, usageCount: true, createdAt: true, updatedAt: true })
+  .extend({
+    name: z.string().trim().min(1, "Name the macro").max(255),
+    actions: z.array(macroActionSchema).min(1, "Add at least one step"),
+  });
 
 // Update/patch schemas (all fields optional, excluding immutable fields)
 export const updateTicketSchema = insertTicketSchema
   .omit({ reportedByUserId: true })
   .partial();
+// Splitting a ticket: the rest is inherited from the parent
+export const createSubTicketSchema = insertTicketSchema
+  .pick({
+    title: true,
+    description: true,
+    priority: true,
+    categoryId: true,
+    subcategoryId: true,
+    assignedDepartmentId: true,
+    assignedTeamId: true,
+    assignedToUserId: true,
+  })
+  .partial()
+  .required({ title: true });
+const clockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+const timeZoneSchema = z.string().refine((zone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Unknown time zone");
+
+export const updateDigestSettingsSchema = z.object({
+  dailyEnabled: z.boolean(),
+  weeklyEnabled: z.boolean(),
+  deliveryTime: clockTimeSchema,
+  timeZone: timeZoneSchema,
+  weeklyDay: z.number().int().min(0).max(6),
+}).partial();
+export const csatResponseSchema = z.object({
+  rating: z.number().int().min(1, "Choose a rating from 1 to 5").max(5, "Choose a rating from 1 to 5"),
+  comment: z.string().trim().max(2000, "Keep the comment under 2000 characters").optional(),
+});
+export const portalLookupSchema = z.object({
+  ticketNumber: z.string().trim().min(1, "Enter your ticket number").max(50),
+  email: z.string().trim().email("Enter the email address you used"),
+});
+export const portalReplySchema = z.object({
+  content: z.string().trim().min(1, "Write a message first").max(5000, "Keep your message under 5000 characters"),
+});
+// The public QR form; "website" is a honeypot that people never see or fill in
+export const qrSubmissionSchema = z.object({
+  categoryId: z.string().min(1, "Choose what it's about"),
+  subcategoryId: z.string().optional(),
+  description: z.string().trim().min(10, "Tell us a little more (at least 10 characters)").max(5000),
+  location: z.string().trim().max(100).optional(),
+  customerName: z.string().trim().max(255).optional(),
+  customerEmail: z.union([z.string().trim().email("Enter a valid email address"), z.literal("")]).optional(),
+  customerPhone: z.string().trim().max(50).optional(),
+  website: z.string().optional(),
+});
+export const insertPushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+export const updateNotificationPreferencesSchema = z.object({
+  // Merged into the stored matrix, so a client can send a single cell
+  channels: channelMatrixSchema,
+  quietHoursEnabled: z.boolean(),
+  quietHoursStart: clockTimeSchema,
+  quietHoursEnd: clockTimeSchema,
+  timeZone: timeZoneSchema,
+  overridePriorities: z.array(z.string()).refine(
+    (values) => values.every((value) => (PRIORITIES as readonly string[]).includes(value)),
+    "Unknown priority",
+  ),
+}).partial();
 export const updateTeamSchema = insertTeamSchema.partial();
 export const updateStudioSchema = insertStudioSchema.partial();
+export const updateCategorySchema = insertCategorySchema.partial();
+export const updateWorkflowRuleSchema = insertWorkflowRuleSchema.partial();
+export const updateMacroSchema = insertMacroSchema.partial();
 
 // Types
 export type UpsertUser = typeof users.$inferInsert;
@@ -304,18 +704,59 @@ export type InsertTicketAttachment = z.infer<typeof insertTicketAttachmentSchema
 
 export type TicketHistory = typeof ticketHistory.$inferSelect;
 
+export type TicketWatcher = typeof ticketWatchers.$inferSelect;
+export type InsertTicketWatcher = z.infer<typeof insertTicketWatcherSchema>;
+
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationOutboxMessage = typeof notificationOutbox.$inferSelect;
+export type InsertNotificationOutboxMessage = z.infer<typeof insertNotificationOutboxSchema>;
+export type OutboxStatus = typeof OUTBOX_STATUSES[number];
+
+export type InboundEmail = typeof inboundEmails.$inferSelect;
+export type InsertInboundEmail = typeof inboundEmails.$inferInsert;
+export type InboundEmailStatus = typeof INBOUND_EMAIL_STATUSES[number];
+
+export type DigestSettings = typeof digestSettings.$inferSelect;
+export type UpdateDigestSettings = z.infer<typeof updateDigestSettingsSchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type CustomerFeedback = typeof customerFeedback.$inferSelect;
+export type InsertCustomerFeedback = typeof customerFeedback.$inferInsert;
+export type QrSubmission = z.infer<typeof qrSubmissionSchema>;
+export type CsatResponse = z.infer<typeof csatResponseSchema>;
+export type WebPushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertWebPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+export type DigestKind = typeof DIGEST_KINDS[number];
+
+export type SlaRule = typeof slaRules.$inferSelect;
+export type BusinessHours = typeof businessHours.$inferSelect;
+
+export type EscalationRule = typeof escalationRules.$inferSelect;
+export type EscalationLogEntry = typeof escalationLog.$inferSelect;
+export type InsertEscalationLogEntry = typeof escalationLog.$inferInsert;
+
+export type WorkflowRule = typeof workflowRules.$inferSelect;
+export type InsertWorkflowRule = z.infer<typeof insertWorkflowRuleSchema>;
+
+export type Macro = typeof macros.$inferSelect;
+export type InsertMacro = z.infer<typeof insertMacroSchema>;
+
+export type UserRole = typeof userRoles.$inferSelect;
+
+export type StudioAccess = typeof userStudioAccess.$inferSelect;
+export type InsertStudioAccess = z.infer<typeof insertStudioAccessSchema>;
 
 // Enums/constants for the application
-export const PRIORITIES = ["low", "medium", "high", "critical"] as const;
-export const STATUSES = ["new", "assigned", "in_progress", "pending_customer", "resolved", "closed", "reopened"] as const;
+export { CLIENT_MOODS, CLIENT_STATUSES, PRIORITIES, STATUSES };
 export const ROLES = ["admin", "manager", "team_lead", "staff", "viewer"] as const;
-export const CLIENT_MOODS = ["calm", "frustrated", "angry", "disappointed", "understanding"] as const;
-export const CLIENT_STATUSES = ["existing_active", "existing_inactive", "new_prospect", "trial_client", "guest"] as const;
+export const ESCALATION_TRIGGERS = ["sla_breach", "time_elapsed", "priority_change", "no_response", "customer_request"] as const;
 export const DEPARTMENTS = ["Operations", "Facilities", "Training", "Sales", "Client Success", "Marketing", "Finance", "Management", "IT/Tech Support", "HR", "Security"] as const;
 
 export type Priority = typeof PRIORITIES[number];
 export type Status = typeof STATUSES[number];
 export type Role = typeof ROLES[number];
+export type StudioAccessLevel = typeof STUDIO_ACCESS_LEVELS[number];
+export type WatchType = typeof WATCH_TYPES[number];
+export type EscalationTrigger = typeof ESCALATION_TRIGGERS[number];
 export type ClientMood = typeof CLIENT_MOODS[number];
@@ -0,0 +1,221 @@
+// Ticket query language shared by the server compiler and the tickets page.
+// A query is a list of whitespace-separated terms. Field terms look like
+// `status:open`, `priority>=high`, `created:<7d` or `studio:"Kenkre House"`,
+// may be negated with a leading `-`, and take comma-separated alternatives
+// (`status:new,assigned`). Every other term is free-text search.
+
+import { PRIORITIES } from "./schema";
+
+export const TICKET_QUERY_FIELDS = ["status", "priority", "studio", "category", "assignee", "source", "tag", "created", "sla", "parent"] as const;
+export type TicketQueryField = typeof TICKET_QUERY_FIELDS[number];
+
+export const QUERY_COMPARATORS = [">=", "<=", ">", "<", ":"] as const;
+export type QueryComparator = typeof QUERY_COMPARATORS[number];
+
+export const TICKET_QUERY_FIELD_INFO: Record<TicketQueryField, { description: string; example: string; ordered?: boolean }> = {
+  status: { description: "Ticket status, or open for anything unresolved", example: "status:open" },
+  priority: { description: "Priority; supports >= and <=", example: "priority>=high", ordered: true },
+  studio: { description: "Studio name or code", example: 'studio:"Kenkre House"' },
+  category: { description: "Category name or code", example: "category:Retail" },
+  assignee: { description: "me, none, or a user's email or name", example: "assignee:me" },
+  source: { description: "Where the ticket came from", example: "source:email" },
+  tag: { description: "Tickets carrying every listed tag", example: "tag:refund" },
+  created: { description: "Age (7d, 12h, 2w, 3m), a date, or today", example: "created:<7d", ordered: true },
+  sla: { description: "breached or at-risk", example: "sla:breached" },
+  parent: { description: "none hides sub-tickets, any shows only them, or a ticket number", example: "parent:none" },
+};
+
+// Status shorthands that expand to several statuses
+export const STATUS_GROUPS: Record<string, string[]> = {
+  open: ["new", "assigned", "in_progress", "pending_customer", "reopened"],
+  done: ["resolved", "closed"],
+};
+
+export const ASSIGNEE_KEYWORDS = ["me", "none"] as const;
+export const SLA_QUERY_VALUES = ["breached", "at-risk"] as const;
+export const PARENT_KEYWORDS = ["none", "any"] as const;
+export const CREATED_QUERY_PRESETS = ["today", "<7d", "<30d", "<90d"] as const;
+
+export interface QueryClause {
+  field: TicketQueryField;
+  comparator: QueryComparator;
+  values: string[];
+  negated: boolean;
+  raw: string;
+}
+
+export interface ParsedTicketQuery {
+  clauses: QueryClause[];
+  // Free text left once field terms are removed
+  text: string;
+}
+
+// Filter lists a clause can include or exclude
+export interface TicketFieldFilters {
+  statuses?: string[];
+  priorities?: string[];
+  studioIds?: string[];
+  categoryIds?: string[];
+  assigneeIds?: string[];
+  sources?: string[];
+  tags?: string[];
+  parentTicketIds?: string[];
+}
+
+// What a query compiles to; the server resolves names to ids
+export interface CompiledTicketFilters extends TicketFieldFilters {
+  exclude?: TicketFieldFilters;
+  // true: only unassigned tickets, false: only assigned ones
+  unassigned?: boolean;
+  // true: only sub-tickets, false: only top-level tickets
+  isSubTicket?: boolean;
+  createdAfter?: string;
+  createdBefore?: string;
+  sla?: typeof SLA_QUERY_VALUES[number];
+  search?: string;
+}
+
+export interface TicketQueryError {
+  term: string;
+  message: string;
+}
+
+export interface CompiledTicketQuery {
+  filters: CompiledTicketFilters;
+  errors: TicketQueryError[];
+}
+
+// Splits on whitespace outside double quotes
+export function tokenizeTicketQuery(input: string): string[] {
+  return input.match(/(?:[^\s"]+|"[^"]*"?)+/g) || [];
+}
+
+const CLAUSE_PATTERN = /^(-?)([a-z]+)(:>=|:<=|:>|:<|>=|<=|>|<|:)(.*)$/i;
+
+function unquote(value: string): string {
+  return value.replace(/^"|"$/g, "");
+}
+
+export function parseQueryTerm(term: string): QueryClause | null {
+  const match = term.match(CLAUSE_PATTERN);
+  if (!match) return null;
+  const [, negation, name, operator, rest] = match;
+  const field = name.toLowerCase() as TicketQueryField;
+  if (!TICKET_QUERY_FIELDS.includes(field)) return null;
+
+  // `created:<7d` and `created<7d` mean the same thing
+  const comparator = (operator.length > 1 && operator.startsWith(":") ? operator.slice(1) : operator) as QueryComparator;
+  const values = (rest.match(/(?:[^,"]+|"[^"]*"?)+/g) || []).map(value => unquote(value).trim()).filter(Boolean);
+  return { field, comparator, values, negated: negation === "-", raw: term };
+}
+
+export function parseTicketQuery(input: string): ParsedTicketQuery {
+  const clauses: QueryClause[] = [];
+  const text: string[] = [];
+  for (const term of tokenizeTicketQuery(input)) {
+    const clause = parseQueryTerm(term);
+    if (clause) clauses.push(clause);
+    else text.push(term);
+  }
+  return { clauses, text: text.join(" ") };
+}
+
+export function formatQueryValue(value: string): string {
+  const cleaned = value.replace(/"/g, "");
+  return /[\s,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+// Replaces the positive terms for a field, keeping its position in the query.
+// A null value removes the field.
+export function setQueryField(input: string, field: TicketQueryField, value: string | null, comparator: QueryComparator = ":"): string {
+  const replacement = value === null ? null : `${field}${comparator}${formatQueryValue(value)}`;
+  let placed = false;
+  const terms: string[] = [];
+  for (const term of tokenizeTicketQuery(input)) {
+    const clause = parseQueryTerm(term);
+    if (clause && clause.field === field && !clause.negated) {
+      if (replacement && !placed) terms.push(replacement);
+      placed = true;
+      continue;
+    }
+    terms.push(term);
+  }
+  if (replacement && !placed) {
+    // New field terms go ahead of the free text
+    const firstText = terms.findIndex(term => !parseQueryTerm(term));
+    terms.splice(firstText === -1 ? terms.length : firstText, 0, replacement);
+  }
+  return terms.join(" ");
+}
+
+export function removeQueryTerm(input: string, term: string): string {
+  return tokenizeTicketQuery(input).filter(existing => existing !== term).join(" ");
+}
+
+// Priorities matching a comparison such as >=high
+export function comparePriorities(comparator: QueryComparator, priority: string): string[] {
+  const index = PRIORITIES.indexOf(priority as typeof PRIORITIES[number]);
+  if (index === -1) return [];
+  switch (comparator) {
+    case ">=": return PRIORITIES.slice(index);
+    case ">": return PRIORITIES.slice(index + 1);
+    case "<=": return PRIORITIES.slice(0, index + 1);
+    case "<": return PRIORITIES.slice(0, index);
+    default: return [priority];
+  }
+}
+
+// The subset of the PostgREST filter builder applyTicketFilters needs, so the
+// server route and the tickets page can share it. The builder's own generics
+// are too deep to check structurally, hence the casts below.
+interface FilterableTicketQuery {
+  in(column: string, values: readonly unknown[]): FilterableTicketQuery;
+  not(column: string, operator: string, value: unknown): FilterableTicketQuery;
+  is(column: string, value: boolean | null): FilterableTicketQuery;
+  eq(column: string, value: unknown): FilterableTicketQuery;
+  gte(column: string, value: unknown): FilterableTicketQuery;
+  lt(column: string, value: unknown): FilterableTicketQuery;
+  contains(column: string, value: readonly unknown[]): FilterableTicketQuery;
+}
+
+const FIELD_COLUMNS: Record<keyof TicketFieldFilters, string> = {
+  statuses: "status",
+  priorities: "priority",
+  studioIds: "studioId",
+  categoryIds: "categoryId",
+  assigneeIds: "assignedToUserId",
+  sources: "source",
+  tags: "tags",
+  parentTicketIds: "parentTicketId",
+};
+
+function postgrestList(values: string[], open = "(", close = ")"): string {
+  return `${open}${values.map(value => `"${value.replace(/"/g, '\\"')}"`).join(",")}${close}`;
+}
+
+// Applies compiled filters except free-text search, which callers rank themselves
+export function applyTicketFilters<Q>(query: Q, filters: CompiledTicketFilters): Q {
+  let result = query as unknown as FilterableTicketQuery;
+  for (const [key, column] of Object.entries(FIELD_COLUMNS) as [keyof TicketFieldFilters, string][]) {
+    const included = filters[key];
+    const excluded = filters.exclude?.[key];
+    if (included) {
+      // Tags must all be present; other fields match any listed value
+      result = key === "tags" ? result.contains(column, included) : result.in(column, included);
+    }
+    if (excluded?.length) {
+      result = key === "tags"
+        ? result.not(column, "ov", postgrestList(excluded, "{", "}"))
+        : result.not(column, "in", postgrestList(excluded));
+    }
+  }
+  if (filters.unassigned === true) result = result.is("assignedToUserId", null);
+  if (filters.unassigned === false) result = result.not("assignedToUserId", "is", null);
+  if (filters.isSubTicket === true) result = result.not("parentTicketId", "is", null);
+  if (filters.isSubTicket === false) result = result.is("parentTicketId", null);
+  if (filters.createdAfter) result = result.gte("createdAt", filters.createdAfter);
+  if (filters.createdBefore) result = result.lt("createdAt", filters.createdBefore);
+  if (filters.sla === "breached") result = result.eq("slaBreached", true);
+  if (filters.sla === "at-risk") result = result.eq("slaBreached", false).not("slaDueAt", "is", null);
+  return result as unknown as Q;
+}
@@ -0,0 +1,7 @@
+// Allowed values of the ticket fields that take one from a fixed list. Kept apart
+// from schema.ts so modules schema.ts itself imports (e.g. macros.ts) can use them.
+
+export const PRIORITIES = ["low", "medium", "high", "critical"] as const;
+export const STATUSES = ["new", "assigned", "in_progress", "pending_customer", "resolved", "closed", "reopened"] as const;
+export const CLIENT_MOODS = ["calm", "frustrated", "angry", "disappointed", "understanding"] as const;
+export const CLIENT_STATUSES = ["existing_active", "existing_inactive", "new_prospect", "trial_client", "guest"] as const;
@@ -0,0 +1,137 @@
+// Workflow rule DSL shared by the server engine and the admin UI.
+// A rule is: trigger event -> condition group -> ordered list of actions.
+
+import { z } from "zod";
+
+export const WORKFLOW_TRIGGERS = ["ticket_created", "ticket_updated", "status_changed", "comment_added"] as const;
+
+export const CONDITION_OPERATORS = [
+  "equals",
+  "not_equals",
+  "in",
+  "not_in",
+  "contains",
+  "older_than",
+  "newer_than",
+  "tag_present",
+  "tag_absent",
+  "changed",
+] as const;
+
+export const WORKFLOW_ACTION_TYPES = ["set_field", "add_tag", "assign", "add_comment", "notify", "webhook"] as const;
+
+// Ticket fields a condition may read. comment.* fields are only set for comment_added.
+export const WORKFLOW_CONDITION_FIELDS = [
+  "status",
+  "priority",
+  "categoryId",
+  "subcategoryId",
+  "studioId",
+  "source",
+  "severity",
+  "customerStatus",
+  "clientMood",
+  "title",
+  "description",
+  "customerName",
+  "customerEmail",
+  "assignedToUserId",
+  "assignedTeamId",
+  "assignedDepartmentId",
+  "slaBreached",
+  "createdAt",
+  "updatedAt",
+  "firstResponseAt",
+  "lastActivityAt",
+  "slaDueAt",
+  "comment.content",
+  "comment.isInternal",
+] as const;
+
+// Date fields usable with older_than / newer_than (value in hours)
+export const WORKFLOW_DATE_FIELDS = ["createdAt", "updatedAt", "firstResponseAt", "lastActivityAt", "slaDueAt"] as const;
+
+// Ticket fields a set_field action may write
+export const WORKFLOW_SETTABLE_FIELDS = [
+  "status",
+  "priority",
+  "categoryId",
+  "subcategoryId",
+  "severity",
+  "source",
+  "clientMood",
+  "isInternalTicket",
+] as const;
+
+export const workflowConditionSchema = z.object({
+  // Not needed by tag_present / tag_absent
+  field: z.enum(WORKFLOW_CONDITION_FIELDS).optional(),
+  operator: z.enum(CONDITION_OPERATORS),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional(),
+});
+
+export const workflowConditionGroupSchema = z.object({
+  match: z.enum(["all", "any"]).default("all"),
+  conditions: z.array(workflowConditionSchema).default([]),
+});
+
+export const workflowActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("set_field"),
+    field: z.enum(WORKFLOW_SETTABLE_FIELDS),
+    value: z.union([z.string(), z.boolean(), z.null()]),
+  }),
+  z.object({ type: z.literal("add_tag"), tag: z.string().min(1) }),
+  z.object({
+    type: z.literal("assign"),
+    userId: z.string().optional(),
+    teamId: z.string().optional(),
+    departmentId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("add_comment"),
+    content: z.string().min(1),
+    isInternal: z.boolean().default(true),
+  }),
+  z.object({
+    type: z.literal("notify"),
+    userIds: z.array(z.string()).default([]),
+    roles: z.array(z.string()).default([]),
+    assignee: z.boolean().default(false),
+    reporter: z.boolean().default(false),
+    title: z.string().optional(),
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("webhook"),
+    url: z.string().url(),
+    headers: z.record(z.string()).optional(),
+  }),
+]);
+
+export type WorkflowTrigger = typeof WORKFLOW_TRIGGERS[number];
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+export type WorkflowConditionField = typeof WORKFLOW_CONDITION_FIELDS[number];
+export type WorkflowActionType = typeof WORKFLOW_ACTION_TYPES[number];
+export type WorkflowCondition = z.infer<typeof workflowConditionSchema>;
+export type WorkflowConditionGroup = z.infer<typeof workflowConditionGroupSchema>;
+export type WorkflowAction = z.infer<typeof workflowActionSchema>;
+
+// Older rows may store a bare array of conditions; treat it as match "all".
+// Returns null when the stored shape doesn't parse or has no conditions: such a
+// rule must match nothing rather than every ticket.
+export function normalizeConditionGroup(conditions: unknown): WorkflowConditionGroup | null {
+  const parsed = workflowConditionGroupSchema.safeParse(
+    Array.isArray(conditions) ? { match: "all", conditions } : conditions,
+  );
+  if (!parsed.success || parsed.data.conditions.length === 0) return null;
+  return parsed.data;
+}
+
+export function normalizeActions(actions: unknown): WorkflowAction[] {
+  if (!Array.isArray(actions)) return [];
+  return actions.flatMap((action) => {
+    const parsed = workflowActionSchema.safeParse(action);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
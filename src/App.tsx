@@ -7,7 +7,9 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { CommandPalette } from "@/components/command-palette";
 import { useAuth } from "@/hooks/useAuth";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
 import { Menu, LogOut, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { lazy, Suspense } from "react";
@@ -26,6 +28,9 @@ const Categories = lazy(() => import("@/pages/categories"));
 const Notifications = lazy(() => import("@/pages/notifications"));
 const Settings = lazy(() => import("@/pages/settings"));
 const Templates = lazy(() => import("@/pages/templates"));
+const Survey = lazy(() => import("@/pages/survey"));
+const TicketStatus = lazy(() => import("@/pages/ticket-status"));
+const Feedback = lazy(() => import("@/pages/feedback"));
 
 // Loading fallback component
 function PageLoader() {
@@ -59,6 +64,7 @@ function AuthenticatedRoutes() {
 
 function AppLayout() {
   const { user, isLoading, signOut } = useAuth();
+  useLiveUpdates(!!user);
 
   if (isLoading) {
     return (
@@ -107,6 +113,7 @@ function AppLayout() {
               >
                 <Menu className="h-4 w-4" />
               </SidebarTrigger>
+              <CommandPalette />
             </div>
             
             <div className="relative flex items-center gap-3">
@@ -149,7 +156,27 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <ThemeProvider defaultTheme="system" storageKey="physique57-theme">
         <TooltipProvider>
-          <AppLayout />
+          {/* Customer-facing pages work without signing in */}
+          <Switch>
+            <Route path="/survey/:token">
+              <Suspense fallback={<PageLoader />}>
+                <Survey />
+              </Suspense>
+            </Route>
+            <Route path="/status/:token?">
+              <Suspense fallback={<PageLoader />}>
+                <TicketStatus />
+              </Suspense>
+            </Route>
+            <Route path="/feedback/:studioId">
+              <Suspense fallback={<PageLoader />}>
+                <Feedback />
+              </Suspense>
+            </Route>
+            <Route>
+              <AppLayout />
+            </Route>
+          </Switch>
           <Toaster />
         </TooltipProvider>
       </ThemeProvider>
@@ -27,8 +27,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
+import { createTicket as submitTicket, describeRouting } from "@/lib/ticketApi";
 import { CATEGORIES, STUDIOS, TRAINERS } from "@/lib/constants";
 import { ClassSelector, ClassSession } from "@/components/class-selector";
 import { MomenceClientSearch } from "@/components/momence-client-search";
@@ -205,7 +205,6 @@ const TRAINER_QUESTIONS: ConversationQuestion[] = [
 
 export function AIFeedbackChatbot({ onClose, onAutoFill, className }: AIFeedbackChatbotProps) {
   const { toast } = useToast();
-  const { user } = useAuth();
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -542,13 +541,6 @@ export function AIFeedbackChatbot({ onClose, onAutoFill, className }: AIFeedback
     setIsCreatingTicket(true);
     
     try {
-      const now = new Date();
-      const year = now.getFullYear().toString().slice(-2);
-      const month = (now.getMonth() + 1).toString().padStart(2, "0");
-      const day = now.getDate().toString().padStart(2, "0");
-      const random = Math.floor(Math.random() * 10000).toString().padStart(4, "0");
-      const ticketNumber = `TKT-${year}${month}${day}-${random}`;
-
       const categoryConfig = CATEGORIES.find(c => c.id === data.category);
       
       const { data: departments } = await supabase
@@ -568,55 +560,48 @@ export function AIFeedbackChatbot({ onClose, onAutoFill, className }: AIFeedback
 
       const studioId = studios?.id || (await supabase.from("studios").select("id").limit(1).single()).data?.id;
 
-      const { data: ticket, error } = await supabase
-        .from("tickets")
-        .insert([{
-          ticketNumber,
-          title: data.title || generateTitle(data),
-          description: data.description || "",
-          categoryId: data.category,
-          studioId,
-          priority: data.priority || "medium",
-          status: "new",
-          source: "ai-chatbot",
-          customerName: data.customerName || null,
-          customerEmail: data.customerEmail || null,
-          assignedDepartmentId: defaultDept?.id || null,
-          reportedByUserId: user?.id,
-          tags: [data.feedbackType, categoryConfig?.code].filter(Boolean),
-          dynamicFieldData: {
-            trainerName: data.trainerName,
-            className: data.className,
-            classDate: data.classDate,
-            classId: data.classId,
-            feedbackType: data.feedbackType,
-            aiGenerated: true,
-            memberId: (data.memberDetails as MomenceMember)?.id,
-          },
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
+      const ticket = await submitTicket({
+        title: data.title || generateTitle(data),
+        description: data.description || "",
+        categoryId: data.category,
+        studioId,
+        priority: data.priority || "medium",
+        source: "ai-chatbot",
+        customerName: data.customerName || null,
+        customerEmail: data.customerEmail || null,
+        assignedDepartmentId: defaultDept?.id || null,
+        tags: [data.feedbackType, categoryConfig?.code].filter(Boolean),
+        dynamicFieldData: {
+          trainerName: data.trainerName,
+          className: data.className,
+          classDate: data.classDate,
+          classId: data.classId,
+          feedbackType: data.feedbackType,
+          aiGenerated: true,
+          memberId: (data.memberDetails as MomenceMember)?.id,
+        },
+      });
+
+      const ticketNumber = ticket.ticketNumber;
 
       const studioName = STUDIOS.find(s => s.id === data.studio)?.name || "";
       setMessages(prev => [...prev, {
         id: (Date.now() + 1).toString(),
         role: "assistant",
-        content: `✅ **Ticket Created Successfully!**\n\nYour ticket has been submitted and routed to the ${defaultDept?.name || "Operations"} team.\n\nIs there anything else I can help you with?`,
+        content: `✅ **Ticket Created Successfully!**\n\nYour ticket has been submitted and routed to the ${ticket.routing.department || "Operations"} team.\n\nIs there anything else I can help you with?`,
         timestamp: new Date(),
         ticketCreated: {
           ticketNumber,
           title: data.title || "",
           category: categoryConfig?.name || "",
-          priority: data.priority || "medium",
+          priority: ticket.priority,
           studio: studioName,
         },
       }]);
 
       toast({
         title: "Ticket Created",
-        description: `${ticketNumber} has been created and assigned`,
+        description: `${ticketNumber} has been created. ${describeRouting(ticket.routing)}.`,
       });
 
       setCurrentQuestionIndex(0);
@@ -1,4 +1,5 @@
 import { useLocation, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import {
   LayoutDashboard,
   Ticket,
@@ -30,6 +31,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
 import logoOptimized from "@/assets/logo-optimized.webp";
 import { cn } from "@/lib/utils";
+import type { Notification } from "@shared/schema";
 
 const mainNavItems = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard },
@@ -53,6 +55,12 @@ const settingsItems = [
 export function AppSidebar() {
   const [location] = useLocation();
   const { user } = useAuth();
+  // Kept current by live updates, so the badge moves without polling
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    enabled: !!user,
+  });
+  const unreadCount = notifications?.filter((notification) => !notification.isRead).length || 0;
 
   const isActive = (url: string) => {
     if (url === "/") return location === "/";
@@ -190,6 +198,11 @@ export function AppSidebar() {
                         <item.icon className="h-4 w-4" />
                       </div>
                       <span className="font-medium">{item.title}</span>
+                      {item.url === "/notifications" && unreadCount > 0 && (
+                        <Badge className="ml-auto text-[10px] px-1.5 py-0" data-testid="badge-unread-notifications">
+                          {unreadCount > 99 ? "99+" : unreadCount}
+                        </Badge>
+                      )}
                     </Link>
                   </SidebarMenuButton>
                 </SidebarMenuItem>
@@ -16,7 +16,7 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface User {
   id: string;
@@ -62,20 +62,14 @@ export function AssignAssociateModal({
   // Assign user mutation
   const assignMutation = useMutation({
     mutationFn: async (userId: string) => {
-      const { error } = await supabase
-        .from("tickets")
-        .update({
-          assignedToUserId: userId,
-          updatedAt: new Date().toISOString(),
-        })
-        .eq("id", ticketId);
-
-      if (error) throw error;
+      // Through the API so the assignee is notified and starts watching
+      await apiRequest("PATCH", `/api/tickets/${ticketId}`, { assignedToUserId: userId });
     },
     onSuccess: () => {
       toast({ title: "Associate assigned successfully" });
       queryClient.invalidateQueries({ queryKey: ["ticket-detail", ticketId] });
       queryClient.invalidateQueries({ queryKey: ["tickets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tickets", ticketId, "watchers"] });
       setOpen(false);
       onAssigned?.();
     },
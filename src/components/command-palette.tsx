@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import {
+  LayoutDashboard,
+  Ticket,
+  Plus,
+  FileText,
+  BarChart3,
+  Building2,
+  Users,
+  Tag,
+  Bell,
+  Settings,
+  Search,
+  Loader2,
+} from "lucide-react";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { Button } from "@/components/ui/button";
+import { StatusBadge } from "@/components/status-badge";
+import { SearchSnippet } from "@/components/search-snippet";
+import { searchTickets } from "@/lib/ticketApi";
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+const pages = [
+  { title: "Dashboard", url: "/", icon: LayoutDashboard },
+  { title: "All Tickets", url: "/tickets", icon: Ticket },
+  { title: "New Ticket", url: "/tickets/new", icon: Plus },
+  { title: "Templates", url: "/templates", icon: FileText },
+  { title: "Analytics", url: "/analytics", icon: BarChart3 },
+  { title: "Teams", url: "/teams", icon: Users },
+  { title: "Studios", url: "/studios", icon: Building2 },
+  { title: "Categories", url: "/categories", icon: Tag },
+  { title: "Notifications", url: "/notifications", icon: Bell },
+  { title: "Settings", url: "/settings", icon: Settings },
+];
+
+export function CommandPalette() {
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: results = [], isFetching } = useQuery({
+    queryKey: ["ticket-search", debouncedQuery],
+    queryFn: () => searchTickets(debouncedQuery),
+    enabled: open && debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 30_000,
+  });
+
+  const matchingPages = pages.filter((page) =>
+    page.title.toLowerCase().includes(query.trim().toLowerCase())
+  );
+
+  const go = (url: string) => {
+    setOpen(false);
+    setQuery("");
+    navigate(url);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setOpen(true)}
+        className="h-9 w-64 justify-start rounded-lg bg-muted/50 text-muted-foreground"
+        data-testid="button-command-palette"
+      >
+        <Search className="h-4 w-4 mr-2" />
+        <span className="flex-1 text-left text-sm">Search tickets...</span>
+        <kbd className="pointer-events-none rounded border bg-background px-1.5 font-mono text-[10px]">⌘K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+          {/* Results are ranked on the server, so cmdk's own filtering is off */}
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Search tickets, comments, customers..."
+            />
+            <CommandList className="max-h-[420px]">
+              <CommandEmpty>
+                {isFetching ? (
+                  <span className="inline-flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Searching...
+                  </span>
+                ) : (
+                  "No results found."
+                )}
+              </CommandEmpty>
+
+              {results.length > 0 && (
+                <CommandGroup heading="Tickets">
+                  {results.map((ticket) => (
+                    <CommandItem
+                      key={ticket.id}
+                      value={ticket.id}
+                      onSelect={() => go(`/tickets/${ticket.id}`)}
+                      className="flex flex-col items-start gap-1"
+                    >
+                      <div className="flex w-full items-center gap-2">
+                        <span className="font-mono text-xs text-muted-foreground">{ticket.ticketNumber}</span>
+                        <span className="flex-1 truncate text-sm font-medium">{ticket.title}</span>
+                        <StatusBadge status={ticket.status || "new"} />
+                      </div>
+                      <SearchSnippet snippet={ticket.search.snippet} />
+                      {ticket.search.matchedIn === "comment" && (
+                        <span className="text-[10px] uppercase tracking-wide text-muted-foreground">Matched in comment</span>
+                      )}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+
+              {results.length > 0 && matchingPages.length > 0 && <CommandSeparator />}
+
+              {matchingPages.length > 0 && (
+                <CommandGroup heading="Go to">
+                  {matchingPages.map((page) => (
+                    <CommandItem key={page.url} value={page.url} onSelect={() => go(page.url)}>
+                      <page.icon className="h-4 w-4 mr-2" />
+                      {page.title}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
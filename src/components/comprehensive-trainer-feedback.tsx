@@ -63,8 +63,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
+import { createTicket } from "@/lib/ticketApi";
 import { TRAINERS, CLASSES, STUDIOS } from "@/lib/constants";
-import { useAuth } from "@/hooks/useAuth";
 
 interface ComprehensiveTrainerFeedbackProps {
   open: boolean;
@@ -202,7 +202,6 @@ interface FeedbackFormData {
 
 export function ComprehensiveTrainerFeedback({ open, onOpenChange }: ComprehensiveTrainerFeedbackProps) {
   const { toast } = useToast();
-  const { user } = useAuth();
   const [activeStep, setActiveStep] = useState(1);
   const [selectedClass, setSelectedClass] = useState<ClassSession | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -385,14 +384,6 @@ export function ComprehensiveTrainerFeedback({ open, onOpenChange }: Comprehensi
     try {
       const overallScore = calculateOverallScore();
       
-      // Generate ticket number
-      const now = new Date();
-      const year = now.getFullYear().toString().slice(-2);
-      const month = (now.getMonth() + 1).toString().padStart(2, '0');
-      const day = now.getDate().toString().padStart(2, '0');
-      const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-      const ticketNumber = `TKT-${year}${month}${day}-${random}`;
-
       // Get category ID for "Customer Service" or first available
       const { data: categories } = await supabase
         .from('categories')
@@ -475,43 +466,36 @@ ${aiInsights.insights ? `• Insights: ${aiInsights.insights}` : ''}
                           overallScore < 2.5 ? 'performance-concern' : 'evaluation';
 
       // Create the ticket
-      const { data: ticket, error } = await supabase
-        .from('tickets')
-        .insert([{
-          ticketNumber,
-          title: `Trainer Evaluation - ${formData.trainerName} - ${formData.classType} (${formData.classDate})`,
-          description,
-          categoryId: customerServiceCategory?.id || categories?.[0]?.id,
-          studioId: studios?.id,
-          priority,
-          status: 'new',
-          source: 'trainer-evaluation',
-          tags: ['trainer-evaluation', formData.classType?.toLowerCase().replace(/\s+/g, '-'), feedbackType].filter(Boolean),
-          reportedByUserId: user?.id,
-          dynamicFieldData: {
-            trainerId: formData.trainerId,
-            trainerName: formData.trainerName,
-            classType: formData.classType,
-            classDate: formData.classDate,
-            classTime: formData.classTime,
-            studioName: formData.studioName,
-            scores: formData.scores,
-            overallScore,
-            positiveHighlights: formData.positiveHighlights,
-            improvementAreas: formData.improvementAreas,
-            classCapacity: formData.classCapacity,
-            attendeeCount: formData.attendeeCount,
-            newMemberCount: formData.newMemberCount,
-            feedbackSource: formData.feedbackSource,
-            isAnonymous: formData.isAnonymous,
-            aiInsights: aiInsights || null,
-            feedbackType: 'comprehensive-trainer-evaluation',
-          },
-        }])
-        .select()
-        .single();
+      const ticket = await createTicket({
+        title: `Trainer Evaluation - ${formData.trainerName} - ${formData.classType} (${formData.classDate})`,
+        description,
+        categoryId: customerServiceCategory?.id || categories?.[0]?.id,
+        studioId: studios?.id,
+        priority,
+        source: 'trainer-evaluation',
+        tags: ['trainer-evaluation', formData.classType?.toLowerCase().replace(/\s+/g, '-'), feedbackType].filter(Boolean),
+        dynamicFieldData: {
+          trainerId: formData.trainerId,
+          trainerName: formData.trainerName,
+          classType: formData.classType,
+          classDate: formData.classDate,
+          classTime: formData.classTime,
+          studioName: formData.studioName,
+          scores: formData.scores,
+          overallScore,
+          positiveHighlights: formData.positiveHighlights,
+          improvementAreas: formData.improvementAreas,
+          classCapacity: formData.classCapacity,
+          attendeeCount: formData.attendeeCount,
+          newMemberCount: formData.newMemberCount,
+          feedbackSource: formData.feedbackSource,
+          isAnonymous: formData.isAnonymous,
+          aiInsights: aiInsights || null,
+          feedbackType: 'comprehensive-trainer-evaluation',
+        },
+      });
 
-      if (error) throw error;
+      const ticketNumber = ticket.ticketNumber;
 
       toast({
         title: "Evaluation Submitted",
@@ -0,0 +1,184 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, Building2, Loader2, Smile, Star, Users } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface CsatGroup {
+  name: string;
+  responses: number;
+  average: number;
+  satisfiedPercent: number;
+  lowScores: number;
+}
+
+interface CsatSummary {
+  overall: Omit<CsatGroup, "name">;
+  byStudio: CsatGroup[];
+  byTeam: CsatGroup[];
+  distribution: { rating: number; count: number }[];
+  followUps: { feedbackId: string; ticketId: string; ticketNumber: string | null; rating: number; feedback: string | null; createdAt: string | null }[];
+}
+
+const RATING_COLORS = ["#ef4444", "#f97316", "#eab308", "#84cc16", "#22c55e"];
+
+function scoreColor(percent: number): string {
+  if (percent >= 80) return "text-emerald-600 dark:text-emerald-400";
+  if (percent >= 60) return "text-amber-600 dark:text-amber-400";
+  return "text-red-600 dark:text-red-400";
+}
+
+function GroupTable({ title, icon: Icon, groups }: { title: string; icon: typeof Building2; groups: CsatGroup[] }) {
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Icon className="h-5 w-5 text-primary" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No survey responses yet</p>
+        ) : (
+          <div className="space-y-1">
+            <div className="grid grid-cols-[1fr_auto_auto_auto] gap-4 px-3 py-2 text-xs font-medium text-muted-foreground">
+              <span>Name</span>
+              <span className="w-16 text-right">Responses</span>
+              <span className="w-14 text-right">Average</span>
+              <span className="w-14 text-right">CSAT</span>
+            </div>
+            {groups.map((group) => (
+              <div key={group.name} className="grid grid-cols-[1fr_auto_auto_auto] gap-4 px-3 py-2 rounded-lg bg-muted/30 text-sm">
+                <span className="truncate">{group.name}</span>
+                <span className="w-16 text-right text-muted-foreground">{group.responses}</span>
+                <span className="w-14 text-right">{group.average.toFixed(1)}</span>
+                <span className={cn("w-14 text-right font-semibold", scoreColor(group.satisfiedPercent))}>
+                  {group.satisfiedPercent}%
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Customer satisfaction from CSAT survey responses, for the analytics page
+export function CsatAnalytics({ days }: { days?: number }) {
+  const { data: summary, isLoading } = useQuery<CsatSummary>({
+    queryKey: ["/api/analytics/csat", { days }],
+  });
+
+  if (isLoading || !summary) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const { overall } = summary;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {[
+          { title: "CSAT Score", value: overall.responses ? `${overall.satisfiedPercent}%` : "—", icon: Smile, hint: "Rated 4 or 5" },
+          { title: "Average Rating", value: overall.responses ? `${overall.average.toFixed(1)} / 5` : "—", icon: Star },
+          { title: "Responses", value: overall.responses, icon: Users },
+          { title: "Low Scores", value: overall.lowScores, icon: AlertTriangle },
+        ].map((metric) => {
+          const Icon = metric.icon;
+          return (
+            <Card key={metric.title} className="glass-card">
+              <CardContent className="pt-6">
+                <Icon className="h-5 w-5 text-primary mb-2" />
+                <p className="text-2xl font-bold">{metric.value}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {metric.title}
+                  {metric.hint ? ` · ${metric.hint}` : ""}
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="glass-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Rating Distribution</CardTitle>
+            <CardDescription>Survey answers by star rating</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={summary.distribution}>
+                  <XAxis dataKey="rating" tick={{ fontSize: 12 }} tickLine={false} axisLine={false} tickFormatter={(rating) => `${rating}★`} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} tickLine={false} axisLine={false} />
+                  <Tooltip
+                    labelFormatter={(rating) => `${rating} star${rating === 1 ? "" : "s"}`}
+                    contentStyle={{
+                      background: "hsl(var(--popover))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "12px",
+                    }}
+                  />
+                  <Bar dataKey="count" radius={[8, 8, 0, 0]}>
+                    {summary.distribution.map((entry) => (
+                      <Cell key={entry.rating} fill={RATING_COLORS[entry.rating - 1]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              Needs Follow-up
+            </CardTitle>
+            <CardDescription>Low scores nobody has followed up on yet</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {summary.followUps.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">Nothing waiting for follow-up</p>
+            ) : (
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {summary.followUps.map((item) => (
+                  <Link key={item.feedbackId} href={`/tickets/${item.ticketId}`}>
+                    <div className="p-3 rounded-lg bg-muted/30 hover:bg-muted/60 cursor-pointer">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">{item.ticketNumber}</span>
+                        <Badge variant="destructive" className="text-xs">{item.rating}/5</Badge>
+                      </div>
+                      {item.feedback && <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{item.feedback}</p>}
+                      {item.createdAt && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+                        </p>
+                      )}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <GroupTable title="By Studio" icon={Building2} groups={summary.byStudio} />
+        <GroupTable title="By Team" icon={Users} groups={summary.byTeam} />
+      </div>
+    </div>
+  );
+}
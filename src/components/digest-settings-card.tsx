@@ -0,0 +1,197 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { timeZoneOptions } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
+import { Newspaper, Loader2, Send } from "lucide-react";
+import type { DigestKind, DigestSettings, UpdateDigestSettings } from "@shared/schema";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export function DigestSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { canManageReports } = useUserRole();
+
+  const { data: settings, isLoading } = useQuery<DigestSettings>({
+    queryKey: ["/api/digest-settings"],
+  });
+
+  const timeZones = useMemo(() => timeZoneOptions(settings?.timeZone || ""), [settings?.timeZone]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: UpdateDigestSettings) => {
+      const res = await apiRequest("PUT", "/api/digest-settings", updates);
+      return res.json();
+    },
+    onSuccess: (updated: DigestSettings) => {
+      queryClient.setQueryData(["/api/digest-settings"], updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (kind: DigestKind) => apiRequest("POST", "/api/digest-settings/test", { kind }),
+    onSuccess: () => {
+      toast({
+        title: "Test Digest Queued",
+        description: "Check your inbox in a minute.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !settings) {
+    return (
+      <Card className="glass-card">
+        <CardContent className="flex items-center justify-center p-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const update = (updates: UpdateDigestSettings) => updateMutation.mutate(updates);
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Newspaper className="h-5 w-5 text-primary" />
+          Digest Emails
+        </CardTitle>
+        <CardDescription>
+          A summary of your assigned tickets, SLA risks, new tickets and mentions, delivered at your local time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between py-3 border-b border-border/50">
+          <div className="space-y-0.5">
+            <Label className="font-medium">Daily digest</Label>
+            <p className="text-sm text-muted-foreground">
+              {settings.lastDailySentAt
+                ? `Last sent ${formatDistanceToNow(new Date(settings.lastDailySentAt), { addSuffix: true })}`
+                : "Everything since your previous digest, once a day"}
+            </p>
+          </div>
+          <Switch
+            checked={settings.dailyEnabled}
+            onCheckedChange={(checked) => update({ dailyEnabled: checked })}
+            data-testid="switch-daily-digest"
+          />
+        </div>
+
+        {canManageReports && (
+          <div className="flex items-center justify-between py-3 border-b border-border/50">
+            <div className="space-y-0.5">
+              <Label className="font-medium">Weekly summary</Label>
+              <p className="text-sm text-muted-foreground">Studio-level stats plus your digest, once a week</p>
+            </div>
+            <Switch
+              checked={settings.weeklyEnabled}
+              onCheckedChange={(checked) => update({ weeklyEnabled: checked })}
+              data-testid="switch-weekly-digest"
+            />
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="digest-time">Delivery time</Label>
+            <Input
+              id="digest-time"
+              type="time"
+              defaultValue={settings.deliveryTime}
+              key={settings.deliveryTime}
+              onBlur={(e) => {
+                if (e.target.value && e.target.value !== settings.deliveryTime) update({ deliveryTime: e.target.value });
+              }}
+              data-testid="input-digest-time"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Time zone</Label>
+            <Select value={settings.timeZone} onValueChange={(timeZone) => update({ timeZone })}>
+              <SelectTrigger data-testid="select-digest-timezone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZones.map((zone) => (
+                  <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {canManageReports && (
+            <div className="space-y-2">
+              <Label>Weekly summary on</Label>
+              <Select
+                value={String(settings.weeklyDay)}
+                onValueChange={(day) => update({ weeklyDay: Number(day) })}
+              >
+                <SelectTrigger data-testid="select-digest-weekday">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day, index) => (
+                    <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          {canManageReports && (
+            <Button
+              variant="outline"
+              onClick={() => testMutation.mutate("weekly")}
+              disabled={testMutation.isPending}
+              className="rounded-xl"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Send test summary
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => testMutation.mutate("daily")}
+            disabled={testMutation.isPending}
+            className="rounded-xl"
+            data-testid="button-test-digest"
+          >
+            {testMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Send test digest
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
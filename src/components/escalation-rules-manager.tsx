@@ -83,6 +83,8 @@ const TRIGGER_TYPES = [
 
 const PRIORITIES = ["low", "medium", "high", "critical"];
 
+const NOTIFY_ROLES = ["admin", "manager", "staff"];
+
 export function EscalationRulesManager() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -564,13 +566,39 @@ export function EscalationRulesManager() {
                   />
                 </div>
 
+                {formData.sendNotification && (
+                  <div className="space-y-2">
+                    <Label>Notify Roles</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {NOTIFY_ROLES.map((role) => {
+                        const selected = formData.notifyRoles.includes(role);
+                        return (
+                          <Badge
+                            key={role}
+                            variant={selected ? "default" : "outline"}
+                            className="cursor-pointer capitalize"
+                            onClick={() => setFormData(prev => ({
+                              ...prev,
+                              notifyRoles: selected
+                                ? prev.notifyRoles.filter(r => r !== role)
+                                : [...prev.notifyRoles, role],
+                            }))}
+                          >
+                            {role}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 {formData.sendNotification && (
                   <div className="space-y-2">
                     <Label>Notification Template</Label>
                     <Textarea
                       value={formData.notificationTemplate}
                       onChange={(e) => setFormData(prev => ({ ...prev, notificationTemplate: e.target.value }))}
-                      placeholder="Custom notification message (optional)..."
+                      placeholder="Custom message (optional). Supports {{ticketNumber}}, {{title}}, {{priority}}, {{reason}}"
                       rows={2}
                     />
                   </div>
@@ -0,0 +1,108 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ChevronDown, Loader2, Settings2, Users, Zap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { runMacro } from "@/lib/ticketApi";
+import type { Macro } from "@shared/schema";
+
+interface MacroMenuProps {
+  ticketIds: string[];
+  onApplied?: () => void;
+}
+
+// One-click macros for a ticket, or for every selected ticket on the list
+export function MacroMenu({ ticketIds, onApplied }: MacroMenuProps) {
+  const { toast } = useToast();
+  const { data: macros = [] } = useQuery<Macro[]>({ queryKey: ["/api/macros"] });
+
+  const runMutation = useMutation({
+    mutationFn: (macro: Macro) => runMacro(macro.id, ticketIds),
+    onSuccess: (results, macro) => {
+      queryClient.invalidateQueries({ queryKey: ["tickets"] });
+      queryClient.invalidateQueries({ queryKey: ["ticket-detail"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tickets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/macros"] });
+
+      const failed = results.filter((result) => !result.applied);
+      const applied = results.length - failed.length;
+      if (failed.length === 0) {
+        toast({
+          title: `Applied "${macro.name}"`,
+          description: results.length > 1 ? `Updated ${applied} tickets` : undefined,
+        });
+      } else {
+        toast({
+          title: applied > 0 ? `Applied "${macro.name}" to ${applied} of ${results.length} tickets` : `Couldn't apply "${macro.name}"`,
+          description: failed
+            .slice(0, 3)
+            .map((result) => `${result.ticketNumber || result.ticketId}: ${result.message}`)
+            .join("\n"),
+          variant: applied > 0 ? undefined : "destructive",
+        });
+      }
+      if (applied > 0) onApplied?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to run macro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={ticketIds.length === 0 || runMutation.isPending}
+          data-testid="button-macros"
+        >
+          {runMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Zap className="h-4 w-4 mr-2" />}
+          Macros
+          <ChevronDown className="h-4 w-4 ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>
+          {ticketIds.length > 1 ? `Apply to ${ticketIds.length} tickets` : "Apply macro"}
+        </DropdownMenuLabel>
+        {macros.length === 0 ? (
+          <DropdownMenuItem disabled>No macros yet</DropdownMenuItem>
+        ) : (
+          macros.map((macro) => (
+            <DropdownMenuItem
+              key={macro.id}
+              onClick={() => runMutation.mutate(macro)}
+              className="flex items-start gap-2"
+              data-testid={`macro-${macro.id}`}
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate">{macro.name}</p>
+                {macro.description && (
+                  <p className="text-xs text-muted-foreground truncate">{macro.description}</p>
+                )}
+              </div>
+              {macro.isShared && <Users className="h-3.5 w-3.5 mt-0.5 text-muted-foreground shrink-0" />}
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/settings?tab=automation">
+            <Settings2 className="h-4 w-4 mr-2" />
+            Manage Macros
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
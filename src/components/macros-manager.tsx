@@ -0,0 +1,610 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Plus, Edit2, Trash2, Zap, Users, Loader2, X } from "lucide-react";
+import { CLIENT_MOODS, CLIENT_STATUSES, PRIORITIES, STATUSES } from "@/lib/constants";
+import {
+  MACRO_ACTION_TYPES,
+  MACRO_PLACEHOLDERS,
+  MACRO_SETTABLE_FIELDS,
+  type MacroAction,
+  type MacroActionType,
+} from "@shared/macros";
+import type { Macro } from "@shared/schema";
+
+const ACTION_LABELS: Record<MacroActionType, string> = {
+  set_field: "Set field",
+  add_tag: "Add tag",
+  remove_tag: "Remove tag",
+  assign: "Assign",
+  add_comment: "Add comment",
+};
+
+const FIELD_LABELS: Record<(typeof MACRO_SETTABLE_FIELDS)[number], string> = {
+  status: "Status",
+  priority: "Priority",
+  severity: "Severity",
+  categoryId: "Category",
+  subcategoryId: "Subcategory ID",
+  clientMood: "Client mood",
+  customerStatus: "Client status",
+};
+
+// Select value standing in for "leave unchanged" in the assign step
+const UNCHANGED = "unchanged";
+
+interface NamedOption {
+  id: string;
+  name: string;
+}
+
+function defaultAction(type: MacroActionType): MacroAction {
+  switch (type) {
+    case "set_field":
+      return { type, field: "status", value: "pending_customer" };
+    case "add_tag":
+    case "remove_tag":
+      return { type, tag: "" };
+    case "assign":
+      return { type };
+    case "add_comment":
+      return { type, content: "", isInternal: false };
+  }
+}
+
+function describeAction(action: MacroAction): string {
+  switch (action.type) {
+    case "set_field":
+      return `${FIELD_LABELS[action.field]}: ${(action.value || "none").replace(/_/g, " ")}`;
+    case "add_tag":
+      return `+${action.tag}`;
+    case "remove_tag":
+      return `-${action.tag}`;
+    case "assign":
+      return "Assign";
+    case "add_comment":
+      return action.isInternal ? "Internal note" : "Public reply";
+  }
+}
+
+// Personal and shared macros agents run from ticket detail or the ticket list
+export function MacrosManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { canManageTickets, canManageSettings, isLoading: roleLoading } = useUserRole();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingMacro, setEditingMacro] = useState<Macro | null>(null);
+
+  const emptyForm = {
+    name: "",
+    description: "",
+    isShared: false,
+    actions: [] as MacroAction[],
+  };
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: macros = [], isLoading } = useQuery<Macro[]>({
+    queryKey: ["/api/macros"],
+    enabled: canManageTickets,
+  });
+
+  const { data: categories = [] } = useQuery<NamedOption[]>({
+    queryKey: ["categories"],
+    enabled: isDialogOpen,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("id, name")
+        .eq("isActive", true);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: teams = [] } = useQuery<NamedOption[]>({
+    queryKey: ["teams"],
+    enabled: isDialogOpen,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("teams")
+        .select("id, name")
+        .eq("isActive", true);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: departments = [] } = useQuery<NamedOption[]>({
+    queryKey: ["departments"],
+    enabled: isDialogOpen,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("departments")
+        .select("id, name")
+        .eq("isActive", true);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: assignableUsers = [] } = useQuery<{ id: string; displayName: string | null; email: string | null }[]>({
+    queryKey: ["users-for-assignment"],
+    enabled: isDialogOpen,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("users")
+        .select("id, firstName, lastName, displayName, email, role, isActive")
+        .eq("isActive", true)
+        .order("displayName");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: typeof emptyForm) => {
+      const body = { ...data, description: data.description || null };
+      if (editingMacro) {
+        return apiRequest("PATCH", `/api/macros/${editingMacro.id}`, body);
+      }
+      return apiRequest("POST", "/api/macros", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/macros"] });
+      toast({
+        title: editingMacro ? "Macro Updated" : "Macro Created",
+        description: `Macro has been ${editingMacro ? "updated" : "created"} successfully.`,
+      });
+      handleCloseDialog();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/macros/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/macros"] });
+      toast({
+        title: "Macro Deleted",
+        description: "Macro has been deleted.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canEdit = (macro: Macro) => macro.createdByUserId === user?.id || canManageSettings;
+
+  const handleOpenDialog = (macro?: Macro) => {
+    if (macro) {
+      setEditingMacro(macro);
+      setFormData({
+        name: macro.name,
+        description: macro.description || "",
+        isShared: macro.isShared,
+        actions: (macro.actions as MacroAction[]) || [],
+      });
+    } else {
+      setEditingMacro(null);
+      setFormData(emptyForm);
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setIsDialogOpen(false);
+    setEditingMacro(null);
+  };
+
+  const updateAction = (index: number, patch: Partial<MacroAction>) => {
+    setFormData(prev => ({
+      ...prev,
+      actions: prev.actions.map((a, i) => (i === index ? ({ ...a, ...patch } as MacroAction) : a)),
+    }));
+  };
+
+  const handleSubmit = () => {
+    if (!formData.name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Macro name is required.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (formData.actions.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Add at least one step.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(formData);
+  };
+
+  const renderValueField = (action: Extract<MacroAction, { type: "set_field" }>, index: number) => {
+    const options: { value: string; label: string }[] | null =
+      action.field === "status" ? Object.entries(STATUSES).map(([value, config]) => ({ value, label: config.label }))
+      : action.field === "priority" ? Object.entries(PRIORITIES).map(([value, config]) => ({ value, label: config.label }))
+      : action.field === "clientMood" ? CLIENT_MOODS.map(({ value, label }) => ({ value, label }))
+      : action.field === "customerStatus" ? CLIENT_STATUSES.map(({ value, label }) => ({ value, label }))
+      : action.field === "categoryId" ? categories.map(({ id, name }) => ({ value: id, label: name }))
+      : null;
+
+    if (!options) {
+      return (
+        <Input
+          value={action.value ?? ""}
+          onChange={(e) => updateAction(index, { value: e.target.value })}
+          placeholder="New value"
+        />
+      );
+    }
+    return (
+      <Select value={action.value ?? ""} onValueChange={(value) => updateAction(index, { value })}>
+        <SelectTrigger>
+          <SelectValue placeholder="Choose..." />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  };
+
+  const renderAssignSelect = (
+    value: string | undefined,
+    options: NamedOption[],
+    placeholder: string,
+    onChange: (value: string | undefined) => void,
+  ) => (
+    <Select value={value || UNCHANGED} onValueChange={(next) => onChange(next === UNCHANGED ? undefined : next)}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNCHANGED}>{placeholder}: unchanged</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderActionFields = (action: MacroAction, index: number) => {
+    switch (action.type) {
+      case "set_field":
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={action.field}
+              onValueChange={(value) => updateAction(index, { field: value as typeof action.field, value: null })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MACRO_SETTABLE_FIELDS.map((field) => (
+                  <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {renderValueField(action, index)}
+          </div>
+        );
+      case "add_tag":
+      case "remove_tag":
+        return (
+          <Input
+            value={action.tag}
+            onChange={(e) => updateAction(index, { tag: e.target.value })}
+            placeholder="e.g., refund"
+          />
+        );
+      case "assign":
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            {renderAssignSelect(
+              action.userId,
+              assignableUsers.map((u) => ({ id: u.id, name: u.displayName || u.email || u.id })),
+              "Agent",
+              (userId) => updateAction(index, { userId }),
+            )}
+            {renderAssignSelect(action.teamId, teams, "Team", (teamId) => updateAction(index, { teamId }))}
+            {renderAssignSelect(action.departmentId, departments, "Department", (departmentId) => updateAction(index, { departmentId }))}
+          </div>
+        );
+      case "add_comment":
+        return (
+          <div className="space-y-2">
+            <Textarea
+              value={action.content}
+              onChange={(e) => updateAction(index, { content: e.target.value })}
+              placeholder={"Hi {{customerFirstName}}, thanks for getting in touch about {{ticketNumber}}..."}
+              rows={4}
+            />
+            <div className="flex flex-wrap gap-1">
+              {MACRO_PLACEHOLDERS.map((placeholder) => (
+                <Badge
+                  key={placeholder}
+                  variant="outline"
+                  className="cursor-pointer font-mono text-xs"
+                  onClick={() => updateAction(index, { content: `${action.content}{{${placeholder}}}` })}
+                >
+                  {`{{${placeholder}}}`}
+                </Badge>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={action.isInternal}
+                onCheckedChange={(checked) => updateAction(index, { isInternal: checked })}
+              />
+              <span className="text-xs text-muted-foreground">Internal note (hidden from the customer)</span>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  if (roleLoading || !canManageTickets) return null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold">Macros</h2>
+          <p className="text-sm text-muted-foreground">
+            Bundle the steps you repeat on tickets and apply them in one click
+          </p>
+        </div>
+        <Button onClick={() => handleOpenDialog()} data-testid="button-add-macro">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Macro
+        </Button>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : handleCloseDialog())}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingMacro ? "Edit Macro" : "Create Macro"}</DialogTitle>
+            <DialogDescription>
+              Steps run in order on each ticket and are recorded in its history
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="macro-name">Name *</Label>
+              <Input
+                id="macro-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Refund: waiting on customer"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="macro-description">Description</Label>
+              <Input
+                id="macro-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="When to use it"
+              />
+            </div>
+
+            <div className="border rounded-lg p-4 space-y-4">
+              <h4 className="font-medium flex items-center gap-2">
+                <Zap className="h-4 w-4 text-primary" />
+                Steps
+              </h4>
+
+              {formData.actions.map((action, index) => (
+                <div key={index} className="space-y-2 rounded-md bg-muted/40 p-3">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="outline">{index + 1}. {ACTION_LABELS[action.type]}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setFormData(prev => ({
+                        ...prev,
+                        actions: prev.actions.filter((_, i) => i !== index),
+                      }))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {renderActionFields(action, index)}
+                </div>
+              ))}
+
+              <Select
+                value=""
+                onValueChange={(value) => setFormData(prev => ({
+                  ...prev,
+                  actions: [...prev.actions, defaultAction(value as MacroActionType)],
+                }))}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Add step..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {MACRO_ACTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{ACTION_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between pt-2">
+              <div>
+                <Label>Shared</Label>
+                <p className="text-xs text-muted-foreground">Everyone who manages tickets can use it</p>
+              </div>
+              <Switch
+                checked={formData.isShared}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isShared: checked }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={handleCloseDialog}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingMacro ? "Update Macro" : "Create Macro"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : macros.length === 0 ? (
+        <Card className="glass-card">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Zap className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No Macros</h3>
+            <p className="text-muted-foreground text-center mb-4">
+              Create a macro to set a status, reply, tag and reassign in one go.
+            </p>
+            <Button onClick={() => handleOpenDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Macro
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {macros.map((macro) => (
+            <Card key={macro.id} className="glass-card">
+              <CardContent className="p-4">
+                <div className="flex items-start gap-4">
+                  <div className="h-10 w-10 rounded-lg flex items-center justify-center bg-primary/10 text-primary">
+                    <Zap className="h-5 w-5" />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <h3 className="font-semibold">{macro.name}</h3>
+                      {macro.isShared && (
+                        <Badge variant="secondary" className="gap-1">
+                          <Users className="h-3 w-3" />
+                          Shared
+                        </Badge>
+                      )}
+                      <Badge variant="outline" className="text-xs">
+                        Used {macro.usageCount} time{macro.usageCount === 1 ? "" : "s"}
+                      </Badge>
+                    </div>
+
+                    {macro.description && (
+                      <p className="text-sm text-muted-foreground mt-1">{macro.description}</p>
+                    )}
+
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {((macro.actions as MacroAction[]) || []).map((action, i) => (
+                        <Badge key={i} variant="secondary" className="text-xs">
+                          {describeAction(action)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+
+                  {canEdit(macro) && (
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(macro)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-destructive">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Macro</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete "{macro.name}"?
+                              {macro.isShared ? " It's shared, so it will disappear for everyone." : ""}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteMutation.mutate(macro.id)}
+                              className="bg-destructive text-destructive-foreground"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
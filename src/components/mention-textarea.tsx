@@ -0,0 +1,172 @@
+import { Fragment, useRef, useState, type KeyboardEvent, type ReactNode } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+
+export interface MentionableUser {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  displayName: string | null;
+  email: string | null;
+}
+
+export interface Mention {
+  id: string;
+  label: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// "@" at the start of the text or after whitespace, up to the caret
+const MENTION_QUERY = /(^|\s)@([^\s@]*)$/;
+
+export function mentionLabel(user: MentionableUser): string {
+  return user.displayName || [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Unknown";
+}
+
+// Mentions whose "@Name" is still in the text; deleting the name drops the mention
+export function activeMentionIds(content: string, mentions: Mention[]): string[] {
+  return Array.from(new Set(mentions.filter((mention) => content.includes(`@${mention.label}`)).map((mention) => mention.id)));
+}
+
+// Highlights "@Name" for the users a comment mentioned
+export function renderMentions(content: string, labels: string[]): ReactNode {
+  const tokens = labels.filter(Boolean).map((label) => `@${label}`);
+  if (tokens.length === 0) return content;
+  const escaped = tokens
+    .sort((a, b) => b.length - a.length)
+    .map((token) => token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const parts = content.split(new RegExp(`(${escaped.join("|")})`, "g"));
+  return parts.map((part, index) =>
+    tokens.includes(part) ? (
+      <span key={index} className="rounded bg-primary/10 px-0.5 font-medium text-primary">
+        {part}
+      </span>
+    ) : (
+      <Fragment key={index}>{part}</Fragment>
+    ),
+  );
+}
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  mentions: Mention[];
+  onMentionsChange: (mentions: Mention[]) => void;
+  users: MentionableUser[];
+  placeholder?: string;
+  className?: string;
+  "data-testid"?: string;
+}
+
+export function MentionTextarea({
+  value,
+  onChange,
+  mentions,
+  onMentionsChange,
+  users,
+  placeholder,
+  className,
+  "data-testid": testId,
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions =
+    query === null
+      ? []
+      : users
+          .filter((user) => {
+            const needle = query.toLowerCase();
+            return mentionLabel(user).toLowerCase().includes(needle) || (user.email || "").toLowerCase().startsWith(needle);
+          })
+          .slice(0, MAX_SUGGESTIONS);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = MENTION_QUERY.exec(text.slice(0, caret));
+    setQuery(match ? match[2] : null);
+    setHighlighted(0);
+  };
+
+  const selectUser = (user: MentionableUser) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@[^\s@]*$/, "");
+    const label = mentionLabel(user);
+    const inserted = `@${label} `;
+    onChange(before + inserted + value.slice(caret));
+    if (!mentions.some((mention) => mention.id === user.id)) {
+      onMentionsChange([...mentions, { id: user.id, label }]);
+    }
+    setQuery(null);
+    requestAnimationFrame(() => {
+      const position = before.length + inserted.length;
+      textarea?.focus();
+      textarea?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((current) => (current + step + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      selectUser(suggestions[highlighted] || suggestions[0]);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        placeholder={placeholder}
+        className={className}
+        data-testid={testId}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+        onBlur={() => setQuery(null)}
+      />
+      {suggestions.length > 0 && (
+        <div
+          role="listbox"
+          className="absolute left-2 top-full z-50 mt-1 w-64 overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          data-testid="mention-suggestions"
+        >
+          {suggestions.map((user, index) => (
+            <button
+              key={user.id}
+              type="button"
+              role="option"
+              aria-selected={index === highlighted}
+              // Keep focus in the textarea so the caret position survives
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectUser(user);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "flex w-full flex-col items-start rounded-sm px-2 py-1.5 text-left text-sm",
+                index === highlighted && "bg-accent text-accent-foreground",
+              )}
+            >
+              <span className="font-medium">{mentionLabel(user)}</span>
+              {user.email && <span className="text-xs text-muted-foreground">{user.email}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
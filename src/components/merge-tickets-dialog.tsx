@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { GitMerge, Loader2, Search, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { StatusBadge } from "@/components/status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { mergeTickets, searchTickets } from "@/lib/ticketApi";
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+export interface MergeCandidate {
+  id: string;
+  ticketNumber: string;
+  title: string;
+  status: string | null;
+  createdAt: string | Date | null;
+}
+
+interface MergeTicketsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Tickets to start with; more can be added by searching
+  tickets: MergeCandidate[];
+  onMerged?: (primaryId: string) => void;
+}
+
+// The oldest ticket usually has the fullest history, so it's the default primary
+function oldestTicket(tickets: MergeCandidate[]): MergeCandidate | undefined {
+  return [...tickets].sort(
+    (a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime()
+  )[0];
+}
+
+export function MergeTicketsDialog({ open, onOpenChange, tickets, onMerged }: MergeTicketsDialogProps) {
+  const { toast } = useToast();
+  const [candidates, setCandidates] = useState<MergeCandidate[]>(tickets);
+  const [primaryId, setPrimaryId] = useState<string | undefined>();
+  const [reason, setReason] = useState("");
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setCandidates(tickets);
+    setPrimaryId(oldestTicket(tickets)?.id);
+    setReason("");
+    setQuery("");
+    // Reset only when the dialog opens, not on every parent render
+  }, [open]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: results = [], isFetching } = useQuery({
+    queryKey: ["ticket-search", debouncedQuery],
+    queryFn: () => searchTickets(debouncedQuery, 8),
+    enabled: open && debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 30_000,
+  });
+  const addable = results.filter((result) => !candidates.some((ticket) => ticket.id === result.id));
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const secondaryIds = candidates.filter((ticket) => ticket.id !== primaryId).map((ticket) => ticket.id);
+      return mergeTickets(primaryId!, secondaryIds, reason.trim() || undefined);
+    },
+    onSuccess: ({ primaryId: mergedInto, merged }) => {
+      queryClient.invalidateQueries({ queryKey: ["tickets"] });
+      queryClient.invalidateQueries({ queryKey: ["ticket-detail"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tickets"] });
+      const primary = candidates.find((ticket) => ticket.id === mergedInto);
+      toast({
+        title: "Tickets merged",
+        description: `${merged.map((result) => result.secondaryTicketNumber).join(", ")} merged into ${primary?.ticketNumber}.`,
+      });
+      onOpenChange(false);
+      onMerged?.(mergedInto);
+    },
+    onError: (error) => {
+      toast({ title: "Merge failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeCandidate = (id: string) => {
+    const remaining = candidates.filter((ticket) => ticket.id !== id);
+    setCandidates(remaining);
+    if (primaryId === id) setPrimaryId(oldestTicket(remaining)?.id);
+  };
+
+  const canMerge = !!primaryId && candidates.length >= 2 && !mergeMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge Tickets
+          </DialogTitle>
+          <DialogDescription>
+            Comments, attachments, history and watchers move to the primary ticket. The others are closed and link to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="text-sm font-medium">Primary ticket</Label>
+            <RadioGroup value={primaryId} onValueChange={setPrimaryId} className="mt-2 space-y-1">
+              {candidates.map((ticket) => (
+                <div
+                  key={ticket.id}
+                  className="flex items-center gap-3 rounded-lg border border-border p-2"
+                  data-testid={`merge-candidate-${ticket.id}`}
+                >
+                  <RadioGroupItem value={ticket.id} id={`merge-${ticket.id}`} />
+                  <Label htmlFor={`merge-${ticket.id}`} className="min-w-0 flex-1 cursor-pointer font-normal">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs text-muted-foreground">{ticket.ticketNumber}</span>
+                      <StatusBadge status={ticket.status || "new"} />
+                    </div>
+                    <p className="text-sm truncate">{ticket.title}</p>
+                    {ticket.createdAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Created {formatDistanceToNow(new Date(ticket.createdAt), { addSuffix: true })}
+                      </p>
+                    )}
+                  </Label>
+                  <Button variant="ghost" size="icon" onClick={() => removeCandidate(ticket.id)} title="Remove from merge">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium">Add a duplicate</Label>
+            <div className="relative mt-2">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by number, title or customer..."
+                className="pl-9"
+                data-testid="input-merge-search"
+              />
+              {isFetching && (
+                <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+              )}
+            </div>
+            {debouncedQuery.length >= MIN_QUERY_LENGTH && addable.length > 0 && (
+              <div className="mt-2 max-h-40 overflow-y-auto rounded-lg border border-border p-1">
+                {addable.map((result) => (
+                  <button
+                    key={result.id}
+                    type="button"
+                    onClick={() => {
+                      setCandidates([...candidates, result]);
+                      setQuery("");
+                    }}
+                    className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent"
+                  >
+                    <span className="font-mono text-xs text-muted-foreground">{result.ticketNumber}</span>
+                    <span className="truncate">{result.title}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium">Reason (optional)</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Same customer reported the issue twice"
+              className="mt-2 min-h-16"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => mergeMutation.mutate()} disabled={!canMerge} data-testid="button-confirm-merge">
+            {mergeMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+            Merge {Math.max(candidates.length - 1, 0)} into primary
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
+import { Mail, Loader2, RotateCcw } from "lucide-react";
+import type { NotificationOutboxMessage, OutboxStatus } from "@shared/schema";
+
+interface OutboxResponse {
+  messages: NotificationOutboxMessage[];
+  counts: Record<OutboxStatus, number>;
+}
+
+const STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: "Pending",
+  sending: "Sending",
+  sent: "Sent",
+  dead: "Failed",
+};
+
+const STATUS_VARIANTS: Record<OutboxStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  sending: "outline",
+  sent: "default",
+  dead: "destructive",
+};
+
+function relative(value: string | Date | null) {
+  return value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : "—";
+}
+
+export function NotificationOutboxManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { canManageSettings } = useUserRole();
+  const [status, setStatus] = useState<OutboxStatus>("dead");
+
+  const { data, isLoading } = useQuery<OutboxResponse>({
+    queryKey: ["/api/notification-outbox", status],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/notification-outbox?status=${status}`);
+      return res.json();
+    },
+    enabled: canManageSettings,
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/notification-outbox/${id}/resend`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-outbox"] });
+      toast({
+        title: "Email Requeued",
+        description: "The message will be retried shortly.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canManageSettings) return null;
+
+  const messages = data?.messages || [];
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5 text-primary" />
+              Email Delivery
+            </CardTitle>
+            <CardDescription>
+              Notification emails are retried with backoff; messages that keep failing end up here
+            </CardDescription>
+          </div>
+          <Select value={status} onValueChange={(value) => setStatus(value as OutboxStatus)}>
+            <SelectTrigger className="w-40" data-testid="select-outbox-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(STATUS_LABELS) as OutboxStatus[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {STATUS_LABELS[key]} ({data?.counts[key] ?? 0})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No {STATUS_LABELS[status].toLowerCase()} emails
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                className="flex items-start justify-between gap-4 p-3 rounded-xl bg-muted/30"
+                data-testid={`outbox-message-${message.id}`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium truncate">{message.recipientEmail}</span>
+                    <Badge variant="outline" className="text-xs">{message.eventType}</Badge>
+                    <Badge variant={STATUS_VARIANTS[message.status as OutboxStatus]} className="text-xs">
+                      {STATUS_LABELS[message.status as OutboxStatus] || message.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {message.attempts}/{message.maxAttempts} attempts · queued {relative(message.createdAt)}
+                    {message.status === "pending" && ` · next try ${relative(message.nextAttemptAt)}`}
+                    {message.status === "sent" && ` · sent ${relative(message.sentAt)}`}
+                  </p>
+                  {message.lastError && (
+                    <p className="text-xs text-destructive break-words">{message.lastError}</p>
+                  )}
+                </div>
+                {(message.status === "dead" || message.status === "pending") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resendMutation.mutate(message.id)}
+                    disabled={resendMutation.isPending}
+                    data-testid={`button-resend-${message.id}`}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {message.status === "dead" ? "Resend" : "Retry now"}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { timeZoneOptions } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Bell, Loader2, Moon } from "lucide-react";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_EVENT_LABELS,
+  supportsChannel,
+  type ChannelMatrix,
+  type NotificationChannel,
+  type NotificationEvent,
+} from "@shared/notificationPreferences";
+import { PRIORITIES, type NotificationPreferences, type UpdateNotificationPreferences } from "@shared/schema";
+
+type ResolvedPreferences = Omit<NotificationPreferences, "channels"> & { channels: ChannelMatrix };
+
+export function NotificationPreferencesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preferences, isLoading } = useQuery<ResolvedPreferences>({
+    queryKey: ["/api/notification-preferences"],
+  });
+
+  const timeZones = useMemo(() => timeZoneOptions(preferences?.timeZone || ""), [preferences?.timeZone]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: UpdateNotificationPreferences) => {
+      const res = await apiRequest("PUT", "/api/notification-preferences", updates);
+      return res.json();
+    },
+    onSuccess: (updated: ResolvedPreferences) => {
+      queryClient.setQueryData(["/api/notification-preferences"], updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !preferences) {
+    return (
+      <Card className="glass-card">
+        <CardContent className="flex items-center justify-center p-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const update = (updates: UpdateNotificationPreferences) => updateMutation.mutate(updates);
+  const setChannel = (event: NotificationEvent, channel: NotificationChannel, checked: boolean) =>
+    update({ channels: { [event]: { [channel]: checked } } });
+  const toggleOverride = (priority: string, checked: boolean) =>
+    update({
+      overridePriorities: checked
+        ? [...preferences.overridePriorities, priority]
+        : preferences.overridePriorities.filter((p) => p !== priority),
+    });
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5 text-primary" />
+          Notification Preferences
+        </CardTitle>
+        <CardDescription>
+          Choose how each kind of event reaches you; changes are saved as you make them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border/50">
+                <th className="text-left font-medium py-2">Event</th>
+                {NOTIFICATION_CHANNELS.map((channel) => (
+                  <th key={channel} className="font-medium py-2 px-3 w-20 text-center">
+                    {NOTIFICATION_CHANNEL_LABELS[channel]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {NOTIFICATION_EVENTS.map((event) => (
+                <tr key={event} className="border-b border-border/50 last:border-0">
+                  <td className="py-3">
+                    <p className="font-medium">{NOTIFICATION_EVENT_LABELS[event].label}</p>
+                    <p className="text-muted-foreground">{NOTIFICATION_EVENT_LABELS[event].description}</p>
+                  </td>
+                  {NOTIFICATION_CHANNELS.map((channel) => (
+                    <td key={channel} className="py-3 px-3 text-center">
+                      {supportsChannel(event, channel) ? (
+                        <Switch
+                          checked={preferences.channels[event][channel]}
+                          onCheckedChange={(checked) => setChannel(event, channel, checked)}
+                          aria-label={`${NOTIFICATION_EVENT_LABELS[event].label}: ${NOTIFICATION_CHANNEL_LABELS[channel]}`}
+                          data-testid={`switch-${event}-${channel}`}
+                        />
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="font-medium flex items-center gap-2">
+                <Moon className="h-4 w-4" />
+                Quiet hours
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Emails wait until quiet hours end and push notifications stay silent
+              </p>
+            </div>
+            <Switch
+              checked={preferences.quietHoursEnabled}
+              onCheckedChange={(checked) => update({ quietHoursEnabled: checked })}
+              data-testid="switch-quiet-hours"
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="quiet-hours-start">From</Label>
+              <Input
+                id="quiet-hours-start"
+                type="time"
+                defaultValue={preferences.quietHoursStart}
+                key={`start-${preferences.quietHoursStart}`}
+                disabled={!preferences.quietHoursEnabled}
+                onBlur={(e) => {
+                  if (e.target.value && e.target.value !== preferences.quietHoursStart) update({ quietHoursStart: e.target.value });
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet-hours-end">Until</Label>
+              <Input
+                id="quiet-hours-end"
+                type="time"
+                defaultValue={preferences.quietHoursEnd}
+                key={`end-${preferences.quietHoursEnd}`}
+                disabled={!preferences.quietHoursEnabled}
+                onBlur={(e) => {
+                  if (e.target.value && e.target.value !== preferences.quietHoursEnd) update({ quietHoursEnd: e.target.value });
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Time zone</Label>
+              <Select
+                value={preferences.timeZone}
+                onValueChange={(timeZone) => update({ timeZone })}
+                disabled={!preferences.quietHoursEnabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeZones.map((zone) => (
+                    <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="space-y-0.5">
+            <Label className="font-medium">Always reach me for</Label>
+            <p className="text-sm text-muted-foreground">
+              Tickets with these priorities ignore quiet hours and always notify you in-app and by push
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {PRIORITIES.map((priority) => (
+              <label key={priority} className="flex items-center gap-2 text-sm capitalize">
+                <Checkbox
+                  checked={preferences.overridePriorities.includes(priority)}
+                  onCheckedChange={(checked) => toggleOverride(priority, checked === true)}
+                  data-testid={`checkbox-override-${priority}`}
+                />
+                {priority}
+              </label>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -30,8 +30,8 @@ import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
+import { createTicket, describeRouting } from "@/lib/ticketApi";
 import { TicketPreviewModal, type TicketPreviewData } from "@/components/ticket-preview-modal";
 import { 
   detectPriority, 
@@ -71,7 +71,6 @@ export function AIAssistantPanel({
   className,
 }: AIAssistantPanelProps) {
   const { toast } = useToast();
-  const { user } = useAuth();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -393,54 +392,39 @@ export function AIAssistantPanel({
     setIsCreatingTicket(true);
 
     try {
-      // Generate ticket number
-      const now = new Date();
-      const year = now.getFullYear().toString().slice(-2);
-      const month = (now.getMonth() + 1).toString().padStart(2, '0');
-      const day = now.getDate().toString().padStart(2, '0');
-      const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-      const ticketNumber = `TKT-${year}${month}${day}-${random}`;
-
       // Create the ticket
-      const { data: ticket, error } = await supabase
-        .from('tickets')
-        .insert([{
-          ticketNumber,
-          title: ticketPreviewData.title,
-          description: ticketPreviewData.description,
-          categoryId: ticketPreviewData.categoryId,
-          subcategoryId: ticketPreviewData.subcategoryId || null,
-          studioId: ticketPreviewData.studioId,
-          priority: ticketPreviewData.priority,
-          status: 'new',
-          assignedDepartmentId: ticketPreviewData.assignedDepartmentId || null,
-          assignedToUserId: ticketPreviewData.assignedToUserId || null,
-          customerName: ticketPreviewData.customerName || null,
-          customerEmail: ticketPreviewData.customerEmail || null,
-          customerPhone: ticketPreviewData.customerPhone || null,
-          clientMood: ticketPreviewData.clientMood || null,
-          tags: ticketPreviewData.tags,
-          source: 'ai-assistant',
-          reportedByUserId: user?.id || null,
-          dynamicFieldData: {
-            trainerName: ticketPreviewData.trainerName,
-            className: ticketPreviewData.className,
-            classDateTime: ticketPreviewData.classDateTime,
-            aiGenerated: true,
-            aiReasoning: ticketPreviewData.aiReasoning,
-          },
-        }])
-        .select()
-        .single();
+      const ticket = await createTicket({
+        title: ticketPreviewData.title,
+        description: ticketPreviewData.description,
+        categoryId: ticketPreviewData.categoryId,
+        subcategoryId: ticketPreviewData.subcategoryId || null,
+        studioId: ticketPreviewData.studioId,
+        priority: ticketPreviewData.priority,
+        assignedDepartmentId: ticketPreviewData.assignedDepartmentId || null,
+        assignedToUserId: ticketPreviewData.assignedToUserId || null,
+        customerName: ticketPreviewData.customerName || null,
+        customerEmail: ticketPreviewData.customerEmail || null,
+        customerPhone: ticketPreviewData.customerPhone || null,
+        clientMood: ticketPreviewData.clientMood || null,
+        tags: ticketPreviewData.tags,
+        source: 'ai-assistant',
+        dynamicFieldData: {
+          trainerName: ticketPreviewData.trainerName,
+          className: ticketPreviewData.className,
+          classDateTime: ticketPreviewData.classDateTime,
+          aiGenerated: true,
+          aiReasoning: ticketPreviewData.aiReasoning,
+        },
+      });
 
-      if (error) throw error;
+      const ticketNumber = ticket.ticketNumber;
 
       // Close preview modal
       setShowPreviewModal(false);
 
       toast({
         title: "Ticket Created Successfully! 🎉",
-        description: `Ticket ${ticketNumber} has been created and assigned.`,
+        description: `Ticket ${ticketNumber} has been created. ${describeRouting(ticket.routing)}.`,
       });
 
       // Add success message
@@ -449,7 +433,7 @@ export function AIAssistantPanel({
         role: "assistant",
         content: `🎉 **Ticket Created Successfully!**\n\n` +
           `📋 Ticket Number: **${ticketNumber}**\n` +
-          `📂 Assigned to: ${ticketPreviewData.departmentName}\n` +
+          `📂 Assigned to: ${ticket.routing.department || ticketPreviewData.departmentName}\n` +
           `👤 Assignee: ${ticketPreviewData.assigneeName || 'Pending assignment'}\n\n` +
           `The ticket is now in the system and will be handled according to its priority.`,
         timestamp: new Date(),
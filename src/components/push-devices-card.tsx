@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  disablePushOnThisDevice,
+  enablePushOnThisDevice,
+  getCurrentPushSubscription,
+  isPushSupported,
+} from "@/lib/pushNotifications";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { BellRing, Loader2, Send, Smartphone, Trash2 } from "lucide-react";
+
+interface PushDevice {
+  id: string;
+  endpoint: string;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastSuccessAt: string | null;
+}
+
+// A readable device name from the user agent, e.g. "Chrome on macOS"
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown browser";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os = /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Linux/.test(userAgent) ? "Linux"
+    : "";
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export function PushDevicesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const supported = isPushSupported();
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCurrentPushSubscription().then((subscription) => setCurrentEndpoint(subscription?.endpoint || null));
+  }, []);
+
+  const { data: devices = [], isLoading } = useQuery<PushDevice[]>({
+    queryKey: ["/api/push-subscriptions"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const enableMutation = useMutation({
+    mutationFn: enablePushOnThisDevice,
+    onSuccess: (subscription) => {
+      setCurrentEndpoint(subscription.endpoint);
+      queryClient.invalidateQueries({ queryKey: ["/api/push-subscriptions"] });
+      toast({
+        title: "Push Enabled",
+        description: "This device will now receive push notifications.",
+      });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (device: PushDevice) => {
+      if (device.endpoint === currentEndpoint) {
+        await disablePushOnThisDevice(device.id);
+        setCurrentEndpoint(null);
+      } else {
+        await apiRequest("DELETE", `/api/push-subscriptions/${device.id}`);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/push-subscriptions"] });
+    },
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/push-subscriptions/test");
+      return res.json() as Promise<{ sent: number; failed: number; removed: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/push-subscriptions"] });
+      toast({
+        title: result.sent > 0 ? "Test Push Sent" : "No Devices Reached",
+        description: result.sent > 0
+          ? `Delivered to ${result.sent} device${result.sent === 1 ? "" : "s"}.`
+          : "Enable push on this device first.",
+      });
+    },
+    onError,
+  });
+
+  const thisDeviceEnabled = !!currentEndpoint && devices.some((device) => device.endpoint === currentEndpoint);
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-primary" />
+          Push Notifications
+        </CardTitle>
+        <CardDescription>
+          Assignments, escalations and SLA warnings pop up on your devices, even when the app isn't open
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : devices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No devices receive push notifications yet</p>
+        ) : (
+          <div className="space-y-2">
+            {devices.map((device) => (
+              <div
+                key={device.id}
+                className="flex items-center justify-between gap-4 p-3 rounded-xl bg-muted/30"
+                data-testid={`push-device-${device.id}`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <Smartphone className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{describeDevice(device.userAgent)}</span>
+                      {device.endpoint === currentEndpoint && <Badge variant="secondary" className="text-xs">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {device.lastSuccessAt
+                        ? `Last push ${formatDistanceToNow(new Date(device.lastSuccessAt), { addSuffix: true })}`
+                        : device.createdAt
+                          ? `Added ${formatDistanceToNow(new Date(device.createdAt), { addSuffix: true })}`
+                          : ""}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeMutation.mutate(device)}
+                  disabled={removeMutation.isPending}
+                  aria-label="Remove device"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2 pt-2">
+          {devices.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => testMutation.mutate()}
+              disabled={testMutation.isPending}
+              className="rounded-xl"
+              data-testid="button-test-push"
+            >
+              {testMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send test push
+            </Button>
+          )}
+          {supported && !thisDeviceEnabled && (
+            <Button
+              onClick={() => enableMutation.mutate()}
+              disabled={enableMutation.isPending}
+              className="rounded-xl"
+              data-testid="button-enable-push"
+            >
+              {enableMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BellRing className="h-4 w-4 mr-2" />}
+              Enable on this device
+            </Button>
+          )}
+        </div>
+        {!supported && (
+          <p className="text-xs text-muted-foreground">This browser doesn't support push notifications.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,25 @@
+import { cn } from "@/lib/utils";
+
+interface SearchSnippetProps {
+  snippet: string;
+  className?: string;
+}
+
+// Renders a search snippet, highlighting the <mark>-wrapped terms as text rather
+// than HTML so ticket content can never inject markup
+export function SearchSnippet({ snippet, className }: SearchSnippetProps) {
+  const parts = snippet.split(/<\/?mark>/);
+  return (
+    <span className={cn("text-xs text-muted-foreground line-clamp-2", className)}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </span>
+  );
+}
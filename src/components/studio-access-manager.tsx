@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Plus, Trash2, Loader2 } from "lucide-react";
+import { STUDIO_ACCESS_LEVELS, type StudioAccess, type StudioAccessLevel } from "@shared/schema";
+
+interface StudioAccessGrant extends StudioAccess {
+  user: { id: string; email: string | null; firstName: string | null; lastName: string | null; displayName: string | null } | null;
+  studio: { id: string; name: string; code: string | null } | null;
+}
+
+interface StudioOption {
+  id: string;
+  name: string;
+}
+
+const ACCESS_LEVEL_LABELS: Record<StudioAccessLevel, string> = {
+  read: "Read",
+  write: "Read & update",
+  admin: "Full",
+};
+
+function userLabel(user: StudioAccessGrant["user"]): string {
+  if (!user) return "Unknown user";
+  return user.displayName || [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+}
+
+export function StudioAccessManager({ studios }: { studios: StudioOption[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [userId, setUserId] = useState("");
+  const [studioId, setStudioId] = useState("");
+  const [accessLevel, setAccessLevel] = useState<StudioAccessLevel>("read");
+
+  const { data: grants = [], isLoading } = useQuery<StudioAccessGrant[]>({
+    queryKey: ["/api/studio-access"],
+  });
+
+  const { data: users = [] } = useQuery({
+    queryKey: ["users-list"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("users")
+        .select("id, firstName, lastName, displayName, email")
+        .eq("isActive", true)
+        .order("displayName");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const grantMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/studio-access", { userId, studioId, accessLevel }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/studio-access"] });
+      toast({ title: "Access Granted", description: "The user can now see tickets from this studio." });
+      setUserId("");
+      setStudioId("");
+      setAccessLevel("read");
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/studio-access/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/studio-access"] });
+      toast({ title: "Access Revoked", description: "Studio access has been removed." });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          Studio Access
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Users see tickets from their home studio. Grant access here to let them see other studios.
+        </p>
+      </div>
+
+      <Card className="glass-card">
+        <CardContent className="pt-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_180px_auto] gap-3">
+            <Select value={userId} onValueChange={setUserId}>
+              <SelectTrigger data-testid="select-access-user">
+                <SelectValue placeholder="Select user" />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {userLabel(user)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={studioId} onValueChange={setStudioId}>
+              <SelectTrigger data-testid="select-access-studio">
+                <SelectValue placeholder="Select studio" />
+              </SelectTrigger>
+              <SelectContent>
+                {studios.map((studio) => (
+                  <SelectItem key={studio.id} value={studio.id}>
+                    {studio.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={accessLevel} onValueChange={(value) => setAccessLevel(value as StudioAccessLevel)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STUDIO_ACCESS_LEVELS.map((level) => (
+                  <SelectItem key={level} value={level}>
+                    {ACCESS_LEVEL_LABELS[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => grantMutation.mutate()}
+              disabled={!userId || !studioId || grantMutation.isPending}
+              data-testid="button-grant-access"
+            >
+              {grantMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4 mr-2" />
+              )}
+              Grant
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : grants.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No additional studio access has been granted
+            </p>
+          ) : (
+            <div className="divide-y divide-border">
+              {grants.map((grant) => (
+                <div key={grant.id} className="flex items-center justify-between gap-3 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{userLabel(grant.user)}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {grant.studio?.name || grant.studioId}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">
+                      {ACCESS_LEVEL_LABELS[(grant.accessLevel || "read") as StudioAccessLevel] || grant.accessLevel}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => revokeMutation.mutate(grant.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-access-${grant.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
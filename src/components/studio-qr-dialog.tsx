@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Copy, Download, ExternalLink, QrCode } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import type { Studio } from "@shared/schema";
+
+// Large enough to print at poster size without blurring
+const QR_SIZE = 1024;
+
+interface StudioQrDialogProps {
+  studio: Studio;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function feedbackUrl(studioId: string, location: string): string {
+  const url = new URL(`/feedback/${studioId}`, window.location.origin);
+  if (location.trim()) url.searchParams.set("location", location.trim());
+  return url.toString();
+}
+
+function fileName(studio: Studio, location: string): string {
+  return [studio.code || studio.name, location.trim(), "feedback-qr"]
+    .filter(Boolean)
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") + ".png";
+}
+
+// QR codes for a studio's public feedback form, one per spot they're posted at
+export function StudioQrDialog({ studio, open, onOpenChange }: StudioQrDialogProps) {
+  const { toast } = useToast();
+  const [location, setLocation] = useState("");
+  const [image, setImage] = useState<string | null>(null);
+  const url = feedbackUrl(studio.id, location);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    QRCode.toDataURL(url, { width: QR_SIZE, margin: 2, errorCorrectionLevel: "M" })
+      .then((dataUrl) => { if (!cancelled) setImage(dataUrl); })
+      .catch(() => { if (!cancelled) setImage(null); });
+    return () => { cancelled = true; };
+  }, [open, url]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Couldn't copy the link", variant: "destructive" });
+    }
+  };
+
+  const download = () => {
+    if (!image) return;
+    const link = document.createElement("a");
+    link.href = image;
+    link.download = fileName(studio, location);
+    link.click();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" />
+            Feedback QR Code
+          </DialogTitle>
+          <DialogDescription>
+            Customers who scan it can report an issue or leave feedback for {studio.name} without an account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="qr-location">Location tag (optional)</Label>
+            <Input
+              id="qr-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="e.g. Reception, Changing room, Reformer 3"
+              maxLength={100}
+              data-testid="input-qr-location"
+            />
+          </div>
+
+          <div className="flex justify-center rounded-xl bg-white p-4">
+            {image ? (
+              <img src={image} alt={`Feedback QR code for ${studio.name}`} className="h-56 w-56" />
+            ) : (
+              <div className="h-56 w-56" />
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground break-all text-center">{url}</p>
+
+          <div className="flex flex-wrap gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={copyLink} data-testid="button-qr-copy">
+              <Copy className="h-4 w-4 mr-2" />
+              Copy Link
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={url} target="_blank" rel="noreferrer">
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Open Form
+              </a>
+            </Button>
+            <Button size="sm" onClick={download} disabled={!image} data-testid="button-qr-download">
+              <Download className="h-4 w-4 mr-2" />
+              Download PNG
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
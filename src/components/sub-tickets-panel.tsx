@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { ListTree, Plus, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StatusBadge } from "@/components/status-badge";
+import { PriorityBadge } from "@/components/priority-badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { createSubTicket, type SubTicketList } from "@/lib/ticketApi";
+import { supabase } from "@/integrations/supabase/client";
+import { PRIORITIES } from "@/lib/constants";
+
+interface SubTicketsPanelProps {
+  ticket: {
+    id: string;
+    priority: string | null;
+    blockCloseWithOpenChildren: boolean;
+    mergedIntoTicketId: string | null;
+  };
+  canManage: boolean;
+}
+
+const NO_DEPARTMENT = "auto";
+
+export function SubTicketsPanel({ ticket, canManage }: SubTicketsPanelProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [departmentId, setDepartmentId] = useState(NO_DEPARTMENT);
+  const [priority, setPriority] = useState(ticket.priority || "medium");
+  const queryKey = ["/api/tickets", ticket.id, "children"];
+
+  const { data, isLoading } = useQuery<SubTicketList>({ queryKey });
+  const children = data?.children || [];
+  const progress = data?.progress;
+
+  const { data: departments = [] } = useQuery({
+    queryKey: ["departments"],
+    enabled: canManage,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("departments")
+        .select("id, name")
+        .eq("isActive", true);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["ticket-detail", ticket.id] });
+    queryClient.invalidateQueries({ queryKey: ["tickets"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      createSubTicket(ticket.id, {
+        title: title.trim(),
+        priority,
+        assignedDepartmentId: departmentId === NO_DEPARTMENT ? undefined : departmentId,
+      }),
+    onSuccess: (created) => {
+      refresh();
+      setTitle("");
+      setDepartmentId(NO_DEPARTMENT);
+      toast({ title: "Sub-ticket created", description: `${created.ticketNumber}: ${created.title}` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create sub-ticket", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const blockingMutation = useMutation({
+    mutationFn: async (blockCloseWithOpenChildren: boolean) =>
+      apiRequest("PATCH", `/api/tickets/${ticket.id}`, { blockCloseWithOpenChildren }),
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canAdd = canManage && !ticket.mergedIntoTicketId;
+  if (!isLoading && children.length === 0 && !canAdd) return null;
+
+  return (
+    <Card data-testid="card-sub-tickets">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ListTree className="h-5 w-5" />
+          Sub-tickets
+          {progress && progress.total > 0 && (
+            <span className="text-sm font-normal text-muted-foreground">
+              {progress.done} of {progress.total} done
+            </span>
+          )}
+        </CardTitle>
+        <CardDescription>Split the work across teams; each sub-ticket is tracked on its own.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {progress && progress.total > 0 && <Progress value={progress.percent} className="h-2" />}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          children.length > 0 && (
+            <div className="space-y-2">
+              {children.map((child) => (
+                <button
+                  key={child.id}
+                  type="button"
+                  onClick={() => navigate(`/tickets/${child.id}`)}
+                  className="flex w-full items-center gap-3 rounded-lg border border-border p-3 text-left hover:bg-accent/50"
+                  data-testid={`sub-ticket-${child.id}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs text-muted-foreground">{child.ticketNumber}</span>
+                      {child.department && (
+                        <span className="text-xs text-muted-foreground">· {child.department.name}</span>
+                      )}
+                    </div>
+                    <p className="text-sm font-medium truncate">{child.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {child.assignedTo?.displayName || child.assignedTo?.firstName || "Unassigned"}
+                    </p>
+                  </div>
+                  <PriorityBadge priority={child.priority || "medium"} />
+                  <StatusBadge status={child.status || "new"} />
+                </button>
+              ))}
+            </div>
+          )
+        )}
+
+        {canAdd && (
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Facilities: repair the AC unit"
+              className="flex-1"
+              data-testid="input-sub-ticket-title"
+            />
+            <Select value={departmentId} onValueChange={setDepartmentId}>
+              <SelectTrigger className="sm:w-40">
+                <SelectValue placeholder="Department" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_DEPARTMENT}>Auto-route</SelectItem>
+                {departments.map((department) => (
+                  <SelectItem key={department.id} value={department.id}>
+                    {department.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={priority} onValueChange={setPriority}>
+              <SelectTrigger className="sm:w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PRIORITIES).map(([value, config]) => (
+                  <SelectItem key={value} value={value}>
+                    {config.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!title.trim() || createMutation.isPending}
+              data-testid="button-add-sub-ticket"
+            >
+              {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add
+            </Button>
+          </div>
+        )}
+
+        {canManage && (children.length > 0 || canAdd) && (
+          <div className="flex items-center justify-between gap-3 rounded-lg bg-muted/30 p-3">
+            <Label htmlFor="block-close-with-children" className="text-sm font-normal">
+              Block closing this ticket while sub-tickets are open
+            </Label>
+            <Switch
+              id="block-close-with-children"
+              checked={ticket.blockCloseWithOpenChildren}
+              onCheckedChange={(checked) => blockingMutation.mutate(checked)}
+              disabled={blockingMutation.isPending}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+import { useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Paperclip, Upload, Download, Trash2, Globe, Lock, Loader2, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_ATTACHMENTS_PER_UPLOAD, uploadAttachments, type AttachmentWithUrl } from "@/lib/ticketApi";
+
+function formatFileSize(bytes: number | null): string {
+  if (!bytes) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function TicketAttachments({ ticketId }: { ticketId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryKey = ["/api/tickets", ticketId, "attachments"];
+
+  const { data: attachments = [], isLoading } = useQuery<AttachmentWithUrl[]>({ queryKey });
+
+  const uploadMutation = useMutation({
+    mutationFn: (files: File[]) => uploadAttachments(ticketId, files),
+    onSuccess: (uploaded) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Files uploaded", description: `${uploaded.length} file${uploaded.length !== 1 ? "s" : ""} attached.` });
+    },
+    onError: (error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const visibilityMutation = useMutation({
+    mutationFn: async ({ id, isPublic }: { id: string; isPublic: boolean }) =>
+      apiRequest("PATCH", `/api/attachments/${id}`, { isPublic }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/attachments/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Attachment removed" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = "";
+    if (files.length === 0) return;
+    if (files.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+      toast({ title: "Too many files", description: `Upload at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time.`, variant: "destructive" });
+      return;
+    }
+    uploadMutation.mutate(files);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          Files marked public are visible to the customer.
+        </p>
+        <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFiles} />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadMutation.isPending}
+          data-testid="button-upload-attachment"
+        >
+          {uploadMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+          Upload
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : attachments.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Paperclip className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No attachments</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.id}
+              className="flex items-center gap-3 rounded-lg border border-border p-2"
+              data-testid={`attachment-${attachment.id}`}
+            >
+              <a href={attachment.downloadUrl} target="_blank" rel="noreferrer" className="shrink-0">
+                {attachment.mimeType?.startsWith("image/") ? (
+                  <img
+                    src={attachment.downloadUrl}
+                    alt={attachment.originalFileName}
+                    className="h-14 w-14 rounded-md object-cover"
+                  />
+                ) : (
+                  <div className="h-14 w-14 rounded-md bg-muted flex items-center justify-center">
+                    <FileText className="h-6 w-6 text-muted-foreground" />
+                  </div>
+                )}
+              </a>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{attachment.originalFileName}</p>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>{formatFileSize(attachment.fileSize)}</span>
+                  {attachment.createdAt && (
+                    <span>{formatDistanceToNow(new Date(attachment.createdAt), { addSuffix: true })}</span>
+                  )}
+                  {attachment.commentId && <Badge variant="secondary" className="text-[10px]">Comment</Badge>}
+                </div>
+              </div>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={attachment.isPublic ? "Public — click to make internal" : "Internal — click to make public"}
+                  onClick={() => visibilityMutation.mutate({ id: attachment.id, isPublic: !attachment.isPublic })}
+                  disabled={visibilityMutation.isPending}
+                >
+                  {attachment.isPublic ? <Globe className="h-4 w-4 text-primary" /> : <Lock className="h-4 w-4" />}
+                </Button>
+                <Button variant="ghost" size="icon" asChild>
+                  <a href={`${attachment.downloadUrl}&download=1`} title="Download">
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(attachment.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-attachment-${attachment.id}`}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, CheckCircle, Loader2, Star } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { CustomerFeedback } from "@shared/schema";
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <span className="flex items-center gap-0.5" aria-label={`${rating} out of 5`}>
+      {[1, 2, 3, 4, 5].map((value) => (
+        <Star
+          key={value}
+          className={cn("h-4 w-4", value <= rating ? "fill-amber-400 text-amber-400" : "text-muted-foreground/30")}
+        />
+      ))}
+    </span>
+  );
+}
+
+// The customer's CSAT answers for a ticket; hidden until there are any
+export function TicketFeedback({ ticketId }: { ticketId: string }) {
+  const { canManageTickets } = useUserRole();
+  const { toast } = useToast();
+  const queryKey = ["/api/tickets", ticketId, "feedback"];
+
+  const { data: feedback = [] } = useQuery<CustomerFeedback[]>({ queryKey });
+
+  const followUpMutation = useMutation({
+    mutationFn: async (feedbackId: string) => {
+      await apiRequest("PATCH", `/api/tickets/${ticketId}/feedback/${feedbackId}`, { followUpRequired: false });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["ticket-detail", ticketId] });
+      toast({ title: "Marked as followed up" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const ratings = feedback.filter((entry) => entry.rating !== null);
+  if (ratings.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Star className="h-5 w-5" />
+          Customer Feedback
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {ratings.map((entry) => (
+          <div key={entry.id} className="space-y-2" data-testid={`feedback-${entry.id}`}>
+            <div className="flex items-center justify-between gap-2">
+              <Stars rating={entry.rating!} />
+              {entry.createdAt && (
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                </span>
+              )}
+            </div>
+            {entry.feedback && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{entry.feedback}</p>}
+            {entry.followUpRequired ? (
+              <div className="flex items-center justify-between gap-2">
+                <Badge variant="destructive" className="gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  Follow-up required
+                </Badge>
+                {canManageTickets && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => followUpMutation.mutate(entry.id)}
+                    disabled={followUpMutation.isPending}
+                    data-testid={`button-followed-up-${entry.id}`}
+                  >
+                    {followUpMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-1" />}
+                    Followed up
+                  </Button>
+                )}
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
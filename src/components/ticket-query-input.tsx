@@ -0,0 +1,217 @@
+import { useMemo, useRef, useState } from "react";
+import { Search, AlertCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { PRIORITIES, STATUSES } from "@shared/schema";
+import {
+  ASSIGNEE_KEYWORDS,
+  CREATED_QUERY_PRESETS,
+  PARENT_KEYWORDS,
+  SLA_QUERY_VALUES,
+  STATUS_GROUPS,
+  TICKET_QUERY_FIELDS,
+  TICKET_QUERY_FIELD_INFO,
+  formatQueryValue,
+  type TicketQueryError,
+  type TicketQueryField,
+} from "@shared/ticketQuery";
+
+export interface QueryValueOption {
+  value: string;
+  label?: string;
+}
+
+interface Suggestion {
+  key: string;
+  label: string;
+  hint?: string;
+  // Replaces the current term from this offset
+  insert: string;
+  from: number;
+}
+
+interface TicketQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Values for fields whose options come from the database (studio, category, ...)
+  options?: Partial<Record<TicketQueryField, QueryValueOption[]>>;
+  errors?: TicketQueryError[];
+  placeholder?: string;
+  className?: string;
+}
+
+const MAX_SUGGESTIONS = 10;
+
+const STATIC_OPTIONS: Partial<Record<TicketQueryField, QueryValueOption[]>> = {
+  status: [...Object.keys(STATUS_GROUPS), ...STATUSES].map(value => ({ value })),
+  priority: PRIORITIES.map(value => ({ value })),
+  assignee: ASSIGNEE_KEYWORDS.map(value => ({ value })),
+  created: CREATED_QUERY_PRESETS.map(value => ({ value })),
+  sla: SLA_QUERY_VALUES.map(value => ({ value })),
+  parent: PARENT_KEYWORDS.map(value => ({ value })),
+};
+
+// Start of the term under the caret, ignoring whitespace inside quotes
+function termStart(text: string, caret: number): number {
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < caret; i++) {
+    if (text[i] === '"') quoted = !quoted;
+    else if (!quoted && /\s/.test(text[i])) start = i + 1;
+  }
+  return start;
+}
+
+function buildSuggestions(
+  text: string,
+  caret: number,
+  options: Partial<Record<TicketQueryField, QueryValueOption[]>>,
+): Suggestion[] {
+  const start = termStart(text, caret);
+  const term = text.slice(start, caret);
+
+  const fieldMatch = term.match(/^(-?)([a-z]*)$/i);
+  if (fieldMatch) {
+    const [, negation, partial] = fieldMatch;
+    return TICKET_QUERY_FIELDS
+      .filter(field => field.startsWith(partial.toLowerCase()))
+      .map(field => ({
+        key: `field-${field}`,
+        label: `${negation}${field}:`,
+        hint: TICKET_QUERY_FIELD_INFO[field].description,
+        insert: `${negation}${field}:`,
+        from: start,
+      }));
+  }
+
+  const valueMatch = term.match(/^-?([a-z]+)(?::>=|:<=|:>|:<|>=|<=|>|<|:)(.*)$/i);
+  const field = valueMatch?.[1].toLowerCase() as TicketQueryField | undefined;
+  if (!valueMatch || !field || !TICKET_QUERY_FIELDS.includes(field)) return [];
+
+  // Complete the value after the last comma
+  const values = valueMatch[2];
+  const lastComma = values.lastIndexOf(",");
+  const partial = values.slice(lastComma + 1).replace(/"/g, "").toLowerCase();
+  const from = caret - (values.length - lastComma - 1);
+  const candidates = [...(STATIC_OPTIONS[field] || []), ...(options[field] || [])];
+
+  return candidates
+    .filter(option => {
+      const label = (option.label || option.value).toLowerCase();
+      return option.value.toLowerCase().includes(partial) || label.includes(partial);
+    })
+    .sort((a, b) => Number(b.value.toLowerCase().startsWith(partial)) - Number(a.value.toLowerCase().startsWith(partial)))
+    .map(option => ({
+      key: `${field}-${option.value}`,
+      label: option.label || option.value,
+      hint: option.label && option.label !== option.value ? option.value : undefined,
+      insert: `${formatQueryValue(option.value)} `,
+      from,
+    }));
+}
+
+export function TicketQueryInput({ value, onChange, options = {}, errors = [], placeholder, className }: TicketQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(
+    () => buildSuggestions(value, caret, options).slice(0, MAX_SUGGESTIONS),
+    [value, caret, options]
+  );
+
+  const syncCaret = () => setCaret(inputRef.current?.selectionStart ?? value.length);
+
+  const accept = (suggestion: Suggestion) => {
+    // The suggestion replaces the whole term under the caret
+    const termEnd = caret + (value.slice(caret).match(/^\S*/)?.[0].length ?? 0);
+    const before = value.slice(0, suggestion.from) + suggestion.insert;
+    const after = value.slice(termEnd);
+    onChange(before + (suggestion.insert.endsWith(" ") ? after.replace(/^\s+/, "") : after));
+    setHighlighted(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(before.length, before.length);
+      setCaret(before.length);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return;
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      accept(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (event.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="absolute left-3 top-[18px] -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart ?? e.target.value.length);
+          setHighlighted(0);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={syncCaret}
+        onClick={syncCaret}
+        onFocus={() => {
+          syncCaret();
+          setOpen(true);
+        }}
+        onBlur={() => setOpen(false)}
+        className="pl-9 rounded-xl border-border font-mono text-sm"
+        spellCheck={false}
+        autoComplete="off"
+        data-testid="input-ticket-query"
+      />
+
+      {open && suggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-xl border border-border bg-popover p-1 shadow-lg">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.key}
+              type="button"
+              // Keep focus in the input so blur doesn't close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(suggestion)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "flex w-full items-center justify-between gap-3 rounded-lg px-3 py-1.5 text-left text-sm",
+                index === highlighted ? "bg-accent text-accent-foreground" : "text-foreground"
+              )}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.hint && <span className="truncate text-xs text-muted-foreground">{suggestion.hint}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {errors.map((error) => (
+            <p key={`${error.term}-${error.message}`} className="flex items-center gap-1.5 text-xs text-destructive">
+              <AlertCircle className="h-3 w-3 shrink-0" />
+              <span className="font-mono">{error.term}</span>
+              <span>{error.message}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Eye, EyeOff, Loader2, UserPlus, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { queryClient } from "@/lib/queryClient";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  unwatchTicket,
+  watchTicket,
+  type TicketWatcherWithUser,
+} from "@/lib/ticketApi";
+import { WATCH_TYPES, type WatchType } from "@shared/schema";
+
+const WATCH_TYPE_LABELS: Record<WatchType, string> = {
+  all: "All activity",
+  updates: "Updates",
+  comments: "Comments",
+  status: "Status changes",
+};
+
+function watcherName(watcher: TicketWatcherWithUser) {
+  const user = watcher.user;
+  if (!user) return "Unknown user";
+  return user.displayName || [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Unknown user";
+}
+
+interface TicketWatchersProps {
+  ticketId: string;
+}
+
+export function TicketWatchers({ ticketId }: TicketWatchersProps) {
+  const { user } = useAuth();
+  const { canManageWatchers } = useUserRole();
+  const { toast } = useToast();
+  const [newWatcherId, setNewWatcherId] = useState("");
+  const queryKey = ["/api/tickets", ticketId, "watchers"];
+
+  const { data: watchers = [], isLoading } = useQuery<TicketWatcherWithUser[]>({ queryKey });
+  const ownWatch = watchers.find((watcher) => watcher.userId === user?.id);
+
+  const { data: colleagues = [] } = useQuery({
+    queryKey: ["users-for-assignment"],
+    enabled: canManageWatchers,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("users")
+        .select("id, firstName, lastName, displayName, email, role, isActive")
+        .eq("isActive", true)
+        .order("displayName");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+  const candidates = colleagues.filter((colleague) => !watchers.some((watcher) => watcher.userId === colleague.id));
+
+  const onError = (error: Error) => {
+    toast({ title: "Failed to update watchers", description: error.message, variant: "destructive" });
+  };
+
+  const watchMutation = useMutation({
+    mutationFn: (data: { userId?: string; watchType?: WatchType }) => watchTicket(ticketId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setNewWatcherId("");
+    },
+    onError,
+  });
+
+  const unwatchMutation = useMutation({
+    mutationFn: (userId: string) => unwatchTicket(ticketId, userId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  const isPending = watchMutation.isPending || unwatchMutation.isPending;
+
+  return (
+    <Card data-testid="card-watchers">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Eye className="h-5 w-5" />
+            Watchers
+            {watchers.length > 0 && (
+              <span className="text-sm font-normal text-muted-foreground">{watchers.length}</span>
+            )}
+          </span>
+          {user?.id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={isPending}
+              onClick={() => (ownWatch ? unwatchMutation.mutate(user.id) : watchMutation.mutate({}))}
+              data-testid="button-toggle-watch"
+            >
+              {ownWatch ? <EyeOff className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+              {ownWatch ? "Unwatch" : "Watch"}
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {ownWatch && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground">Notify me about</span>
+            <Select
+              value={ownWatch.watchType || "all"}
+              onValueChange={(watchType) => watchMutation.mutate({ watchType: watchType as WatchType })}
+              disabled={isPending}
+            >
+              <SelectTrigger className="h-8 w-40" data-testid="select-watch-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WATCH_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {WATCH_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : watchers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nobody is watching this ticket.</p>
+        ) : (
+          <div className="space-y-2">
+            {watchers.map((watcher) => (
+              <div key={watcher.id} className="flex items-center gap-2" data-testid={`watcher-${watcher.userId}`}>
+                <span className="text-sm flex-1 truncate">
+                  {watcherName(watcher)}
+                  {watcher.userId === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                </span>
+                <Badge variant="outline" className="text-xs">
+                  {WATCH_TYPE_LABELS[(watcher.watchType || "all") as WatchType] || watcher.watchType}
+                </Badge>
+                {canManageWatchers && watcher.userId !== user?.id && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    disabled={isPending}
+                    onClick={() => unwatchMutation.mutate(watcher.userId)}
+                    aria-label={`Remove ${watcherName(watcher)}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManageWatchers && (
+          <div className="flex gap-2">
+            <Select value={newWatcherId} onValueChange={setNewWatcherId}>
+              <SelectTrigger className="h-8 flex-1" data-testid="select-add-watcher">
+                <SelectValue placeholder="Add a colleague" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((colleague) => (
+                  <SelectItem key={colleague.id} value={colleague.id}>
+                    {colleague.displayName || [colleague.firstName, colleague.lastName].filter(Boolean).join(" ") || colleague.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              className="h-8"
+              disabled={!newWatcherId || isPending}
+              onClick={() => watchMutation.mutate({ userId: newWatcherId })}
+              data-testid="button-add-watcher"
+            >
+              <UserPlus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -49,8 +49,8 @@ import { Slider } from "@/components/ui/slider";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
+import { createTicket } from "@/lib/ticketApi";
 import { TRAINERS } from "@/lib/constants";
-import { useAuth } from "@/hooks/useAuth";
 
 interface TrainerFeedbackModalProps {
   open: boolean;
@@ -135,7 +135,6 @@ const PERFORMANCE_METRICS = [
 
 export function TrainerFeedbackModal({ open, onOpenChange }: TrainerFeedbackModalProps) {
   const { toast } = useToast();
-  const { user } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [activeTab, setActiveTab] = useState("trainers");
   const [selectedTrainer, setSelectedTrainer] = useState<TrainerProfile | null>(null);
@@ -280,14 +279,6 @@ export function TrainerFeedbackModal({ open, onOpenChange }: TrainerFeedbackModa
     }
 
     try {
-      // Generate ticket number
-      const now = new Date();
-      const year = now.getFullYear().toString().slice(-2);
-      const month = (now.getMonth() + 1).toString().padStart(2, '0');
-      const day = now.getDate().toString().padStart(2, '0');
-      const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-      const ticketNumber = `TKT-${year}${month}${day}-${random}`;
-
       // Get category ID for "Customer Service" or first available
       const { data: categories } = await supabase
         .from('categories')
@@ -346,42 +337,35 @@ ${aiInsights.insights ? `- Insights: ${aiInsights.insights}` : ''}
 ` : ''}`;
 
       // Create the ticket
-      const { data: ticket, error } = await supabase
-        .from('tickets')
-        .insert([{
-          ticketNumber,
-          title,
-          description,
-          categoryId: customerServiceCategory?.id || categories?.[0]?.id,
-          studioId: studios?.id,
-          priority,
-          status: 'new',
-          source: 'trainer-feedback',
-          tags: ['trainer-feedback', selectedTrainer.specialization?.toLowerCase() || '', feedbackType.toLowerCase().replace(' ', '-')].filter(Boolean),
-          reportedByUserId: user?.id,
-          dynamicFieldData: {
-            trainerId: selectedTrainer.id,
-            trainerName: selectedTrainer.name,
-            classType: feedbackForm.classType,
-            classDate: feedbackForm.classDate,
-            overallRating: feedbackForm.overallRating,
-            scores: {
-              technique: feedbackForm.technique,
-              communication: feedbackForm.communication,
-              motivation: feedbackForm.motivation,
-              punctuality: feedbackForm.punctuality,
-              professionalism: feedbackForm.professionalism,
-            },
-            customerName: feedbackForm.customerName,
-            customerEmail: feedbackForm.customerEmail,
-            aiInsights: aiInsights || null,
-            feedbackType: 'trainer-evaluation',
+      const ticket = await createTicket({
+        title,
+        description,
+        categoryId: customerServiceCategory?.id || categories?.[0]?.id,
+        studioId: studios?.id,
+        priority,
+        source: 'trainer-feedback',
+        tags: ['trainer-feedback', selectedTrainer.specialization?.toLowerCase() || '', feedbackType.toLowerCase().replace(' ', '-')].filter(Boolean),
+        dynamicFieldData: {
+          trainerId: selectedTrainer.id,
+          trainerName: selectedTrainer.name,
+          classType: feedbackForm.classType,
+          classDate: feedbackForm.classDate,
+          overallRating: feedbackForm.overallRating,
+          scores: {
+            technique: feedbackForm.technique,
+            communication: feedbackForm.communication,
+            motivation: feedbackForm.motivation,
+            punctuality: feedbackForm.punctuality,
+            professionalism: feedbackForm.professionalism,
           },
-        }])
-        .select()
-        .single();
+          customerName: feedbackForm.customerName,
+          customerEmail: feedbackForm.customerEmail,
+          aiInsights: aiInsights || null,
+          feedbackType: 'trainer-evaluation',
+        },
+      });
 
-      if (error) throw error;
+      const ticketNumber = ticket.ticketNumber;
 
       toast({
         title: "Feedback Ticket Created",
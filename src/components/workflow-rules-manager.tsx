@@ -0,0 +1,855 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
+import {
+  Plus,
+  Edit2,
+  Trash2,
+  Workflow,
+  Filter,
+  Play,
+  Eye,
+  Shield,
+  Loader2,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  CONDITION_OPERATORS,
+  WORKFLOW_ACTION_TYPES,
+  WORKFLOW_CONDITION_FIELDS,
+  WORKFLOW_SETTABLE_FIELDS,
+  type ConditionOperator,
+  type WorkflowAction,
+  type WorkflowActionType,
+  type WorkflowCondition,
+  type WorkflowConditionField,
+  type WorkflowConditionGroup,
+} from "@shared/workflowRules";
+
+interface WorkflowRule {
+  id: string;
+  name: string;
+  description: string | null;
+  triggerEvent: string;
+  conditions: WorkflowConditionGroup;
+  actions: WorkflowAction[];
+  isActive: boolean;
+  runOrder: number;
+}
+
+interface PreviewResult {
+  scanned: number;
+  matches: {
+    id: string;
+    ticketNumber: string | null;
+    title: string;
+    status: string | null;
+    priority: string | null;
+    createdAt: string | null;
+  }[];
+}
+
+const TRIGGER_EVENTS = [
+  { value: "ticket_created", label: "Ticket Created" },
+  { value: "ticket_updated", label: "Ticket Updated" },
+  { value: "status_changed", label: "Status Changed" },
+  { value: "comment_added", label: "Comment Added" },
+];
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  in: "is one of",
+  not_in: "is not one of",
+  contains: "contains",
+  older_than: "older than (hours)",
+  newer_than: "newer than (hours)",
+  tag_present: "has tag",
+  tag_absent: "does not have tag",
+  changed: "changed (to)",
+};
+
+const ACTION_LABELS: Record<WorkflowActionType, string> = {
+  set_field: "Set field",
+  add_tag: "Add tag",
+  assign: "Assign",
+  add_comment: "Add internal comment",
+  notify: "Notify",
+  webhook: "Call webhook",
+};
+
+const NOTIFY_ROLES = ["admin", "manager", "staff"];
+
+const TAG_OPERATORS: ConditionOperator[] = ["tag_present", "tag_absent"];
+
+function defaultAction(type: WorkflowActionType): WorkflowAction {
+  switch (type) {
+    case "set_field":
+      return { type, field: "priority", value: "" };
+    case "add_tag":
+      return { type, tag: "" };
+    case "assign":
+      return { type };
+    case "add_comment":
+      return { type, content: "", isInternal: true };
+    case "notify":
+      return { type, userIds: [], roles: [], assignee: true, reporter: false };
+    case "webhook":
+      return { type, url: "" };
+  }
+}
+
+function describeCondition(condition: WorkflowCondition): string {
+  const value = Array.isArray(condition.value) ? condition.value.join(", ") : condition.value;
+  if (TAG_OPERATORS.includes(condition.operator)) {
+    return `${OPERATOR_LABELS[condition.operator]} ${value ?? ""}`.trim();
+  }
+  return `${condition.field} ${OPERATOR_LABELS[condition.operator]} ${value ?? ""}`.trim();
+}
+
+// Comma-separated input for "in" / "not_in" is stored as a list
+function parseConditionValue(operator: ConditionOperator, raw: string): WorkflowCondition["value"] {
+  if (operator === "in" || operator === "not_in") {
+    return raw.split(",").map(v => v.trim()).filter(Boolean);
+  }
+  if (operator === "older_than" || operator === "newer_than") {
+    return Number(raw) || 0;
+  }
+  if (operator === "changed" && !raw) {
+    return undefined;
+  }
+  return raw;
+}
+
+export function WorkflowRulesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAdminOrManager, isLoading: roleLoading } = useUserRole();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<WorkflowRule | null>(null);
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+
+  const emptyForm = {
+    name: "",
+    description: "",
+    triggerEvent: "ticket_created",
+    match: "all" as "all" | "any",
+    conditions: [] as WorkflowCondition[],
+    actions: [] as WorkflowAction[],
+    runOrder: 0,
+    isActive: true,
+  };
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: rules = [], isLoading } = useQuery<WorkflowRule[]>({
+    queryKey: ["/api/workflow-rules"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: Omit<WorkflowRule, "id">) => {
+      if (editingRule) {
+        return apiRequest("PATCH", `/api/workflow-rules/${editingRule.id}`, data);
+      }
+      return apiRequest("POST", "/api/workflow-rules", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflow-rules"] });
+      toast({
+        title: editingRule ? "Workflow Updated" : "Workflow Created",
+        description: `Workflow rule has been ${editingRule ? "updated" : "created"} successfully.`,
+      });
+      handleCloseDialog();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/workflow-rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflow-rules"] });
+      toast({
+        title: "Workflow Deleted",
+        description: "Workflow rule has been deleted.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/workflow-rules/${id}`, { isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflow-rules"] });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (conditions: WorkflowConditionGroup) => {
+      const res = await apiRequest("POST", "/api/workflow-rules/preview", { conditions });
+      return (await res.json()) as PreviewResult;
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: (error) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (rule?: WorkflowRule) => {
+    setPreview(null);
+    if (rule) {
+      setEditingRule(rule);
+      setFormData({
+        name: rule.name,
+        description: rule.description || "",
+        triggerEvent: rule.triggerEvent,
+        match: rule.conditions?.match || "all",
+        conditions: rule.conditions?.conditions || [],
+        actions: rule.actions || [],
+        runOrder: rule.runOrder,
+        isActive: rule.isActive,
+      });
+    } else {
+      setEditingRule(null);
+      setFormData({ ...emptyForm, runOrder: rules.length });
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setIsDialogOpen(false);
+    setEditingRule(null);
+    setPreview(null);
+  };
+
+  const updateCondition = (index: number, patch: Partial<WorkflowCondition>) => {
+    setFormData(prev => ({
+      ...prev,
+      conditions: prev.conditions.map((c, i) => (i === index ? { ...c, ...patch } : c)),
+    }));
+  };
+
+  const updateAction = (index: number, patch: Partial<WorkflowAction>) => {
+    setFormData(prev => ({
+      ...prev,
+      actions: prev.actions.map((a, i) => (i === index ? ({ ...a, ...patch } as WorkflowAction) : a)),
+    }));
+  };
+
+  const conditionGroup = (): WorkflowConditionGroup => ({
+    match: formData.match,
+    conditions: formData.conditions,
+  });
+
+  const handleSubmit = () => {
+    if (!formData.name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Rule name is required.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (formData.conditions.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Add at least one condition.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (formData.actions.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Add at least one action.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate({
+      name: formData.name,
+      description: formData.description || null,
+      triggerEvent: formData.triggerEvent,
+      conditions: conditionGroup(),
+      actions: formData.actions,
+      runOrder: formData.runOrder,
+      isActive: formData.isActive,
+    });
+  };
+
+  const renderActionFields = (action: WorkflowAction, index: number) => {
+    switch (action.type) {
+      case "set_field":
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={action.field}
+              onValueChange={(value) => updateAction(index, { field: value as typeof action.field })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKFLOW_SETTABLE_FIELDS.map((field) => (
+                  <SelectItem key={field} value={field}>{field}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={typeof action.value === "string" ? action.value : String(action.value ?? "")}
+              onChange={(e) => updateAction(index, { value: e.target.value })}
+              placeholder="New value"
+            />
+          </div>
+        );
+      case "add_tag":
+        return (
+          <Input
+            value={action.tag}
+            onChange={(e) => updateAction(index, { tag: e.target.value })}
+            placeholder="e.g., refund"
+          />
+        );
+      case "assign":
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              value={action.userId || ""}
+              onChange={(e) => updateAction(index, { userId: e.target.value || undefined })}
+              placeholder="User ID"
+            />
+            <Input
+              value={action.teamId || ""}
+              onChange={(e) => updateAction(index, { teamId: e.target.value || undefined })}
+              placeholder="Team ID"
+            />
+            <Input
+              value={action.departmentId || ""}
+              onChange={(e) => updateAction(index, { departmentId: e.target.value || undefined })}
+              placeholder="Department ID"
+            />
+          </div>
+        );
+      case "add_comment":
+        return (
+          <div className="space-y-2">
+            <Textarea
+              value={action.content}
+              onChange={(e) => updateAction(index, { content: e.target.value })}
+              placeholder="Supports {{ticketNumber}}, {{title}}, {{priority}}, {{status}}"
+              rows={2}
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={action.isInternal}
+                onCheckedChange={(checked) => updateAction(index, { isInternal: checked })}
+              />
+              <span className="text-xs text-muted-foreground">Internal note</span>
+            </div>
+          </div>
+        );
+      case "notify":
+        return (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {NOTIFY_ROLES.map((role) => {
+                const selected = action.roles.includes(role);
+                return (
+                  <Badge
+                    key={role}
+                    variant={selected ? "default" : "outline"}
+                    className="cursor-pointer capitalize"
+                    onClick={() => updateAction(index, {
+                      roles: selected ? action.roles.filter(r => r !== role) : [...action.roles, role],
+                    })}
+                  >
+                    {role}
+                  </Badge>
+                );
+              })}
+              <Badge
+                variant={action.assignee ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => updateAction(index, { assignee: !action.assignee })}
+              >
+                Assignee
+              </Badge>
+              <Badge
+                variant={action.reporter ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => updateAction(index, { reporter: !action.reporter })}
+              >
+                Reporter
+              </Badge>
+            </div>
+            <Input
+              value={action.message || ""}
+              onChange={(e) => updateAction(index, { message: e.target.value || undefined })}
+              placeholder="Message (optional). Supports {{ticketNumber}}, {{title}}"
+            />
+          </div>
+        );
+      case "webhook":
+        return (
+          <Input
+            value={action.url}
+            onChange={(e) => updateAction(index, { url: e.target.value })}
+            placeholder="https://example.com/hooks/tickets"
+          />
+        );
+    }
+  };
+
+  if (roleLoading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!isAdminOrManager) {
+    return (
+      <Card className="glass-card">
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <Shield className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Access Restricted</h3>
+          <p className="text-muted-foreground text-center">
+            Only administrators and managers can manage workflow rules.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold">Workflow Rules</h2>
+          <p className="text-sm text-muted-foreground">
+            Automate ticket updates when tickets are created, changed or commented on
+          </p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => handleOpenDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Workflow
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingRule ? "Edit Workflow Rule" : "Create Workflow Rule"}
+              </DialogTitle>
+              <DialogDescription>
+                When the trigger fires and the conditions match, actions run in order
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="workflow-name">Rule Name *</Label>
+                  <Input
+                    id="workflow-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g., Tag refund requests"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="workflow-runOrder">Run Order</Label>
+                  <Input
+                    id="workflow-runOrder"
+                    type="number"
+                    value={formData.runOrder}
+                    onChange={(e) => setFormData(prev => ({ ...prev, runOrder: parseInt(e.target.value) || 0 }))}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="workflow-description">Description</Label>
+                <Textarea
+                  id="workflow-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Describe what this workflow does..."
+                  rows={2}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Trigger</Label>
+                <Select
+                  value={formData.triggerEvent}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, triggerEvent: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRIGGER_EVENTS.map((trigger) => (
+                      <SelectItem key={trigger.value} value={trigger.value}>{trigger.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="border rounded-lg p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium flex items-center gap-2">
+                    <Filter className="h-4 w-4 text-amber-500" />
+                    Conditions
+                  </h4>
+                  <Select
+                    value={formData.match}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, match: value as "all" | "any" }))}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Match all</SelectItem>
+                      <SelectItem value="any">Match any</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.conditions.length === 0 && (
+                  <p className="text-xs text-muted-foreground">Add at least one condition: a rule without conditions never runs.</p>
+                )}
+
+                {formData.conditions.map((condition, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                    <Select
+                      value={condition.field || ""}
+                      onValueChange={(value) => updateCondition(index, { field: value as WorkflowConditionField })}
+                      disabled={TAG_OPERATORS.includes(condition.operator)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKFLOW_CONDITION_FIELDS.map((field) => (
+                          <SelectItem key={field} value={field}>{field}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={condition.operator}
+                      onValueChange={(value) => updateCondition(index, { operator: value as ConditionOperator })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONDITION_OPERATORS.map((op) => (
+                          <SelectItem key={op} value={op}>{OPERATOR_LABELS[op]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={Array.isArray(condition.value) ? condition.value.join(", ") : String(condition.value ?? "")}
+                      onChange={(e) => updateCondition(index, { value: parseConditionValue(condition.operator, e.target.value) })}
+                      placeholder={condition.operator === "in" || condition.operator === "not_in" ? "a, b, c" : "Value"}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setFormData(prev => ({
+                        ...prev,
+                        conditions: prev.conditions.filter((_, i) => i !== index),
+                      }))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFormData(prev => ({
+                    ...prev,
+                    conditions: [...prev.conditions, { field: "priority", operator: "equals", value: "" }],
+                  }))}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Condition
+                </Button>
+              </div>
+
+              <div className="border rounded-lg p-4 space-y-4">
+                <h4 className="font-medium flex items-center gap-2">
+                  <Play className="h-4 w-4 text-primary" />
+                  Actions
+                </h4>
+
+                {formData.actions.map((action, index) => (
+                  <div key={index} className="space-y-2 rounded-md bg-muted/40 p-3">
+                    <div className="flex items-center justify-between">
+                      <Badge variant="outline">{index + 1}. {ACTION_LABELS[action.type]}</Badge>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setFormData(prev => ({
+                          ...prev,
+                          actions: prev.actions.filter((_, i) => i !== index),
+                        }))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {renderActionFields(action, index)}
+                  </div>
+                ))}
+
+                <Select
+                  value=""
+                  onValueChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    actions: [...prev.actions, defaultAction(value as WorkflowActionType)],
+                  }))}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Add action..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKFLOW_ACTION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{ACTION_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium flex items-center gap-2">
+                    <Eye className="h-4 w-4 text-primary" />
+                    Dry Run
+                  </h4>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => previewMutation.mutate(conditionGroup())}
+                    disabled={previewMutation.isPending || formData.conditions.length === 0}
+                  >
+                    {previewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Preview Matches
+                  </Button>
+                </div>
+                {preview && (
+                  <div className="space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      {preview.matches.length} of {preview.scanned} recent tickets match. Nothing is changed.
+                    </p>
+                    <ScrollArea className="max-h-48">
+                      <div className="space-y-1">
+                        {preview.matches.map((ticket) => (
+                          <div key={ticket.id} className="flex items-center gap-2 text-sm">
+                            <span className="font-mono text-xs text-muted-foreground">{ticket.ticketNumber}</span>
+                            <span className="truncate flex-1">{ticket.title}</span>
+                            <Badge variant="outline" className="text-xs capitalize">{ticket.priority}</Badge>
+                            <Badge variant="secondary" className="text-xs capitalize">{ticket.status?.replace(/_/g, " ")}</Badge>
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between pt-2">
+                <div>
+                  <Label>Active</Label>
+                  <p className="text-xs text-muted-foreground">Enable this workflow rule</p>
+                </div>
+                <Switch
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={handleCloseDialog}>Cancel</Button>
+              <Button onClick={handleSubmit} disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingRule ? "Update Workflow" : "Create Workflow"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : rules.length === 0 ? (
+        <Card className="glass-card">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Workflow className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No Workflow Rules</h3>
+            <p className="text-muted-foreground text-center mb-4">
+              Create a workflow to tag, route or notify on tickets automatically.
+            </p>
+            <Button onClick={() => handleOpenDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Workflow
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <ScrollArea className="h-[600px]">
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <Card key={rule.id} className={cn("glass-card", !rule.isActive && "opacity-60")}>
+                <CardContent className="p-4">
+                  <div className="flex items-start gap-4">
+                    <div className={cn(
+                      "h-10 w-10 rounded-lg flex items-center justify-center",
+                      rule.isActive ? "bg-primary/10 text-primary" : "bg-muted text-muted-foreground"
+                    )}>
+                      <Workflow className="h-5 w-5" />
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <h3 className="font-semibold">{rule.name}</h3>
+                        <Badge variant={rule.isActive ? "default" : "secondary"}>
+                          {rule.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs">
+                          Order: {rule.runOrder}
+                        </Badge>
+                      </div>
+
+                      {rule.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{rule.description}</p>
+                      )}
+
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        <Badge variant="outline" className="text-xs">
+                          {TRIGGER_EVENTS.find(t => t.value === rule.triggerEvent)?.label || rule.triggerEvent}
+                        </Badge>
+                        {(rule.conditions?.conditions || []).map((condition, i) => (
+                          <Badge key={i} variant="outline" className="text-xs">
+                            {describeCondition(condition)}
+                          </Badge>
+                        ))}
+                        {(rule.actions || []).map((action, i) => (
+                          <Badge key={i} variant="secondary" className="text-xs">
+                            {ACTION_LABELS[action.type] || action.type}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={rule.isActive}
+                        onCheckedChange={(checked) =>
+                          toggleActiveMutation.mutate({ id: rule.id, isActive: checked })
+                        }
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleOpenDialog(rule)}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-destructive">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Workflow Rule</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete "{rule.name}"? This action cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteMutation.mutate(rule.id)}
+                              className="bg-destructive text-destructive-foreground"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { getAccessToken } from "@/lib/supabaseClient";
+import { LIVE_UPDATES_PATH, type LiveEvent } from "@shared/liveEvents";
+import type { Notification, Ticket, TicketComment } from "@shared/schema";
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// Cached lists and details embed these relations; when one changes the cache refetches
+const RELATION_FIELDS = [
+  "categoryId",
+  "subcategoryId",
+  "studioId",
+  "assignedToUserId",
+  "reportedByUserId",
+  "mergedIntoTicketId",
+  "parentTicketId",
+] as const;
+
+type CachedTicket = Partial<Ticket> & { id: string; comments?: Partial<TicketComment>[] };
+
+function relationsChanged(cached: CachedTicket, ticket: Ticket): boolean {
+  return RELATION_FIELDS.some((field) => field in cached && (cached[field] ?? null) !== (ticket[field] ?? null));
+}
+
+function applyTicket(ticket: Ticket, comment?: TicketComment) {
+  // Lists: patch the row in place; a ticket a list doesn't hold may now match its filters
+  let listsStale = false;
+  for (const [queryKey, rows] of queryClient.getQueriesData<CachedTicket[]>({ queryKey: ["tickets"] })) {
+    if (!Array.isArray(rows)) continue;
+    const cached = rows.find((row) => row.id === ticket.id);
+    if (!cached || relationsChanged(cached, ticket)) {
+      listsStale = true;
+      continue;
+    }
+    queryClient.setQueryData(queryKey, rows.map((row) => (row.id === ticket.id ? { ...row, ...ticket } : row)));
+  }
+  if (listsStale) queryClient.invalidateQueries({ queryKey: ["tickets"] });
+
+  const detailKey = ["ticket-detail", ticket.id];
+  const detail = queryClient.getQueryData<CachedTicket>(detailKey);
+  if (!detail) return;
+  if (relationsChanged(detail, ticket)) {
+    queryClient.invalidateQueries({ queryKey: detailKey });
+    return;
+  }
+  const comments = detail.comments || [];
+  queryClient.setQueryData(detailKey, {
+    ...detail,
+    ...ticket,
+    comments: comment && !comments.some((existing) => existing.id === comment.id) ? [...comments, comment] : comments,
+  });
+  // Activity history isn't in the event; mark it stale so it refreshes on next focus
+  queryClient.invalidateQueries({ queryKey: detailKey, refetchType: "none" });
+}
+
+function applyNotification(notification: Notification) {
+  queryClient.setQueryData<Notification[]>(["/api/notifications"], (existing) =>
+    existing ? [notification, ...existing.filter((item) => item.id !== notification.id)] : existing,
+  );
+}
+
+function applyLiveEvent(event: LiveEvent) {
+  switch (event.type) {
+    case "ticket.created":
+      queryClient.invalidateQueries({ queryKey: ["tickets"] });
+      if (event.ticket.parentTicketId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/tickets", event.ticket.parentTicketId, "children"] });
+      }
+      break;
+    case "ticket.updated":
+      applyTicket(event.ticket);
+      break;
+    case "ticket.commented":
+      applyTicket(event.ticket, event.comment);
+      break;
+    case "notification.created":
+      applyNotification(event.notification);
+      break;
+  }
+}
+
+// Keeps one WebSocket open while signed in and applies its events to the query cache
+export function useLiveUpdates(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled || typeof WebSocket === "undefined") return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let connectedBefore = false;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${LIVE_UPDATES_PATH}`);
+
+      socket.onopen = async () => {
+        const token = await getAccessToken();
+        if (token && socket?.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ type: "auth", token }));
+        } else {
+          socket?.close();
+        }
+      };
+
+      socket.onmessage = (message) => {
+        let event: LiveEvent;
+        try {
+          event = JSON.parse(message.data);
+        } catch {
+          return;
+        }
+        if (event.type === "ready") {
+          attempts = 0;
+          // Catch up on anything missed while disconnected
+          if (connectedBefore) {
+            queryClient.invalidateQueries({ queryKey: ["tickets"] });
+            queryClient.invalidateQueries({ queryKey: ["ticket-detail"] });
+            queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+          }
+          connectedBefore = true;
+          return;
+        }
+        applyLiveEvent(event);
+      };
+
+      socket.onclose = () => {
+        if (stopped) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+}
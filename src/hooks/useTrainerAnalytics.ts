@@ -9,6 +9,7 @@ import {
 } from '@/lib/trainerAnalyticsTypes';
 import { TRAINERS } from '@/lib/constants';
 import { useToast } from '@/hooks/use-toast';
+import { createTicket } from '@/lib/ticketApi';
 
 // Generate mock historical data for demonstration
 const generateMockPerformanceData = (trainerId: string, trainerName: string, specialization: string): TrainerPerformanceData => {
@@ -266,9 +267,6 @@ export function useTrainerAnalytics(trainerId?: string) {
   // Submit comprehensive feedback
   const submitFeedbackMutation = useMutation({
     mutationFn: async (formData: ComprehensiveFeedbackFormData) => {
-      const now = new Date();
-      const ticketNumber = `TRN-${now.getFullYear().toString().slice(-2)}${(now.getMonth() + 1).toString().padStart(2, '0')}${now.getDate().toString().padStart(2, '0')}-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`;
-      
       // Calculate overall score
       const totalScore = Object.values(formData.categoryScores).reduce((a, b) => a + b, 0);
       const avgScore = totalScore / Object.keys(formData.categoryScores).length;
@@ -290,12 +288,9 @@ export function useTrainerAnalytics(trainerId?: string) {
         .limit(1)
         .single();
       
-      const { data: ticket, error } = await supabase
-        .from('tickets')
-        .insert([{
-          ticketNumber,
-          title: `Performance Review - ${formData.trainerName} - ${formData.reviewPeriod}`,
-          description: `**Comprehensive Trainer Performance Review**
+      const ticket = await createTicket({
+        title: `Performance Review - ${formData.trainerName} - ${formData.reviewPeriod}`,
+        description: `**Comprehensive Trainer Performance Review**
 
 **Trainer:** ${formData.trainerName}
 **Review Period:** ${formData.reviewPeriod}
@@ -325,22 +320,17 @@ ${formData.highlights}
 ${formData.concerns}
 
 **Reviewed by:** ${formData.reviewerName} (${formData.reviewerRole})`,
-          categoryId: categories?.id,
-          studioId: studios?.id,
-          priority,
-          status: 'new',
-          source: 'trainer-feedback',
-          tags: ['performance-review', 'trainer-evaluation', formData.trainerName.toLowerCase().replace(' ', '-')],
-          dynamicFieldData: {
-            feedbackType: 'comprehensive-review',
-            ...formData,
-            overallScore: totalScore
-          }
-        }])
-        .select()
-        .single();
-      
-      if (error) throw error;
+        categoryId: categories?.id,
+        studioId: studios?.id,
+        priority,
+        source: 'trainer-feedback',
+        tags: ['performance-review', 'trainer-evaluation', formData.trainerName.toLowerCase().replace(' ', '-')],
+        dynamicFieldData: {
+          feedbackType: 'comprehensive-review',
+          ...formData,
+          overallScore: totalScore
+        }
+      });
       return ticket;
     },
     onSuccess: () => {
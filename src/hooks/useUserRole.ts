@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useAuth } from "./useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { getPermissions, getPrimaryRole, type AppRole } from "@shared/permissions";
 
-export type AppRole = "admin" | "manager" | "staff" | "viewer";
+export type { AppRole };
 
 export interface UserRoleInfo {
   role: AppRole | null;
@@ -19,18 +20,13 @@ export interface UserRoleInfo {
   canViewAnalytics: boolean;
   canEscalate: boolean;
   canDeleteTickets: boolean;
+  canManageWatchers: boolean;
+  canViewInternalNotes: boolean;
   isLoading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
 }
 
-const ROLE_HIERARCHY: Record<AppRole, number> = {
-  admin: 4,
-  manager: 3,
-  staff: 2,
-  viewer: 1,
-};
-
 export function useUserRole(): UserRoleInfo {
   const { user, isLoading: authLoading } = useAuth();
   const [roles, setRoles] = useState<AppRole[]>([]);
@@ -77,13 +73,7 @@ export function useUserRole(): UserRoleInfo {
   }, [authLoading, fetchRoles]);
 
   // Get the highest role (primary role)
-  const primaryRole = useMemo(() => {
-    if (roles.length === 0) return null;
-    return roles.reduce((highest, current) => {
-      if (!highest) return current;
-      return ROLE_HIERARCHY[current] > ROLE_HIERARCHY[highest] ? current : highest;
-    }, null as AppRole | null);
-  }, [roles]);
+  const primaryRole = useMemo(() => getPrimaryRole(roles), [roles]);
 
   // Role checks
   const isAdmin = roles.includes("admin");
@@ -92,16 +82,8 @@ export function useUserRole(): UserRoleInfo {
   const isViewer = roles.includes("viewer");
   const isAdminOrManager = isAdmin || isManager;
 
-  // Permission checks based on role hierarchy
-  const permissions = useMemo(() => ({
-    canManageTickets: isAdmin || isManager || isStaff,
-    canManageUsers: isAdmin,
-    canManageSettings: isAdmin || isManager,
-    canManageReports: isAdmin || isManager,
-    canViewAnalytics: isAdmin || isManager || isStaff,
-    canEscalate: isAdmin || isManager,
-    canDeleteTickets: isAdmin || isManager,
-  }), [isAdmin, isManager, isStaff]);
+  // Permission checks from the map the API enforces
+  const permissions = useMemo(() => getPermissions(roles), [roles]);
 
   return {
     role: primaryRole,
@@ -73,6 +73,8 @@ export type Database = {
           name: string
           slaHours: number | null
           sortOrder: number | null
+          ticketNumberPattern: string | null
+          ticketNumberPrefix: string | null
           updatedAt: string | null
         }
         Insert: {
@@ -89,6 +91,8 @@ export type Database = {
           name: string
           slaHours?: number | null
           sortOrder?: number | null
+          ticketNumberPattern?: string | null
+          ticketNumberPrefix?: string | null
           updatedAt?: string | null
         }
         Update: {
@@ -105,6 +109,8 @@ export type Database = {
           name?: string
           slaHours?: number | null
           sortOrder?: number | null
+          ticketNumberPattern?: string | null
+          ticketNumberPrefix?: string | null
           updatedAt?: string | null
         }
         Relationships: [
@@ -288,6 +294,7 @@ export type Database = {
       }
       escalationLog: {
         Row: {
+          conditionKey: string | null
           createdAt: string | null
           createdBy: string | null
           escalatedFrom: string | null
@@ -304,6 +311,7 @@ export type Database = {
           ticketId: string
         }
         Insert: {
+          conditionKey?: string | null
           createdAt?: string | null
           createdBy?: string | null
           escalatedFrom?: string | null
@@ -320,6 +328,7 @@ export type Database = {
           ticketId: string
         }
         Update: {
+          conditionKey?: string | null
           createdAt?: string | null
           createdBy?: string | null
           escalatedFrom?: string | null
@@ -994,6 +1003,8 @@ export type Database = {
           isPublic: boolean | null
           mimeType: string | null
           originalFileName: string
+          sha256: string | null
+          storageBackend: string | null
           ticketId: string
           uploadedByUserId: string
         }
@@ -1007,6 +1018,8 @@ export type Database = {
           isPublic?: boolean | null
           mimeType?: string | null
           originalFileName: string
+          sha256?: string | null
+          storageBackend?: string | null
           ticketId: string
           uploadedByUserId: string
         }
@@ -1020,6 +1033,8 @@ export type Database = {
           isPublic?: boolean | null
           mimeType?: string | null
           originalFileName?: string
+          sha256?: string | null
+          storageBackend?: string | null
           ticketId?: string
           uploadedByUserId?: string
         }
@@ -1057,6 +1072,7 @@ export type Database = {
           isInternal: boolean | null
           isResolution: boolean | null
           mentionedUserIds: string[] | null
+          searchVector: unknown | null
           ticketId: string
           timeSpentMinutes: number | null
           updatedAt: string | null
@@ -1071,6 +1087,7 @@ export type Database = {
           isInternal?: boolean | null
           isResolution?: boolean | null
           mentionedUserIds?: string[] | null
+          searchVector?: unknown | null
           ticketId: string
           timeSpentMinutes?: number | null
           updatedAt?: string | null
@@ -1085,6 +1102,7 @@ export type Database = {
           isInternal?: boolean | null
           isResolution?: boolean | null
           mentionedUserIds?: string[] | null
+          searchVector?: unknown | null
           ticketId?: string
           timeSpentMinutes?: number | null
           updatedAt?: string | null
@@ -1167,12 +1185,31 @@ export type Database = {
           },
         ]
       }
+      ticketNumberSequences: {
+        Row: {
+          lastValue: number
+          scope: string
+          updatedAt: string | null
+        }
+        Insert: {
+          lastValue?: number
+          scope: string
+          updatedAt?: string | null
+        }
+        Update: {
+          lastValue?: number
+          scope?: string
+          updatedAt?: string | null
+        }
+        Relationships: []
+      }
       tickets: {
         Row: {
           actualResolutionTime: string | null
           assignedDepartmentId: string | null
           assignedTeamId: string | null
           assignedToUserId: string | null
+          blockCloseWithOpenChildren: boolean
           categoryId: string
           clientMood: string | null
           closedAt: string | null
@@ -1187,11 +1224,13 @@ export type Database = {
           escalatedAt: string | null
           estimatedResolutionTime: string | null
           firstResponseAt: string | null
+          firstResponseDueAt: string | null
           id: string
           incidentDateTime: string | null
           internalNotes: string | null
           isInternalTicket: boolean | null
           lastActivityAt: string | null
+          mergedIntoTicketId: string | null
           parentTicketId: string | null
           priority: string | null
           reopenedAt: string | null
@@ -1199,9 +1238,11 @@ export type Database = {
           resolutionSummary: string | null
           resolvedAt: string | null
           satisfactionRating: number | null
+          searchVector: unknown | null
           severity: string | null
           slaBreached: boolean | null
           slaDueAt: string | null
+          slaRuleId: string | null
           source: string | null
           status: string | null
           studioId: string
@@ -1216,6 +1257,7 @@ export type Database = {
           assignedDepartmentId?: string | null
           assignedTeamId?: string | null
           assignedToUserId?: string | null
+          blockCloseWithOpenChildren?: boolean
           categoryId: string
           clientMood?: string | null
           closedAt?: string | null
@@ -1230,11 +1272,13 @@ export type Database = {
           escalatedAt?: string | null
           estimatedResolutionTime?: string | null
           firstResponseAt?: string | null
+          firstResponseDueAt?: string | null
           id?: string
           incidentDateTime?: string | null
           internalNotes?: string | null
           isInternalTicket?: boolean | null
           lastActivityAt?: string | null
+          mergedIntoTicketId?: string | null
           parentTicketId?: string | null
           priority?: string | null
           reopenedAt?: string | null
@@ -1242,15 +1286,17 @@ export type Database = {
           resolutionSummary?: string | null
           resolvedAt?: string | null
           satisfactionRating?: number | null
+          searchVector?: unknown | null
           severity?: string | null
           slaBreached?: boolean | null
           slaDueAt?: string | null
+          slaRuleId?: string | null
           source?: string | null
           status?: string | null
           studioId: string
           subcategoryId?: string | null
           tags?: string[] | null
-          ticketNumber: string
+          ticketNumber?: string
           title: string
           updatedAt?: string | null
         }
@@ -1259,6 +1305,7 @@ export type Database = {
           assignedDepartmentId?: string | null
           assignedTeamId?: string | null
           assignedToUserId?: string | null
+          blockCloseWithOpenChildren?: boolean
           categoryId?: string
           clientMood?: string | null
           closedAt?: string | null
@@ -1273,11 +1320,13 @@ export type Database = {
           escalatedAt?: string | null
           estimatedResolutionTime?: string | null
           firstResponseAt?: string | null
+          firstResponseDueAt?: string | null
           id?: string
           incidentDateTime?: string | null
           internalNotes?: string | null
           isInternalTicket?: boolean | null
           lastActivityAt?: string | null
+          mergedIntoTicketId?: string | null
           parentTicketId?: string | null
           priority?: string | null
           reopenedAt?: string | null
@@ -1285,9 +1334,11 @@ export type Database = {
           resolutionSummary?: string | null
           resolvedAt?: string | null
           satisfactionRating?: number | null
+          searchVector?: unknown | null
           severity?: string | null
           slaBreached?: boolean | null
           slaDueAt?: string | null
+          slaRuleId?: string | null
           source?: string | null
           status?: string | null
           studioId?: string
@@ -1326,6 +1377,13 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tickets_mergedIntoTicketId_fkey"
+            columns: ["mergedIntoTicketId"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tickets_parentTicketId_fkey"
             columns: ["parentTicketId"]
@@ -1615,6 +1673,15 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_access_studio: {
+        Args: { _studio_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_ticket: {
+        Args: { _ticket_id: string; _user_id: string }
+        Returns: boolean
+      }
+      has_all_studio_access: { Args: { _user_id: string }; Returns: boolean }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1623,8 +1690,37 @@ export type Database = {
         Returns: boolean
       }
       is_admin_or_manager: { Args: { _user_id: string }; Returns: boolean }
+      next_ticket_number: {
+        Args: { p_category_id?: string; p_studio_id: string }
+        Returns: string
+      }
+      merge_tickets: {
+        Args: {
+          p_primary_id: string
+          p_reason?: string
+          p_secondary_id: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      search_tickets: {
+        Args: {
+          p_include_internal?: boolean
+          p_limit?: number
+          p_offset?: number
+          p_query: string
+          p_user_id?: string
+        }
+        Returns: {
+          id: string
+          matchedIn: string
+          rank: number
+          snippet: string
+        }[]
+      }
       show_limit: { Args: never; Returns: number }
       show_trgm: { Args: { "": string }; Returns: string[] }
+      user_studio_ids: { Args: { _user_id: string }; Returns: string[] }
     }
     Enums: {
       app_role: "admin" | "manager" | "staff" | "viewer"
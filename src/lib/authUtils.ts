@@ -1,3 +1,20 @@
+import type { ForbiddenResponse } from "@shared/permissions";
+
 export function isUnauthorizedError(error: Error): boolean {
   return /^401: .*Unauthorized/.test(error.message);
 }
+
+// Thrown for API 403s; carries the permission or roles the request needed
+export class ForbiddenError extends Error {
+  readonly details: ForbiddenResponse;
+
+  constructor(details: ForbiddenResponse) {
+    super(`403: ${details.message}`);
+    this.name = "ForbiddenError";
+    this.details = details;
+  }
+}
+
+export function isForbiddenError(error: Error): error is ForbiddenError {
+  return error instanceof ForbiddenError;
+}
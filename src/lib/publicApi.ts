@@ -0,0 +1,22 @@
+// Requests from the public pages customers reach without an account (surveys,
+// the ticket status portal, the QR feedback form).
+// Errors carry the server's message so the page can show it as-is.
+
+export class PublicApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export async function publicRequest<T>(method: string, url: string, data?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new PublicApiError(body?.message || "Something went wrong, please try again", res.status);
+  }
+  return body as T;
+}
@@ -0,0 +1,56 @@
+import { apiRequest } from "./queryClient";
+
+// Browser side of Web Push: registers the service worker (public/sw.js),
+// subscribes this device with the server's VAPID key and registers the
+// subscription with the server
+
+export function isPushSupported(): boolean {
+  return typeof window !== "undefined"
+    && "serviceWorker" in navigator
+    && "PushManager" in window
+    && "Notification" in window;
+}
+
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(padded);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  const existing = await navigator.serviceWorker.getRegistration("/");
+  return existing || navigator.serviceWorker.register("/sw.js", { scope: "/" });
+}
+
+// The subscription this browser currently holds, if any
+export async function getCurrentPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration("/");
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+export async function enablePushOnThisDevice(): Promise<PushSubscription> {
+  if (!isPushSupported()) throw new Error("This browser doesn't support push notifications");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("Notifications are blocked for this site in your browser settings");
+
+  const config: { publicKey: string | null } = await (await apiRequest("GET", "/api/push/config")).json();
+  if (!config.publicKey) throw new Error("Push notifications are not configured on this server");
+
+  const registration = await getRegistration();
+  await navigator.serviceWorker.ready;
+  const subscription = (await registration.pushManager.getSubscription())
+    || await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(config.publicKey),
+    });
+  await apiRequest("POST", "/api/push-subscriptions", subscription.toJSON());
+  return subscription;
+}
+
+export async function disablePushOnThisDevice(subscriptionId?: string): Promise<void> {
+  const subscription = await getCurrentPushSubscription();
+  if (subscriptionId) await apiRequest("DELETE", `/api/push-subscriptions/${subscriptionId}`);
+  await subscription?.unsubscribe();
+}
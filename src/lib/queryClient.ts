@@ -1,7 +1,12 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { getAccessToken } from "./supabaseClient";
+import { ForbiddenError } from "./authUtils";
 
 async function throwIfResNotOk(res: Response) {
+  if (res.status === 403) {
+    const body = await res.json().catch(() => null);
+    throw new ForbiddenError(body?.code === "forbidden" ? body : { message: "Forbidden", code: "forbidden" });
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -14,13 +19,15 @@ export async function apiRequest(
   data?: unknown | undefined,
 ): Promise<Response> {
   const token = await getAccessToken();
-  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
+  // FormData bodies set their own multipart Content-Type
+  const isFormData = data instanceof FormData;
+  const headers: Record<string, string> = data && !isFormData ? { "Content-Type": "application/json" } : {};
   if (token) headers.Authorization = `Bearer ${token}`;
 
   const res = await fetch(url, {
     method,
     headers,
-    body: data ? JSON.stringify(data) : undefined,
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -0,0 +1,169 @@
+import { apiRequest } from "./queryClient";
+import type { RoutingExplanation } from "@shared/ticketRules";
+import type { CompiledTicketQuery } from "@shared/ticketQuery";
+import type { TicketAttachment, TicketWatcher, WatchType } from "@shared/schema";
+
+export interface CreatedTicket {
+  id: string;
+  ticketNumber: string;
+  title: string;
+  priority: string;
+  status: string;
+  routing: RoutingExplanation;
+  [key: string]: unknown;
+}
+
+// All ticket creation goes through the server pipeline, which owns numbering,
+// routing, SLA deadlines, history and notifications
+export async function createTicket(data: Record<string, unknown>): Promise<CreatedTicket> {
+  const res = await apiRequest("POST", "/api/tickets", data);
+  return res.json();
+}
+
+export interface TicketSearchMatch {
+  rank: number;
+  // Matched terms are wrapped in <mark></mark>
+  snippet: string;
+  matchedIn: "ticket" | "comment" | "similar";
+}
+
+export interface TicketSearchResult {
+  id: string;
+  ticketNumber: string;
+  title: string;
+  status: string | null;
+  priority: string | null;
+  customerName: string | null;
+  createdAt: string | null;
+  studio: { id: string; name: string } | null;
+  search: TicketSearchMatch;
+}
+
+// Ranked full-text search, most relevant first, limited to the user's studios
+export async function searchTickets(query: string, limit = 20): Promise<TicketSearchResult[]> {
+  const params = new URLSearchParams({ q: query, limit: String(limit) });
+  const res = await apiRequest("GET", `/api/tickets/search?${params}`);
+  return res.json();
+}
+
+// Compiles a tickets-page query (status:open priority>=high ...) into filters
+export async function compileTicketQuery(query: string): Promise<CompiledTicketQuery> {
+  const res = await apiRequest("GET", `/api/tickets/query?${new URLSearchParams({ q: query })}`);
+  return res.json();
+}
+
+// Attachment rows carry a short-lived signed URL usable in <img> and links
+export interface AttachmentWithUrl extends TicketAttachment {
+  downloadUrl: string;
+}
+
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+
+export async function uploadAttachments(
+  ticketId: string,
+  files: File[],
+  options: { commentId?: string; isPublic?: boolean } = {},
+): Promise<AttachmentWithUrl[]> {
+  const body = new FormData();
+  files.forEach(file => body.append("files", file));
+  if (options.isPublic !== undefined) body.append("isPublic", String(options.isPublic));
+  const url = options.commentId
+    ? `/api/tickets/${ticketId}/comments/${options.commentId}/attachments`
+    : `/api/tickets/${ticketId}/attachments`;
+  const res = await apiRequest("POST", url, body);
+  return res.json();
+}
+
+export interface TicketMergeResult {
+  primaryId: string;
+  primaryTicketNumber: string;
+  secondaryId: string;
+  secondaryTicketNumber: string;
+  movedComments: number;
+  movedAttachments: number;
+  movedHistory: number;
+  movedWatchers: number;
+}
+
+// Folds the duplicates into the primary; each duplicate is closed and links to it
+export async function mergeTickets(
+  primaryId: string,
+  secondaryTicketIds: string[],
+  reason?: string,
+): Promise<{ primaryId: string; merged: TicketMergeResult[] }> {
+  const res = await apiRequest("POST", `/api/tickets/${primaryId}/merge`, { secondaryTicketIds, reason });
+  return res.json();
+}
+
+export interface MacroRunResult {
+  ticketId: string;
+  ticketNumber: string | null;
+  applied: boolean;
+  message?: string;
+}
+
+// Runs a macro's steps on each ticket; tickets it couldn't change come back with a message
+export async function runMacro(macroId: string, ticketIds: string[]): Promise<MacroRunResult[]> {
+  const res = await apiRequest("POST", `/api/macros/${macroId}/run`, { ticketIds });
+  return (await res.json()).results;
+}
+
+export interface SubTicket {
+  id: string;
+  ticketNumber: string;
+  title: string;
+  status: string | null;
+  priority: string | null;
+  createdAt: string | null;
+  resolvedAt: string | null;
+  department: { id: string; name: string } | null;
+  assignedTo: { id: string; firstName: string | null; lastName: string | null; displayName: string | null } | null;
+}
+
+export interface SubTicketList {
+  children: SubTicket[];
+  progress: { total: number; done: number; open: number; percent: number };
+}
+
+// Creates a child ticket that inherits the parent's studio, customer and category
+export async function createSubTicket(parentId: string, data: Record<string, unknown>): Promise<CreatedTicket> {
+  const res = await apiRequest("POST", `/api/tickets/${parentId}/children`, data);
+  return res.json();
+}
+
+export interface TicketWatcherWithUser extends TicketWatcher {
+  user: { id: string; firstName: string | null; lastName: string | null; displayName: string | null; email: string | null } | null;
+}
+
+export async function watchTicket(ticketId: string, data: { userId?: string; watchType?: WatchType } = {}): Promise<TicketWatcher> {
+  const res = await apiRequest("POST", `/api/tickets/${ticketId}/watchers`, data);
+  return res.json();
+}
+
+export async function unwatchTicket(ticketId: string, userId: string): Promise<void> {
+  await apiRequest("DELETE", `/api/tickets/${ticketId}/watchers/${userId}`);
+}
+
+export function describeRouting(routing: RoutingExplanation): string {
+  const parts = [`Routed to ${routing.department || "triage"}`, `${routing.priority} priority`];
+  if (routing.escalation) parts.push(`escalated (${routing.escalation.rule})`);
+  return parts.join(" · ");
+}
+
+// Downloads the server CSV export; the server limits it to the user's studios
+export async function downloadTicketExport(filters: Record<string, string | undefined> = {}): Promise<void> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value && value !== "all") params.append(key, value);
+  }
+  const query = params.toString();
+  const res = await apiRequest("GET", `/api/tickets/export${query ? `?${query}` : ""}`);
+  const filename = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || "tickets.csv";
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
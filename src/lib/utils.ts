@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// IANA time zones for a picker, always including the current choice and the browser's own
+export function timeZoneOptions(current: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  const browser = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return Array.from(new Set([current, browser, ...zones])).filter(Boolean).sort();
+}
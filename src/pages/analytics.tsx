@@ -14,6 +14,7 @@ import {
   Sparkles,
   FolderKanban,
   PieChart as PieChartIcon,
+  Smile,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -41,7 +42,10 @@ import {
   Area,
 } from "recharts";
 import { STUDIOS } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { downloadTicketExport } from "@/lib/ticketApi";
 import { cn } from "@/lib/utils";
+import { CsatAnalytics } from "@/components/csat-analytics";
 
 interface AnalyticsData {
   ticketsByCategory: { category: string; count: number }[];
@@ -52,6 +56,8 @@ interface AnalyticsData {
   topCategories: { category: string; count: number }[];
 }
 
+const TIME_RANGE_DAYS: Record<string, number> = { "7d": 7, "30d": 30, "90d": 90, "12m": 365 };
+
 const CHART_COLORS = ["hsl(var(--chart-1))", "hsl(var(--chart-2))", "hsl(var(--chart-3))", "hsl(var(--chart-4))", "hsl(var(--chart-5))"];
 
 function AnalyticsSkeleton() {
@@ -81,6 +87,17 @@ export default function Analytics() {
   const [timeRange, setTimeRange] = useState("30d");
   const [studioFilter, setStudioFilter] = useState("all");
   const [activeTab, setActiveTab] = useState("overview");
+  const { toast } = useToast();
+
+  const handleExport = () => {
+    downloadTicketExport().catch((error: Error) => {
+      toast({
+        title: "Export Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    });
+  };
 
   const { data: analytics, isLoading, refetch, error } = useQuery<AnalyticsData>({
     queryKey: ["/api/analytics", { timeRange, studio: studioFilter }],
@@ -315,7 +332,7 @@ export default function Analytics() {
             </SelectContent>
           </Select>
 
-          <Button variant="outline" className="rounded-xl">
+          <Button variant="outline" onClick={handleExport} className="rounded-xl">
             <Download className="h-4 w-4 mr-2" />
             Export
           </Button>
@@ -373,7 +390,7 @@ export default function Analytics() {
 
       {/* Charts */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:inline-flex">
+        <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:inline-flex">
           <TabsTrigger value="overview" className="gap-2">
             <BarChart3 className="h-4 w-4" />
             Overview
@@ -386,6 +403,10 @@ export default function Analytics() {
             <Sparkles className="h-4 w-4" />
             Insights
           </TabsTrigger>
+          <TabsTrigger value="satisfaction" className="gap-2">
+            <Smile className="h-4 w-4" />
+            Satisfaction
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -507,6 +528,10 @@ export default function Analytics() {
           </div>
         </TabsContent>
 
+        <TabsContent value="satisfaction" className="space-y-6">
+          <CsatAnalytics days={TIME_RANGE_DAYS[timeRange]} />
+        </TabsContent>
+
         <TabsContent value="insights" className="space-y-6">
           <Card className="glass-card">
             <CardHeader>
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useRoute, useSearch } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { CheckCircle2, Loader2, MapPin, Send, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { publicRequest, PublicApiError } from "@/lib/publicApi";
+import { cn } from "@/lib/utils";
+import logoOptimized from "@/assets/logo-optimized.webp";
+
+interface QrCategory {
+  id: string;
+  name: string;
+  description: string | null;
+  subcategories: { id: string; name: string }[];
+}
+
+interface QrForm {
+  studioName: string;
+  categories: QrCategory[];
+}
+
+interface QrSubmissionResult {
+  ticketNumber: string | null;
+  statusUrl: string | null;
+}
+
+function Choice({ selected, onClick, children, testId }: { selected: boolean; onClick: () => void; children: React.ReactNode; testId: string }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={cn(
+        "rounded-xl border px-3 py-2 text-sm text-left transition-colors",
+        selected ? "border-primary bg-primary/10 text-foreground" : "border-border hover:bg-muted/50 text-muted-foreground",
+      )}
+      data-testid={testId}
+    >
+      {children}
+    </button>
+  );
+}
+
+// A tap-friendly take on the category and subcategory selects from the staff form
+function CategoryPicker({
+  categories,
+  categoryId,
+  subcategoryId,
+  onChange,
+}: {
+  categories: QrCategory[];
+  categoryId: string;
+  subcategoryId: string;
+  onChange: (categoryId: string, subcategoryId: string) => void;
+}) {
+  const category = categories.find((c) => c.id === categoryId);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>What's it about?</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {categories.map((c) => (
+            <Choice key={c.id} selected={c.id === categoryId} onClick={() => onChange(c.id, "")} testId={`button-category-${c.id}`}>
+              {c.name}
+            </Choice>
+          ))}
+        </div>
+      </div>
+      {category && category.subcategories.length > 0 && (
+        <div className="space-y-2">
+          <Label>More specifically (optional)</Label>
+          <div className="flex flex-wrap gap-2">
+            {category.subcategories.map((sub) => (
+              <Choice
+                key={sub.id}
+                selected={sub.id === subcategoryId}
+                onClick={() => onChange(category.id, sub.id === subcategoryId ? "" : sub.id)}
+                testId={`button-subcategory-${sub.id}`}
+              >
+                {sub.name}
+              </Choice>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Submitted({ result }: { result: QrSubmissionResult }) {
+  return (
+    <div className="text-center space-y-3 py-4">
+      <CheckCircle2 className="h-12 w-12 mx-auto text-emerald-500" />
+      <h2 className="text-lg font-semibold">Thank you, we've got it</h2>
+      <p className="text-sm text-muted-foreground">
+        {result.ticketNumber ? `Your reference is ${result.ticketNumber}. ` : ""}
+        The studio team will take a look.
+      </p>
+      {result.statusUrl && (
+        <Button variant="outline" className="rounded-xl" asChild>
+          <a href={result.statusUrl}>Follow your request</a>
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Public feedback form opened from a studio's QR code; ?location= names the spot
+// the code was posted at
+export default function Feedback() {
+  const [, params] = useRoute("/feedback/:studioId");
+  const studioId = params?.studioId || "";
+  const location = new URLSearchParams(useSearch()).get("location")?.trim().slice(0, 100) || "";
+  const [categoryId, setCategoryId] = useState("");
+  const [subcategoryId, setSubcategoryId] = useState("");
+  const [description, setDescription] = useState("");
+  const [customerName, setCustomerName] = useState("");
+  const [customerEmail, setCustomerEmail] = useState("");
+  const [website, setWebsite] = useState("");
+
+  const { data: form, isLoading, error } = useQuery<QrForm, PublicApiError>({
+    queryKey: ["/api/qr/studios", studioId],
+    queryFn: () => publicRequest<QrForm>("GET", `/api/qr/studios/${encodeURIComponent(studioId)}`),
+    retry: false,
+  });
+
+  const submitMutation = useMutation<QrSubmissionResult, PublicApiError>({
+    mutationFn: () => publicRequest("POST", `/api/qr/studios/${encodeURIComponent(studioId)}/tickets`, {
+      categoryId,
+      subcategoryId: subcategoryId || undefined,
+      description,
+      location: location || undefined,
+      customerName: customerName.trim() || undefined,
+      customerEmail: customerEmail.trim() || undefined,
+      website: website || undefined,
+    }),
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-lg space-y-6"
+      >
+        <img src={logoOptimized} alt="Physique 57" className="h-12 mx-auto" />
+        <Card className="glass-card">
+          {isLoading ? (
+            <CardContent className="flex items-center justify-center p-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </CardContent>
+          ) : error || !form ? (
+            <CardContent className="text-center space-y-3 p-10">
+              <XCircle className="h-12 w-12 mx-auto text-muted-foreground/60" />
+              <p className="text-sm text-muted-foreground">{error?.message || "This feedback form isn't available"}</p>
+            </CardContent>
+          ) : submitMutation.data ? (
+            <CardContent className="pt-6">
+              <Submitted result={submitMutation.data} />
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle>Tell us how it's going</CardTitle>
+                <CardDescription className="flex items-center gap-1">
+                  {form.studioName}
+                  {location && (
+                    <>
+                      <span>·</span>
+                      <MapPin className="h-3 w-3" />
+                      {location}
+                    </>
+                  )}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form
+                  className="space-y-5"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    submitMutation.mutate();
+                  }}
+                >
+                  <CategoryPicker
+                    categories={form.categories}
+                    categoryId={categoryId}
+                    subcategoryId={subcategoryId}
+                    onChange={(category, subcategory) => {
+                      setCategoryId(category);
+                      setSubcategoryId(subcategory);
+                    }}
+                  />
+
+                  <div className="space-y-2">
+                    <Label htmlFor="feedback-description">What happened?</Label>
+                    <Textarea
+                      id="feedback-description"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      maxLength={5000}
+                      rows={5}
+                      required
+                      data-testid="input-feedback-description"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="feedback-name">Name (optional)</Label>
+                      <Input
+                        id="feedback-name"
+                        value={customerName}
+                        onChange={(e) => setCustomerName(e.target.value)}
+                        autoComplete="name"
+                        data-testid="input-feedback-name"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="feedback-email">Email (optional)</Label>
+                      <Input
+                        id="feedback-email"
+                        type="email"
+                        value={customerEmail}
+                        onChange={(e) => setCustomerEmail(e.target.value)}
+                        autoComplete="email"
+                        data-testid="input-feedback-email"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground -mt-2">Leave an email if you'd like to hear back.</p>
+
+                  {/* Honeypot: hidden from people, filled in by bots */}
+                  <div className="absolute -left-[9999px] h-0 overflow-hidden" aria-hidden="true">
+                    <label htmlFor="feedback-website">Website</label>
+                    <input
+                      id="feedback-website"
+                      name="website"
+                      tabIndex={-1}
+                      autoComplete="off"
+                      value={website}
+                      onChange={(e) => setWebsite(e.target.value)}
+                    />
+                  </div>
+
+                  {submitMutation.error && <p className="text-sm text-destructive">{submitMutation.error.message}</p>}
+
+                  <Button
+                    type="submit"
+                    className="w-full rounded-xl"
+                    disabled={!categoryId || description.trim().length < 10 || submitMutation.isPending}
+                    data-testid="button-submit-feedback"
+                  >
+                    {submitMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                    Send
+                  </Button>
+                </form>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
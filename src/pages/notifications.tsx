@@ -1,4 +1,6 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { formatDistanceToNow } from "date-fns";
 import {
   Bell,
@@ -9,12 +11,16 @@ import {
   AlertTriangle,
   Info,
   Trash2,
+  RefreshCw,
+  Pencil,
+  AtSign,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { EmptyState } from "@/components/empty-state";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -23,14 +29,27 @@ import type { Notification } from "@shared/schema";
 const notificationIcons: Record<string, React.ElementType> = {
   ticket_created: Ticket,
   ticket_assigned: Ticket,
+  assignment: Ticket,
   comment_added: MessageSquare,
+  mention: AtSign,
+  status_changed: RefreshCw,
+  ticket_updated: Pencil,
   sla_warning: AlertTriangle,
   sla_breached: AlertTriangle,
   default: Info,
 };
 
+type NotificationFilter = "all" | "mentions";
+
+// Where clicking a notification leads: its own link, else its ticket
+function notificationHref(notification: Notification): string | null {
+  return notification.actionUrl || (notification.ticketId ? `/tickets/${notification.ticketId}` : null);
+}
+
 export default function Notifications() {
   const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [filter, setFilter] = useState<NotificationFilter>("all");
 
   const { data: notifications, isLoading } = useQuery<Notification[]>({
     queryKey: ["/api/notifications"],
@@ -69,7 +88,17 @@ export default function Notifications() {
   }
 
   const unreadCount = notifications?.filter((n) => !n.isRead).length || 0;
-  const groupedNotifications = groupNotificationsByDate(notifications || []);
+  const mentions = notifications?.filter((n) => n.type === "mention") || [];
+  const unreadMentionCount = mentions.filter((n) => !n.isRead).length;
+  const visibleNotifications = filter === "mentions" ? mentions : notifications || [];
+  const groupedNotifications = groupNotificationsByDate(visibleNotifications);
+
+  const openNotification = (notification: Notification) => {
+    const href = notificationHref(notification);
+    if (!href) return;
+    if (!notification.isRead) markAsReadMutation.mutate(notification.id);
+    navigate(href);
+  };
 
   return (
     <div className="space-y-6 max-w-3xl mx-auto">
@@ -95,7 +124,24 @@ export default function Notifications() {
         )}
       </div>
 
-      {notifications && notifications.length > 0 ? (
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as NotificationFilter)}>
+        <TabsList>
+          <TabsTrigger value="all" data-testid="tab-notifications-all">
+            All
+          </TabsTrigger>
+          <TabsTrigger value="mentions" className="gap-2" data-testid="tab-notifications-mentions">
+            <AtSign className="h-4 w-4" />
+            Mentions
+            {unreadMentionCount > 0 && (
+              <Badge variant="default" className="h-5 px-1.5 text-xs">
+                {unreadMentionCount}
+              </Badge>
+            )}
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {visibleNotifications.length > 0 ? (
         <div className="space-y-6">
           {Object.entries(groupedNotifications).map(([date, items]) => (
             <div key={date}>
@@ -127,7 +173,11 @@ export default function Notifications() {
                         </div>
                         <div className="flex-1 min-w-0">
                           <div className="flex items-start justify-between gap-2">
-                            <div>
+                            <div
+                              className={notificationHref(notification) ? "cursor-pointer" : undefined}
+                              onClick={() => openNotification(notification)}
+                              data-testid={`notification-${notification.id}`}
+                            >
                               <h4 className="font-medium text-sm">
                                 {notification.title}
                               </h4>
@@ -195,11 +245,19 @@ export default function Notifications() {
           ))}
         </div>
       ) : (
-        <EmptyState
-          icon={Bell}
-          title="No notifications"
-          description="You're all caught up! Notifications about tickets and updates will appear here."
-        />
+        filter === "mentions" ? (
+          <EmptyState
+            icon={AtSign}
+            title="No mentions"
+            description="When a colleague @mentions you in a comment, it will appear here."
+          />
+        ) : (
+          <EmptyState
+            icon={Bell}
+            title="No notifications"
+            description="You're all caught up! Notifications about tickets and updates will appear here."
+          />
+        )
       )}
     </div>
   );
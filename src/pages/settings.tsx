@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
+import { useSearch } from "wouter";
 import {
   Settings as SettingsIcon,
   User,
@@ -23,6 +24,7 @@ import {
   AlertCircle,
   Database,
   Layers,
+  Zap,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -62,6 +64,13 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useTheme } from "@/components/theme-provider";
+import { EscalationRulesManager } from "@/components/escalation-rules-manager";
+import { WorkflowRulesManager } from "@/components/workflow-rules-manager";
+import { MacrosManager } from "@/components/macros-manager";
+import { NotificationOutboxManager } from "@/components/notification-outbox-manager";
+import { DigestSettingsCard } from "@/components/digest-settings-card";
+import { NotificationPreferencesCard } from "@/components/notification-preferences-card";
+import { PushDevicesCard } from "@/components/push-devices-card";
 import { CATEGORIES, STUDIOS, PRIORITIES, STATUSES, DEPARTMENTS } from "@/lib/constants";
 import { cn } from "@/lib/utils";
 
@@ -72,14 +81,6 @@ interface SettingsState {
     email: string;
     phone: string;
   };
-  notifications: {
-    newAssignments: boolean;
-    ticketUpdates: boolean;
-    slaWarnings: boolean;
-    dailyDigest: boolean;
-    emailNotifications: boolean;
-    pushNotifications: boolean;
-  };
   appearance: {
     theme: "light" | "dark" | "system";
     language: string;
@@ -95,9 +96,11 @@ interface SettingsState {
 export default function Settings() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const search = useSearch();
   const { theme, setTheme } = useTheme();
   const queryClient = useQueryClient();
-  const [activeTab, setActiveTab] = useState("profile");
+  // Links such as the macro menu's "Manage Macros" open a tab with ?tab=
+  const [activeTab, setActiveTab] = useState(() => new URLSearchParams(search).get("tab") || "profile");
   const [isSaving, setIsSaving] = useState(false);
   
   // Settings state
@@ -108,14 +111,6 @@ export default function Settings() {
       email: user?.email || "",
       phone: "",
     },
-    notifications: {
-      newAssignments: true,
-      ticketUpdates: true,
-      slaWarnings: true,
-      dailyDigest: false,
-      emailNotifications: true,
-      pushNotifications: false,
-    },
     appearance: {
       theme: (theme as "light" | "dark" | "system") || "system",
       language: "en",
@@ -238,7 +233,7 @@ export default function Settings() {
       </motion.div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2 lg:grid-cols-6 gap-1">
+        <TabsList className="grid w-full grid-cols-2 lg:grid-cols-7 gap-1">
           <TabsTrigger value="profile" className="gap-2">
             <User className="h-4 w-4" />
             <span className="hidden sm:inline">Profile</span>
@@ -263,6 +258,10 @@ export default function Settings() {
             <Layers className="h-4 w-4" />
             <span className="hidden sm:inline">System</span>
           </TabsTrigger>
+          <TabsTrigger value="automation" className="gap-2">
+            <Zap className="h-4 w-4" />
+            <span className="hidden sm:inline">Automation</span>
+          </TabsTrigger>
         </TabsList>
 
         {/* Profile Tab */}
@@ -356,53 +355,11 @@ export default function Settings() {
 
         {/* Notifications Tab */}
         <TabsContent value="notifications" className="space-y-6">
-          <Card className="glass-card">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Bell className="h-5 w-5 text-primary" />
-                Notification Preferences
-              </CardTitle>
-              <CardDescription>
-                Configure when and how you receive notifications
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              {[
-                { key: "newAssignments", label: "New ticket assignments", description: "Get notified when a ticket is assigned to you" },
-                { key: "ticketUpdates", label: "Ticket updates", description: "Get notified when tickets you're involved in are updated" },
-                { key: "slaWarnings", label: "SLA warnings", description: "Get notified when SLA deadlines are approaching" },
-                { key: "dailyDigest", label: "Daily digest", description: "Receive a daily summary of ticket activity" },
-                { key: "emailNotifications", label: "Email notifications", description: "Receive notifications via email" },
-                { key: "pushNotifications", label: "Push notifications", description: "Receive browser push notifications" },
-              ].map((item, index) => (
-                <motion.div
-                  key={item.key}
-                  initial={{ opacity: 0, x: -20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: index * 0.05 }}
-                  className="flex items-center justify-between py-3 border-b border-border/50 last:border-0"
-                >
-                  <div className="space-y-0.5">
-                    <Label className="font-medium">{item.label}</Label>
-                    <p className="text-sm text-muted-foreground">{item.description}</p>
-                  </div>
-                  <Switch
-                    checked={settings.notifications[item.key as keyof typeof settings.notifications]}
-                    onCheckedChange={(checked) => setSettings(prev => ({
-                      ...prev,
-                      notifications: { ...prev.notifications, [item.key]: checked }
-                    }))}
-                  />
-                </motion.div>
-              ))}
-              <div className="flex justify-end pt-4">
-                <Button onClick={() => handleSave("notifications")} disabled={isSaving} className="rounded-xl">
-                  {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
-                  Save Preferences
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+          <NotificationPreferencesCard />
+
+          <PushDevicesCard />
+
+          <DigestSettingsCard />
         </TabsContent>
 
         {/* Appearance Tab */}
@@ -868,6 +825,16 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+          <NotificationOutboxManager />
+        </TabsContent>
+
+        {/* Automation Tab */}
+        <TabsContent value="automation" className="space-y-8">
+          <MacrosManager />
+          <Separator />
+          <WorkflowRulesManager />
+          <Separator />
+          <EscalationRulesManager />
         </TabsContent>
       </Tabs>
     </div>
@@ -1,6 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { useState } from "react";
-import { Plus, Search, Building2, MapPin, Phone, Mail, MoreVertical, Edit2, Trash2 } from "lucide-react";
+import { Plus, Search, Building2, MapPin, Phone, Mail, MoreVertical, Edit2, Trash2, QrCode } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -13,6 +13,9 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { EmptyState } from "@/components/empty-state";
+import { RoleGate } from "@/components/role-gate";
+import { StudioAccessManager } from "@/components/studio-access-manager";
+import { StudioQrDialog } from "@/components/studio-qr-dialog";
 import type { Studio } from "@shared/schema";
 
 export default function Studios() {
@@ -80,11 +83,17 @@ export default function Studios() {
           }
         />
       )}
+
+      <RoleGate allowedRoles={["admin"]} showAccessDenied={false}>
+        <StudioAccessManager studios={studios || []} />
+      </RoleGate>
     </div>
   );
 }
 
 function StudioCard({ studio }: { studio: Studio }) {
+  const [qrOpen, setQrOpen] = useState(false);
+
   return (
     <Card className="hover-elevate">
       <CardContent className="pt-6">
@@ -113,6 +122,10 @@ function StudioCard({ studio }: { studio: Studio }) {
                 <Edit2 className="h-4 w-4 mr-2" />
                 Edit
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setQrOpen(true)} data-testid={`button-studio-qr-${studio.id}`}>
+                <QrCode className="h-4 w-4 mr-2" />
+                Feedback QR Code
+              </DropdownMenuItem>
               <DropdownMenuItem className="text-destructive">
                 <Trash2 className="h-4 w-4 mr-2" />
                 Delete
@@ -147,6 +160,7 @@ function StudioCard({ studio }: { studio: Studio }) {
             {studio.isActive ? "Active" : "Inactive"}
           </Badge>
         </div>
+        <StudioQrDialog studio={studio} open={qrOpen} onOpenChange={setQrOpen} />
       </CardContent>
     </Card>
   );
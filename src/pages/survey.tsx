@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useRoute, useSearch } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { CheckCircle2, Loader2, Star, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { publicRequest, PublicApiError } from "@/lib/publicApi";
+import { cn } from "@/lib/utils";
+import logoOptimized from "@/assets/logo-optimized.webp";
+
+interface SurveyResponse {
+  rating: number;
+  comment: string | null;
+  followUp: boolean;
+}
+
+interface SurveyView {
+  ticketNumber: string | null;
+  ticketTitle: string;
+  studioName: string | null;
+  customerFirstName: string | null;
+  expiresAt: string;
+  response: SurveyResponse | null;
+}
+
+const RATING_LABELS: Record<number, string> = {
+  1: "Very unhappy",
+  2: "Unhappy",
+  3: "Okay",
+  4: "Happy",
+  5: "Very happy",
+};
+
+function ThankYou({ response }: { response: SurveyResponse }) {
+  return (
+    <div className="text-center space-y-3 py-4">
+      <CheckCircle2 className="h-12 w-12 mx-auto text-emerald-500" />
+      <h2 className="text-lg font-semibold">Thank you for your feedback</h2>
+      <p className="text-sm text-muted-foreground">
+        {response.followUp
+          ? "We're sorry we let you down. Someone from the studio will be in touch to put it right."
+          : "It helps us keep improving."}
+      </p>
+    </div>
+  );
+}
+
+// Public CSAT survey, reached from the link emailed when a ticket is resolved
+export default function Survey() {
+  const [, params] = useRoute("/survey/:token");
+  const token = params?.token || "";
+  const initialRating = Number(new URLSearchParams(useSearch()).get("rating"));
+  const [rating, setRating] = useState<number | null>(initialRating >= 1 && initialRating <= 5 ? initialRating : null);
+  const [comment, setComment] = useState("");
+
+  const { data: survey, isLoading, error } = useQuery<SurveyView, PublicApiError>({
+    queryKey: ["/api/surveys", token],
+    queryFn: () => publicRequest<SurveyView>("GET", `/api/surveys/${encodeURIComponent(token)}`),
+    retry: false,
+  });
+
+  const submitMutation = useMutation<{ response: SurveyResponse }, PublicApiError>({
+    mutationFn: () => publicRequest("POST", `/api/surveys/${encodeURIComponent(token)}`, {
+      rating,
+      comment: comment.trim() || undefined,
+    }),
+  });
+
+  const response = submitMutation.data?.response || survey?.response;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-lg space-y-6"
+      >
+        <img src={logoOptimized} alt="Physique 57" className="h-12 mx-auto" />
+        <Card className="glass-card">
+          {isLoading ? (
+            <CardContent className="flex items-center justify-center p-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </CardContent>
+          ) : error || !survey ? (
+            <CardContent className="text-center space-y-3 p-10">
+              <XCircle className="h-12 w-12 mx-auto text-muted-foreground/60" />
+              <p className="text-sm text-muted-foreground">{error?.message || "This survey link isn't valid"}</p>
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle>How did we do{survey.customerFirstName ? `, ${survey.customerFirstName}` : ""}?</CardTitle>
+                <CardDescription>
+                  {survey.ticketNumber} · {survey.ticketTitle}
+                  {survey.studioName ? ` · ${survey.studioName}` : ""}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {response ? (
+                  <ThankYou response={response} />
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <div className="flex justify-center gap-2" role="radiogroup" aria-label="Rating">
+                        {[1, 2, 3, 4, 5].map((value) => (
+                          <button
+                            key={value}
+                            type="button"
+                            role="radio"
+                            aria-checked={rating === value}
+                            aria-label={`${value} - ${RATING_LABELS[value]}`}
+                            onClick={() => setRating(value)}
+                            className="p-1 rounded-lg transition-transform hover:scale-110"
+                            data-testid={`button-rating-${value}`}
+                          >
+                            <Star
+                              className={cn(
+                                "h-10 w-10",
+                                rating !== null && value <= rating ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40",
+                              )}
+                            />
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-center text-sm text-muted-foreground h-5">
+                        {rating ? RATING_LABELS[rating] : "Tap a star to rate"}
+                      </p>
+                    </div>
+
+                    <Textarea
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      placeholder="Anything you'd like to tell us? (optional)"
+                      maxLength={2000}
+                      rows={4}
+                      data-testid="input-survey-comment"
+                    />
+
+                    {submitMutation.error && (
+                      <p className="text-sm text-destructive">{submitMutation.error.message}</p>
+                    )}
+
+                    <Button
+                      className="w-full rounded-xl"
+                      disabled={!rating || submitMutation.isPending}
+                      onClick={() => submitMutation.mutate()}
+                      data-testid="button-submit-survey"
+                    >
+                      {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Send Feedback
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -53,7 +53,7 @@ import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { TICKET_TEMPLATES, type TicketTemplate as BaseTicketTemplate } from "@/components/ticket-templates";
 import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/hooks/useAuth";
+import { createTicket, describeRouting } from "@/lib/ticketApi";
 
 interface TicketTemplate extends BaseTicketTemplate {
   isCustom?: boolean;
@@ -348,7 +348,6 @@ const ALL_TEMPLATES: TicketTemplate[] = [...DEFAULT_TEMPLATES, ...ADDITIONAL_TEM
 export default function Templates() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
-  const { user } = useAuth();
   const [templates, setTemplates] = useState<TicketTemplate[]>(ALL_TEMPLATES);
   const [searchQuery, setSearchQuery] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("all");
@@ -403,14 +402,6 @@ export default function Templates() {
     setIsCreatingTicket(true);
 
     try {
-      // Generate ticket number
-      const now = new Date();
-      const year = now.getFullYear().toString().slice(-2);
-      const month = (now.getMonth() + 1).toString().padStart(2, '0');
-      const day = now.getDate().toString().padStart(2, '0');
-      const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-      const ticketNumber = `TKT-${year}${month}${day}-${random}`;
-
       const matchingCategory = dbCategories.find(
         (c: any) =>
           (c.name ?? "").toLowerCase().includes((template.category ?? "").toLowerCase().split(" ")[0]) ||
@@ -430,32 +421,23 @@ export default function Templates() {
         return;
       }
 
-      const { data: ticket, error } = await supabase
-        .from('tickets')
-        .insert([{
-          ticketNumber,
-          title: template.suggestedTitle,
-          description: template.suggestedDescription,
-          categoryId: matchingCategory.id,
-          studioId: defaultStudio.id,
-          priority: template.priority,
-          status: 'new',
-          source: 'template',
-          tags: template.tags || [],
-          reportedByUserId: user?.id,
-          dynamicFieldData: {
-            templateId: template.id,
-            templateName: template.name,
-          },
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
+      const ticket = await createTicket({
+        title: template.suggestedTitle,
+        description: template.suggestedDescription,
+        categoryId: matchingCategory.id,
+        studioId: defaultStudio.id,
+        priority: template.priority,
+        source: 'template',
+        tags: template.tags || [],
+        dynamicFieldData: {
+          templateId: template.id,
+          templateName: template.name,
+        },
+      });
 
       toast({
         title: "Ticket Created from Template",
-        description: `Ticket ${ticketNumber} created. You can now edit the details.`,
+        description: `Ticket ${ticket.ticketNumber} created. ${describeRouting(ticket.routing)}.`,
       });
 
       // Navigate to the ticket to fill in specifics
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useRoute, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { format, formatDistanceToNow } from "date-fns";
@@ -20,6 +20,8 @@ import {
   Lock,
   FileCheck,
   Loader2,
+  GitMerge,
+  Mail,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -48,9 +50,25 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { PriorityBadge } from "@/components/priority-badge";
 import { StatusBadge } from "@/components/status-badge";
 import { AssignAssociateModal } from "@/components/assign-associate-modal";
+import { TicketAttachments } from "@/components/ticket-attachments";
+import { MergeTicketsDialog } from "@/components/merge-tickets-dialog";
+import { SubTicketsPanel } from "@/components/sub-tickets-panel";
+import { TicketWatchers } from "@/components/ticket-watchers";
+import { TicketFeedback } from "@/components/ticket-feedback";
+import { MacroMenu } from "@/components/macro-menu";
+import {
+  MentionTextarea,
+  activeMentionIds,
+  mentionLabel,
+  renderMentions,
+  type Mention,
+  type MentionableUser,
+} from "@/components/mention-textarea";
+import { MAX_ATTACHMENTS_PER_UPLOAD, uploadAttachments } from "@/lib/ticketApi";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { queryClient } from "@/lib/queryClient";
+import { useUserRole } from "@/hooks/useUserRole";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { supabase } from "@/integrations/supabase/client";
 import { STATUSES, PRIORITIES, STUDIOS, DEPARTMENTS } from "@/lib/constants";
 import type {
@@ -65,6 +83,8 @@ interface TicketWithRelations extends Ticket {
   history?: TicketHistory[];
   assignedTo?: UserType;
   reportedBy?: UserType;
+  mergedInto?: Pick<Ticket, "id" | "ticketNumber" | "title"> | null;
+  parent?: Pick<Ticket, "id" | "ticketNumber" | "title"> | null;
 }
 
 export default function TicketDetail() {
@@ -72,13 +92,19 @@ export default function TicketDetail() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const { user } = useAuth();
+  const { canManageTickets } = useUserRole();
   const ticketId = params?.id;
 
   const [newComment, setNewComment] = useState("");
   const [isInternalNote, setIsInternalNote] = useState(false);
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const [commentMentions, setCommentMentions] = useState<Mention[]>([]);
+  const [emailMentions, setEmailMentions] = useState(false);
+  const commentFileInputRef = useRef<HTMLInputElement>(null);
   const [activeTab, setActiveTab] = useState("comments");
   const [resolutionSummary, setResolutionSummary] = useState("");
   const [isClosingTicket, setIsClosingTicket] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
 
   const { data: ticket, isLoading } = useQuery<TicketWithRelations>({
     queryKey: ['ticket-detail', ticketId],
@@ -93,6 +119,8 @@ export default function TicketDetail() {
           studio:studios(id, name, code),
           assignedTo:users!tickets_assignedToUserId_fkey(id, firstName, lastName, displayName, email),
           reportedBy:users!tickets_reportedByUserId_fkey(id, firstName, lastName, displayName),
+          mergedInto:mergedIntoTicketId(id, ticketNumber, title),
+          parent:parentTicketId(id, ticketNumber, title),
           comments:ticketComments(*, user:users!ticketComments_userId_fkey(id, firstName, lastName, displayName)),
           history:ticketHistory(*)
         `)
@@ -103,6 +131,32 @@ export default function TicketDetail() {
     },
   });
 
+  const { data: activeUsers = [] } = useQuery<MentionableUser[]>({
+    queryKey: ["users-for-assignment"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("users")
+        .select("id, firstName, lastName, displayName, email, role, isActive")
+        .eq("isActive", true)
+        .order("displayName");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+  const usersById = new Map(activeUsers.map((activeUser) => [activeUser.id, activeUser]));
+  const pendingMentionIds = activeMentionIds(newComment, commentMentions);
+
+  // Mention notifications link to #comment-<id>; bring that comment into view once loaded
+  const commentCount = ticket?.comments?.length ?? 0;
+  useEffect(() => {
+    const hash = window.location.hash;
+    if (!hash.startsWith("#comment-") || commentCount === 0) return;
+    setActiveTab("comments");
+    requestAnimationFrame(() => {
+      document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: "smooth", block: "center" });
+    });
+  }, [commentCount]);
+
   // Check if current user is the assigned owner or ticket reporter
   const isTicketOwner = user?.id && ticket?.assignedToUserId === user.id;
   const isTicketReporter = user?.id && ticket?.reportedByUserId === user.id;
@@ -112,24 +166,21 @@ export default function TicketDetail() {
   // Close ticket mutation
   const closeTicketMutation = useMutation({
     mutationFn: async (data: { resolutionSummary: string }) => {
-      const { error } = await supabase
-        .from('tickets')
-        .update({
-          status: 'closed',
-          resolutionSummary: data.resolutionSummary,
-          closedAt: new Date().toISOString(),
-          resolvedAt: new Date().toISOString(),
-        })
-        .eq('id', ticketId);
-      if (error) throw error;
+      // Through the API so watchers are notified and workflows run
+      await apiRequest("PATCH", `/api/tickets/${ticketId}`, {
+        status: 'closed',
+        resolutionSummary: data.resolutionSummary,
+      });
     },
     onSuccess: () => {
       toast({ title: "Ticket closed successfully" });
       queryClient.invalidateQueries({ queryKey: ['ticket-detail', ticketId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets', ticketId, 'watchers'] });
       setResolutionSummary("");
     },
-    onError: () => {
-      toast({ title: "Failed to close ticket", variant: "destructive" });
+    onError: (error) => {
+      // Sub-ticket rules explain themselves (e.g. open sub-tickets block closing)
+      toast({ title: "Failed to close ticket", description: error.message, variant: "destructive" });
     },
   });
 
@@ -145,28 +196,20 @@ export default function TicketDetail() {
 
   const updateStatusMutation = useMutation({
     mutationFn: async (status: string) => {
-      const { error } = await supabase
-        .from('tickets')
-        .update({ status, updatedAt: new Date().toISOString() })
-        .eq('id', ticketId);
-      if (error) throw error;
+      await apiRequest("PATCH", `/api/tickets/${ticketId}`, { status });
     },
     onSuccess: () => {
       toast({ title: "Status updated" });
       queryClient.invalidateQueries({ queryKey: ['ticket-detail', ticketId] });
     },
-    onError: () => {
-      toast({ title: "Failed to update status", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to update status", description: error.message, variant: "destructive" });
     },
   });
 
   const updatePriorityMutation = useMutation({
     mutationFn: async (priority: string) => {
-      const { error } = await supabase
-        .from('tickets')
-        .update({ priority, updatedAt: new Date().toISOString() })
-        .eq('id', ticketId);
-      if (error) throw error;
+      await apiRequest("PATCH", `/api/tickets/${ticketId}`, { priority });
     },
     onSuccess: () => {
       toast({ title: "Priority updated" });
@@ -178,23 +221,24 @@ export default function TicketDetail() {
   });
 
   const addCommentMutation = useMutation({
-    mutationFn: async (data: { content: string; isInternal: boolean }) => {
+    mutationFn: async (data: { content: string; isInternal: boolean; mentionedUserIds: string[]; emailMentions: boolean }) => {
       if (!user?.id) throw new Error("User not authenticated");
-      const { error } = await supabase
-        .from('ticketComments')
-        .insert({
-          ticketId,
-          userId: user.id,
-          content: data.content,
-          isInternal: data.isInternal,
-        });
-      if (error) throw error;
+      const res = await apiRequest("POST", `/api/tickets/${ticketId}/comments`, data);
+      const comment: { id: string } = await res.json();
+      if (commentFiles.length > 0) {
+        await uploadAttachments(ticketId!, commentFiles, { commentId: comment.id });
+      }
     },
     onSuccess: () => {
       toast({ title: "Comment added" });
       setNewComment("");
       setIsInternalNote(false);
+      setCommentFiles([]);
+      setCommentMentions([]);
+      setEmailMentions(false);
       queryClient.invalidateQueries({ queryKey: ['ticket-detail', ticketId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets', ticketId, 'attachments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets', ticketId, 'watchers'] });
     },
     onError: () => {
       toast({ title: "Failed to add comment", variant: "destructive" });
@@ -206,6 +250,8 @@ export default function TicketDetail() {
       addCommentMutation.mutate({
         content: newComment.trim(),
         isInternal: isInternalNote,
+        mentionedUserIds: pendingMentionIds,
+        emailMentions,
       });
     }
   };
@@ -265,6 +311,20 @@ export default function TicketDetail() {
           <h1 className="text-xl font-semibold truncate mt-1">
             {ticket.title}
           </h1>
+          {ticket.parent && (
+            <p className="text-sm text-muted-foreground mt-1">
+              Sub-ticket of{" "}
+              <button
+                type="button"
+                className="font-mono text-primary hover:underline"
+                onClick={() => navigate(`/tickets/${ticket.parent!.id}`)}
+                data-testid="link-parent-ticket"
+              >
+                {ticket.parent.ticketNumber}
+              </button>
+              {" "}— {ticket.parent.title}
+            </p>
+          )}
         </div>
         <div className="flex items-center gap-2">
           {canAssignAssociate && (
@@ -273,6 +333,7 @@ export default function TicketDetail() {
               currentAssigneeId={ticket.assignedToUserId}
             />
           )}
+          {canManageTickets && !ticket.mergedIntoTicketId && <MacroMenu ticketIds={[ticket.id]} />}
           <Button variant="outline" size="sm" data-testid="button-edit-ticket">
             <Edit2 className="h-4 w-4 mr-2" />
             Edit
@@ -290,6 +351,12 @@ export default function TicketDetail() {
             <DropdownMenuContent align="end">
               <DropdownMenuItem>Assign to Team</DropdownMenuItem>
               <DropdownMenuItem>Escalate</DropdownMenuItem>
+              {canManageTickets && !ticket.mergedIntoTicketId && (
+                <DropdownMenuItem onClick={() => setIsMergeOpen(true)} data-testid="menu-merge-ticket">
+                  <GitMerge className="h-4 w-4 mr-2" />
+                  Merge…
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem className="text-destructive">
                 Close Ticket
@@ -299,6 +366,35 @@ export default function TicketDetail() {
         </div>
       </div>
 
+      <MergeTicketsDialog
+        open={isMergeOpen}
+        onOpenChange={setIsMergeOpen}
+        tickets={[ticket]}
+        onMerged={(primaryId) => {
+          if (primaryId !== ticket.id) navigate(`/tickets/${primaryId}`);
+        }}
+      />
+
+      {ticket.mergedInto && (
+        <div
+          className="flex items-center gap-3 rounded-lg border border-primary/40 bg-primary/5 px-4 py-3 text-sm"
+          data-testid="banner-merged-into"
+        >
+          <GitMerge className="h-4 w-4 text-primary shrink-0" />
+          <span className="flex-1">
+            This ticket was merged into{" "}
+            <button
+              type="button"
+              className="font-mono font-medium text-primary hover:underline"
+              onClick={() => navigate(`/tickets/${ticket.mergedInto!.id}`)}
+            >
+              {ticket.mergedInto.ticketNumber}
+            </button>
+            {" "}— {ticket.mergedInto.title}. Its comments and files now live there.
+          </span>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2 space-y-6">
           <Card>
@@ -312,6 +408,8 @@ export default function TicketDetail() {
             </CardContent>
           </Card>
 
+          {!ticket.parentTicketId && <SubTicketsPanel ticket={ticket} canManage={canManageTickets} />}
+
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-lg flex items-center gap-2">
@@ -398,16 +496,23 @@ export default function TicketDetail() {
                       ticket.comments.map((comment, index) => (
                         <div
                           key={comment.id}
-                          className={`flex gap-3 ${comment.isInternal ? "bg-muted/50 p-3 rounded-md" : ""}`}
+                          id={`comment-${comment.id}`}
+                          className={`flex gap-3 scroll-mt-24 ${comment.isInternal ? "bg-muted/50 p-3 rounded-md" : ""}`}
                         >
                           <Avatar className="h-8 w-8">
                             <AvatarFallback>U</AvatarFallback>
                           </Avatar>
                           <div className="flex-1">
                             <div className="flex items-center gap-2">
-                              <span className="text-sm font-medium">
-                                {comment.userId}
+                              <span className="text-sm font-medium" title={comment.authorEmail || undefined}>
+                                {comment.authorName || comment.userId}
                               </span>
+                              {comment.commentType === "email" && (
+                                <Badge variant="outline" className="text-xs gap-1">
+                                  <Mail className="h-3 w-3" />
+                                  Email
+                                </Badge>
+                              )}
                               {comment.isInternal && (
                                 <Badge variant="secondary" className="text-xs">
                                   Internal
@@ -423,7 +528,13 @@ export default function TicketDetail() {
                               </span>
                             </div>
                             <p className="text-sm mt-1 whitespace-pre-wrap">
-                              {comment.content}
+                              {renderMentions(
+                                comment.content,
+                                (comment.mentionedUserIds || []).map((id) => {
+                                  const mentioned = usersById.get(id);
+                                  return mentioned ? mentionLabel(mentioned) : "";
+                                }),
+                              )}
                             </p>
                           </div>
                         </div>
@@ -436,45 +547,85 @@ export default function TicketDetail() {
                     )}
                   </div>
 
-                  <Separator />
-
-                  <div className="space-y-3">
-                    <Textarea
-                      placeholder="Add a comment..."
-                      value={newComment}
-                      onChange={(e) => setNewComment(e.target.value)}
-                      className="min-h-24"
-                      data-testid="input-new-comment"
-                    />
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <Checkbox
-                          id="internal-note"
-                          checked={isInternalNote}
-                          onCheckedChange={(checked) =>
-                            setIsInternalNote(checked as boolean)
-                          }
-                          data-testid="checkbox-internal-note"
+                  {canManageTickets && (
+                    <>
+                      <Separator />
+
+                      <div className="space-y-3">
+                        <MentionTextarea
+                          placeholder="Add a comment... Type @ to mention a colleague"
+                          value={newComment}
+                          onChange={setNewComment}
+                          mentions={commentMentions}
+                          onMentionsChange={setCommentMentions}
+                          users={activeUsers.filter((activeUser) => activeUser.id !== user?.id)}
+                          className="min-h-24"
+                          data-testid="input-new-comment"
                         />
-                        <Label
-                          htmlFor="internal-note"
-                          className="text-sm text-muted-foreground"
-                        >
-                          Internal note (not visible to client)
-                        </Label>
+                        {pendingMentionIds.length > 0 && (
+                          <div className="flex items-center gap-2">
+                            <Checkbox
+                              id="email-mentions"
+                              checked={emailMentions}
+                              onCheckedChange={(checked) => setEmailMentions(checked as boolean)}
+                              data-testid="checkbox-email-mentions"
+                            />
+                            <Label htmlFor="email-mentions" className="text-sm text-muted-foreground">
+                              Also email the {pendingMentionIds.length === 1 ? "person" : `${pendingMentionIds.length} people`} mentioned
+                            </Label>
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <Checkbox
+                              id="internal-note"
+                              checked={isInternalNote}
+                              onCheckedChange={(checked) =>
+                                setIsInternalNote(checked as boolean)
+                              }
+                              data-testid="checkbox-internal-note"
+                            />
+                            <Label
+                              htmlFor="internal-note"
+                              className="text-sm text-muted-foreground"
+                            >
+                              Internal note (not visible to client)
+                            </Label>
+                            <input
+                              ref={commentFileInputRef}
+                              type="file"
+                              multiple
+                              className="hidden"
+                              onChange={(e) => {
+                                const files = Array.from(e.target.files || []);
+                                e.target.value = "";
+                                setCommentFiles((prev) => [...prev, ...files].slice(0, MAX_ATTACHMENTS_PER_UPLOAD));
+                              }}
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => commentFileInputRef.current?.click()}
+                              data-testid="button-attach-comment-file"
+                            >
+                              <Paperclip className="h-4 w-4 mr-1" />
+                              {commentFiles.length > 0 ? `${commentFiles.length} file${commentFiles.length !== 1 ? "s" : ""}` : "Attach"}
+                            </Button>
+                          </div>
+                          <Button
+                            onClick={handleAddComment}
+                            disabled={
+                              !newComment.trim() || addCommentMutation.isPending
+                            }
+                            data-testid="button-add-comment"
+                          >
+                            <Send className="h-4 w-4 mr-2" />
+                            {addCommentMutation.isPending ? "Sending..." : "Send"}
+                          </Button>
+                        </div>
                       </div>
-                      <Button
-                        onClick={handleAddComment}
-                        disabled={
-                          !newComment.trim() || addCommentMutation.isPending
-                        }
-                        data-testid="button-add-comment"
-                      >
-                        <Send className="h-4 w-4 mr-2" />
-                        {addCommentMutation.isPending ? "Sending..." : "Send"}
-                      </Button>
-                    </div>
-                  </div>
+                    </>
+                  )}
                 </TabsContent>
 
                 <TabsContent value="history" className="m-0">
@@ -525,10 +676,7 @@ export default function TicketDetail() {
                 </TabsContent>
 
                 <TabsContent value="attachments" className="m-0">
-                  <div className="text-center py-8 text-muted-foreground">
-                    <Paperclip className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                    <p className="text-sm">No attachments</p>
-                  </div>
+                  <TicketAttachments ticketId={ticket.id} />
                 </TabsContent>
               </CardContent>
             </Tabs>
@@ -716,6 +864,10 @@ export default function TicketDetail() {
             </CardContent>
           </Card>
 
+          <TicketWatchers ticketId={ticket.id} />
+
+          <TicketFeedback ticketId={ticket.id} />
+
           {/* Resolution Section - Only visible to ticket owner/admin */}
           {canCloseTicket && ticket.status !== 'closed' && (
             <Card className="border-primary/50 bg-primary/5">
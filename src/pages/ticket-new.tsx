@@ -78,6 +78,7 @@ import { TemplateGallery } from "@/components/premium-ticket-form/template-galle
 import { FormStepIndicator } from "@/components/premium-ticket-form/form-step-indicator";
 import { AIAssistantPanel } from "@/components/premium-ticket-form/ai-assistant-panel";
 import { supabase } from "@/integrations/supabase/client";
+import { createTicket, describeRouting, uploadAttachments } from "@/lib/ticketApi";
 import { PRIORITIES, CLIENT_MOODS, CLIENT_STATUSES, TRAINERS, CLASSES } from "@/lib/constants";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
@@ -235,7 +236,6 @@ export default function NewTicket() {
   const searchString = useSearch();
   const { toast } = useToast();
   const { user } = useAuth();
-  const [ticketNumber, setTicketNumber] = useState("");
   const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isGeneratingTitle, setIsGeneratingTitle] = useState(false);
@@ -255,19 +255,6 @@ export default function NewTicket() {
     return params.get('template');
   }, [searchString]);
 
-  // Generate ticket number on mount
-  useEffect(() => {
-    const generateTicketNumber = () => {
-      const now = new Date();
-      const year = now.getFullYear().toString().slice(-2);
-      const month = (now.getMonth() + 1).toString().padStart(2, '0');
-      const day = now.getDate().toString().padStart(2, '0');
-      const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-      return `TKT-${year}${month}${day}-${random}`;
-    };
-    setTicketNumber(generateTicketNumber());
-  }, []);
-
   const form = useForm<TicketFormValues>({
     resolver: zodResolver(ticketFormSchema),
     defaultValues: {
@@ -601,34 +588,8 @@ export default function NewTicket() {
         dynamicFieldData.trainerPhone = data.trainerPhone;
       }
 
-      const category = categories.find(c => c.id === data.categoryId);
-      const subcategory = subcategories.find(s => s.id === data.subcategoryId);
-
-      // AI-powered routing analysis
-      let aiRouting = null;
-      try {
-        const { data: routingData, error: routingError } = await supabase.functions.invoke('analyze-ticket', {
-          body: {
-            title: data.title,
-            description: data.description,
-            category: category?.name,
-            subcategory: subcategory?.name,
-            studioId: data.studioId,
-          }
-        });
-        if (!routingError && routingData) {
-          aiRouting = routingData;
-          const priorityOrder = ['low', 'medium', 'high', 'critical'];
-          if (aiRouting.priority && priorityOrder.indexOf(aiRouting.priority) > priorityOrder.indexOf(data.priority)) {
-            data.priority = aiRouting.priority;
-          }
-        }
-      } catch (aiError) {
-        console.warn('AI routing failed:', aiError);
-      }
-
+      // Routing, priority, SLA, history and notifications are applied by the server
       const ticketData = {
-        ticketNumber,
         studioId: data.studioId,
         categoryId: data.categoryId,
         subcategoryId: data.subcategoryId || null,
@@ -645,110 +606,30 @@ export default function NewTicket() {
         internalNotes: data.internalNotes || null,
         assignedDepartmentId: data.assignedDepartmentId && data.assignedDepartmentId !== '_auto' ? data.assignedDepartmentId : null,
         assignedToUserId: data.assignedToUserId && data.assignedToUserId !== '_auto' ? data.assignedToUserId : null,
-        reportedByUserId: user?.id || null,
-        dynamicFieldData: {
-          ...dynamicFieldData,
-          aiRouting: aiRouting ? {
-            department: aiRouting.department,
-            suggestedTags: aiRouting.suggestedTags,
-            needsEscalation: aiRouting.needsEscalation,
-            routingConfidence: aiRouting.routingConfidence,
-            analysis: aiRouting.analysis,
-          } : null,
-        },
+        dynamicFieldData,
         source: data.source || 'in-person',
-        status: aiRouting?.needsEscalation ? 'escalated' : 'new',
-        tags: aiRouting?.suggestedTags || [],
       };
 
-      const { data: ticket, error } = await supabase
-        .from('tickets')
-        .insert([ticketData])
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Get studio name for notifications
-      const studioName = studios.find(s => s.id === data.studioId)?.name || '';
-
-      // Send email notifications
-      const notificationPromises: Promise<any>[] = [];
-
-      // Notify assignee if assigned
-      if (data.assignedToUserId && data.assignedToUserId !== '_auto') {
-        const assignee = users.find(u => u.id === data.assignedToUserId);
-        if (assignee?.email) {
-          notificationPromises.push(
-            supabase.functions.invoke('send-ticket-notification', {
-              body: {
-                type: 'assignment',
-                ticketNumber,
-                ticketTitle: data.title,
-                recipientEmail: assignee.email,
-                recipientName: assignee.displayName || assignee.email,
-                studioName,
-                priority: data.priority,
-                category: category?.name,
-                ticketUrl: `${window.location.origin}/tickets/${ticket.id}`,
-              }
-            }).catch(err => console.warn('Failed to send assignee notification:', err))
-          );
-        }
-      }
-
-      // Notify reporter
-      if (user?.email) {
-        notificationPromises.push(
-          supabase.functions.invoke('send-ticket-notification', {
-            body: {
-              type: 'status_change',
-              ticketNumber,
-              ticketTitle: data.title,
-              recipientEmail: user.email,
-              recipientName: user.firstName || user.email,
-              oldStatus: 'Draft',
-              newStatus: 'New',
-              studioName,
-              priority: data.priority,
-              ticketUrl: `${window.location.origin}/tickets/${ticket.id}`,
-            }
-          }).catch(err => console.warn('Failed to send reporter notification:', err))
-        );
-      }
-
-      // Notify customer if email provided
-      if (data.includeClientDetails && data.customerEmail) {
-        notificationPromises.push(
-          supabase.functions.invoke('send-ticket-notification', {
-            body: {
-              type: 'status_change',
-              ticketNumber,
-              ticketTitle: data.title,
-              recipientEmail: data.customerEmail,
-              recipientName: data.customerName || data.customerEmail,
-              oldStatus: 'Submitted',
-              newStatus: 'Received',
-              studioName,
-              priority: data.priority,
-              ticketUrl: `${window.location.origin}/tickets/${ticket.id}`,
-            }
-          }).catch(err => console.warn('Failed to send customer notification:', err))
-        );
-      }
-
-      // Send all notifications (don't block on them)
-      if (notificationPromises.length > 0) {
-        Promise.all(notificationPromises).catch(err => {
-          console.warn('Some notifications failed:', err);
-        });
-      }
+      const ticket = await createTicket(ticketData);
 
       toast({
         title: "Ticket created successfully",
-        description: `Ticket ${ticketNumber} has been submitted. Notifications sent.`,
+        description: `Ticket ${ticket.ticketNumber} has been submitted. ${describeRouting(ticket.routing)}.`,
       });
 
+      // The ticket exists either way; a failed upload can be retried from its Files tab
+      if (attachedFiles.length > 0) {
+        try {
+          await uploadAttachments(ticket.id, attachedFiles);
+        } catch (uploadError: any) {
+          toast({
+            title: "Attachments not uploaded",
+            description: `${uploadError.message}. Add them from the ticket's Files tab.`,
+            variant: "destructive",
+          });
+        }
+      }
+
       queryClient.invalidateQueries({ queryKey: ['tickets'] });
       navigate("/tickets");
     } catch (error: any) {
@@ -1007,7 +888,7 @@ export default function NewTicket() {
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-muted/30 rounded-xl">
                     <div>
                       <span className="text-xs text-muted-foreground">Ticket ID</span>
-                      <p className="font-mono font-semibold text-sm">{ticketNumber}</p>
+                      <p className="font-mono font-semibold text-sm text-muted-foreground">Assigned on submit</p>
                     </div>
                     <div>
                       <span className="text-xs text-muted-foreground">Date & Time</span>
@@ -1665,7 +1546,7 @@ export default function NewTicket() {
                         Click to upload or drag files here
                       </span>
                       <span className="text-xs text-muted-foreground">
-                        Max 5 files (Images, PDF, DOC)
+                        Max 5 files, 10 MB each (Images, PDF, DOC)
                       </span>
                     </label>
                   </div>
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useLocation, useRoute } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { ArrowLeft, Loader2, Search, Send, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { publicRequest, PublicApiError } from "@/lib/publicApi";
+import { queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import logoOptimized from "@/assets/logo-optimized.webp";
+
+interface PortalComment {
+  id: string;
+  fromCustomer: boolean;
+  authorName: string;
+  content: string;
+  createdAt: string | null;
+}
+
+interface PortalTicket {
+  ticketNumber: string | null;
+  title: string;
+  status: string;
+  statusLabel: string;
+  studioName: string | null;
+  assigneeFirstName: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  resolvedAt: string | null;
+  canReply: boolean;
+  comments: PortalComment[];
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  new: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
+  assigned: "bg-indigo-500/10 text-indigo-600 dark:text-indigo-400",
+  in_progress: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+  pending_customer: "bg-orange-500/10 text-orange-600 dark:text-orange-400",
+  resolved: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400",
+  closed: "bg-muted text-muted-foreground",
+  reopened: "bg-red-500/10 text-red-600 dark:text-red-400",
+};
+
+function LookupForm() {
+  const [, navigate] = useLocation();
+  const [ticketNumber, setTicketNumber] = useState("");
+  const [email, setEmail] = useState("");
+
+  const lookupMutation = useMutation<{ token: string }, PublicApiError>({
+    mutationFn: () => publicRequest("POST", "/api/portal/lookup", { ticketNumber, email }),
+    onSuccess: ({ token }) => navigate(`/status/${token}`),
+  });
+
+  return (
+    <>
+      <CardHeader>
+        <CardTitle>Check on your request</CardTitle>
+        <CardDescription>Enter the ticket number from your confirmation email and the email address you used.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            lookupMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="ticket-number">Ticket number</Label>
+            <Input
+              id="ticket-number"
+              value={ticketNumber}
+              onChange={(e) => setTicketNumber(e.target.value)}
+              placeholder="e.g. TKT-2610-KH-0042"
+              required
+              data-testid="input-status-ticket-number"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ticket-email">Email address</Label>
+            <Input
+              id="ticket-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              data-testid="input-status-email"
+            />
+          </div>
+          {lookupMutation.error && <p className="text-sm text-destructive">{lookupMutation.error.message}</p>}
+          <Button
+            type="submit"
+            className="w-full rounded-xl"
+            disabled={!ticketNumber.trim() || !email.trim() || lookupMutation.isPending}
+            data-testid="button-status-lookup"
+          >
+            {lookupMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+            Find My Request
+          </Button>
+        </form>
+      </CardContent>
+    </>
+  );
+}
+
+function TicketView({ token }: { token: string }) {
+  const [reply, setReply] = useState("");
+  const queryKey = ["/api/portal/tickets", token];
+
+  const { data: ticket, isLoading, error } = useQuery<PortalTicket, PublicApiError>({
+    queryKey,
+    queryFn: () => publicRequest<PortalTicket>("GET", `/api/portal/tickets/${encodeURIComponent(token)}`),
+    retry: false,
+  });
+
+  const replyMutation = useMutation<PortalComment, PublicApiError>({
+    mutationFn: () => publicRequest("POST", `/api/portal/tickets/${encodeURIComponent(token)}/replies`, { content: reply }),
+    onSuccess: () => {
+      setReply("");
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <CardContent className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </CardContent>
+    );
+  }
+
+  if (error || !ticket) {
+    return (
+      <CardContent className="text-center space-y-4 p-10">
+        <XCircle className="h-12 w-12 mx-auto text-muted-foreground/60" />
+        <p className="text-sm text-muted-foreground">{error?.message || "This link isn't valid"}</p>
+        <Button variant="outline" className="rounded-xl" asChild>
+          <a href="/status">Look up a request</a>
+        </Button>
+      </CardContent>
+    );
+  }
+
+  return (
+    <>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1">
+            <CardTitle>{ticket.title}</CardTitle>
+            <CardDescription>
+              {ticket.ticketNumber}
+              {ticket.studioName ? ` · ${ticket.studioName}` : ""}
+              {ticket.createdAt ? ` · Opened ${format(new Date(ticket.createdAt), "d MMM yyyy")}` : ""}
+            </CardDescription>
+          </div>
+          <Badge className={cn("shrink-0 border-0", STATUS_STYLES[ticket.status])} data-testid="badge-status">
+            {ticket.statusLabel}
+          </Badge>
+        </div>
+        {ticket.assigneeFirstName && (
+          <p className="text-sm text-muted-foreground">{ticket.assigneeFirstName} is looking after your request.</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {ticket.comments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No updates yet. We'll reply here and by email.</p>
+          ) : (
+            ticket.comments.map((comment) => (
+              <div
+                key={comment.id}
+                className={cn(
+                  "rounded-xl p-3 space-y-1 max-w-[85%]",
+                  comment.fromCustomer ? "ml-auto bg-primary/10" : "bg-muted/50",
+                )}
+                data-testid={`portal-comment-${comment.id}`}
+              >
+                <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{comment.fromCustomer ? "You" : comment.authorName}</span>
+                  {comment.createdAt && <span>{format(new Date(comment.createdAt), "d MMM, HH:mm")}</span>}
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{comment.content}</p>
+              </div>
+            ))
+          )}
+        </div>
+
+        {ticket.canReply ? (
+          <div className="space-y-3">
+            <Textarea
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              placeholder="Add a reply or more details"
+              maxLength={5000}
+              rows={4}
+              data-testid="input-portal-reply"
+            />
+            {replyMutation.error && <p className="text-sm text-destructive">{replyMutation.error.message}</p>}
+            <Button
+              className="w-full rounded-xl"
+              disabled={!reply.trim() || replyMutation.isPending}
+              onClick={() => replyMutation.mutate()}
+              data-testid="button-portal-reply"
+            >
+              {replyMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send Reply
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center">
+            This request is closed. If you still need help, please raise a new one.
+          </p>
+        )}
+      </CardContent>
+    </>
+  );
+}
+
+// Public ticket status portal: customers look a request up by number and email,
+// or arrive on the magic link from their confirmation email
+export default function TicketStatus() {
+  const [, params] = useRoute("/status/:token");
+  const token = params?.token;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-2xl space-y-6"
+      >
+        <img src={logoOptimized} alt="Physique 57" className="h-12 mx-auto" />
+        <Card className="glass-card">
+          {token ? <TicketView token={token} /> : <LookupForm />}
+        </Card>
+        {token && (
+          <a href="/status" className="flex items-center justify-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Look up another request
+          </a>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -1,10 +1,9 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
 import { format, formatDistanceToNow } from "date-fns";
 import {
-  Search,
   Plus,
   Download,
   ChevronDown,
@@ -26,9 +25,9 @@ import {
   LayoutGrid,
   List,
   RefreshCw,
+  GitMerge,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Select,
@@ -62,6 +61,23 @@ import { StatusBadge } from "@/components/status-badge";
 import { TrainerFeedbackModal } from "@/components/trainer-feedback-modal";
 import { PRIORITIES } from "@/lib/constants";
 import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { compileTicketQuery, downloadTicketExport, searchTickets, type TicketSearchMatch } from "@/lib/ticketApi";
+import { SearchSnippet } from "@/components/search-snippet";
+import { TicketQueryInput } from "@/components/ticket-query-input";
+import { MergeTicketsDialog } from "@/components/merge-tickets-dialog";
+import { MacroMenu } from "@/components/macro-menu";
+import {
+  applyTicketFilters,
+  parseTicketQuery,
+  removeQueryTerm,
+  setQueryField,
+  type QueryClause,
+  type QueryComparator,
+  type TicketQueryField,
+} from "@shared/ticketQuery";
 import { cn } from "@/lib/utils";
 
 const STATUSES = {
@@ -74,6 +90,17 @@ const STATUSES = {
   reopened: { label: "Reopened", color: "bg-red-500" },
 };
 
+// Date range dropdown values and the created: terms they stand for
+const DATE_RANGE_TERMS: Record<string, { comparator: QueryComparator; value: string }> = {
+  today: { comparator: ":", value: "today" },
+  week: { comparator: "<", value: "7d" },
+  month: { comparator: "<", value: "30d" },
+  quarter: { comparator: "<", value: "90d" },
+};
+
+// Dropdown value shown when the query holds something a dropdown can't express
+const QUERY_ONLY = "query";
+
 const SOURCES = {
   "in-person": "In Person",
   "phone": "Phone",
@@ -81,19 +108,13 @@ const SOURCES = {
   "app": "Mobile App",
   "website": "Website",
   "social": "Social Media",
+  "qr": "QR Code",
 };
 
 export default function Tickets() {
   const [, navigate] = useLocation();
+  // The query text is the source of truth; the dropdowns read and edit it
   const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [priorityFilter, setPriorityFilter] = useState<string>("all");
-  const [categoryFilter, setCategoryFilter] = useState<string>("all");
-  const [studioFilter, setStudioFilter] = useState<string>("all");
-  const [sourceFilter, setSourceFilter] = useState<string>("all");
-  const [assigneeFilter, setAssigneeFilter] = useState<string>("all");
-  const [dateRange, setDateRange] = useState<string>("all");
-  const [slaFilter, setSlaFilter] = useState<string>("all");
   const [showFilters, setShowFilters] = useState(true);
   const [selectedTickets, setSelectedTickets] = useState<Set<string>>(new Set());
   const [viewMode, setViewMode] = useState<"table" | "list" | "grid" | "compact" | "kanban" | "grouped">("table");
@@ -102,6 +123,26 @@ export default function Tickets() {
   const [isDetailOpen, setIsDetailOpen] = useState(false);
   const [isFeedbackModalOpen, setIsFeedbackModalOpen] = useState(false);
   const [groupBy, setGroupBy] = useState<"category" | "priority" | "status">("category");
+  const [isExporting, setIsExporting] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const { canManageTickets } = useUserRole();
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await downloadTicketExport({ q: searchQuery.trim() || undefined });
+    } catch (error: any) {
+      toast({
+        title: "Export Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   // Fetch categories from Supabase
   const { data: categories = [] } = useQuery({
@@ -145,11 +186,103 @@ export default function Tickets() {
     },
   });
 
-  // Fetch tickets from Supabase with filters
+  const parsedQuery = useMemo(() => parseTicketQuery(searchQuery), [searchQuery]);
+
+  // Names, codes, emails and ids all resolve, matching the server compiler
+  const findByName = <T extends { id: string }>(records: T[], value: string, names: (record: T) => (string | null)[]) =>
+    records.find(record =>
+      record.id === value || names(record).some(name => name?.toLowerCase() === value.toLowerCase())
+    );
+
+  // Dropdown value for a field: "all" when absent, QUERY_ONLY when the
+  // query says more than the dropdown can show
+  const fieldFilter = (field: TicketQueryField, toOption: (clause: QueryClause) => string | undefined) => {
+    const clauses = parsedQuery.clauses.filter(clause => clause.field === field);
+    if (clauses.length === 0) return "all";
+    const [clause] = clauses;
+    if (clauses.length > 1 || clause.negated || clause.values.length !== 1) return QUERY_ONLY;
+    return toOption(clause) ?? QUERY_ONLY;
+  };
+  const plainValue = (clause: QueryClause) => clause.comparator === ":" ? clause.values[0].toLowerCase() : undefined;
+
+  const statusFilter = fieldFilter("status", clause => {
+    const value = plainValue(clause)?.replace(/[\s-]+/g, "_");
+    return value && (value === "open" || value in STATUSES) ? value : undefined;
+  });
+  const priorityFilter = fieldFilter("priority", clause => {
+    const value = plainValue(clause);
+    return value && value in PRIORITIES ? value : undefined;
+  });
+  const categoryFilter = fieldFilter("category", clause =>
+    findByName(categories, clause.values[0], (cat: any) => [cat.name, cat.code])?.id
+  );
+  const studioFilter = fieldFilter("studio", clause =>
+    findByName(studios, clause.values[0], (studio: any) => [studio.name, studio.code])?.id
+  );
+  const sourceFilter = fieldFilter("source", clause => {
+    const value = plainValue(clause);
+    return value && value in SOURCES ? value : undefined;
+  });
+  const assigneeFilter = fieldFilter("assignee", clause => {
+    const value = plainValue(clause);
+    if (value === "none" || value === "unassigned") return "unassigned";
+    if (value === "me") return currentUser?.id;
+    return findByName(users, clause.values[0], (user: any) => [user.email, user.displayName])?.id;
+  });
+  const dateRange = fieldFilter("created", clause =>
+    Object.entries(DATE_RANGE_TERMS).find(([, term]) =>
+      term.comparator === clause.comparator && term.value === clause.values[0].toLowerCase()
+    )?.[0]
+  );
+  const slaFilter = fieldFilter("sla", plainValue);
+  const subTicketFilter = fieldFilter("parent", clause => {
+    const value = plainValue(clause);
+    return value === "none" || value === "any" ? value : undefined;
+  });
+
+  const setField = (field: TicketQueryField, value: string | null, comparator?: QueryComparator) =>
+    setSearchQuery(query => setQueryField(query, field, value, comparator));
+  const setStatusFilter = (value: string) => setField("status", value === "all" ? null : value);
+  const setPriorityFilter = (value: string) => setField("priority", value === "all" ? null : value);
+  const setCategoryFilter = (value: string) =>
+    setField("category", categories.find((cat: any) => cat.id === value)?.name ?? null);
+  const setStudioFilter = (value: string) =>
+    setField("studio", studios.find((studio: any) => studio.id === value)?.name ?? null);
+  const setSourceFilter = (value: string) => setField("source", value === "all" ? null : value);
+  const setAssigneeFilter = (value: string) => {
+    if (value === "unassigned") return setField("assignee", "none");
+    if (value === currentUser?.id) return setField("assignee", "me");
+    const user: any = users.find((u: any) => u.id === value);
+    setField("assignee", user ? user.email || user.displayName : null);
+  };
+  const setDateRange = (value: string) => {
+    const term = DATE_RANGE_TERMS[value];
+    setField("created", term?.value ?? null, term?.comparator);
+  };
+  const setSlaFilter = (value: string) => setField("sla", value === "all" ? null : value);
+  const setSubTicketFilter = (value: string) => setField("parent", value === "all" ? null : value);
+
+  const queryOptions = useMemo(() => ({
+    studio: studios.map((studio: any) => ({ value: studio.name })),
+    category: categories.map((cat: any) => ({ value: cat.name })),
+    assignee: users.map((user: any) => ({ value: user.email || user.displayName, label: user.displayName || user.email })),
+    source: Object.entries(SOURCES).map(([value, label]) => ({ value, label })),
+  }), [studios, categories, users]);
+
+  // The server resolves names and relative dates and reports terms it can't use
+  const { data: compiledQuery } = useQuery({
+    queryKey: ['ticket-query', searchQuery],
+    queryFn: () => compileTicketQuery(searchQuery),
+    placeholderData: (previous) => previous,
+  });
+
+  // Fetch tickets from Supabase with the compiled filters
   const { data: tickets, isLoading, refetch } = useQuery({
-    queryKey: ['tickets', searchQuery, statusFilter, priorityFilter, categoryFilter, studioFilter, sourceFilter, assigneeFilter, dateRange, slaFilter, sortBy],
+    queryKey: ['tickets', compiledQuery?.filters, sortBy],
+    enabled: !!compiledQuery,
     queryFn: async () => {
-      let query = supabase
+      const filters = compiledQuery!.filters;
+      let query = applyTicketFilters(supabase
         .from('tickets')
         .select(`
           *,
@@ -158,61 +291,15 @@ export default function Tickets() {
           studio:studios(id, name, code),
           assignedTo:users!tickets_assignedToUserId_fkey(id, firstName, lastName, displayName, email),
           reportedBy:users!tickets_reportedByUserId_fkey(id, firstName, lastName, displayName)
-        `);
+        `), filters);
 
-      // Apply filters
-      if (statusFilter !== "all") {
-        query = query.eq('status', statusFilter);
-      }
-      if (priorityFilter !== "all") {
-        query = query.eq('priority', priorityFilter);
-      }
-      if (categoryFilter !== "all") {
-        query = query.eq('categoryId', categoryFilter);
-      }
-      if (studioFilter !== "all") {
-        query = query.eq('studioId', studioFilter);
-      }
-      if (sourceFilter !== "all") {
-        query = query.eq('source', sourceFilter);
-      }
-      if (assigneeFilter !== "all") {
-        if (assigneeFilter === "unassigned") {
-          query = query.is('assignedToUserId', null);
-        } else {
-          query = query.eq('assignedToUserId', assigneeFilter);
-        }
-      }
-      if (slaFilter === "breached") {
-        query = query.eq('slaBreached', true);
-      } else if (slaFilter === "at-risk") {
-        query = query.eq('slaBreached', false).not('slaDueAt', 'is', null);
-      }
-      if (searchQuery) {
-        query = query.or(`ticketNumber.ilike.%${searchQuery}%,title.ilike.%${searchQuery}%,customerName.ilike.%${searchQuery}%,customerEmail.ilike.%${searchQuery}%`);
-      }
-
-      // Apply date range filter
-      if (dateRange !== "all") {
-        const now = new Date();
-        let startDate: Date;
-        switch (dateRange) {
-          case "today":
-            startDate = new Date(now.setHours(0, 0, 0, 0));
-            break;
-          case "week":
-            startDate = new Date(now.setDate(now.getDate() - 7));
-            break;
-          case "month":
-            startDate = new Date(now.setMonth(now.getMonth() - 1));
-            break;
-          case "quarter":
-            startDate = new Date(now.setMonth(now.getMonth() - 3));
-            break;
-          default:
-            startDate = new Date(0);
-        }
-        query = query.gte('createdAt', startDate.toISOString());
+      // Ranked full-text search narrows the list; matches keep their snippets
+      let matches: Map<string, TicketSearchMatch> | null = null;
+      if (filters.search) {
+        const results = await searchTickets(filters.search, 200);
+        if (results.length === 0) return [];
+        matches = new Map(results.map(result => [result.id, result.search]));
+        query = query.in('id', results.map(result => result.id));
       }
 
       // Apply sorting
@@ -232,24 +319,19 @@ export default function Tickets() {
 
       const { data, error } = await query.limit(200);
       if (error) throw error;
-      return data || [];
+      if (!matches) return data || [];
+
+      // Most relevant first unless the user picked another order
+      const found = (data || []).map(ticket => ({ ...ticket, search: matches!.get(ticket.id) }));
+      return sortBy === "newest"
+        ? found.sort((a, b) => (b.search?.rank ?? 0) - (a.search?.rank ?? 0))
+        : found;
     },
   });
 
-  const activeFiltersCount = [statusFilter, priorityFilter, categoryFilter, studioFilter, sourceFilter, assigneeFilter, dateRange, slaFilter]
-    .filter(f => f !== "all").length;
+  const activeFiltersCount = parsedQuery.clauses.length;
 
-  const clearFilters = () => {
-    setStatusFilter("all");
-    setPriorityFilter("all");
-    setCategoryFilter("all");
-    setStudioFilter("all");
-    setSourceFilter("all");
-    setAssigneeFilter("all");
-    setDateRange("all");
-    setSlaFilter("all");
-    setSearchQuery("");
-  };
+  const clearFilters = () => setSearchQuery("");
 
   const toggleTicketSelection = (id: string) => {
     const newSelected = new Set(selectedTickets);
@@ -313,7 +395,13 @@ export default function Tickets() {
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          <Button variant="outline" size="sm" className="rounded-xl border-border hover:bg-muted">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="rounded-xl border-border hover:bg-muted"
+          >
             <Download className="h-4 w-4 mr-2" />
             Export
           </Button>
@@ -365,15 +453,14 @@ export default function Tickets() {
           <div className="flex flex-col gap-4">
             {/* Search and View Toggle */}
             <div className="flex items-center gap-3 flex-wrap">
-              <div className="relative flex-1 min-w-64">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search by ticket #, title, customer name or email..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-9 rounded-xl border-border"
-                />
-              </div>
+              <TicketQueryInput
+                value={searchQuery}
+                onChange={setSearchQuery}
+                options={queryOptions}
+                errors={compiledQuery?.errors}
+                placeholder='Search, or filter: status:open priority>=high studio:"Kenkre House" assignee:me'
+                className="flex-1 min-w-64 self-start"
+              />
               <Button
                 variant="outline"
                 size="sm"
@@ -445,6 +532,8 @@ export default function Tickets() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Statuses</SelectItem>
+                        <SelectItem value="open">Open (any)</SelectItem>
+                        {statusFilter === QUERY_ONLY && <SelectItem value={QUERY_ONLY} disabled>Set in query</SelectItem>}
                         {Object.entries(STATUSES).map(([value, config]) => (
                           <SelectItem key={value} value={value}>
                             {config.label}
@@ -459,6 +548,7 @@ export default function Tickets() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Priorities</SelectItem>
+                        {priorityFilter === QUERY_ONLY && <SelectItem value={QUERY_ONLY} disabled>Set in query</SelectItem>}
                         {Object.entries(PRIORITIES).map(([value, config]) => (
                           <SelectItem key={value} value={value}>
                             {config.label}
@@ -473,6 +563,7 @@ export default function Tickets() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Categories</SelectItem>
+                        {categoryFilter === QUERY_ONLY && <SelectItem value={QUERY_ONLY} disabled>Set in query</SelectItem>}
                         {categories.map((cat: any) => (
                           <SelectItem key={cat.id} value={cat.id}>
                             {cat.name}
@@ -487,6 +578,7 @@ export default function Tickets() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Studios</SelectItem>
+                        {studioFilter === QUERY_ONLY && <SelectItem value={QUERY_ONLY} disabled>Set in query</SelectItem>}
                         {studios.map((studio: any) => (
                           <SelectItem key={studio.id} value={studio.id}>
                             {studio.name}
@@ -501,6 +593,7 @@ export default function Tickets() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Sources</SelectItem>
+                        {sourceFilter === QUERY_ONLY && <SelectItem value={QUERY_ONLY} disabled>Set in query</SelectItem>}
                         {Object.entries(SOURCES).map(([value, label]) => (
                           <SelectItem key={value} value={value}>
                             {label}
@@ -515,6 +608,7 @@ export default function Tickets() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Assignees</SelectItem>
+                        {assigneeFilter === QUERY_ONLY && <SelectItem value={QUERY_ONLY} disabled>Set in query</SelectItem>}
                         <SelectItem value="unassigned">Unassigned</SelectItem>
                         {users.map((user: any) => (
                           <SelectItem key={user.id} value={user.id}>
@@ -531,6 +625,7 @@ export default function Tickets() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Time</SelectItem>
+                        {dateRange === QUERY_ONLY && <SelectItem value={QUERY_ONLY} disabled>Set in query</SelectItem>}
                         <SelectItem value="today">Today</SelectItem>
                         <SelectItem value="week">Last 7 Days</SelectItem>
                         <SelectItem value="month">Last 30 Days</SelectItem>
@@ -544,11 +639,24 @@ export default function Tickets() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All SLA</SelectItem>
+                        {slaFilter === QUERY_ONLY && <SelectItem value={QUERY_ONLY} disabled>Set in query</SelectItem>}
                         <SelectItem value="breached">SLA Breached</SelectItem>
                         <SelectItem value="at-risk">At Risk</SelectItem>
                       </SelectContent>
                     </Select>
 
+                    <Select value={subTicketFilter} onValueChange={setSubTicketFilter}>
+                      <SelectTrigger className="w-40 rounded-xl" data-testid="select-sub-tickets">
+                        <SelectValue placeholder="Sub-tickets" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">With Sub-tickets</SelectItem>
+                        {subTicketFilter === QUERY_ONLY && <SelectItem value={QUERY_ONLY} disabled>Set in query</SelectItem>}
+                        <SelectItem value="none">Hide Sub-tickets</SelectItem>
+                        <SelectItem value="any">Only Sub-tickets</SelectItem>
+                      </SelectContent>
+                    </Select>
+
                     {activeFiltersCount > 0 && (
                       <Button
                         variant="ghost"
@@ -568,38 +676,14 @@ export default function Tickets() {
             {/* Active Filter Badges */}
             {activeFiltersCount > 0 && !showFilters && (
               <div className="flex flex-wrap items-center gap-2">
-                {statusFilter !== "all" && (
-                  <Badge variant="secondary" className="gap-1 rounded-lg">
-                    Status: {STATUSES[statusFilter as keyof typeof STATUSES]?.label || statusFilter}
-                    <button onClick={() => setStatusFilter("all")}>
+                {parsedQuery.clauses.map((clause) => (
+                  <Badge key={clause.raw} variant="secondary" className="gap-1 rounded-lg font-mono">
+                    {clause.raw}
+                    <button onClick={() => setSearchQuery(removeQueryTerm(searchQuery, clause.raw))}>
                       <X className="h-3 w-3" />
                     </button>
                   </Badge>
-                )}
-                {priorityFilter !== "all" && (
-                  <Badge variant="secondary" className="gap-1 rounded-lg">
-                    Priority: {PRIORITIES[priorityFilter as keyof typeof PRIORITIES]?.label || priorityFilter}
-                    <button onClick={() => setPriorityFilter("all")}>
-                      <X className="h-3 w-3" />
-                    </button>
-                  </Badge>
-                )}
-                {categoryFilter !== "all" && (
-                  <Badge variant="secondary" className="gap-1 rounded-lg">
-                    Category: {categories.find((c: any) => c.id === categoryFilter)?.name || categoryFilter}
-                    <button onClick={() => setCategoryFilter("all")}>
-                      <X className="h-3 w-3" />
-                    </button>
-                  </Badge>
-                )}
-                {studioFilter !== "all" && (
-                  <Badge variant="secondary" className="gap-1 rounded-lg">
-                    Studio: {studios.find((s: any) => s.id === studioFilter)?.name || studioFilter}
-                    <button onClick={() => setStudioFilter("all")}>
-                      <X className="h-3 w-3" />
-                    </button>
-                  </Badge>
-                )}
+                ))}
               </div>
             )}
           </div>
@@ -626,10 +710,23 @@ export default function Tickets() {
                     <DropdownMenuItem>Assign to Team</DropdownMenuItem>
                     <DropdownMenuItem>Change Status</DropdownMenuItem>
                     <DropdownMenuItem>Change Priority</DropdownMenuItem>
+                    {canManageTickets && (
+                      <DropdownMenuItem
+                        disabled={selectedTickets.size < 2}
+                        onClick={() => setIsMergeOpen(true)}
+                        data-testid="bulk-merge-tickets"
+                      >
+                        <GitMerge className="h-4 w-4 mr-2" />
+                        Merge Tickets
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuSeparator />
                     <DropdownMenuItem className="text-destructive">Close Tickets</DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
+                {canManageTickets && (
+                  <MacroMenu ticketIds={Array.from(selectedTickets)} onApplied={() => setSelectedTickets(new Set())} />
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -644,6 +741,13 @@ export default function Tickets() {
         </Card>
       )}
 
+      <MergeTicketsDialog
+        open={isMergeOpen}
+        onOpenChange={setIsMergeOpen}
+        tickets={(tickets || []).filter((ticket: any) => selectedTickets.has(ticket.id))}
+        onMerged={() => setSelectedTickets(new Set())}
+      />
+
       {/* Tickets Display */}
       {isLoading ? (
         <div className="space-y-3">
@@ -699,7 +803,11 @@ export default function Tickets() {
                         <td className="p-3">
                           <div className="flex flex-col">
                             <span className="font-medium text-sm line-clamp-1">{ticket.title}</span>
-                            <span className="text-xs text-muted-foreground">{ticket.ticketNumber}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {ticket.ticketNumber}
+                              {ticket.parentTicketId && " · Sub-ticket"}
+                            </span>
+                            {ticket.search && <SearchSnippet snippet={ticket.search.snippet} className="mt-1" />}
                           </div>
                         </td>
                         <td className="p-3"><StatusBadge status={ticket.status || "new"} /></td>
@@ -751,6 +859,7 @@ export default function Tickets() {
                           <div className="flex items-start justify-between gap-3">
                             <div className="flex-1 min-w-0">
                               <h3 className="font-medium text-sm line-clamp-2 mb-1">{ticket.title}</h3>
+                              {ticket.search && <SearchSnippet snippet={ticket.search.snippet} className="mb-1" />}
                               <span className="font-mono text-xs text-muted-foreground">{ticket.ticketNumber}</span>
                               {isOverdue && (
                                 <Badge variant="destructive" className="text-xs gap-1 ml-2">
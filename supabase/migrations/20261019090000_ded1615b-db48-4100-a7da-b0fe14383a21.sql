@@ -0,0 +1,9 @@
+-- Server-maintained SLA deadlines
+-- firstResponseDueAt / slaDueAt are computed from the matching slaRules row in business hours
+
+ALTER TABLE public.tickets ADD COLUMN IF NOT EXISTS "firstResponseDueAt" timestamp;
+ALTER TABLE public.tickets ADD COLUMN IF NOT EXISTS "slaRuleId" uuid REFERENCES public."slaRules"(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_first_response_due ON public.tickets("firstResponseDueAt") WHERE "firstResponseDueAt" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sla_rules_active ON public."slaRules"("isActive", "sortOrder" DESC);
+CREATE INDEX IF NOT EXISTS idx_business_hours_studio ON public."businessHours"("studioId", "dayOfWeek");
@@ -0,0 +1,8 @@
+-- Idempotent automatic escalations
+-- The server escalation runner claims each (ticket, rule, condition) once before applying actions
+
+ALTER TABLE public."escalationLog" ADD COLUMN IF NOT EXISTS "conditionKey" text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_escalation_log_rule_condition
+  ON public."escalationLog"("ticketId", "ruleId", "conditionKey")
+  WHERE "ruleId" IS NOT NULL AND "conditionKey" IS NOT NULL;
@@ -0,0 +1,19 @@
+-- Workflow rules engine
+-- The server loads active rules per trigger event in runOrder on every ticket/comment write
+
+CREATE TABLE IF NOT EXISTS public."workflowRules" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name" text NOT NULL,
+  "description" text,
+  "triggerEvent" text NOT NULL,
+  "conditions" jsonb NOT NULL,
+  "actions" jsonb NOT NULL,
+  "isActive" boolean DEFAULT true,
+  "runOrder" integer DEFAULT 0,
+  "createdAt" timestamp DEFAULT now(),
+  "updatedAt" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_rules_trigger
+  ON public."workflowRules"("triggerEvent", "runOrder")
+  WHERE "isActive" = true;
@@ -0,0 +1,99 @@
+-- Sequential ticket numbers per studio
+-- Replaces random client/server generated numbers. Every insert into tickets gets its
+-- number from next_ticket_number(), whichever path created the row.
+
+ALTER TABLE public.categories ADD COLUMN IF NOT EXISTS "ticketNumberPrefix" text;
+ALTER TABLE public.categories ADD COLUMN IF NOT EXISTS "ticketNumberPattern" text;
+
+COMMENT ON COLUMN public.categories."ticketNumberPattern" IS
+  'Tokens: {prefix} {yyyy} {yy} {mm} {dd} {studio} {category} {seq} {seq:N}. Default {prefix}-{yy}{mm}-{studio}-{seq:4}';
+
+-- One counter per rendered number prefix (e.g. "TKT-2610-KH-{seq}"), so each studio
+-- and period counts independently
+CREATE TABLE IF NOT EXISTS public."ticketNumberSequences" (
+  "scope" text PRIMARY KEY,
+  "lastValue" integer NOT NULL DEFAULT 0,
+  "updatedAt" timestamptz DEFAULT now()
+);
+
+-- No policies: only the security definer function below writes counters
+ALTER TABLE public."ticketNumberSequences" ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.next_ticket_number(p_studio_id uuid, p_category_id uuid DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_studio_code text;
+  v_time_zone text;
+  v_prefix text;
+  v_pattern text;
+  v_category_code text;
+  v_local timestamp;
+  v_width integer;
+  v_rendered text;
+  v_seq integer;
+BEGIN
+  SELECT upper(s.code), s."timeZone" INTO v_studio_code, v_time_zone
+  FROM public.studios s WHERE s.id = p_studio_id;
+
+  IF p_category_id IS NOT NULL THEN
+    SELECT c."ticketNumberPrefix", c."ticketNumberPattern", upper(c.code)
+    INTO v_prefix, v_pattern, v_category_code
+    FROM public.categories c WHERE c.id = p_category_id;
+  END IF;
+
+  v_studio_code := coalesce(nullif(v_studio_code, ''), 'GEN');
+  v_time_zone := coalesce(nullif(v_time_zone, ''), 'Asia/Kolkata');
+  v_prefix := coalesce(nullif(v_prefix, ''), 'TKT');
+  v_pattern := coalesce(nullif(v_pattern, ''), '{prefix}-{yy}{mm}-{studio}-{seq:4}');
+  v_category_code := coalesce(v_category_code, '');
+
+  IF v_pattern !~ '\{seq(:\d+)?\}' THEN
+    v_pattern := v_pattern || '-{seq:4}';
+  END IF;
+  v_width := coalesce((regexp_match(v_pattern, '\{seq:(\d+)\}'))[1]::integer, 4);
+  v_local := now() AT TIME ZONE v_time_zone;
+
+  v_rendered := v_pattern;
+  v_rendered := replace(v_rendered, '{prefix}', v_prefix);
+  v_rendered := replace(v_rendered, '{yyyy}', to_char(v_local, 'YYYY'));
+  v_rendered := replace(v_rendered, '{yy}', to_char(v_local, 'YY'));
+  v_rendered := replace(v_rendered, '{mm}', to_char(v_local, 'MM'));
+  v_rendered := replace(v_rendered, '{dd}', to_char(v_local, 'DD'));
+  v_rendered := replace(v_rendered, '{studio}', v_studio_code);
+  v_rendered := replace(v_rendered, '{category}', v_category_code);
+  v_rendered := regexp_replace(v_rendered, '\{seq(:\d+)?\}', '{seq}', 'g');
+
+  -- Row lock on the counter serialises concurrent inserts for the same scope
+  INSERT INTO public."ticketNumberSequences" ("scope", "lastValue")
+  VALUES (v_rendered, 1)
+  ON CONFLICT ("scope") DO UPDATE
+    SET "lastValue" = public."ticketNumberSequences"."lastValue" + 1,
+        "updatedAt" = now()
+  RETURNING "lastValue" INTO v_seq;
+
+  RETURN replace(v_rendered, '{seq}', lpad(v_seq::text, greatest(v_width, length(v_seq::text)), '0'));
+END;
+$$;
+
+-- Always overwrite: numbers supplied by callers are ignored
+CREATE OR REPLACE FUNCTION public.assign_ticket_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW."ticketNumber" := public.next_ticket_number(NEW."studioId", NEW."categoryId");
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_ticket_number ON public.tickets;
+CREATE TRIGGER assign_ticket_number
+  BEFORE INSERT ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_ticket_number();
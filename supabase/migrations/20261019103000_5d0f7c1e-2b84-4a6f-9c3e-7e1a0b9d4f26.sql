@@ -0,0 +1,148 @@
+-- Studio-scoped ticket visibility
+-- Admins see every studio. Everyone else sees tickets in their home studio
+-- (users."studioId") and any studio granted in "userStudioAccess", plus the
+-- tickets they reported or are assigned. Managers with neither a home studio nor
+-- a grant keep all-studio access, so scoping takes effect once a user is configured.
+
+CREATE OR REPLACE FUNCTION public.user_studio_ids(_user_id text)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT "studioId"::uuid FROM public.users WHERE id = _user_id AND "studioId" IS NOT NULL
+  UNION
+  SELECT "studioId"::uuid FROM public."userStudioAccess" WHERE "userId" = _user_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_all_studio_access(_user_id text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR (
+      public.has_role(_user_id, 'manager')
+      AND NOT EXISTS (SELECT 1 FROM public.user_studio_ids(_user_id))
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_studio(_user_id text, _studio_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_all_studio_access(_user_id)
+    OR _studio_id IN (SELECT public.user_studio_ids(_user_id))
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_ticket(_user_id text, _ticket_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tickets t
+    WHERE t.id = _ticket_id
+      AND (
+        t."assignedToUserId" = _user_id
+        OR t."reportedByUserId" = _user_id
+        OR public.can_access_studio(_user_id, t."studioId")
+      )
+  )
+$$;
+
+-- tickets
+DROP POLICY IF EXISTS "Users can read relevant tickets" ON public.tickets;
+CREATE POLICY "Users can read tickets in their studios" ON public.tickets
+  FOR SELECT USING (
+    "assignedToUserId" = auth.uid()::text OR
+    "reportedByUserId" = auth.uid()::text OR
+    public.can_access_studio(auth.uid()::text, "studioId")
+  );
+
+DROP POLICY IF EXISTS "Users can update assigned tickets" ON public.tickets;
+CREATE POLICY "Users can update assigned tickets" ON public.tickets
+  FOR UPDATE USING (
+    "assignedToUserId" = auth.uid()::text OR
+    (public.is_admin_or_manager(auth.uid()::text) AND public.can_access_studio(auth.uid()::text, "studioId"))
+  );
+
+DROP POLICY IF EXISTS "Only admins can delete tickets" ON public.tickets;
+CREATE POLICY "Only admins can delete tickets" ON public.tickets
+  FOR DELETE USING (
+    public.is_admin_or_manager(auth.uid()::text) AND public.can_access_studio(auth.uid()::text, "studioId")
+  );
+
+-- ticketComments: internal comments stay admin/manager only
+DROP POLICY IF EXISTS "Users can read comments on accessible tickets" ON public."ticketComments";
+CREATE POLICY "Users can read comments on accessible tickets" ON public."ticketComments"
+  FOR SELECT USING (
+    public.can_access_ticket(auth.uid()::text, "ticketId")
+    AND (
+      "isInternal" IS NOT TRUE
+      OR public.is_admin_or_manager(auth.uid()::text)
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage all comments" ON public."ticketComments";
+CREATE POLICY "Admins can manage all comments" ON public."ticketComments"
+  FOR ALL USING (
+    public.is_admin_or_manager(auth.uid()::text) AND public.can_access_ticket(auth.uid()::text, "ticketId")
+  );
+
+-- ticketHistory
+DROP POLICY IF EXISTS "Users can read history on accessible tickets" ON public."ticketHistory";
+CREATE POLICY "Users can read history on accessible tickets" ON public."ticketHistory"
+  FOR SELECT USING (public.can_access_ticket(auth.uid()::text, "ticketId"));
+
+DROP POLICY IF EXISTS "Admins can manage all history" ON public."ticketHistory";
+CREATE POLICY "Admins can manage all history" ON public."ticketHistory"
+  FOR ALL USING (
+    public.is_admin_or_manager(auth.uid()::text) AND public.can_access_ticket(auth.uid()::text, "ticketId")
+  );
+
+-- ticketAttachments
+DROP POLICY IF EXISTS "Users can read attachments on accessible tickets" ON public."ticketAttachments";
+CREATE POLICY "Users can read attachments on accessible tickets" ON public."ticketAttachments"
+  FOR SELECT USING (public.can_access_ticket(auth.uid()::text, "ticketId"));
+
+DROP POLICY IF EXISTS "Admins can manage all attachments" ON public."ticketAttachments";
+CREATE POLICY "Admins can manage all attachments" ON public."ticketAttachments"
+  FOR ALL USING (
+    public.is_admin_or_manager(auth.uid()::text) AND public.can_access_ticket(auth.uid()::text, "ticketId")
+  );
+
+-- ticketWatchers
+DROP POLICY IF EXISTS "Users can see watchers on accessible tickets" ON public."ticketWatchers";
+CREATE POLICY "Users can see watchers on accessible tickets" ON public."ticketWatchers"
+  FOR SELECT USING (public.can_access_ticket(auth.uid()::text, "ticketId"));
+
+DROP POLICY IF EXISTS "Admins can manage all watchers" ON public."ticketWatchers";
+CREATE POLICY "Admins can manage all watchers" ON public."ticketWatchers"
+  FOR ALL USING (
+    public.is_admin_or_manager(auth.uid()::text) AND public.can_access_ticket(auth.uid()::text, "ticketId")
+  );
+
+-- customerFeedback
+DROP POLICY IF EXISTS "Users can read feedback on accessible tickets" ON public."customerFeedback";
+CREATE POLICY "Users can read feedback on accessible tickets" ON public."customerFeedback"
+  FOR SELECT USING (public.can_access_ticket(auth.uid()::text, "ticketId"));
+
+DROP POLICY IF EXISTS "Admins can manage all feedback" ON public."customerFeedback";
+CREATE POLICY "Admins can manage all feedback" ON public."customerFeedback"
+  FOR ALL USING (
+    public.is_admin_or_manager(auth.uid()::text) AND public.can_access_ticket(auth.uid()::text, "ticketId")
+  );
+
+-- userStudioAccess: grants are managed by admins only
+DROP POLICY IF EXISTS "Admins can manage all studio access" ON public."userStudioAccess";
+CREATE POLICY "Admins can manage all studio access" ON public."userStudioAccess"
+  FOR ALL USING (public.has_role(auth.uid()::text, 'admin'));
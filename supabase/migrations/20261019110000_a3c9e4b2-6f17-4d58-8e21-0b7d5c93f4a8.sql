@@ -0,0 +1,145 @@
+-- Ranked ticket search
+-- Full-text search over ticket text, customer details, tags and comments, with
+-- trigram matching on short fields so typos still find the ticket.
+-- search_tickets runs as the caller: client calls are limited by RLS, and the
+-- server (service role) passes p_user_id to apply the same studio scoping.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Tickets: maintained by trigger because tags (an array) can't feed a generated column
+ALTER TABLE public.tickets ADD COLUMN IF NOT EXISTS "searchVector" tsvector;
+
+CREATE OR REPLACE FUNCTION public.build_ticket_search_vector(t public.tickets)
+RETURNS tsvector
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(t."ticketNumber", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(t.title, '')), 'A') ||
+    setweight(to_tsvector('simple', concat_ws(' ', t."customerName", t."customerEmail", t."customerPhone")), 'B') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(t.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', concat_ws(' ', t.description, t."resolutionSummary")), 'C')
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_ticket_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW."searchVector" := public.build_ticket_search_vector(NEW);
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill without bumping updatedAt on every ticket
+DO $$
+DECLARE
+  has_updated_at_trigger boolean := EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgrelid = 'public.tickets'::regclass AND tgname = 'update_tickets_updated_at'
+  );
+BEGIN
+  IF has_updated_at_trigger THEN
+    ALTER TABLE public.tickets DISABLE TRIGGER update_tickets_updated_at;
+  END IF;
+  UPDATE public.tickets SET "searchVector" = public.build_ticket_search_vector(tickets);
+  IF has_updated_at_trigger THEN
+    ALTER TABLE public.tickets ENABLE TRIGGER update_tickets_updated_at;
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_ticket_search_vector ON public.tickets;
+CREATE TRIGGER update_ticket_search_vector
+  BEFORE INSERT OR UPDATE ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_ticket_search_vector();
+
+CREATE INDEX IF NOT EXISTS idx_tickets_search_vector ON public.tickets USING gin("searchVector");
+CREATE INDEX IF NOT EXISTS idx_tickets_title_trgm ON public.tickets USING gin(title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tickets_number_trgm ON public.tickets USING gin("ticketNumber" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tickets_customer_name_trgm ON public.tickets USING gin("customerName" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tickets_customer_email_trgm ON public.tickets USING gin("customerEmail" gin_trgm_ops);
+
+-- Comments
+ALTER TABLE public."ticketComments" ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_ticket_comments_search_vector ON public."ticketComments" USING gin("searchVector");
+
+-- Returns matching ticket ids by relevance with a highlighted snippet.
+-- Snippets mark matches with <mark></mark>; matchedIn is 'ticket', 'comment' or 'similar'.
+CREATE OR REPLACE FUNCTION public.search_tickets(
+  p_query text,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0,
+  p_user_id text DEFAULT NULL,
+  p_include_internal boolean DEFAULT false
+)
+RETURNS TABLE (id uuid, rank real, snippet text, "matchedIn" text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS ts, trim(p_query) AS raw
+  ),
+  comment_hits AS (
+    SELECT DISTINCT ON (c."ticketId")
+      c."ticketId",
+      ts_rank(c."searchVector", q.ts) AS rank,
+      ts_headline('english', c.content, q.ts,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=1, MaxWords=24, MinWords=8') AS snippet
+    FROM public."ticketComments" c, q
+    WHERE c."searchVector" @@ q.ts
+      AND (p_include_internal OR c."isInternal" IS NOT TRUE)
+    ORDER BY c."ticketId", ts_rank(c."searchVector", q.ts) DESC
+  ),
+  hits AS (
+    SELECT
+      t.id,
+      t."searchVector" @@ q.ts AS text_match,
+      ts_rank(t."searchVector", q.ts) AS text_rank,
+      greatest(
+        word_similarity(q.raw, t.title),
+        similarity(q.raw, coalesce(t."ticketNumber", '')),
+        similarity(q.raw, coalesce(t."customerName", '')),
+        similarity(q.raw, coalesce(t."customerEmail", ''))
+      ) AS fuzzy_rank,
+      ch.rank AS comment_rank,
+      ch.snippet AS comment_snippet,
+      concat_ws(' · ', t.title, t.description, t."resolutionSummary", t."customerName",
+        t."customerEmail", t."customerPhone", array_to_string(t.tags, ' ')) AS document,
+      t.title,
+      q.ts
+    FROM public.tickets t
+    CROSS JOIN q
+    LEFT JOIN comment_hits ch ON ch."ticketId" = t.id
+    WHERE (
+        t."searchVector" @@ q.ts
+        OR ch."ticketId" IS NOT NULL
+        OR q.raw <% t.title
+        OR q.raw % t."ticketNumber"
+        OR q.raw % t."customerName"
+        OR q.raw % t."customerEmail"
+      )
+      AND (p_user_id IS NULL OR public.can_access_ticket(p_user_id, t.id))
+  )
+  SELECT
+    h.id,
+    (h.text_rank + coalesce(h.comment_rank, 0) * 0.5 + h.fuzzy_rank * 0.3)::real AS rank,
+    CASE
+      WHEN h.text_match THEN ts_headline('english', h.document, h.ts,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=1, MaxWords=24, MinWords=8')
+      WHEN h.comment_snippet IS NOT NULL THEN h.comment_snippet
+      ELSE h.title
+    END AS snippet,
+    CASE
+      WHEN h.text_match THEN 'ticket'
+      WHEN h.comment_snippet IS NOT NULL THEN 'comment'
+      ELSE 'similar'
+    END AS "matchedIn"
+  FROM hits h
+  ORDER BY rank DESC
+  LIMIT p_limit OFFSET p_offset
+$$;
@@ -0,0 +1,15 @@
+-- Attachment storage
+-- Files are stored content-addressed by SHA-256 on local disk or in the
+-- private "ticket-attachments" Supabase Storage bucket; storageBackend records
+-- which. Downloads go through the API, never straight to the bucket.
+
+ALTER TABLE public."ticketAttachments"
+  ADD COLUMN IF NOT EXISTS "sha256" varchar(64),
+  ADD COLUMN IF NOT EXISTS "storageBackend" varchar(20) DEFAULT 'local';
+
+CREATE INDEX IF NOT EXISTS idx_ticket_attachments_ticket ON public."ticketAttachments"("ticketId");
+CREATE INDEX IF NOT EXISTS idx_ticket_attachments_sha256 ON public."ticketAttachments"("sha256", "storageBackend");
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('ticket-attachments', 'ticket-attachments', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,111 @@
+-- Ticket merging
+-- merge_tickets folds a duplicate (secondary) ticket into a primary one in a
+-- single transaction: comments, attachments, history and watchers move to the
+-- primary, tags are combined, and the secondary is closed with a link back.
+
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS "mergedIntoTicketId" uuid REFERENCES public.tickets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_merged_into ON public.tickets("mergedIntoTicketId")
+  WHERE "mergedIntoTicketId" IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.merge_tickets(
+  p_primary_id uuid,
+  p_secondary_id uuid,
+  p_user_id text,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_primary public.tickets%ROWTYPE;
+  v_secondary public.tickets%ROWTYPE;
+  v_comments integer;
+  v_attachments integer;
+  v_history integer;
+  v_watchers integer;
+BEGIN
+  IF p_primary_id = p_secondary_id THEN
+    RAISE EXCEPTION 'A ticket cannot be merged into itself' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock in a fixed order so concurrent merges of the same pair can't deadlock
+  PERFORM 1 FROM public.tickets WHERE id IN (p_primary_id, p_secondary_id) ORDER BY id FOR UPDATE;
+  SELECT * INTO v_primary FROM public.tickets WHERE id = p_primary_id;
+  SELECT * INTO v_secondary FROM public.tickets WHERE id = p_secondary_id;
+
+  IF v_primary.id IS NULL OR v_secondary.id IS NULL THEN
+    RAISE EXCEPTION 'Ticket not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_primary."mergedIntoTicketId" IS NOT NULL THEN
+    RAISE EXCEPTION 'Ticket % has itself been merged and cannot be the primary', v_primary."ticketNumber" USING ERRCODE = '22023';
+  END IF;
+  IF v_secondary."mergedIntoTicketId" IS NOT NULL THEN
+    RAISE EXCEPTION 'Ticket % has already been merged', v_secondary."ticketNumber" USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public."ticketComments" SET "ticketId" = p_primary_id WHERE "ticketId" = p_secondary_id;
+  GET DIAGNOSTICS v_comments = ROW_COUNT;
+
+  UPDATE public."ticketAttachments" SET "ticketId" = p_primary_id WHERE "ticketId" = p_secondary_id;
+  GET DIAGNOSTICS v_attachments = ROW_COUNT;
+
+  UPDATE public."ticketHistory" SET "ticketId" = p_primary_id WHERE "ticketId" = p_secondary_id;
+  GET DIAGNOSTICS v_history = ROW_COUNT;
+
+  -- Watchers of both tickets keep a single entry on the primary
+  INSERT INTO public."ticketWatchers" ("ticketId", "userId", "watchType", "addedByUserId")
+  SELECT p_primary_id, "userId", "watchType", "addedByUserId"
+  FROM public."ticketWatchers"
+  WHERE "ticketId" = p_secondary_id
+  ON CONFLICT ("ticketId", "userId") DO NOTHING;
+  GET DIAGNOSTICS v_watchers = ROW_COUNT;
+  DELETE FROM public."ticketWatchers" WHERE "ticketId" = p_secondary_id;
+
+  UPDATE public.tickets
+  SET tags = (
+        SELECT array_agg(DISTINCT tag)
+        FROM unnest(coalesce(v_primary.tags, '{}') || coalesce(v_secondary.tags, '{}')) AS tag
+      ),
+      "updatedAt" = now()
+  WHERE id = p_primary_id;
+
+  UPDATE public.tickets
+  SET status = 'closed',
+      "mergedIntoTicketId" = p_primary_id,
+      "resolutionSummary" = 'Merged into ' || v_primary."ticketNumber",
+      "resolvedAt" = coalesce("resolvedAt", now()),
+      "closedAt" = now(),
+      "updatedAt" = now()
+  WHERE id = p_secondary_id;
+
+  INSERT INTO public."ticketComments" ("ticketId", "userId", content, "commentType", "isInternal")
+  VALUES
+    (p_primary_id, p_user_id,
+      'Merged ' || v_secondary."ticketNumber" || ' (' || v_secondary.title || ') into this ticket'
+        || coalesce(': ' || nullif(p_reason, ''), '.'),
+      'update', true),
+    (p_secondary_id, p_user_id, 'This ticket was merged into ' || v_primary."ticketNumber" || '.', 'update', false);
+
+  INSERT INTO public."ticketHistory" ("ticketId", "changedByUserId", action, "fieldChanged", "oldValue", "newValue", "changeReason")
+  VALUES
+    (p_primary_id, p_user_id, 'merged', 'mergedTicket', NULL, to_jsonb(v_secondary."ticketNumber"), p_reason),
+    (p_secondary_id, p_user_id, 'merged', 'mergedIntoTicketId', NULL, to_jsonb(v_primary."ticketNumber"), p_reason);
+
+  RETURN jsonb_build_object(
+    'primaryId', p_primary_id,
+    'primaryTicketNumber', v_primary."ticketNumber",
+    'secondaryId', p_secondary_id,
+    'secondaryTicketNumber', v_secondary."ticketNumber",
+    'movedComments', v_comments,
+    'movedAttachments', v_attachments,
+    'movedHistory', v_history,
+    'movedWatchers', v_watchers
+  );
+END;
+$$;
+
+-- Only the API (service role) merges; it checks permissions and studio access first
+REVOKE EXECUTE ON FUNCTION public.merge_tickets(uuid, uuid, text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,125 @@
+-- Sub-tickets
+-- A parent ticket can be split into child tickets via parentTicketId (one level
+-- deep). Triggers keep the tree consistent for every writer (API, direct
+-- Supabase updates, workflows, merges):
+--   * a parent with blockCloseWithOpenChildren can't resolve or close while
+--     any child is still open
+--   * a child starting work moves a new/assigned parent to in_progress
+--   * an open child under a finished (blocking) parent reopens it
+--   * children of a merged ticket follow it to the primary
+
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS "blockCloseWithOpenChildren" boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_parent ON public.tickets("parentTicketId")
+  WHERE "parentTicketId" IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.enforce_sub_ticket_rules()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parent public.tickets%ROWTYPE;
+  v_open integer;
+BEGIN
+  IF NEW."parentTicketId" IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW."parentTicketId" IS DISTINCT FROM OLD."parentTicketId") THEN
+    IF NEW."parentTicketId" = NEW.id THEN
+      RAISE EXCEPTION 'A ticket cannot be its own sub-ticket' USING ERRCODE = '22023';
+    END IF;
+    SELECT * INTO v_parent FROM public.tickets WHERE id = NEW."parentTicketId";
+    IF v_parent."parentTicketId" IS NOT NULL THEN
+      RAISE EXCEPTION '% is itself a sub-ticket; sub-tickets are one level deep', v_parent."ticketNumber" USING ERRCODE = '22023';
+    END IF;
+    IF v_parent."mergedIntoTicketId" IS NOT NULL THEN
+      RAISE EXCEPTION '% has been merged and cannot take sub-tickets', v_parent."ticketNumber" USING ERRCODE = '22023';
+    END IF;
+    IF TG_OP = 'UPDATE' AND EXISTS (SELECT 1 FROM public.tickets WHERE "parentTicketId" = NEW.id) THEN
+      RAISE EXCEPTION '% has sub-tickets and cannot become one', NEW."ticketNumber" USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  -- Children of a merged ticket move with it, so closing it below isn't blocked
+  IF TG_OP = 'UPDATE' AND NEW."mergedIntoTicketId" IS NOT NULL AND OLD."mergedIntoTicketId" IS NULL THEN
+    UPDATE public.tickets SET "parentTicketId" = NEW."mergedIntoTicketId" WHERE "parentTicketId" = NEW.id;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IN ('resolved', 'closed')
+     AND coalesce(OLD.status, 'new') NOT IN ('resolved', 'closed')
+     AND NEW."blockCloseWithOpenChildren" THEN
+    SELECT count(*) INTO v_open
+    FROM public.tickets
+    WHERE "parentTicketId" = NEW.id AND coalesce(status, 'new') NOT IN ('resolved', 'closed');
+    IF v_open > 0 THEN
+      RAISE EXCEPTION '% has % open sub-ticket(s); finish them first or allow closing with open sub-tickets',
+        NEW."ticketNumber", v_open USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_sub_ticket_rules ON public.tickets;
+CREATE TRIGGER enforce_sub_ticket_rules
+  BEFORE INSERT OR UPDATE OF status, "parentTicketId", "mergedIntoTicketId" ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_sub_ticket_rules();
+
+CREATE OR REPLACE FUNCTION public.roll_up_sub_ticket_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parent public.tickets%ROWTYPE;
+  v_status text;
+  v_reason text;
+BEGIN
+  IF NEW."parentTicketId" IS NULL THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IS NOT DISTINCT FROM OLD.status
+     AND NEW."parentTicketId" IS NOT DISTINCT FROM OLD."parentTicketId" THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_parent FROM public.tickets WHERE id = NEW."parentTicketId" FOR UPDATE;
+
+  IF coalesce(NEW.status, 'new') NOT IN ('resolved', 'closed')
+     AND v_parent.status IN ('resolved', 'closed')
+     AND v_parent."blockCloseWithOpenChildren"
+     AND v_parent."mergedIntoTicketId" IS NULL THEN
+    v_status := 'reopened';
+    v_reason := 'Sub-ticket ' || NEW."ticketNumber" || ' is open again';
+  ELSIF NEW.status = 'in_progress' AND coalesce(v_parent.status, 'new') IN ('new', 'assigned') THEN
+    v_status := 'in_progress';
+    v_reason := 'Work started on sub-ticket ' || NEW."ticketNumber";
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.tickets
+  SET status = v_status,
+      "reopenedAt" = CASE WHEN v_status = 'reopened' THEN now() ELSE "reopenedAt" END,
+      "closedAt" = CASE WHEN v_status = 'reopened' THEN NULL ELSE "closedAt" END,
+      "updatedAt" = now()
+  WHERE id = v_parent.id;
+
+  INSERT INTO public."ticketHistory" ("ticketId", action, "fieldChanged", "oldValue", "newValue", "changeReason", "automatedChange")
+  VALUES (v_parent.id, 'updated', 'status', to_jsonb(v_parent.status), to_jsonb(v_status), v_reason, true);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS roll_up_sub_ticket_status ON public.tickets;
+CREATE TRIGGER roll_up_sub_ticket_status
+  AFTER INSERT OR UPDATE OF status, "parentTicketId" ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.roll_up_sub_ticket_status();
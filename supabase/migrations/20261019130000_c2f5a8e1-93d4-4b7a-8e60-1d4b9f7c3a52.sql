@@ -0,0 +1,33 @@
+-- Ticket watchers
+-- The API upserts watchers by (ticketId, userId) and fans notifications out by
+-- watchType, so make sure the pair is unique, the type is one we understand,
+-- and a user's watches can be listed quickly.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'public."ticketWatchers"'::regclass AND contype = 'u'
+  ) THEN
+    -- Keep the earliest row of any duplicate pair before adding the constraint
+    DELETE FROM public."ticketWatchers" w
+    USING public."ticketWatchers" earlier
+    WHERE w."ticketId" = earlier."ticketId"
+      AND w."userId" = earlier."userId"
+      AND (w."createdAt", w.id) > (earlier."createdAt", earlier.id);
+
+    ALTER TABLE public."ticketWatchers"
+      ADD CONSTRAINT "ticketWatchers_ticketId_userId_key" UNIQUE ("ticketId", "userId");
+  END IF;
+END;
+$$;
+
+UPDATE public."ticketWatchers" SET "watchType" = 'all'
+WHERE "watchType" IS NULL OR "watchType" NOT IN ('all', 'updates', 'comments', 'status');
+
+ALTER TABLE public."ticketWatchers" ALTER COLUMN "watchType" SET DEFAULT 'all';
+ALTER TABLE public."ticketWatchers" DROP CONSTRAINT IF EXISTS "ticketWatchers_watchType_check";
+ALTER TABLE public."ticketWatchers"
+  ADD CONSTRAINT "ticketWatchers_watchType_check" CHECK ("watchType" IN ('all', 'updates', 'comments', 'status'));
+
+CREATE INDEX IF NOT EXISTS idx_ticket_watchers_user ON public."ticketWatchers"("userId");
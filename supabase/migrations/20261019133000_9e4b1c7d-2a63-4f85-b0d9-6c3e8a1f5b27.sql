@@ -0,0 +1,36 @@
+-- Notification outbox
+-- Outgoing emails are inserted in the same transaction as the ticket change that
+-- caused them, then delivered by the server's outbox worker. Failed attempts are
+-- retried with exponential backoff; after maxAttempts a row is dead-lettered
+-- until an admin resends it.
+
+CREATE TABLE IF NOT EXISTS public."notificationOutbox" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "channel" text NOT NULL DEFAULT 'email',
+  "eventType" text NOT NULL,
+  "recipientEmail" text NOT NULL,
+  "recipientName" text,
+  "payload" jsonb NOT NULL,
+  "ticketId" uuid REFERENCES public.tickets(id) ON DELETE SET NULL,
+  "notificationId" uuid,
+  "status" text NOT NULL DEFAULT 'pending'
+    CHECK ("status" IN ('pending', 'sending', 'sent', 'dead')),
+  "attempts" integer NOT NULL DEFAULT 0,
+  "maxAttempts" integer NOT NULL DEFAULT 8,
+  "nextAttemptAt" timestamp NOT NULL DEFAULT now(),
+  "lockedAt" timestamp,
+  "lastError" text,
+  "sentAt" timestamp,
+  "createdAt" timestamp DEFAULT now(),
+  "updatedAt" timestamp DEFAULT now()
+);
+
+-- The worker polls for due rows; admins list failures
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+  ON public."notificationOutbox"("nextAttemptAt")
+  WHERE "status" = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_status
+  ON public."notificationOutbox"("status", "createdAt" DESC);
+
+-- Only the server (service role) reads or writes the outbox
+ALTER TABLE public."notificationOutbox" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,33 @@
+-- Inbound email
+-- Messages posted by the mail relay become tickets (source 'email') or comments on
+-- the ticket they reply to. Each message is logged once by its Message-ID so relay
+-- retries don't create duplicates, and ignored messages (auto-replies, bounces)
+-- record why.
+
+CREATE TABLE IF NOT EXISTS public."inboundEmails" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "messageId" text NOT NULL UNIQUE,
+  "fromEmail" text,
+  "fromName" text,
+  "recipients" text[],
+  "subject" text,
+  "status" text NOT NULL CHECK ("status" IN ('created', 'replied', 'ignored', 'rejected')),
+  "reason" text,
+  "ticketId" uuid REFERENCES public.tickets(id) ON DELETE SET NULL,
+  "commentId" uuid,
+  "receivedAt" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_ticket ON public."inboundEmails"("ticketId");
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_received ON public."inboundEmails"("receivedAt" DESC);
+
+-- Only the server (service role) reads or writes the log
+ALTER TABLE public."inboundEmails" ENABLE ROW LEVEL SECURITY;
+
+-- Comments from outside the app keep their sender
+ALTER TABLE public."ticketComments" ADD COLUMN IF NOT EXISTS "authorName" text;
+ALTER TABLE public."ticketComments" ADD COLUMN IF NOT EXISTS "authorEmail" text;
+
+-- Inbound mail is matched to studios and teams by their address
+CREATE INDEX IF NOT EXISTS idx_studios_email_lower ON public.studios(lower("email"));
+CREATE INDEX IF NOT EXISTS idx_teams_email_lower ON public.teams(lower("email"));
@@ -0,0 +1,24 @@
+-- Digest settings
+-- Per-user schedule for the daily digest and the managers' weekly summary.
+-- deliveryTime is wall-clock time in timeZone; the server's digest scheduler
+-- records when each was last sent so a digest goes out once per local day.
+
+CREATE TABLE IF NOT EXISTS public."digestSettings" (
+  "userId" text PRIMARY KEY,
+  "dailyEnabled" boolean NOT NULL DEFAULT false,
+  "weeklyEnabled" boolean NOT NULL DEFAULT false,
+  "deliveryTime" varchar(5) NOT NULL DEFAULT '08:00'
+    CHECK ("deliveryTime" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  "timeZone" text NOT NULL DEFAULT 'Asia/Kolkata',
+  "weeklyDay" integer NOT NULL DEFAULT 1 CHECK ("weeklyDay" BETWEEN 0 AND 6),
+  "lastDailySentAt" timestamp,
+  "lastWeeklySentAt" timestamp,
+  "updatedAt" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_settings_enabled
+  ON public."digestSettings"("userId")
+  WHERE "dailyEnabled" OR "weeklyEnabled";
+
+-- Read and written through the server API only
+ALTER TABLE public."digestSettings" ENABLE ROW LEVEL SECURITY;
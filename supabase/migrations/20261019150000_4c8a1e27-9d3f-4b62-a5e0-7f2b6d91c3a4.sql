@@ -0,0 +1,21 @@
+-- Notification preferences
+-- Per-user event x channel matrix (in_app, email, push) stored as JSON; events
+-- missing from it use the application defaults. During quiet hours (wall-clock
+-- time in timeZone) email waits until they end and push stays silent, except
+-- for tickets whose priority is listed in overridePriorities.
+
+CREATE TABLE IF NOT EXISTS public."notificationPreferences" (
+  "userId" text PRIMARY KEY,
+  "channels" jsonb NOT NULL DEFAULT '{}'::jsonb,
+  "quietHoursEnabled" boolean NOT NULL DEFAULT false,
+  "quietHoursStart" varchar(5) NOT NULL DEFAULT '22:00'
+    CHECK ("quietHoursStart" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  "quietHoursEnd" varchar(5) NOT NULL DEFAULT '07:00'
+    CHECK ("quietHoursEnd" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  "timeZone" text NOT NULL DEFAULT 'Asia/Kolkata',
+  "overridePriorities" text[] NOT NULL DEFAULT ARRAY['critical']::text[],
+  "updatedAt" timestamp DEFAULT now()
+);
+
+-- Read and written through the server API only
+ALTER TABLE public."notificationPreferences" ENABLE ROW LEVEL SECURITY;
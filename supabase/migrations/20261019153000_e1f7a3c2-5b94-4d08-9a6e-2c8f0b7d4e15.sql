@@ -0,0 +1,20 @@
+-- Push subscriptions
+-- One row per browser/device a user enabled Web Push on. The endpoint is the
+-- browser push service URL; p256dh and auth are the keys payloads are encrypted
+-- with. The server drops a row when the push service reports it gone.
+
+CREATE TABLE IF NOT EXISTS public."pushSubscriptions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" text NOT NULL,
+  "endpoint" text NOT NULL UNIQUE,
+  "p256dh" text NOT NULL,
+  "auth" text NOT NULL,
+  "userAgent" text,
+  "createdAt" timestamp DEFAULT now(),
+  "lastSuccessAt" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON public."pushSubscriptions"("userId");
+
+-- Read and written through the server API only
+ALTER TABLE public."pushSubscriptions" ENABLE ROW LEVEL SECURITY;
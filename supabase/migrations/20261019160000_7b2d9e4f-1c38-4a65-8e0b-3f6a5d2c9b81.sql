@@ -0,0 +1,22 @@
+-- Customer feedback
+-- CSAT survey responses land here (feedbackType 'csat'), one row per answered
+-- survey; the server reads them back per ticket and for analytics by studio and
+-- team. Created here for databases that predate it.
+
+CREATE TABLE IF NOT EXISTS public."customerFeedback" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "ticketId" uuid NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  "customerEmail" text,
+  "customerName" text,
+  "rating" integer,
+  "feedback" text,
+  "feedbackType" text,
+  "followUpRequired" boolean DEFAULT false,
+  "isPublic" boolean DEFAULT false,
+  "tags" text[],
+  "createdAt" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_feedback_ticket ON public."customerFeedback"("ticketId", "feedbackType");
+
+ALTER TABLE public."customerFeedback" ENABLE ROW LEVEL SECURITY;
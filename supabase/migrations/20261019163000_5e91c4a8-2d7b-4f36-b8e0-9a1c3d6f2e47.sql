@@ -0,0 +1,20 @@
+-- Macros
+-- Named bundles of ticket changes (field updates, tags, assignment and a comment
+-- template) that agents apply from ticket detail or in bulk. Each is private to
+-- its creator unless shared; every step it takes is written to ticketHistory.
+
+CREATE TABLE IF NOT EXISTS public."macros" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name" text NOT NULL,
+  "description" text,
+  "actions" jsonb NOT NULL,
+  "isShared" boolean NOT NULL DEFAULT false,
+  "createdByUserId" text NOT NULL,
+  "usageCount" integer NOT NULL DEFAULT 0,
+  "createdAt" timestamp DEFAULT now(),
+  "updatedAt" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_macros_creator ON public."macros"("createdByUserId");
+
+ALTER TABLE public."macros" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,18 @@
+-- CSAT survey answers
+-- Each survey email is identified by its ticket and send time (carried in the
+-- signed link), and may be answered once: the answer records which survey it is
+-- for and the pair is unique, so two submissions racing each other can't both land.
+
+ALTER TABLE public."customerFeedback" ADD COLUMN IF NOT EXISTS "surveySentAt" timestamp;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'customerFeedback_ticketId_surveySentAt_key'
+  ) THEN
+    ALTER TABLE public."customerFeedback"
+      ADD CONSTRAINT "customerFeedback_ticketId_surveySentAt_key" UNIQUE ("ticketId", "surveySentAt");
+  END IF;
+END;
+$$;
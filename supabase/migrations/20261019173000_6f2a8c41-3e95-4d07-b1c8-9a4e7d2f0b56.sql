@@ -0,0 +1,29 @@
+-- Internal notes
+-- Who may read internal notes, in one place: mirrors canViewInternalNotes in
+-- shared/permissions.ts (admins, managers and staff), which the API, the live
+-- channel, notifications and search use.
+
+CREATE OR REPLACE FUNCTION public.can_view_internal_notes(_user_id text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role IN ('admin', 'manager', 'staff')
+  )
+$$;
+
+DROP POLICY IF EXISTS "Users can read comments on accessible tickets" ON public."ticketComments";
+CREATE POLICY "Users can read comments on accessible tickets" ON public."ticketComments"
+  FOR SELECT USING (
+    public.can_access_ticket(auth.uid()::text, "ticketId")
+    AND (
+      "isInternal" IS NOT TRUE
+      OR public.can_view_internal_notes(auth.uid()::text)
+    )
+  );
@@ -0,0 +1,21 @@
+-- Internal attachments
+-- Attachments that are not public, or that sit on an internal note, follow the
+-- internal notes rule: only roles in can_view_internal_notes() may read them.
+
+DROP POLICY IF EXISTS "Users can read attachments on accessible tickets" ON public."ticketAttachments";
+CREATE POLICY "Users can read attachments on accessible tickets" ON public."ticketAttachments"
+  FOR SELECT USING (
+    public.can_access_ticket(auth.uid()::text, "ticketId")
+    AND (
+      public.can_view_internal_notes(auth.uid()::text)
+      OR (
+        "isPublic" IS TRUE
+        AND NOT EXISTS (
+          SELECT 1
+          FROM public."ticketComments" c
+          WHERE c.id = "ticketAttachments"."commentId"
+            AND c."isInternal" IS TRUE
+        )
+      )
+    )
+  );
@@ -0,0 +1,7 @@
+-- Inbound email claims
+-- A message is logged as 'processing' before it is handled, so a relay retry that
+-- races the first delivery finds its Message-ID taken, then updated with the outcome.
+
+ALTER TABLE public."inboundEmails" DROP CONSTRAINT IF EXISTS "inboundEmails_status_check";
+ALTER TABLE public."inboundEmails" ADD CONSTRAINT "inboundEmails_status_check"
+  CHECK ("status" IN ('processing', 'created', 'replied', 'ignored', 'rejected'));